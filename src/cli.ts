@@ -1,10 +1,10 @@
 #!/usr/bin/env node
 
-import { startIDEServer } from './ide-server.js'
+import { startIDEServer, AUTH_POLICIES, AuthPolicy } from './ide-server.js'
 import { startMCPServer } from './mcp-server.js'
 import { fileURLToPath } from 'url'
 import path from 'path'
-import { Command } from 'commander'
+import { Command, Option } from 'commander'
 import { enableDebug } from './debug.js'
 
 const program = new Command()
@@ -19,14 +19,47 @@ program
   .option('-w, --workspace <path>', 'Workspace folder (default: current directory)')
   .option('-n, --name <name>', 'IDE name (default: auto-generated from directory name)')
   .option('-d, --debug', 'Enable debug mode (logs all MCP messages and WebSocket events)')
+  .addOption(
+    new Option('--auth <policy>', 'Auth token policy for IDE connections')
+      .choices(AUTH_POLICIES)
+      .default('strict'),
+  )
+  .option('--allow-root <paths...>', 'Extra directories Claude may access outside the workspace')
+  .option('--deny <patterns...>', 'Extra glob patterns Claude may never read or write')
+  .option(
+    '--reconnect-window <seconds>',
+    'How long to queue /send and /cat events while Claude Code is disconnected',
+    '60',
+  )
+  .option('--conventional-commits', 'Require Conventional Commits messages for /gc and git_commit')
+  .option('--commit-types <types...>', 'Allowed commit types (implies --conventional-commits)')
+  .option('--commit-scopes <scopes...>', 'Allowed commit scopes (implies --conventional-commits)')
   .action(
-    async (options: { port?: string; workspace?: string; name?: string; debug?: boolean }) => {
+    async (options: {
+      port?: string
+      workspace?: string
+      name?: string
+      debug?: boolean
+      auth: AuthPolicy
+      allowRoot?: string[]
+      deny?: string[]
+      reconnectWindow: string
+      conventionalCommits?: boolean
+      commitTypes?: string[]
+      commitScopes?: string[]
+    }) => {
       // Enable debug mode if requested
       if (options.debug) {
         enableDebug()
         console.log('🔍 Debug mode enabled - all MCP messages and WebSocket events will be logged')
       }
 
+      const reconnectWindow = parseFloat(options.reconnectWindow)
+      if (isNaN(reconnectWindow) || reconnectWindow < 0) {
+        console.error(`❌ Invalid --reconnect-window: ${options.reconnectWindow}`)
+        process.exit(1)
+      }
+
       const workspaceFolder = options.workspace || process.cwd()
       const dirName = path.basename(workspaceFolder)
       const ideName = options.name || `claude-term-${dirName}`
@@ -37,7 +70,6 @@ program
 
       try {
         // Start IDE server and MCP server concurrently
-        const internalMcpPort = 12345 // Default internal MCP port
         const [idePort] = await Promise.all([
           startIDEServer({
             port: options.port ? parseInt(options.port) : undefined,
@@ -45,14 +77,20 @@ program
             ideName,
             debug: options.debug,
             noWait: true,
-            internalMcpPort,
+            authPolicy: options.auth,
+            allowedRoots: options.allowRoot,
+            deniedPatterns: options.deny,
+            reconnectWindowMs: reconnectWindow * 1000,
+            commitLint:
+              options.conventionalCommits || options.commitTypes || options.commitScopes
+                ? { types: options.commitTypes, scopes: options.commitScopes }
+                : undefined,
           }),
           startMCPServer({
             workspaceFolder,
             serverName: `${ideName}-mcp`,
             debug: options.debug,
             noWait: true,
-            ideServerPort: internalMcpPort,
           }),
         ])
 
@@ -83,8 +121,18 @@ program
   .option('-w, --workspace <path>', 'Workspace folder (default: current directory)')
   .option('-n, --name <name>', 'MCP server name (default: claude-term-mcp)')
   .option('-d, --debug', 'Enable debug mode (logs all MCP messages and WebSocket events)')
+  .option(
+    '--ide-port <port>',
+    "IDE server's internal MCP port (default: discovered from the workspace)",
+  )
   .action(
-    async (options: { port?: string; workspace?: string; name?: string; debug?: boolean }) => {
+    async (options: {
+      port?: string
+      workspace?: string
+      name?: string
+      debug?: boolean
+      idePort?: string
+    }) => {
       // Enable debug mode if requested
       if (options.debug) {
         enableDebug()
@@ -98,6 +146,7 @@ program
         workspaceFolder,
         serverName,
         debug: options.debug,
+        ideServerPort: options.idePort ? parseInt(options.idePort) : undefined,
       })
     },
   )
@@ -0,0 +1,122 @@
+import { WebSocket } from 'ws'
+import {
+  ALL_CLIENTS,
+  ClientRegistry,
+  describeClient,
+  parseTargetPrefix,
+} from './client-registry.js'
+
+const fakeSocket = (readyState: number = WebSocket.OPEN) =>
+  ({ readyState, send: jest.fn() }) as unknown as WebSocket
+
+const sendMock = (ws: WebSocket) => (ws as unknown as { send: jest.Mock }).send
+
+describe('ClientRegistry', () => {
+  let registry: ClientRegistry
+
+  beforeEach(() => {
+    registry = new ClientRegistry()
+  })
+
+  it('should assign increasing IDs', () => {
+    const first = registry.add(fakeSocket())
+    const second = registry.add(fakeSocket())
+
+    expect(first.id).toBe('1')
+    expect(second.id).toBe('2')
+    expect(registry.size).toBe(2)
+  })
+
+  it('should not reuse IDs after a client disconnects', () => {
+    const ws = fakeSocket()
+    registry.add(ws)
+    registry.remove(ws)
+
+    expect(registry.add(fakeSocket()).id).toBe('2')
+  })
+
+  it('should target the most recently connected client by default', () => {
+    registry.add(fakeSocket())
+    const latest = registry.add(fakeSocket())
+
+    expect(registry.resolve()).toEqual([latest])
+  })
+
+  it('should send to the selected client', () => {
+    const first = registry.add(fakeSocket())
+    const second = registry.add(fakeSocket())
+
+    expect(registry.select('1').success).toBe(true)
+    registry.send({ method: 'at_mentioned' })
+
+    expect(sendMock(first.ws)).toHaveBeenCalledWith('{"method":"at_mentioned"}')
+    expect(sendMock(second.ws)).not.toHaveBeenCalled()
+  })
+
+  it('should broadcast to all clients', () => {
+    const clients = [registry.add(fakeSocket()), registry.add(fakeSocket())]
+
+    const sent = registry.send({ method: 'selection_changed' }, ALL_CLIENTS)
+
+    expect(sent).toEqual(clients)
+    clients.forEach((client) => expect(sendMock(client.ws)).toHaveBeenCalledTimes(1))
+  })
+
+  it('should skip sockets that are not open', () => {
+    registry.add(fakeSocket(WebSocket.CLOSING))
+    const open = registry.add(fakeSocket())
+
+    expect(registry.send({}, ALL_CLIENTS)).toEqual([open])
+  })
+
+  it('should reject unknown client IDs', () => {
+    expect(registry.select('7')).toEqual({ success: false, message: 'No client with ID 7' })
+    expect(registry.resolve('7')).toEqual([])
+  })
+
+  it('should report the overall connection state', () => {
+    expect(registry.state).toBe('disconnected')
+
+    const first = registry.add(fakeSocket())
+    registry.add(fakeSocket())
+    expect(registry.state).toBe('connected')
+
+    first.state = 'initialized'
+    expect(registry.state).toBe('initialized')
+  })
+
+  it('should fall back to the latest client when the selected one disconnects', () => {
+    const first = registry.add(fakeSocket())
+    const second = registry.add(fakeSocket())
+    registry.select('2')
+
+    registry.remove(second.ws)
+
+    expect(registry.selectedTarget).toBeNull()
+    expect(registry.resolve()).toEqual([first])
+  })
+})
+
+describe('parseTargetPrefix', () => {
+  it('should split off a leading @target', () => {
+    expect(parseTargetPrefix('@2 src/app.ts')).toEqual({ target: '2', rest: 'src/app.ts' })
+    expect(parseTargetPrefix('@all src/app.ts')).toEqual({ target: 'all', rest: 'src/app.ts' })
+  })
+
+  it('should leave arguments without a target untouched', () => {
+    expect(parseTargetPrefix('src/app.ts')).toEqual({ rest: 'src/app.ts' })
+  })
+})
+
+describe('describeClient', () => {
+  it('should include the client name and version when known', () => {
+    const registry = new ClientRegistry()
+    const client = registry.add(fakeSocket())
+
+    expect(describeClient(client)).toBe('#1')
+
+    client.name = 'claude-code'
+    client.version = '1.0.0'
+    expect(describeClient(client)).toBe('#1 claude-code 1.0.0')
+  })
+})
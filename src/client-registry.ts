@@ -0,0 +1,173 @@
+import { WebSocket } from 'ws'
+
+/**
+ * Connection state of Claude Code:
+ * - disconnected: no client connected
+ * - connected: WebSocket open, MCP handshake not finished yet
+ * - initialized: client sent notifications/initialized and is ready for events
+ */
+export type ConnectionState = 'disconnected' | 'connected' | 'initialized'
+
+export interface ConnectedClient {
+  /** Short per-server ID shown in /clients, e.g. "1" */
+  id: string
+  ws: WebSocket
+  state: Exclude<ConnectionState, 'disconnected'>
+  connectedAt: Date
+  remoteAddress?: string
+  /** clientInfo from the initialize request, once received */
+  name?: string
+  version?: string
+}
+
+/** Target selector meaning "every connected client" */
+export const ALL_CLIENTS = 'all'
+
+/**
+ * Keeps track of every Claude Code client connected to the IDE server.
+ *
+ * Outgoing events go to the current target: the most recently connected client by default,
+ * a specific client chosen with select(), or all clients.
+ */
+export class ClientRegistry {
+  private clients = new Map<string, ConnectedClient>()
+  private nextId = 1
+  private target: string | null = null
+
+  add(ws: WebSocket, remoteAddress?: string): ConnectedClient {
+    const client: ConnectedClient = {
+      id: String(this.nextId++),
+      ws,
+      state: 'connected',
+      connectedAt: new Date(),
+      remoteAddress,
+    }
+    this.clients.set(client.id, client)
+    return client
+  }
+
+  /**
+   * Forget a client; if it was the selected target, fall back to the default target
+   * @returns The removed client, if it was registered
+   */
+  remove(ws: WebSocket): ConnectedClient | undefined {
+    const client = this.findBySocket(ws)
+    if (client) {
+      this.clients.delete(client.id)
+      if (this.target === client.id) {
+        this.target = null
+      }
+    }
+    return client
+  }
+
+  findBySocket(ws: WebSocket): ConnectedClient | undefined {
+    return this.list().find((client) => client.ws === ws)
+  }
+
+  get(id: string): ConnectedClient | undefined {
+    return this.clients.get(id)
+  }
+
+  list(): ConnectedClient[] {
+    return Array.from(this.clients.values())
+  }
+
+  get size(): number {
+    return this.clients.size
+  }
+
+  /**
+   * Overall state: initialized if any client is ready, connected if any client is connected
+   */
+  get state(): ConnectionState {
+    const clients = this.list()
+    if (clients.some((client) => client.state === 'initialized')) {
+      return 'initialized'
+    }
+    return clients.length > 0 ? 'connected' : 'disconnected'
+  }
+
+  /**
+   * Current target selector: a client ID, ALL_CLIENTS, or null for the latest client
+   */
+  get selectedTarget(): string | null {
+    return this.target
+  }
+
+  /**
+   * Choose where outgoing events go by default
+   * @param selector - Client ID, ALL_CLIENTS, or null to follow the latest client
+   * @returns Result with success status and message
+   */
+  select(selector: string | null): { success: boolean; message: string } {
+    if (selector === null) {
+      this.target = null
+      return { success: true, message: 'Sending to the most recently connected client' }
+    }
+    if (selector === ALL_CLIENTS) {
+      this.target = ALL_CLIENTS
+      return { success: true, message: 'Broadcasting to all connected clients' }
+    }
+    if (!this.clients.has(selector)) {
+      return { success: false, message: `No client with ID ${selector}` }
+    }
+
+    this.target = selector
+    return { success: true, message: `Sending to client ${selector}` }
+  }
+
+  /**
+   * Resolve a target selector to clients
+   * @param selector - Client ID or ALL_CLIENTS; defaults to the selected target
+   * @returns Matching clients (empty if none match)
+   */
+  resolve(selector: string | null = this.target): ConnectedClient[] {
+    if (selector === ALL_CLIENTS) {
+      return this.list()
+    }
+    if (selector !== null) {
+      const client = this.clients.get(selector)
+      return client ? [client] : []
+    }
+
+    const clients = this.list()
+    return clients.length > 0 ? [clients[clients.length - 1]] : []
+  }
+
+  /**
+   * Send a JSON-RPC message to the targeted clients
+   * @param message - Message to serialize and send
+   * @param selector - Client ID or ALL_CLIENTS; defaults to the selected target
+   * @returns Clients the message was sent to
+   */
+  send(message: unknown, selector?: string | null): ConnectedClient[] {
+    const payload = JSON.stringify(message)
+    const targets = this.resolve(selector).filter(
+      (client) => client.ws.readyState === WebSocket.OPEN,
+    )
+    targets.forEach((client) => client.ws.send(payload))
+    return targets
+  }
+}
+
+/**
+ * Split an optional leading `@<id>` / `@all` target off command arguments
+ * @param args - Arguments after the command, e.g. "@2 src/app.ts"
+ * @returns Target selector (undefined when absent) and the remaining arguments
+ */
+export function parseTargetPrefix(args: string): { target?: string; rest: string } {
+  const match = args.match(/^@(\S+)\s*(.*)$/)
+  if (!match) {
+    return { rest: args }
+  }
+  return { target: match[1], rest: match[2] }
+}
+
+/**
+ * Human readable label for a client, e.g. "#2 claude-code 1.0.0"
+ */
+export function describeClient(client: ConnectedClient): string {
+  const name = client.name ? ` ${client.name}${client.version ? ` ${client.version}` : ''}` : ''
+  return `#${client.id}${name}`
+}
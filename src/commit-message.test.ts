@@ -0,0 +1,72 @@
+import {
+  buildCommitTemplate,
+  cleanCommitMessage,
+  DEFAULT_COMMIT_TYPES,
+  lintCommitMessage,
+} from './commit-message.js'
+
+describe('lintCommitMessage', () => {
+  it('should accept conventional headers with optional scope, breaking marker and body', () => {
+    expect(lintCommitMessage('feat: add /gc templates')).toEqual({ valid: true, errors: [] })
+    expect(lintCommitMessage('fix(cli,server)!: quote commit messages').valid).toBe(true)
+    expect(lintCommitMessage('docs: explain linting\n\nLonger body.\n').valid).toBe(true)
+  })
+
+  it('should report malformed headers, unknown types and a missing blank line', () => {
+    expect(lintCommitMessage('Add templates').errors).toEqual([
+      'Header must look like "<type>(<scope>): <subject>" - got "Add templates"',
+    ])
+    expect(lintCommitMessage('feature: add templates').errors).toEqual([
+      `Unknown type "feature" - use one of: ${DEFAULT_COMMIT_TYPES.join(', ')}`,
+    ])
+    expect(lintCommitMessage('feat: add templates\nbody').errors).toEqual([
+      'Leave a blank line between the header and the body',
+    ])
+    expect(lintCommitMessage(`feat: ${'x'.repeat(100)}`).valid).toBe(false)
+  })
+
+  it('should check types and scopes against the configured lists', () => {
+    const options = { types: ['feat', 'wip'], scopes: ['cli', 'git'] }
+
+    expect(lintCommitMessage('wip(git): checkpoint', options).valid).toBe(true)
+    expect(lintCommitMessage('fix(git): checkpoint', options).valid).toBe(false)
+    expect(lintCommitMessage('feat(cli, ui): checkpoint', options).errors).toEqual([
+      'Unknown scope "cli, ui" - use one of: cli, git',
+    ])
+    expect(lintCommitMessage('feat(): checkpoint', options).errors).toEqual([
+      'Scope must not be empty',
+    ])
+  })
+
+  it('should accept messages git writes for merges, reverts and fixups', () => {
+    expect(lintCommitMessage("Merge branch 'main' into feature").valid).toBe(true)
+    expect(lintCommitMessage('Revert "feat: add templates"').valid).toBe(true)
+    expect(lintCommitMessage('fixup! feat: add templates').valid).toBe(true)
+  })
+})
+
+describe('buildCommitTemplate', () => {
+  it('should list the staged files and the allowed types as comments', () => {
+    const template = buildCommitTemplate(['src/a.ts'], {
+      branch: 'main',
+      lint: { types: ['feat', 'fix'], scopes: ['cli'] },
+    })
+
+    expect(template.startsWith('\n#')).toBe(true)
+    expect(template).toContain('#   types:  feat, fix\n#   scopes: cli\n')
+    expect(template).toContain('# On branch main\n# Changes to be committed:\n#\tsrc/a.ts\n')
+    expect(cleanCommitMessage(template)).toBe('')
+  })
+
+  it('should leave out the Conventional Commits hint when linting is off', () => {
+    expect(buildCommitTemplate(['a.txt'])).not.toContain('Conventional Commits')
+  })
+})
+
+describe('cleanCommitMessage', () => {
+  it('should strip comments and surplus blank lines', () => {
+    expect(cleanCommitMessage('\nfeat: add a  \n\n\n\nbody\n# comment\n\n')).toBe(
+      'feat: add a\n\nbody',
+    )
+  })
+})
@@ -0,0 +1,140 @@
+// commit-message.ts - Conventional Commits linting and the /gc editor template
+
+/**
+ * Commit types accepted when no list is configured (the Angular convention)
+ */
+export const DEFAULT_COMMIT_TYPES = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert',
+]
+
+/** Longest header accepted, as in commitlint's default config */
+const MAX_HEADER_LENGTH = 100
+
+/** `<type>(<scope>)!: <subject>`, with the scope and `!` optional */
+const HEADER_PATTERN = /^(\w+)(?:\(([^()]*)\))?(!)?: (.*)$/
+
+export interface CommitLintOptions {
+  /** Allowed types (default: DEFAULT_COMMIT_TYPES) */
+  types?: string[]
+  /** Allowed scopes; any scope is accepted when empty */
+  scopes?: string[]
+}
+
+export interface CommitLintResult {
+  valid: boolean
+  errors: string[]
+}
+
+/**
+ * Check a commit message against the Conventional Commits format.
+ * Merge, revert and fixup!/squash! messages that git writes itself are accepted as they are.
+ */
+export function lintCommitMessage(
+  message: string,
+  options: CommitLintOptions = {},
+): CommitLintResult {
+  const [header = '', second] = message.trim().split('\n')
+  const errors: string[] = []
+
+  if (/^(Merge |Revert "|fixup! |squash! )/.test(header)) {
+    return { valid: true, errors }
+  }
+
+  const match = HEADER_PATTERN.exec(header)
+  if (!match) {
+    errors.push(`Header must look like "<type>(<scope>): <subject>" - got "${header}"`)
+  } else {
+    const [, type, scope, , subject] = match
+    const types = options.types?.length ? options.types : DEFAULT_COMMIT_TYPES
+    if (!types.includes(type)) {
+      errors.push(`Unknown type "${type}" - use one of: ${types.join(', ')}`)
+    }
+    if (scope !== undefined) {
+      // Several scopes may be given as a comma-separated list
+      const scopes = scope.split(',').map((part) => part.trim())
+      const allowed = options.scopes?.length ? options.scopes : null
+      if (scopes.some((part) => !part)) {
+        errors.push('Scope must not be empty')
+      } else if (allowed && scopes.some((part) => !allowed.includes(part))) {
+        errors.push(`Unknown scope "${scope}" - use one of: ${allowed.join(', ')}`)
+      }
+    }
+    if (!subject.trim()) {
+      errors.push('Subject must not be empty')
+    }
+  }
+
+  if (header.length > MAX_HEADER_LENGTH) {
+    errors.push(`Header is ${header.length} characters long - keep it within ${MAX_HEADER_LENGTH}`)
+  }
+  if (second !== undefined && second.trim() !== '') {
+    errors.push('Leave a blank line between the header and the body')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+export interface CommitTemplateOptions {
+  branch?: string
+  /** Conventional Commits settings to describe in the template, when linting is enabled */
+  lint?: CommitLintOptions
+}
+
+/**
+ * Editor template for `/gc` without a message: an empty first line followed by
+ * `#` comments listing the staged files, like the template `git commit` opens
+ */
+export function buildCommitTemplate(
+  stagedFiles: string[],
+  options: CommitTemplateOptions = {},
+): string {
+  const lines = [
+    '',
+    '# Please enter the commit message for your changes. Lines starting',
+    "# with '#' will be ignored, and an empty message aborts the commit.",
+    '#',
+  ]
+
+  if (options.lint) {
+    const types = options.lint.types?.length ? options.lint.types : DEFAULT_COMMIT_TYPES
+    lines.push('# Conventional Commits: <type>(<scope>): <subject>')
+    lines.push(`#   types:  ${types.join(', ')}`)
+    if (options.lint.scopes?.length) {
+      lines.push(`#   scopes: ${options.lint.scopes.join(', ')}`)
+    }
+    lines.push('#')
+  }
+
+  if (options.branch) {
+    lines.push(`# On branch ${options.branch}`)
+  }
+  lines.push('# Changes to be committed:')
+  stagedFiles.forEach((file) => lines.push(`#\t${file}`))
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Clean up an edited message the way `git commit --cleanup=strip` does: drop `#` comment
+ * lines and trailing whitespace, collapse repeated blank lines and trim blank lines at both ends
+ * @returns The message, or '' when nothing is left
+ */
+export function cleanCommitMessage(text: string): string {
+  return text
+    .split('\n')
+    .filter((line) => !line.startsWith('#'))
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,140 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  CommitDecision,
+  CommitSeriesBuilder,
+  ReviewedCommit,
+  describeCommitDecisions,
+  parseCommitDecision,
+  planSeries,
+} from './commit-series.js'
+
+const reviewed = (...decisions: CommitDecision[]): ReviewedCommit[] =>
+  decisions.map((decision, index) => ({
+    hash: `hash${index}`,
+    subject: `Commit ${index}`,
+    decision,
+  }))
+
+describe('parseCommitDecision', () => {
+  it('should accept keys and full names', () => {
+    expect(parseCommitDecision('a')).toBe('approve')
+    expect(parseCommitDecision(' Squash ')).toBe('squash')
+    expect(parseCommitDecision('x')).toBeNull()
+  })
+
+  it('should leave squash out of the menu for the first commit', () => {
+    expect(describeCommitDecisions()).toContain('(q) squash')
+    expect(describeCommitDecisions(false)).not.toContain('squash')
+  })
+})
+
+describe('planSeries', () => {
+  it('should push everything up to the first skipped commit', () => {
+    const plan = planSeries(reviewed('approve', 'reword', 'skip', 'approve'))
+
+    expect(plan.approved.map((c) => c.hash)).toEqual(['hash0', 'hash1'])
+    expect(plan.held.map((c) => c.hash)).toEqual(['hash2', 'hash3'])
+    expect(plan.needsRewrite).toBe(true)
+  })
+
+  it('should not rewrite when every pushed commit is approved as is', () => {
+    const plan = planSeries(reviewed('approve', 'skip', 'squash'))
+
+    expect(plan.needsRewrite).toBe(false)
+  })
+})
+
+describe('CommitSeriesBuilder', () => {
+  let repo: string
+  let builder: CommitSeriesBuilder
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const commit = (file: string, subject: string) => {
+    fs.writeFileSync(path.join(repo, file), `${subject}\n`)
+    git(`add ${file}`)
+    git(`commit -q -m "${subject}"`)
+  }
+
+  const series = (...decisions: CommitDecision[]): ReviewedCommit[] => {
+    const commits = git(`log --reverse --format=%H%x09%s -n ${decisions.length}`).split('\n')
+    return commits.map((line, index) => {
+      const [hash, subject] = line.split('\t')
+      return { hash, subject, decision: decisions[index] }
+    })
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-series-'))
+    git('init -q -b main')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    commit('a.txt', 'Base')
+    commit('b.txt', 'Add b')
+    commit('c.txt', 'Fix b')
+    commit('d.txt', 'Add d')
+    builder = new CommitSeriesBuilder(repo)
+  })
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should leave the branch alone when nothing needs rewriting', async () => {
+    const head = git('rev-parse HEAD')
+    const commits = series('approve', 'approve', 'skip')
+
+    const result = await builder.rewrite(commits)
+
+    expect(result).toMatchObject({ success: true, pushTip: commits[1].hash })
+    expect(git('rev-parse HEAD')).toBe(head)
+  })
+
+  it('should squash and reword while keeping the final tree', async () => {
+    const tree = git('rev-parse HEAD^{tree}')
+    const original = series('approve', 'squash', 'reword').map((c) =>
+      c.decision === 'reword' ? { ...c, subjectOverride: 'Add d properly' } : c,
+    )
+
+    const result = await builder.rewrite(original)
+
+    expect(result.success).toBe(true)
+    expect(result.previousHead).toBe(original[2].hash)
+    expect(result.pushTip).toBe(git('rev-parse HEAD'))
+    expect(git('rev-parse HEAD^{tree}')).toBe(tree)
+    expect(git('log --format=%s -n 3')).toBe('Add d properly\nAdd b\nBase')
+    expect(git('log -1 --skip=1 --format=%B')).toBe('Add b\n\nFix b')
+    expect(git('log -1 --skip=1 --format=%an')).toBe('Test')
+    expect(git('status --porcelain')).toBe('')
+  })
+
+  it('should push only the approved prefix and re-parent the held commits', async () => {
+    const original = series('reword', 'skip', 'approve').map((c) =>
+      c.decision === 'reword' ? { ...c, subjectOverride: 'Add b (reworded)' } : c,
+    )
+
+    const result = await builder.rewrite(original)
+
+    expect(result.success).toBe(true)
+    expect(git(`log -1 --format=%s ${result.pushTip}`)).toBe('Add b (reworded)')
+    expect(git('log --format=%s -n 3')).toBe('Add d\nFix b\nAdd b (reworded)')
+  })
+
+  it('should refuse when HEAD moved since the review', async () => {
+    const original = series('reword', 'approve').map((c) => ({ ...c, subjectOverride: 'New' }))
+    commit('e.txt', 'Later work')
+
+    const result = await builder.rewrite(original)
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('HEAD moved')
+  })
+})
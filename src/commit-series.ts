@@ -0,0 +1,259 @@
+// commit-series.ts - Per-commit review decisions and rebuilding the reviewed series
+
+import { ProcessRunner } from './process-runner.js'
+
+/**
+ * - `approve`: push the commit as it is
+ * - `skip`: keep the commit (and everything after it) local
+ * - `squash`: fold the commit into the previous one, joining their messages
+ * - `reword`: push the commit with a new subject line
+ */
+export type CommitDecision = 'approve' | 'skip' | 'squash' | 'reword'
+
+export const COMMIT_DECISIONS: CommitDecision[] = ['approve', 'skip', 'squash', 'reword']
+
+export interface ReviewedCommit {
+  hash: string
+  subject: string
+  decision: CommitDecision
+  /** New subject line for `reword` */
+  subjectOverride?: string
+}
+
+export interface SeriesPlan {
+  /** Commits that will be pushed, oldest first (up to the first skipped one) */
+  approved: ReviewedCommit[]
+  /** Commits that stay local */
+  held: ReviewedCommit[]
+  /** Whether squash or reword decisions require new commits */
+  needsRewrite: boolean
+}
+
+export interface SeriesResult {
+  success: boolean
+  message: string
+  /** Branch head before the rewrite */
+  previousHead?: string
+  /** Commit to push - the last approved one (after any rewrite) */
+  pushTip?: string
+}
+
+const DECISION_KEYS: Record<CommitDecision, string> = {
+  approve: 'a',
+  skip: 's',
+  squash: 'q',
+  reword: 'r',
+}
+
+const DECISION_LABELS: Record<CommitDecision, string> = {
+  approve: 'approve',
+  skip: 'skip (stop here, keep the rest local)',
+  squash: 'squash into previous',
+  reword: 'reword',
+}
+
+/**
+ * Parse a decision answer (key or full name)
+ * @returns null if it names no decision
+ */
+export function parseCommitDecision(answer: string): CommitDecision | null {
+  const normalized = answer.trim().toLowerCase()
+  return (
+    COMMIT_DECISIONS.find(
+      (decision) => normalized === decision || normalized === DECISION_KEYS[decision],
+    ) || null
+  )
+}
+
+/**
+ * Menu text for the decision prompt
+ * @param canSquash - False for the first commit, which has nothing reviewed to squash into
+ */
+export function describeCommitDecisions(canSquash = true): string {
+  return COMMIT_DECISIONS.filter((decision) => canSquash || decision !== 'squash')
+    .map((decision) => `(${DECISION_KEYS[decision]}) ${DECISION_LABELS[decision]}`)
+    .join(' / ')
+}
+
+/**
+ * Split the reviewed commits (oldest first) into the pushable prefix and the rest
+ */
+export function planSeries(reviewed: ReviewedCommit[]): SeriesPlan {
+  const firstSkipped = reviewed.findIndex((commit) => commit.decision === 'skip')
+  const approved = firstSkipped === -1 ? reviewed : reviewed.slice(0, firstSkipped)
+  const held = firstSkipped === -1 ? [] : reviewed.slice(firstSkipped)
+  return {
+    approved,
+    held,
+    needsRewrite: approved.some(
+      (commit) => commit.decision === 'squash' || commit.decision === 'reword',
+    ),
+  }
+}
+
+/**
+ * Describe the plan for the terminal
+ */
+export function describeSeriesPlan(plan: SeriesPlan): string[] {
+  const lines: string[] = []
+  const squashed = plan.approved.filter((commit) => commit.decision === 'squash').length
+  const pushed = plan.approved.length - squashed
+
+  if (plan.approved.length === 0) {
+    lines.push('⏸️  No commits approved - nothing will be pushed')
+  } else {
+    lines.push(`📤 ${pushed} commit(s) will be pushed`)
+  }
+  plan.approved.forEach((commit) => {
+    const short = commit.hash.substring(0, 8)
+    switch (commit.decision) {
+      case 'squash':
+        lines.push(`   🔗 ${short} ${commit.subject} (squashed into the previous commit)`)
+        break
+      case 'reword':
+        lines.push(`   ✏️  ${short} ${commit.subjectOverride} (was: ${commit.subject})`)
+        break
+      default:
+        lines.push(`   ✅ ${short} ${commit.subject}`)
+    }
+  })
+  if (plan.held.length > 0) {
+    lines.push(`⏸️  ${plan.held.length} commit(s) stay local:`)
+    plan.held.forEach((commit) => lines.push(`   ${commit.hash.substring(0, 8)} ${commit.subject}`))
+  }
+
+  return lines
+}
+
+interface CommitInfo {
+  tree: string
+  message: string
+  authorName: string
+  authorEmail: string
+  authorDate: string
+}
+
+export class CommitSeriesBuilder {
+  private runner: ProcessRunner
+
+  constructor(workspaceFolder?: string) {
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+  }
+
+  /**
+   * Rebuild the reviewed commits with `git commit-tree`, applying squash and reword decisions.
+   * Every commit keeps its tree, so the new branch head has exactly the old head's content
+   * and the working tree and index are left alone. Held commits are re-parented unchanged.
+   * @param reviewed - All unpushed commits of the current branch, oldest first, ending at HEAD
+   */
+  async rewrite(reviewed: ReviewedCommit[]): Promise<SeriesResult> {
+    const plan = planSeries(reviewed)
+    if (!plan.needsRewrite) {
+      return {
+        success: true,
+        message: 'No changes to the commit series',
+        pushTip: this.tip(plan),
+      }
+    }
+
+    const branch = await this.runner.git(['branch', '--show-current'])
+    if (!branch) {
+      return { success: false, message: 'Cannot rewrite commits on a detached HEAD' }
+    }
+    const head = await this.runner.git(['rev-parse', 'HEAD'])
+    if (reviewed[reviewed.length - 1].hash !== head) {
+      return { success: false, message: 'HEAD moved since the review - run the review again' }
+    }
+    if (plan.approved[0].decision === 'squash') {
+      return { success: false, message: 'The first commit has no reviewed commit to squash into' }
+    }
+
+    const first = reviewed[0].hash
+    if (await this.runner.git(['rev-list', '--min-parents=2', 'HEAD', '--not', `${first}^@`])) {
+      return {
+        success: false,
+        message: 'The series contains merge commits - squash and reword are not supported',
+      }
+    }
+
+    try {
+      let parent = await this.runner.tryGit(['rev-parse', '--verify', '--quiet', `${first}^`])
+
+      // Squashed commits are folded into the commit before them before it is written
+      const commits: CommitInfo[] = []
+      for (const commit of plan.approved) {
+        const info = await this.readCommit(commit.hash)
+        const previous = commits[commits.length - 1]
+        if (commit.decision === 'squash' && previous) {
+          previous.tree = info.tree
+          previous.message = `${previous.message.trimEnd()}\n\n${info.message}`
+        } else if (commit.decision === 'reword' && commit.subjectOverride) {
+          commits.push({ ...info, message: replaceSubject(info.message, commit.subjectOverride) })
+        } else {
+          commits.push(info)
+        }
+      }
+      for (const info of commits) {
+        parent = await this.commitTree(info, parent)
+      }
+      const pushTip = parent || undefined
+
+      for (const commit of plan.held) {
+        parent = await this.commitTree(await this.readCommit(commit.hash), parent)
+      }
+
+      await this.runner.git([
+        'update-ref',
+        '-m',
+        'claude-term: rewrite reviewed commits',
+        `refs/heads/${branch}`,
+        parent as string,
+        head,
+      ])
+
+      return {
+        success: true,
+        message: `Rewrote ${reviewed.length} commit(s) on ${branch} (previous head ${head.substring(0, 8)})`,
+        previousHead: head,
+        pushTip,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to rewrite commits: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  private tip(plan: SeriesPlan): string | undefined {
+    return plan.approved[plan.approved.length - 1]?.hash
+  }
+
+  private async readCommit(hash: string): Promise<CommitInfo> {
+    const [tree, authorName, authorEmail, authorDate] = (
+      await this.runner.git(['log', '-1', '--date=raw', '--format=%T%x00%an%x00%ae%x00%ad', hash])
+    ).split('\0')
+    const message = await this.runner.git(['log', '-1', '--format=%B', hash])
+    return { tree, message, authorName, authorEmail, authorDate }
+  }
+
+  private commitTree(info: CommitInfo, parent: string | null): Promise<string> {
+    return this.runner.git(
+      ['commit-tree', info.tree, ...(parent ? ['-p', parent] : []), '-F', '-'],
+      {
+        input: `${info.message}\n`,
+        env: {
+          ...process.env,
+          GIT_AUTHOR_NAME: info.authorName,
+          GIT_AUTHOR_EMAIL: info.authorEmail,
+          GIT_AUTHOR_DATE: info.authorDate,
+        },
+      },
+    )
+  }
+}
+
+function replaceSubject(message: string, subject: string): string {
+  const [, ...rest] = message.split('\n')
+  return [subject, ...rest].join('\n')
+}
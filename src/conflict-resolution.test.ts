@@ -0,0 +1,269 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  ConflictResolutionManager,
+  applyResolutions,
+  formatConflict,
+  hasConflictMarkers,
+  parseConflictChoice,
+  parseConflictMarkers,
+} from './conflict-resolution.js'
+import { GitCommandManager } from './git-command-manager.js'
+
+const CONFLICTED = [
+  'start',
+  '<<<<<<< HEAD',
+  'ours 1',
+  '=======',
+  'theirs 1',
+  '>>>>>>> feature',
+  'middle',
+  '<<<<<<< HEAD',
+  'ours 2',
+  '||||||| base',
+  'base 2',
+  '=======',
+  'theirs 2',
+  '>>>>>>> feature',
+  'end',
+  '',
+].join('\n')
+
+describe('parseConflictMarkers', () => {
+  it('should read both sides, labels and the diff3 base', () => {
+    const hunks = parseConflictMarkers(CONFLICTED)
+
+    expect(hunks).toHaveLength(2)
+    expect(hunks[0]).toEqual({
+      start: 1,
+      end: 5,
+      oursLabel: 'HEAD',
+      theirsLabel: 'feature',
+      ours: ['ours 1'],
+      base: null,
+      theirs: ['theirs 1'],
+    })
+    expect(hunks[1]).toMatchObject({ start: 7, end: 13, base: ['base 2'], theirs: ['theirs 2'] })
+  })
+
+  it('should read the markers of files with CRLF line endings', () => {
+    const hunks = parseConflictMarkers(CONFLICTED.replace(/\n/g, '\r\n'))
+
+    expect(hunks).toHaveLength(2)
+    expect(hunks[0]).toMatchObject({ oursLabel: 'HEAD', theirsLabel: 'feature' })
+    expect(hunks[1]).toMatchObject({
+      start: 7,
+      end: 13,
+      base: ['base 2\r'],
+      theirs: ['theirs 2\r'],
+    })
+  })
+
+  it('should ignore marker-like lines outside conflicts and unterminated conflicts', () => {
+    expect(parseConflictMarkers('=======\ntext\n<<<<<<< HEAD\nours\n')).toEqual([])
+  })
+})
+
+describe('applyResolutions', () => {
+  it('should keep the chosen side and leave conflicts without a choice', () => {
+    const text = applyResolutions(CONFLICTED, ['both', null])
+
+    expect(text.split('\n').slice(0, 4)).toEqual(['start', 'ours 1', 'theirs 1', 'middle'])
+    expect(hasConflictMarkers(text)).toBe(true)
+    expect(applyResolutions(text, ['theirs'])).toBe(
+      'start\nours 1\ntheirs 1\nmiddle\ntheirs 2\nend\n',
+    )
+  })
+
+  it('should keep CRLF line endings', () => {
+    const text = applyResolutions(CONFLICTED.replace(/\n/g, '\r\n'), ['ours', 'theirs'])
+
+    expect(text).toBe('start\r\nours 1\r\nmiddle\r\ntheirs 2\r\nend\r\n')
+    expect(hasConflictMarkers(text)).toBe(false)
+  })
+})
+
+describe('hasConflictMarkers', () => {
+  it('should only look for the start and end markers', () => {
+    expect(hasConflictMarkers(CONFLICTED)).toBe(true)
+    expect(hasConflictMarkers('Title\n=======\n')).toBe(false)
+    expect(hasConflictMarkers('text\r\n<<<<<<<\r\n')).toBe(true)
+  })
+})
+
+describe('parseConflictChoice', () => {
+  it('should accept keys and names, and skip on Enter', () => {
+    expect(parseConflictChoice('o')).toBe('ours')
+    expect(parseConflictChoice('Theirs')).toBe('theirs')
+    expect(parseConflictChoice('c')).toBe('claude')
+    expect(parseConflictChoice('')).toBe('skip')
+    expect(parseConflictChoice('x')).toBeNull()
+  })
+})
+
+describe('formatConflict', () => {
+  it('should show the ours, base and theirs views', () => {
+    const view = formatConflict('a.txt', parseConflictMarkers(CONFLICTED)[1], '2/2')
+
+    expect(view).toContain('⚔️  Conflict 2/2 in a.txt (lines 8-14)')
+    expect(view).toMatch(/── ours \(HEAD\) ─+\n {2}ours 2\n── base ─+\n {2}base 2\n── theirs/)
+  })
+})
+
+describe('ConflictResolutionManager', () => {
+  let repo: string
+  let manager: ConflictResolutionManager
+  let consoleSpy: jest.SpyInstance
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const write = (file: string, lines: string[]) =>
+    fs.writeFileSync(path.join(repo, file), `${lines.join('\n')}\n`)
+
+  const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf8')
+
+  const answers = (...values: Array<string | null>) => {
+    const queue = [...values]
+    return jest.fn(() => Promise.resolve(queue.length > 0 ? (queue.shift() as string | null) : ''))
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-conflicts-'))
+    git('init -q -b main')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    git('config merge.conflictStyle merge')
+    const lines = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`)
+    write('a.txt', lines)
+    write('b.txt', ['b'])
+    git('add .')
+    git('commit -q -m initial')
+
+    git('checkout -q -b feature')
+    write(
+      'a.txt',
+      lines.map((line, i) => (i === 1 || i === 10 ? `${line} feature` : line)),
+    )
+    write('b.txt', ['b feature'])
+    git('commit -q -am feature')
+
+    git('checkout -q main')
+    write(
+      'a.txt',
+      lines.map((line, i) => (i === 1 || i === 10 ? `${line} main` : line)),
+    )
+    write('b.txt', ['b main'])
+    git('commit -q -am main')
+    try {
+      git('merge -q feature')
+    } catch {
+      // Expected: the merge stops with conflicts
+    }
+
+    manager = new ConflictResolutionManager(new GitCommandManager(repo), repo)
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should list the conflicted files', async () => {
+    const conflicts = await manager.listConflicts()
+
+    expect(conflicts.map(({ path: file }) => file)).toEqual(['a.txt', 'b.txt'])
+  })
+
+  it('should fill in the base of each conflict from the index', async () => {
+    const conflicts = await manager.readConflicts('a.txt')
+
+    expect(conflicts?.hunks.map((hunk) => hunk.base)).toEqual([['line 2'], ['line 11']])
+  })
+
+  it('should resolve a file once no markers remain and mark it with git add', async () => {
+    const result = await manager.resolveConflicts(answers('o', 't'), undefined, ['a.txt'])
+
+    expect(result).toMatchObject({ success: true, resolved: ['a.txt'], remaining: [] })
+    expect(read('a.txt')).toContain('line 2 main\n')
+    expect(read('a.txt')).toContain('line 11 feature\n')
+    expect(git('diff --name-only --diff-filter=U')).toBe('b.txt')
+  })
+
+  it('should keep skipped conflicts and the file unresolved', async () => {
+    const result = await manager.resolveConflicts(answers('b', 's'), undefined, ['a.txt'])
+
+    expect(result).toMatchObject({ resolved: [], remaining: ['a.txt'] })
+    expect(read('a.txt')).toContain('line 2 main\nline 2 feature\n')
+    expect(parseConflictMarkers(read('a.txt'))).toHaveLength(1)
+  })
+
+  it('should send a conflict to Claude and resolve the file once Claude fixed it', async () => {
+    const askClaude = jest.fn().mockResolvedValue(true)
+
+    await manager.resolveConflicts(answers('c'), askClaude, ['b.txt'])
+    expect(askClaude).toHaveBeenCalledWith('b.txt', expect.objectContaining({ ours: ['b main'] }))
+    expect(git('diff --name-only --diff-filter=U')).toContain('b.txt')
+
+    write('b.txt', ['b merged'])
+    const result = await manager.resolveConflicts(answers(), askClaude, ['b.txt'])
+    expect(result.resolved).toEqual(['b.txt'])
+  })
+
+  it('should save the earlier choices and leave the file to Claude after sending a conflict', async () => {
+    const fixFile = (file: string) =>
+      fs.writeFileSync(
+        path.join(repo, file),
+        read(file).replace(/<{7}[^]*>{7} feature\n/, 'line 11 merged\n'),
+      )
+    // Claude fixes the file before the terminal would ask about the next conflict
+    const askClaude = jest.fn((file: string) => {
+      fixFile(file)
+      return Promise.resolve(true)
+    })
+    const ask = answers('o', 'c', 't')
+
+    const result = await manager.resolveConflicts(ask, askClaude, ['a.txt'])
+
+    expect(askClaude).toHaveBeenCalledWith(
+      'a.txt',
+      expect.objectContaining({ start: 10, ours: ['line 11 main'], base: ['line 11'] }),
+    )
+    expect(ask).toHaveBeenCalledTimes(2)
+    expect(result.remaining).toEqual(['a.txt'])
+    expect(read('a.txt')).toContain('line 2 main\nline 3\n')
+    expect(read('a.txt')).toContain('line 10\nline 11 merged\nline 12\n')
+  })
+
+  it('should not overwrite a file edited while its conflicts were being resolved', async () => {
+    const edited = read('a.txt').replace('line 1\n', 'line one\n')
+    const ask = answers('o', 't')
+    ask.mockImplementationOnce(() => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), edited)
+      return Promise.resolve('o')
+    })
+
+    const result = await manager.resolveConflicts(ask, undefined, ['a.txt'])
+
+    expect(result.remaining).toEqual(['a.txt'])
+    expect(read('a.txt')).toBe(edited)
+  })
+
+  it('should stop when a prompt is cancelled, keeping the choices made so far', async () => {
+    const result = await manager.resolveConflicts(answers('t', null))
+
+    expect(result).toMatchObject({
+      success: false,
+      cancelled: true,
+      remaining: ['a.txt', 'b.txt'],
+    })
+    expect(read('a.txt')).toContain('line 2 feature\n')
+  })
+})
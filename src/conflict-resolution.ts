@@ -0,0 +1,441 @@
+// conflict-resolution.ts - Resolve merge conflicts hunk by hunk (/conflicts)
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { GitCommandManager } from './git-command-manager.js'
+import { GitConflictEntry } from './git-status.js'
+import { GitService } from './git-service.js'
+import { AskFunction } from './git-push.js'
+
+/**
+ * - `ours`: keep the version of the branch being merged into (HEAD)
+ * - `theirs`: keep the incoming version
+ * - `both`: keep ours followed by theirs
+ */
+export type ConflictSide = 'ours' | 'theirs' | 'both'
+
+export interface ConflictHunk {
+  /** 0-based line of the `<<<<<<<` marker */
+  start: number
+  /** 0-based line of the `>>>>>>>` marker */
+  end: number
+  /** What follows the markers, e.g. HEAD and the merged branch */
+  oursLabel: string
+  theirsLabel: string
+  ours: string[]
+  /** The common ancestor's lines; null when git didn't record them (merge.conflictStyle=merge) */
+  base: string[] | null
+  theirs: string[]
+}
+
+/**
+ * Sends a conflict to Claude so it can propose a resolution
+ * @returns Whether the conflict was sent (or queued until Claude reconnects)
+ */
+export type AskClaudeFunction = (file: string, hunk: ConflictHunk) => Promise<boolean>
+
+export interface ConflictResolutionResult {
+  success: boolean
+  message: string
+  /** A prompt was cancelled; files resolved before that stay resolved */
+  cancelled: boolean
+  /** Files marked as resolved with `git add` */
+  resolved: string[]
+  /** Files that still have conflicts */
+  remaining: string[]
+}
+
+const CHOICE_KEYS: Record<ConflictSide | 'claude' | 'skip', string> = {
+  ours: 'o',
+  theirs: 't',
+  both: 'b',
+  claude: 'c',
+  skip: 's',
+}
+
+const MARKER = /^(<{7}|\|{7}|={7}|>{7})(?: (.*))?$/
+
+/**
+ * Find the conflicts git wrote into a file
+ * @returns Conflicts in file order; an unterminated conflict is ignored
+ */
+export function parseConflictMarkers(text: string): ConflictHunk[] {
+  const hunks: ConflictHunk[] = []
+  let current: ConflictHunk | null = null
+  let section: 'ours' | 'base' | 'theirs' = 'ours'
+
+  text.split('\n').forEach((line, index) => {
+    // Markers of CRLF files end in \r; the lines between them keep it for writing back
+    const marker = MARKER.exec(line.replace(/\r$/, ''))
+    const kind = marker?.[1][0]
+    if (kind === '<') {
+      current = {
+        start: index,
+        end: index,
+        oursLabel: marker?.[2] ?? '',
+        theirsLabel: '',
+        ours: [],
+        base: null,
+        theirs: [],
+      }
+      section = 'ours'
+    } else if (!current) {
+      return
+    } else if (kind === '|' && section === 'ours') {
+      current.base = []
+      section = 'base'
+    } else if (kind === '=' && section !== 'theirs') {
+      section = 'theirs'
+    } else if (kind === '>' && section === 'theirs') {
+      hunks.push({ ...current, end: index, theirsLabel: marker?.[2] ?? '' })
+      current = null
+    } else if (section === 'base') {
+      current.base?.push(line)
+    } else {
+      current[section].push(line)
+    }
+  })
+
+  return hunks
+}
+
+/**
+ * Whether a file still has conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<{7}|>{7})( |\r?$)/m.test(text)
+}
+
+/**
+ * Replace conflicts with the chosen side; conflicts without a choice keep their markers
+ * @param choices - One per conflict, in file order
+ */
+export function applyResolutions(text: string, choices: Array<ConflictSide | null>): string {
+  const lines = text.split('\n')
+  const hunks = parseConflictMarkers(text)
+
+  // From the end, so earlier conflicts keep their line numbers
+  hunks.forEach((_, reverseIndex) => {
+    const index = hunks.length - 1 - reverseIndex
+    const hunk = hunks[index]
+    const choice = choices[index]
+    if (choice) {
+      const kept =
+        choice === 'both'
+          ? [...hunk.ours, ...hunk.theirs]
+          : choice === 'ours'
+            ? hunk.ours
+            : hunk.theirs
+      lines.splice(hunk.start, hunk.end - hunk.start + 1, ...kept)
+    }
+  })
+
+  return lines.join('\n')
+}
+
+/**
+ * Parse a conflict choice (key or full name, Enter skips)
+ * @returns null if it names no choice
+ */
+export function parseConflictChoice(answer: string): ConflictSide | 'claude' | 'skip' | null {
+  const normalized = answer.trim().toLowerCase()
+  if (normalized === '') {
+    return 'skip'
+  }
+  const choices = Object.keys(CHOICE_KEYS) as Array<keyof typeof CHOICE_KEYS>
+  return (
+    choices.find((choice) => normalized === choice || normalized === CHOICE_KEYS[choice]) || null
+  )
+}
+
+export class ConflictResolutionManager {
+  private service: GitService
+
+  constructor(
+    private git: GitCommandManager,
+    private workspaceFolder: string = process.cwd(),
+  ) {
+    this.service = new GitService(workspaceFolder)
+  }
+
+  /**
+   * Conflicted files from `git status`, in status order
+   */
+  async listConflicts(): Promise<GitConflictEntry[]> {
+    const details = await this.git.getStatusDetails()
+    return details.conflicted
+  }
+
+  /**
+   * Read a conflicted file's conflicts, filling in the base of each conflict from the index
+   * when the markers don't include it
+   * @returns null when the file is not in the working tree
+   */
+  async readConflicts(file: string): Promise<{ text: string; hunks: ConflictHunk[] } | null> {
+    const filePath = path.resolve(this.workspaceFolder, file)
+    if (!fs.existsSync(filePath)) {
+      return null
+    }
+
+    const text = fs.readFileSync(filePath, 'utf8')
+    const hunks = parseConflictMarkers(text)
+    if (hunks.some((hunk) => hunk.base === null)) {
+      const bases = await this.mergeBases(file)
+      // The merge is redone from the index, so it only lines up while nobody edited the conflicts
+      if (bases?.length === hunks.length) {
+        hunks.forEach((hunk, index) => (hunk.base ??= bases[index]))
+      }
+    }
+    return { text, hunks }
+  }
+
+  /**
+   * Walk through the conflicts of each file, asking which side to keep, and mark files without
+   * conflict markers left as resolved
+   * @param ask - Terminal prompt to use
+   * @param askClaude - Sends a conflict to Claude; the choice is not offered when missing
+   * @param files - Files to resolve (default: every conflicted file)
+   */
+  async resolveConflicts(
+    ask: AskFunction,
+    askClaude?: AskClaudeFunction,
+    files?: string[],
+  ): Promise<ConflictResolutionResult> {
+    const conflicted = await this.listConflicts()
+    const result: ConflictResolutionResult = {
+      success: true,
+      message: '',
+      cancelled: false,
+      resolved: [],
+      remaining: [],
+    }
+
+    const selected = files ? conflicted.filter((entry) => files.includes(entry.path)) : conflicted
+    if (selected.length === 0) {
+      result.message = files ? `No conflicts in ${files.join(', ')}` : 'No conflicted files'
+      return result
+    }
+
+    const paths = selected.map((entry) => entry.path)
+    console.log(`⚔️  ${selected.length} conflicted file(s): ${paths.join(', ')}`)
+    for (const [index, entry] of selected.entries()) {
+      const outcome = await this.resolveFile(
+        entry,
+        `${index + 1}/${selected.length}`,
+        ask,
+        askClaude,
+      )
+      if (outcome === 'resolved') {
+        result.resolved.push(entry.path)
+      } else {
+        result.remaining.push(entry.path)
+      }
+      if (outcome === null) {
+        result.remaining.push(...paths.slice(index + 1))
+        return {
+          ...result,
+          success: false,
+          cancelled: true,
+          message: `Conflict resolution cancelled - ${summarize(result)}`,
+        }
+      }
+    }
+
+    result.message = summarize(result)
+    return result
+  }
+
+  /**
+   * @returns 'resolved' when the file was marked as resolved, 'remaining' when it still has
+   *   conflicts, null when a prompt was cancelled
+   */
+  private async resolveFile(
+    { path: file, status }: GitConflictEntry,
+    position: string,
+    ask: AskFunction,
+    askClaude?: AskClaudeFunction,
+  ): Promise<'resolved' | 'remaining' | null> {
+    // DU, UD, DD: git leaves the surviving version without markers, so there is no side to pick
+    if (status.includes('D')) {
+      console.log(
+        `⚠️  [${position}] ${file} was deleted on one side (${status}) - keep it with /ga ${file} or delete it with git rm`,
+      )
+      return 'remaining'
+    }
+
+    const conflicts = await this.readConflicts(file)
+    if (!conflicts) {
+      console.log(`⚠️  [${position}] ${file} is missing from the working tree`)
+      return 'remaining'
+    }
+
+    const { hunks } = conflicts
+    let { text } = conflicts
+    let choices: Array<ConflictSide | null> = []
+    for (const [index, hunk] of hunks.entries()) {
+      console.log(formatConflict(file, hunk, `${index + 1}/${hunks.length}`))
+      const handOff =
+        askClaude &&
+        (async () => {
+          // Save the earlier choices first: Claude reads the file and edits it from here on
+          text = this.writeResolutions(file, text, choices)
+          choices = choices.filter((choice) => choice === null)
+          const pending = parseConflictMarkers(text)[choices.length]
+          return pending ? askClaude(file, { ...pending, base: hunk.base }) : false
+        })
+      const choice = await this.askChoice(file, position, ask, handOff)
+      if (choice === undefined) {
+        this.writeResolutions(file, text, choices)
+        return null
+      }
+      if (choice === 'claude') {
+        // Writing the remaining choices now would overwrite Claude's fix
+        console.log(
+          `💬 Sent the conflict to Claude - once it is fixed, run /conflicts ${file} again`,
+        )
+        return 'remaining'
+      }
+      choices.push(choice)
+    }
+
+    const resolvedText = this.writeResolutions(file, text, choices)
+    if (hasConflictMarkers(resolvedText)) {
+      const left = parseConflictMarkers(resolvedText).length
+      console.log(`⏳ ${file}: ${left} conflict(s) left - run /conflicts ${file} again`)
+      return 'remaining'
+    }
+
+    const added = await this.git.addFiles([file])
+    if (!added.success) {
+      console.error(`❌ ${added.message}`)
+      return 'remaining'
+    }
+    console.log(`✅ Resolved ${file} (marked with git add)`)
+    return 'resolved'
+  }
+
+  /**
+   * @param handOff - Sends the conflict to Claude; the choice is not offered when missing
+   * @returns The side to keep, null to leave the conflict, 'claude' once it was sent to Claude,
+   *   undefined when cancelled
+   */
+  private async askChoice(
+    file: string,
+    position: string,
+    ask: AskFunction,
+    handOff?: () => Promise<boolean>,
+  ): Promise<ConflictSide | 'claude' | null | undefined> {
+    const claude = handOff ? ' / (c) ask Claude' : ''
+    for (;;) {
+      const answer = await ask(
+        `❓ [${position}] ${file}: (o) ours / (t) theirs / (b) both${claude} / (s) skip (Enter skips): `,
+      )
+      if (answer === null) {
+        return undefined
+      }
+
+      const choice = parseConflictChoice(answer)
+      if (choice === 'skip') {
+        return null
+      }
+      if (choice === 'claude' && handOff) {
+        if (await handOff()) {
+          return 'claude'
+        }
+        continue
+      }
+      if (!choice || choice === 'claude') {
+        console.log(`❌ Invalid choice. Please enter o, t, b${handOff ? ', c' : ''} or s.`)
+        continue
+      }
+      return choice
+    }
+  }
+
+  /**
+   * Save the choices made so far, unless the file was edited since it was read
+   * @param text - The file's content the choices were made on
+   * @returns The file's new content
+   */
+  private writeResolutions(
+    file: string,
+    text: string,
+    choices: Array<ConflictSide | null>,
+  ): string {
+    const filePath = path.resolve(this.workspaceFolder, file)
+    const current = fs.readFileSync(filePath, 'utf8')
+    if (current !== text) {
+      console.log(`⚠️  ${file} changed while resolving its conflicts - leaving it as it is`)
+      return current
+    }
+    if (choices.every((choice) => choice === null)) {
+      return text
+    }
+    const resolvedText = applyResolutions(text, choices)
+    fs.writeFileSync(filePath, resolvedText)
+    return resolvedText
+  }
+
+  /**
+   * Redo the merge of the file's index stages with diff3 markers to learn the base of each conflict
+   * @returns The base lines of each conflict, or null when a stage is missing (e.g. added on
+   *   both sides)
+   */
+  private async mergeBases(file: string): Promise<string[][] | null> {
+    const stages = await Promise.all(
+      [2, 1, 3].map((stage) =>
+        this.service.run(['show', `:${stage}:${file}`]).then(
+          ({ stdout }) => stdout,
+          () => null,
+        ),
+      ),
+    )
+    if (stages.some((content) => content === null)) {
+      return null
+    }
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-conflict-'))
+    try {
+      const paths = ['ours', 'base', 'theirs'].map((name, index) => {
+        const stagePath = path.join(dir, name)
+        fs.writeFileSync(stagePath, stages[index] as string)
+        return stagePath
+      })
+      // merge-file exits with the number of conflicts
+      const { stdout } = await this.service.run(['merge-file', '-p', '--diff3', ...paths], {
+        okExitCodes: Array.from({ length: 127 }, (_, index) => index + 1),
+      })
+      return parseConflictMarkers(stdout).map((hunk) => hunk.base ?? [])
+    } catch {
+      return null
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  }
+}
+
+/**
+ * The ours, base and theirs views of a conflict
+ */
+export function formatConflict(file: string, hunk: ConflictHunk, position: string): string {
+  const section = (title: string, lines: string[]) => [
+    `── ${title} ${'─'.repeat(Math.max(0, 46 - title.length))}`,
+    ...lines.map((line) => `  ${line.replace(/\r$/, '')}`),
+  ]
+  return [
+    '',
+    `⚔️  Conflict ${position} in ${file} (lines ${hunk.start + 1}-${hunk.end + 1})`,
+    ...section(`ours${hunk.oursLabel ? ` (${hunk.oursLabel})` : ''}`, hunk.ours),
+    ...(hunk.base ? section('base', hunk.base) : []),
+    ...section(`theirs${hunk.theirsLabel ? ` (${hunk.theirsLabel})` : ''}`, hunk.theirs),
+  ].join('\n')
+}
+
+function summarize(result: ConflictResolutionResult): string {
+  const parts = [
+    result.resolved.length > 0 ? `resolved ${result.resolved.length}` : '',
+    result.remaining.length > 0 ? `${result.remaining.length} still conflicted` : '',
+  ].filter((part) => part)
+  return parts.length > 0 ? `Conflicted files: ${parts.join(', ')}` : 'No files changed'
+}
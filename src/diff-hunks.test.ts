@@ -0,0 +1,128 @@
+import {
+  applyHunks,
+  buildPatch,
+  describeHunk,
+  diffFilePath,
+  parseMultiFileDiff,
+  parseUnifiedDiff,
+} from './diff-hunks.js'
+import { createUnifiedDiff } from './diff-proposal.js'
+
+describe('diff-hunks', () => {
+  const oldContents = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n'
+  const newContents = oldContents
+    .replace('line 2\n', 'line two\n')
+    .replace('line 10\n', 'line 10\ninserted\n')
+    .replace('line 19\n', '')
+
+  let diff: string
+
+  beforeAll(async () => {
+    diff = await createUnifiedDiff('file.txt', oldContents, newContents)
+  })
+
+  describe('parseUnifiedDiff', () => {
+    it('should split the file header from the hunks', () => {
+      const parsed = parseUnifiedDiff(diff)
+
+      expect(parsed.header).toEqual([
+        'diff --git a/file.txt b/file.txt',
+        '--- a/file.txt',
+        '+++ b/file.txt',
+      ])
+      expect(parsed.hunks).toHaveLength(3)
+      expect(parsed.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 })
+      expect(parsed.hunks[0].lines).toContain('+line two')
+    })
+
+    it('should default omitted line counts to 1', () => {
+      const parsed = parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b\n')
+
+      expect(parsed.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1 })
+    })
+  })
+
+  describe('applyHunks', () => {
+    let hunks: ReturnType<typeof parseUnifiedDiff>['hunks']
+
+    beforeAll(() => {
+      hunks = parseUnifiedDiff(diff).hunks
+    })
+
+    it('should reproduce the new contents when every hunk is applied', () => {
+      expect(applyHunks(oldContents, hunks, [0, 1, 2])).toBe(newContents)
+    })
+
+    it('should keep the original contents when no hunk is applied', () => {
+      expect(applyHunks(oldContents, hunks, [])).toBe(oldContents)
+    })
+
+    it('should apply only the selected hunks', () => {
+      const merged = applyHunks(oldContents, hunks, [1])
+
+      expect(merged).toContain('line 2\n')
+      expect(merged).toContain('line 10\ninserted\n')
+      expect(merged).toContain('line 19\n')
+    })
+
+    it('should handle files without a trailing newline', async () => {
+      const before = 'a\nb'
+      const after = 'a\nc'
+      const parsed = parseUnifiedDiff(await createUnifiedDiff('f', before, after))
+
+      expect(applyHunks(before, parsed.hunks, [0])).toBe(after)
+    })
+
+    it('should handle new files', async () => {
+      const parsed = parseUnifiedDiff(await createUnifiedDiff('f', '', 'x\ny\n', true))
+
+      expect(applyHunks('', parsed.hunks, [0])).toBe('x\ny\n')
+    })
+  })
+
+  describe('buildPatch', () => {
+    it('should keep the header and only the selected hunks', () => {
+      const parsed = parseUnifiedDiff(diff)
+      const patch = buildPatch(parsed, [2])
+
+      expect(patch.startsWith('diff --git a/file.txt b/file.txt\n')).toBe(true)
+      expect(patch).toContain('-line 19')
+      expect(patch).not.toContain('+line two')
+    })
+  })
+
+  describe('describeHunk', () => {
+    it('should show the range and the first change', () => {
+      const { hunks } = parseUnifiedDiff(diff)
+
+      expect(describeHunk(hunks[0])).toBe('@@ -1,5 +1,5 @@  -line 2')
+    })
+  })
+
+  describe('parseMultiFileDiff', () => {
+    it('should split git diff output per file', async () => {
+      const other = await createUnifiedDiff('other.txt', 'a\n', 'b\n')
+
+      const files = parseMultiFileDiff(`${diff}${other}`)
+
+      expect(files.map(diffFilePath)).toEqual(['file.txt', 'other.txt'])
+      expect(files.map((parsed) => parsed.hunks.length)).toEqual([3, 1])
+    })
+
+    it('should return nothing for an empty diff', () => {
+      expect(parseMultiFileDiff('')).toEqual([])
+    })
+  })
+
+  describe('diffFilePath', () => {
+    it('should use the old path of deleted files and the git header of binary files', () => {
+      const deleted = parseUnifiedDiff(
+        'diff --git a/gone.txt b/gone.txt\n--- a/gone.txt\n+++ /dev/null\n',
+      )
+      const binary = parseUnifiedDiff('diff --git a/logo.png b/logo.png\nBinary files differ\n')
+
+      expect(diffFilePath(deleted)).toBe('gone.txt')
+      expect(diffFilePath(binary)).toBe('logo.png')
+    })
+  })
+})
@@ -0,0 +1,159 @@
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line */
+  header: string
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  /** Body lines including their ' ', '-', '+' or '\' prefix */
+  lines: string[]
+}
+
+export interface ParsedDiff {
+  /** File header lines (diff --git, ---, +++) */
+  header: string[]
+  hunks: DiffHunk[]
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+/**
+ * Parse a single-file unified diff into its header and hunks
+ * @param diff - Unified diff text
+ * @returns File header and hunks in file order
+ */
+export function parseUnifiedDiff(diff: string): ParsedDiff {
+  const header: string[] = []
+  const hunks: DiffHunk[] = []
+
+  const lines = diff.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+
+  for (const line of lines) {
+    const match = line.match(HUNK_HEADER)
+    if (match) {
+      hunks.push({
+        header: line,
+        oldStart: parseInt(match[1]),
+        oldLines: match[2] === undefined ? 1 : parseInt(match[2]),
+        newStart: parseInt(match[3]),
+        newLines: match[4] === undefined ? 1 : parseInt(match[4]),
+        lines: [],
+      })
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line)
+    } else {
+      header.push(line)
+    }
+  }
+
+  return { header, hunks }
+}
+
+/**
+ * Split hunk body lines into old and new file lines, keeping line terminators
+ */
+function hunkSides(hunk: DiffHunk): { oldSide: string[]; newSide: string[] } {
+  const oldSide: string[] = []
+  const newSide: string[] = []
+
+  hunk.lines.forEach((line, index) => {
+    if (line.startsWith('\\')) {
+      return
+    }
+
+    // "\ No newline at end of file" applies to the line before it
+    const terminator = hunk.lines[index + 1]?.startsWith('\\') ? '' : '\n'
+    const text = line.substring(1) + terminator
+
+    if (line.startsWith('-') || line.startsWith(' ')) {
+      oldSide.push(text)
+    }
+    if (line.startsWith('+') || line.startsWith(' ')) {
+      newSide.push(text)
+    }
+  })
+
+  return { oldSide, newSide }
+}
+
+/**
+ * Apply a subset of hunks to the original contents
+ * @param oldContents - Contents the diff was created against
+ * @param hunks - All hunks of the diff, in file order
+ * @param selected - Indexes of the hunks to apply; the others keep the original lines
+ * @returns Merged contents
+ */
+export function applyHunks(oldContents: string, hunks: DiffHunk[], selected: number[]): string {
+  const oldLines = oldContents.match(/[^\n]*\n|[^\n]+$/g) ?? []
+  const result: string[] = []
+  let cursor = 0
+
+  hunks.forEach((hunk, index) => {
+    if (!selected.includes(index)) {
+      return
+    }
+
+    // A hunk without old lines inserts after oldStart instead of replacing it
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1
+    const { oldSide, newSide } = hunkSides(hunk)
+
+    result.push(...oldLines.slice(cursor, start), ...newSide)
+    cursor = start + oldSide.length
+  })
+
+  result.push(...oldLines.slice(cursor))
+  return result.join('')
+}
+
+/**
+ * Build a unified diff containing only some of the hunks (for rendering)
+ */
+export function buildPatch(parsed: ParsedDiff, selected: number[]): string {
+  const hunks = parsed.hunks.filter((_, index) => selected.includes(index))
+  return [...parsed.header, ...hunks.flatMap((hunk) => [hunk.header, ...hunk.lines])].join('\n')
+}
+
+/**
+ * One-line description of a hunk for pickers, e.g. "@@ -3,2 +3,4 @@  +added line"
+ */
+export function describeHunk(hunk: DiffHunk): string {
+  const firstChange = hunk.lines.find((line) => line.startsWith('+') || line.startsWith('-')) ?? ''
+  const header = hunk.header.match(HUNK_HEADER)?.[0] ?? hunk.header
+  return `${header}  ${firstChange.trim()}`
+}
+
+/**
+ * Split a multi-file diff (e.g. `git diff` output) into one parsed diff per file
+ * @param diff - Unified diff text with `diff --git` file headers
+ * @returns Parsed diffs in file order
+ */
+export function parseMultiFileDiff(diff: string): ParsedDiff[] {
+  const files: string[][] = []
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ') || files.length === 0) {
+      files.push([])
+    }
+    files[files.length - 1].push(line)
+  }
+  return files
+    .map((lines) => parseUnifiedDiff(lines.join('\n')))
+    .filter((parsed) => parsed.header.length > 0 || parsed.hunks.length > 0)
+}
+
+/**
+ * Path of the file a parsed diff changes, taken from its `+++`/`---` lines
+ * (the old path for deletions)
+ */
+export function diffFilePath(parsed: ParsedDiff): string {
+  const newPath = parsed.header.find((line) => line.startsWith('+++ '))?.substring(4)
+  const oldPath = parsed.header.find((line) => line.startsWith('--- '))?.substring(4)
+  const filePath = newPath && newPath !== '/dev/null' ? newPath : oldPath
+  if (filePath) {
+    return filePath.replace(/^[ab]\//, '')
+  }
+  // Binary or mode-only changes have no ---/+++ lines
+  return parsed.header[0]?.match(/^diff --git a\/.* b\/(.*)$/)?.[1] ?? ''
+}
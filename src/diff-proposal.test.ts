@@ -0,0 +1,244 @@
+import {
+  DiffProposalManager,
+  createUnifiedDiff,
+  colorizeDiff,
+  fileSavedResult,
+  diffRejectedResult,
+} from './diff-proposal.js'
+import { GitReviewManager } from './git-review.js'
+import { parseUnifiedDiff } from './diff-hunks.js'
+import { ProcessError, ProcessRunner, RunOptions } from './process-runner.js'
+
+describe('createUnifiedDiff', () => {
+  it('should produce a unified diff with the display path in the headers', async () => {
+    const diff = await createUnifiedDiff('src/app.ts', 'one\ntwo\nthree\n', 'one\n2\nthree\n')
+
+    expect(diff).toContain('diff --git a/src/app.ts b/src/app.ts')
+    expect(diff).toContain('--- a/src/app.ts')
+    expect(diff).toContain('+++ b/src/app.ts')
+    expect(diff).toContain('-two')
+    expect(diff).toContain('+2')
+    expect(diff).not.toContain('claude-term-diff-')
+  })
+
+  it('should use /dev/null as the old side for new files', async () => {
+    const diff = await createUnifiedDiff('src/new.ts', '', 'export {}\n', true)
+
+    expect(diff).toContain('--- /dev/null')
+    expect(diff).toContain('+export {}')
+  })
+
+  it('should return an empty string for identical contents', async () => {
+    await expect(createUnifiedDiff('same.txt', 'same\n', 'same\n')).resolves.toBe('')
+  })
+})
+
+describe('colorizeDiff', () => {
+  it('should color added, removed and hunk header lines', () => {
+    const colored = colorizeDiff('@@ -1 +1 @@\n-old\n+new\n context')
+
+    expect(colored).toContain('\x1b[36m@@ -1 +1 @@\x1b[0m')
+    expect(colored).toContain('\x1b[31m-old\x1b[0m')
+    expect(colored).toContain('\x1b[32m+new\x1b[0m')
+    expect(colored).toContain('\n context')
+  })
+})
+
+describe('open_diff results', () => {
+  it('should report saved contents after FILE_SAVED', () => {
+    expect(fileSavedResult('content')).toEqual([
+      { type: 'text', text: 'FILE_SAVED' },
+      { type: 'text', text: 'content' },
+    ])
+  })
+
+  it('should report the tab name after DIFF_REJECTED', () => {
+    expect(diffRejectedResult('tab-1')).toEqual([
+      { type: 'text', text: 'DIFF_REJECTED' },
+      { type: 'text', text: 'tab-1' },
+    ])
+  })
+})
+
+describe('DiffProposalManager', () => {
+  let manager: DiffProposalManager
+
+  beforeEach(() => {
+    manager = new DiffProposalManager(new GitReviewManager())
+  })
+
+  it('should review proposals one at a time', async () => {
+    const order: string[] = []
+    let releaseFirst: () => void = () => undefined
+
+    const first = manager.review('a', async () => {
+      order.push('a:start')
+      await new Promise<void>((resolve) => (releaseFirst = resolve))
+      order.push('a:end')
+    })
+    const second = manager.review('b', () => {
+      order.push('b:start')
+      return Promise.resolve()
+    })
+
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(order).toEqual(['a:start'])
+
+    releaseFirst()
+    await Promise.all([first, second])
+
+    expect(order).toEqual(['a:start', 'a:end', 'b:start'])
+    expect(manager.pendingCount).toBe(0)
+  })
+
+  it('should abort every pending proposal on cancelAll', async () => {
+    const signals: AbortSignal[] = []
+    const reviews = ['a', 'b'].map((tab) =>
+      manager.review(tab, (signal) => {
+        signals.push(signal)
+        return new Promise<string>((resolve) => {
+          if (signal.aborted) {
+            resolve('cancelled')
+          }
+          signal.addEventListener('abort', () => resolve('cancelled'))
+        })
+      }),
+    )
+
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(manager.cancelAll()).toBe(2)
+
+    await expect(Promise.all(reviews)).resolves.toEqual(['cancelled', 'cancelled'])
+    expect(signals[signals.length - 1].aborted).toBe(true)
+  })
+
+  it('should only abort the proposals of the given client on cancelForClient', async () => {
+    const reviews = [
+      ['a', '1'],
+      ['b', '2'],
+      ['c', '1'],
+    ].map(([tab, clientId]) =>
+      manager.review(
+        tab,
+        (signal) => Promise.resolve(signal.aborted ? 'cancelled' : 'reviewed'),
+        clientId,
+      ),
+    )
+
+    expect(manager.cancelForClient('1')).toBe(2)
+
+    await expect(Promise.all(reviews)).resolves.toEqual(['cancelled', 'reviewed', 'cancelled'])
+    expect(manager.pendingCount).toBe(0)
+  })
+
+  it('should keep reviewing after a reviewer throws', async () => {
+    const failed = manager.review('a', () => Promise.reject(new Error('boom')))
+    const next = manager.review('b', () => Promise.resolve('ok'))
+
+    await expect(failed).rejects.toThrow('boom')
+    await expect(next).resolves.toBe('ok')
+  })
+})
+
+describe('DiffProposalManager.pickHunks', () => {
+  let parsed: ReturnType<typeof parseUnifiedDiff>
+  let manager: DiffProposalManager
+  let consoleSpy: jest.SpyInstance
+
+  beforeAll(async () => {
+    parsed = parseUnifiedDiff(
+      await createUnifiedDiff(
+        'f.txt',
+        'a\n1\n2\n3\n4\n5\n6\n7\n8\nb\n1\n2\n3\n4\n5\n6\n7\n8\nc\n',
+        'A\n1\n2\n3\n4\n5\n6\n7\n8\nB\n1\n2\n3\n4\n5\n6\n7\n8\nC\n',
+      ),
+    )
+  })
+
+  beforeEach(() => {
+    manager = new DiffProposalManager(new GitReviewManager())
+    // Exercise the built-in selector regardless of what is installed
+    jest
+      .spyOn(
+        manager as unknown as { isInstalled(command: string): Promise<boolean> },
+        'isInstalled',
+      )
+      .mockResolvedValue(false)
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+  })
+
+  const asker =
+    (...answers: Array<string | null>) =>
+    () =>
+      Promise.resolve(answers.shift() ?? null)
+
+  it('should ask about each hunk in turn', async () => {
+    expect(parsed.hunks).toHaveLength(3)
+
+    await expect(manager.pickHunks(parsed, asker('y', 'n', 'y'))).resolves.toEqual([0, 2])
+  })
+
+  it('should accept all remaining hunks with a', async () => {
+    await expect(manager.pickHunks(parsed, asker('n', 'a'))).resolves.toEqual([1, 2])
+  })
+
+  it('should stop asking with d', async () => {
+    await expect(manager.pickHunks(parsed, asker('y', 'd'))).resolves.toEqual([0])
+  })
+
+  it('should re-ask after an invalid answer', async () => {
+    await expect(manager.pickHunks(parsed, asker('x', 'y', 'n', 'n'))).resolves.toEqual([0])
+    expect(consoleSpy).toHaveBeenCalledWith('❌ Invalid choice. Please enter y, n, a or d.')
+  })
+
+  it('should return null when the prompt is cancelled', async () => {
+    await expect(manager.pickHunks(parsed, asker('y', null))).resolves.toBeNull()
+  })
+
+  it('should return the chosen hunks of each file with pickFileHunks', async () => {
+    const other = parseUnifiedDiff(await createUnifiedDiff('g.txt', 'x\n', 'y\n'))
+
+    await expect(
+      manager.pickFileHunks([parsed, other], asker('n', 'y', 'n', 'y'), 'stage'),
+    ).resolves.toEqual([[1], [0]])
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('in g.txt'))
+  })
+
+  describe('with fzf', () => {
+    let runSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      jest
+        .spyOn(
+          manager as unknown as { isInstalled(command: string): Promise<boolean> },
+          'isInstalled',
+        )
+        .mockImplementation((command) => Promise.resolve(command === 'fzf'))
+      runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+    })
+
+    afterEach(() => {
+      runSpy.mockRestore()
+    })
+
+    it('should run fzf without blocking and return the picked hunks in order', async () => {
+      runSpy.mockResolvedValue({ stdout: '2\t3: ...\n0\t1: ...\n', stderr: '', exitCode: 0 })
+
+      await expect(manager.pickHunks(parsed, asker())).resolves.toEqual([0, 2])
+      const [command, , options] = runSpy.mock.calls[0] as [string, string[], RunOptions]
+      expect(command).toBe('fzf')
+      expect(options).toMatchObject({ stderr: 'inherit', timeout: 0 })
+      expect(options.input?.split('\n')).toHaveLength(3)
+    })
+
+    it('should return null when fzf is cancelled', async () => {
+      runSpy.mockRejectedValue(new ProcessError('cancelled', 'exit_code', 'fzf', [], 130))
+
+      await expect(manager.pickHunks(parsed, asker())).resolves.toBeNull()
+    })
+  })
+})
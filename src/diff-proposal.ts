@@ -0,0 +1,373 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { GitReviewManager } from './git-review.js'
+import { ProcessError, ProcessRunner } from './process-runner.js'
+import { ParsedDiff, buildPatch, describeHunk, diffFilePath } from './diff-hunks.js'
+
+/** First content item of an accepted open_diff result, followed by the saved contents */
+export const FILE_SAVED = 'FILE_SAVED'
+
+/** First content item of a rejected open_diff result, followed by the tab name */
+export const DIFF_REJECTED = 'DIFF_REJECTED'
+
+/** Arguments of Claude's open_diff tool call */
+export const OPEN_DIFF_ARGS = z.object({
+  /** The file the proposal is based on, the new file when missing */
+  old_file_path: z.string().optional(),
+  new_file_path: z.string().min(1),
+  new_file_contents: z.string(),
+  /** Identifier of the proposal, the new file path when missing */
+  tab_name: z.string().optional(),
+})
+
+export type OpenDiffArgs = z.infer<typeof OPEN_DIFF_ARGS>
+
+export interface TextContent {
+  type: 'text'
+  text: string
+}
+
+export function fileSavedResult(savedContents: string): TextContent[] {
+  return [
+    { type: 'text', text: FILE_SAVED },
+    { type: 'text', text: savedContents },
+  ]
+}
+
+export function diffRejectedResult(tabName: string): TextContent[] {
+  return [
+    { type: 'text', text: DIFF_REJECTED },
+    { type: 'text', text: tabName },
+  ]
+}
+
+/**
+ * Build a unified diff between two versions of a file using `git diff --no-index`
+ * @param displayPath - Path shown in the diff headers
+ * @param oldContents - Current file contents ('' for new files)
+ * @param newContents - Proposed file contents
+ * @param isNewFile - Whether the file does not exist yet
+ * @returns Unified diff, or '' when the contents are identical
+ */
+export async function createUnifiedDiff(
+  displayPath: string,
+  oldContents: string,
+  newContents: string,
+  isNewFile = false,
+): Promise<string> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-diff-'))
+  const oldFile = path.join(tmpDir, 'old')
+  const newFile = path.join(tmpDir, 'new')
+
+  try {
+    fs.writeFileSync(oldFile, oldContents)
+    fs.writeFileSync(newFile, newContents)
+
+    let diff: string
+    try {
+      // git diff exits with 1 when the files differ
+      const args = ['diff', '--no-index', '--no-color', '--', oldFile, newFile]
+      diff = (await new ProcessRunner().run('git', args, { okExitCodes: [1] })).stdout
+    } catch {
+      throw new Error('Failed to create diff')
+    }
+
+    const firstHunk = diff.indexOf('\n@@')
+    if (firstHunk === -1) {
+      return ''
+    }
+
+    // Replace temp file names in the headers with the real path
+    const header = [
+      `diff --git a/${displayPath} b/${displayPath}`,
+      isNewFile ? '--- /dev/null' : `--- a/${displayPath}`,
+      `+++ b/${displayPath}`,
+    ].join('\n')
+    return header + diff.substring(firstHunk)
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Color a unified diff with ANSI escapes (used when delta is not installed)
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('diff ') || line.startsWith('+++') || line.startsWith('---')) {
+        return `\x1b[1m${line}\x1b[0m`
+      } else if (line.startsWith('@@')) {
+        return `\x1b[36m${line}\x1b[0m`
+      } else if (line.startsWith('+')) {
+        return `\x1b[32m${line}\x1b[0m`
+      } else if (line.startsWith('-')) {
+        return `\x1b[31m${line}\x1b[0m`
+      }
+      return line
+    })
+    .join('\n')
+}
+
+/** A hunk offered by the hunk picker */
+interface HunkChoice {
+  /** Index of the file in the picker's input */
+  file: number
+  /** Index of the hunk within its file */
+  hunk: number
+  /** One line for the fzf list */
+  label: string
+  /** Heading for the built-in selector */
+  title: string
+  /** Diff with just this hunk, for the preview */
+  patch: string
+}
+
+/** A proposal that is being reviewed or waits for its turn */
+interface PendingProposal {
+  controller: AbortController
+  /** Client that proposed it, when known */
+  clientId?: string
+}
+
+/**
+ * Tracks open_diff proposals waiting for a decision in the terminal.
+ *
+ * Reviews run one at a time so prompts for concurrent proposals don't interleave,
+ * and every pending review can be cancelled at once (close_all_diff_tabs) or per client.
+ */
+export class DiffProposalManager {
+  private pending = new Map<string, PendingProposal>()
+  private queue: Promise<unknown> = Promise.resolve()
+  private availableCommands = new Map<string, boolean>()
+  private runner = new ProcessRunner()
+
+  constructor(private gitReview: GitReviewManager) {}
+
+  /**
+   * Queue a review for a proposal
+   * @param tabName - Identifier Claude uses for the proposal
+   * @param reviewer - Runs the interactive review; the signal aborts when the proposal is cancelled
+   * @param clientId - Client that proposed it, so its proposals can be dropped when it disconnects
+   * @returns Promise resolving to the reviewer's result
+   */
+  review<T>(
+    tabName: string,
+    reviewer: (signal: AbortSignal) => Promise<T>,
+    clientId?: string,
+  ): Promise<T> {
+    // A new proposal for the same tab supersedes the old one
+    this.pending.get(tabName)?.controller.abort()
+
+    const controller = new AbortController()
+    this.pending.set(tabName, { controller, clientId })
+
+    const run = this.queue.then(() => reviewer(controller.signal))
+    this.queue = run.catch(() => undefined)
+
+    return run.finally(() => {
+      if (this.pending.get(tabName)?.controller === controller) {
+        this.pending.delete(tabName)
+      }
+    })
+  }
+
+  /**
+   * Cancel every pending proposal
+   * @returns Number of proposals cancelled
+   */
+  cancelAll(): number {
+    const count = this.pending.size
+    this.pending.forEach(({ controller }) => controller.abort())
+    this.pending.clear()
+    return count
+  }
+
+  /**
+   * Cancel the proposals of one client, the one under review as well as the queued ones
+   * @returns Number of proposals cancelled
+   */
+  cancelForClient(clientId: string): number {
+    let count = 0
+    this.pending.forEach((proposal, tabName) => {
+      if (proposal.clientId === clientId) {
+        proposal.controller.abort()
+        this.pending.delete(tabName)
+        count++
+      }
+    })
+    return count
+  }
+
+  get pendingCount(): number {
+    return this.pending.size
+  }
+
+  /**
+   * Render a diff for the terminal with delta, or built-in colors if delta is missing
+   */
+  async renderDiff(diff: string): Promise<string> {
+    return (await this.isInstalled('delta'))
+      ? this.gitReview.formatDiffWithDelta(diff)
+      : colorizeDiff(diff)
+  }
+
+  /**
+   * Let the user choose which hunks of a proposal to apply, using fzf when installed
+   * @param parsed - Parsed proposal diff
+   * @param ask - Prompts the user for the built-in selector (resolves null when cancelled)
+   * @returns Indexes of the chosen hunks, or null if the selection was cancelled
+   */
+  async pickHunks(
+    parsed: ParsedDiff,
+    ask: (question: string) => Promise<string | null>,
+  ): Promise<number[] | null> {
+    const selection = await this.pickFileHunks([parsed], ask)
+    return selection && selection[0]
+  }
+
+  /**
+   * Let the user choose hunks across several files in one go, using fzf when installed
+   * @param files - Parsed diff of each file
+   * @param ask - Prompts the user for the built-in selector (resolves null when cancelled)
+   * @param action - Verb for the prompts, e.g. 'stage'
+   * @returns Indexes of the chosen hunks for each file, or null if the selection was cancelled
+   */
+  async pickFileHunks(
+    files: ParsedDiff[],
+    ask: (question: string) => Promise<string | null>,
+    action = 'apply',
+  ): Promise<number[][] | null> {
+    const choices: HunkChoice[] = files.flatMap((parsed, file) =>
+      parsed.hunks.map((hunk, index) => ({
+        file,
+        hunk: index,
+        // Name the file when there is more than one
+        label: `${files.length > 1 ? `${diffFilePath(parsed)}  ` : ''}${describeHunk(hunk)}`,
+        title: `${hunk.header}${files.length > 1 ? ` in ${diffFilePath(parsed)}` : ''}`,
+        patch: buildPatch(parsed, [index]),
+      })),
+    )
+
+    const picked = (await this.isInstalled('fzf'))
+      ? await this.pickHunksWithFzf(choices, action)
+      : await this.pickHunksWithPrompt(choices, action, ask)
+    if (picked === null) {
+      return null
+    }
+
+    const selection: number[][] = files.map(() => [])
+    picked.forEach((index) => selection[choices[index].file].push(choices[index].hunk))
+    return selection
+  }
+
+  private async pickHunksWithFzf(choices: HunkChoice[], action: string): Promise<number[] | null> {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-hunks-'))
+
+    try {
+      // One rendered file per hunk for the preview window
+      for (let i = 0; i < choices.length; i++) {
+        fs.writeFileSync(path.join(tmpDir, `${i}.diff`), await this.renderDiff(choices[i].patch))
+      }
+      const list = choices.map((choice, i) => `${i}\t${i + 1}: ${choice.label}`).join('\n')
+
+      console.log('🔍 Opening fzf hunk picker...')
+      console.log(`💡 Select hunks with Tab, press Enter to ${action} them`)
+
+      const { stdout } = await this.runner.run(
+        'fzf',
+        [
+          '--multi',
+          '--reverse',
+          '--height=80%',
+          '--border',
+          '--delimiter=\t',
+          '--with-nth=2..',
+          `--preview=cat '${tmpDir}'/{1}.diff`,
+          '--preview-window=right:60%',
+          `--header=Select hunks with Tab, press Enter to ${action}`,
+          '--prompt=Hunks> ',
+        ],
+        { input: list, stderr: 'inherit', timeout: 0, okExitCodes: [1] },
+      )
+
+      return stdout
+        .split('\n')
+        .map((line) => parseInt(line.split('\t')[0]))
+        .filter((index) => !isNaN(index))
+        .sort((a, b) => a - b)
+    } catch (error) {
+      // 130: cancelled with Esc or Ctrl-C
+      if (error instanceof ProcessError && error.reason === 'exit_code') {
+        return null
+      }
+      throw error
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  }
+
+  private async pickHunksWithPrompt(
+    choices: HunkChoice[],
+    action: string,
+    ask: (question: string) => Promise<string | null>,
+  ): Promise<number[] | null> {
+    const selected: number[] = []
+    const total = choices.length
+    const verb = action.charAt(0).toUpperCase() + action.slice(1)
+
+    for (let i = 0; i < total; i++) {
+      console.log(`\n🧩 Hunk ${i + 1}/${total}: ${choices[i].title}`)
+      console.log(await this.renderDiff(choices[i].patch))
+
+      let decided = false
+      while (!decided) {
+        const answer = await ask(
+          `❓ ${verb} hunk ${i + 1}/${total}? (y)es / (n)o / (a)ll remaining / (d)one: `,
+        )
+        if (answer === null) {
+          return null
+        }
+
+        const choice = answer.toLowerCase()
+        if (choice === 'y' || choice === 'yes') {
+          selected.push(i)
+          decided = true
+        } else if (choice === 'n' || choice === 'no') {
+          decided = true
+        } else if (choice === 'a' || choice === 'all') {
+          for (let j = i; j < total; j++) {
+            selected.push(j)
+          }
+          return selected
+        } else if (choice === 'd' || choice === 'done') {
+          return selected
+        } else {
+          console.log('❌ Invalid choice. Please enter y, n, a or d.')
+        }
+      }
+    }
+
+    return selected
+  }
+
+  /**
+   * Check (once) whether an optional external tool is installed
+   */
+  private async isInstalled(command: string): Promise<boolean> {
+    let available = this.availableCommands.get(command)
+    if (available === undefined) {
+      try {
+        await this.runner.run(command, ['--version'])
+        available = true
+      } catch {
+        available = false
+      }
+      this.availableCommands.set(command, available)
+    }
+    return available
+  }
+}
@@ -0,0 +1,107 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { DiffSharingManager, diffStats, parseSendDiffArgs } from './diff-sharing.js'
+import { GitCommandManager } from './git-command-manager.js'
+
+describe('parseSendDiffArgs', () => {
+  it('should parse --staged and the target', () => {
+    expect(parseSendDiffArgs([])).toEqual({ staged: false, target: undefined })
+    expect(parseSendDiffArgs(['--staged', 'src/'])).toEqual({ staged: true, target: 'src/' })
+    expect(parseSendDiffArgs(['HEAD~3..HEAD'])).toEqual({ staged: false, target: 'HEAD~3..HEAD' })
+  })
+
+  it('should reject unknown flags and more than one target', () => {
+    expect(parseSendDiffArgs(['--cached'])).toBeNull()
+    expect(parseSendDiffArgs(['a.txt', 'b.txt'])).toBeNull()
+  })
+})
+
+describe('diffStats', () => {
+  it('should count files and changed lines but not file headers', () => {
+    const diff = [
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      '-old',
+      '+new',
+      '+more',
+      ' same',
+    ].join('\n')
+
+    expect(diffStats(diff)).toEqual({ files: 1, insertions: 2, deletions: 1 })
+  })
+})
+
+describe('DiffSharingManager', () => {
+  let repo: string
+  let manager: DiffSharingManager
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-send-diff-'))
+    git('init -q')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'a\n')
+    git('add a.txt')
+    git('commit -q -m initial')
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'a\nsecond\n')
+    git('commit -q -am "Add second line"')
+    manager = new DiffSharingManager(new GitCommandManager(repo), repo)
+  })
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should share the unstaged and staged changes separately', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'a\nsecond\nthird\n')
+    fs.writeFileSync(path.join(repo, 'b.txt'), 'b\n')
+    git('add b.txt')
+
+    const working = await manager.buildResource({ staged: false })
+    const staged = await manager.buildResource({ staged: true, target: 'b.txt' })
+
+    expect(working).toMatchObject({
+      uri: 'git-diff://working',
+      name: 'Unstaged changes',
+      description: 'Unstaged changes: 1 file(s), +1 -0',
+      mimeType: 'text/x-diff',
+    })
+    expect(working?.text).toContain('+third')
+    expect(staged).toMatchObject({
+      uri: 'git-diff://staged/b.txt',
+      name: 'Staged changes in b.txt',
+    })
+    expect(staged?.text).toContain('+b')
+  })
+
+  it('should share a commit range or a single commit', async () => {
+    const range = await manager.buildResource({ staged: false, target: 'HEAD~1..HEAD' })
+    const commit = await manager.buildResource({ staged: false, target: 'HEAD' })
+
+    expect(range).toMatchObject({ uri: 'git-diff://HEAD~1..HEAD', name: 'Changes in HEAD~1..HEAD' })
+    expect(range?.text).toContain('+second')
+    expect(commit?.text).toBe(range?.text)
+  })
+
+  it('should return null when there is nothing to share', async () => {
+    await expect(manager.buildResource({ staged: false })).resolves.toBeNull()
+    await expect(manager.buildResource({ staged: true, target: 'a.txt' })).resolves.toBeNull()
+  })
+
+  it('should refuse --staged with a commit range', async () => {
+    await expect(manager.buildResource({ staged: true, target: 'HEAD~1..HEAD' })).rejects.toThrow(
+      '--staged only works with paths, not with commit ranges',
+    )
+  })
+})
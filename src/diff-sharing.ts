@@ -0,0 +1,101 @@
+// diff-sharing.ts - Share uncommitted changes or a commit range with Claude as a git-diff:// resource (/send-diff)
+
+import fs from 'fs'
+import path from 'path'
+import { GitCommandManager } from './git-command-manager.js'
+import { GitResource, diffUri } from './git-resources.js'
+
+export interface SendDiffArgs {
+  staged: boolean
+  /** File, directory, commit range or single commit; the whole working tree when missing */
+  target?: string
+}
+
+export interface DiffStats {
+  files: number
+  insertions: number
+  deletions: number
+}
+
+/**
+ * Parse /send-diff arguments: `[--staged] [<path|range>]`
+ * @returns null if they don't match the usage
+ */
+export function parseSendDiffArgs(args: string[]): SendDiffArgs | null {
+  const staged = args[0] === '--staged'
+  const rest = staged ? args.slice(1) : args
+  if (rest.length > 1 || rest[0]?.startsWith('-')) {
+    return null
+  }
+  return { staged, target: rest[0] }
+}
+
+/**
+ * Count the files and changed lines of a unified diff, like `git diff --shortstat`
+ */
+export function diffStats(diff: string): DiffStats {
+  const stats: DiffStats = { files: 0, insertions: 0, deletions: 0 }
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      stats.files++
+    } else if (line.startsWith('+') && !line.startsWith('+++ ')) {
+      stats.insertions++
+    } else if (line.startsWith('-') && !line.startsWith('--- ')) {
+      stats.deletions++
+    }
+  }
+  return stats
+}
+
+export class DiffSharingManager {
+  constructor(
+    private git: GitCommandManager,
+    private workspaceFolder: string = process.cwd(),
+  ) {}
+
+  /**
+   * Take a snapshot of the diff as a resource. A target containing `..` is a commit range; one
+   * that exists in the workspace or names no commit (like a deleted file) is a path; anything
+   * else is a commit, diffed against its parent.
+   * @returns The resource, or null when there are no changes
+   * @throws Error when `--staged` is combined with a range or commit, or git fails
+   */
+  async buildResource({ staged, target }: SendDiffArgs): Promise<GitResource | null> {
+    const range = target && (await this.resolveRange(target))
+    if (range && staged) {
+      throw new Error('--staged only works with paths, not with commit ranges')
+    }
+
+    const diff = range ? await this.git.getRangeDiff(range) : await this.git.getDiff(target, staged)
+    if (!diff.trim()) {
+      return null
+    }
+
+    const what = range
+      ? `Changes in ${target}`
+      : `${staged ? 'Staged' : 'Unstaged'} changes${target ? ` in ${target}` : ''}`
+    const { files, insertions, deletions } = diffStats(diff)
+
+    return {
+      uri: range && target ? diffUri(target) : diffUri(staged ? 'staged' : 'working', target),
+      name: what,
+      description: `${what}: ${files} file(s), +${insertions} -${deletions}`,
+      mimeType: 'text/x-diff',
+      text: diff,
+    }
+  }
+
+  /**
+   * The range to diff when the target names commits rather than a path
+   */
+  private async resolveRange(target: string): Promise<string | null> {
+    if (target.includes('..')) {
+      return target
+    }
+    if (fs.existsSync(path.resolve(this.workspaceFolder, target))) {
+      return null
+    }
+    // <commit>^! is the commit against its parent
+    return (await this.git.resolveCommit(target)) ? `${target}^!` : null
+  }
+}
@@ -0,0 +1,51 @@
+import { editText, getEditorCommand } from './editor.js'
+
+describe('editor', () => {
+  const originalEnv = { VISUAL: process.env.VISUAL, EDITOR: process.env.EDITOR }
+
+  afterEach(() => {
+    process.env.VISUAL = originalEnv.VISUAL
+    process.env.EDITOR = originalEnv.EDITOR
+    if (originalEnv.VISUAL === undefined) delete process.env.VISUAL
+    if (originalEnv.EDITOR === undefined) delete process.env.EDITOR
+  })
+
+  describe('getEditorCommand', () => {
+    it('should prefer $VISUAL over $EDITOR', () => {
+      process.env.VISUAL = 'code --wait'
+      process.env.EDITOR = 'nano'
+
+      expect(getEditorCommand()).toEqual(['code', '--wait'])
+    })
+
+    it('should fall back to vi', () => {
+      delete process.env.VISUAL
+      delete process.env.EDITOR
+
+      expect(getEditorCommand()).toEqual(['vi'])
+    })
+  })
+
+  describe('editText', () => {
+    it('should return the text as saved by the editor', async () => {
+      delete process.env.VISUAL
+      process.env.EDITOR = 'sed -i s/old/new/'
+
+      await expect(editText('old value\n', { extension: '.txt' })).resolves.toBe('new value\n')
+    })
+
+    it('should return null when the editor fails', async () => {
+      delete process.env.VISUAL
+      process.env.EDITOR = 'false'
+
+      await expect(editText('text')).resolves.toBeNull()
+    })
+
+    it('should return null when the editor is not installed', async () => {
+      delete process.env.VISUAL
+      process.env.EDITOR = 'claude-term-missing-editor'
+
+      await expect(editText('text')).resolves.toBeNull()
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { ProcessRunner } from './process-runner.js'
+
+export interface EditTextOptions {
+  /** File extension for the temp file, so the editor picks the right syntax */
+  extension?: string
+}
+
+/**
+ * Get the user's editor command from $VISUAL / $EDITOR
+ * @returns Editor command split into executable and arguments
+ */
+export function getEditorCommand(): string[] {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi'
+  return editor.trim().split(/\s+/)
+}
+
+/**
+ * Open text in the user's editor and return the edited result
+ * @param initialText - Text to prefill the editor with
+ * @param options - Temp file options
+ * @returns Edited text, or null if the editor could not be run or exited with an error
+ */
+export async function editText(
+  initialText: string,
+  options: EditTextOptions = {},
+): Promise<string | null> {
+  const extension =
+    options.extension && /^\.[\w-]+$/.test(options.extension) ? options.extension : ''
+  const tmpFile = path.join(os.tmpdir(), `claude-term-edit-${randomUUID()}${extension}`)
+  const [command, ...args] = getEditorCommand()
+
+  // Hand the terminal over to the editor while readline is in raw mode
+  const wasRaw = process.stdin.isTTY && process.stdin.isRaw
+  if (wasRaw) {
+    process.stdin.setRawMode(false)
+  }
+
+  try {
+    fs.writeFileSync(tmpFile, initialText)
+
+    try {
+      // No time limit: the user decides when they are done editing
+      await new ProcessRunner().run(command, [...args, tmpFile], { stdio: 'inherit', timeout: 0 })
+    } catch {
+      return null
+    }
+
+    return await fs.promises.readFile(tmpFile, 'utf8')
+  } finally {
+    if (wasRaw) {
+      process.stdin.setRawMode(true)
+    }
+    fs.rmSync(tmpFile, { force: true })
+  }
+}
@@ -1,4 +1,7 @@
 import { GitApprovalManager } from './git-approval.js'
+import { ProcessRunner, RunResult } from './process-runner.js'
+
+const runResult: RunResult = { stdout: '', stderr: '', exitCode: 0 }
 
 describe('GitApprovalManager', () => {
   let gitApproval: GitApprovalManager
@@ -108,52 +111,47 @@ describe('GitApprovalManager', () => {
 
   describe('amendCommit', () => {
     it('should amend commit message', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync').mockReturnValue('')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run').mockResolvedValue(runResult)
 
-      await gitApproval.amendCommit('new commit message')
+      await gitApproval.amendCommit('new "commit" message')
 
-      expect(execSyncSpy).toHaveBeenCalledWith(
-        'git commit --amend -m "new commit message"',
-        expect.any(Object),
-      )
+      expect(runSpy).toHaveBeenCalledWith('git', ['commit', '--amend', '--file=-'], {
+        input: 'new "commit" message',
+      })
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
 
     it('should handle amend commit errors', async () => {
-      const execSyncSpy = jest
-        .spyOn(require('child_process'), 'execSync')
-        .mockImplementation(() => {
-          throw new Error('Git error')
-        })
+      const runSpy = jest
+        .spyOn(ProcessRunner.prototype, 'run')
+        .mockRejectedValue(new Error('Git error'))
 
       await expect(gitApproval.amendCommit('new message')).rejects.toThrow('Failed to amend commit')
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
   })
 
   describe('rollbackCommit', () => {
     it('should perform soft reset to rollback commit', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync').mockReturnValue('')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run').mockResolvedValue(runResult)
 
       await gitApproval.rollbackCommit()
 
-      expect(execSyncSpy).toHaveBeenCalledWith('git reset --soft HEAD~1', expect.any(Object))
+      expect(runSpy).toHaveBeenCalledWith('git', ['reset', '--soft', 'HEAD~1'])
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
 
     it('should handle rollback errors', async () => {
-      const execSyncSpy = jest
-        .spyOn(require('child_process'), 'execSync')
-        .mockImplementation(() => {
-          throw new Error('Git error')
-        })
+      const runSpy = jest
+        .spyOn(ProcessRunner.prototype, 'run')
+        .mockRejectedValue(new Error('Git error'))
 
       await expect(gitApproval.rollbackCommit()).rejects.toThrow('Failed to rollback commit')
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
   })
 })
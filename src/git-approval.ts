@@ -1,5 +1,5 @@
-import { execSync } from 'child_process'
 import * as readline from 'readline'
+import { ProcessRunner } from './process-runner.js'
 
 export interface ApprovalResult {
   action: 'approved' | 'rejected' | 'modify'
@@ -7,6 +7,8 @@ export interface ApprovalResult {
 }
 
 export class GitApprovalManager {
+  private runner = new ProcessRunner()
+
   promptForApproval(commitMessage: string): Promise<boolean | 'modify'> {
     return new Promise((resolve) => {
       const rl = readline.createInterface({
@@ -62,9 +64,7 @@ export class GitApprovalManager {
   async interactiveApprovalFlow(): Promise<ApprovalResult> {
     try {
       // Get latest commit message
-      const commitMessage = execSync('git log -1 --pretty=format:"%s"', {
-        encoding: 'utf8',
-      }).trim()
+      const commitMessage = await this.runner.git(['log', '-1', '--pretty=format:%s'])
 
       console.log('\n🚀 Interactive Commit Approval')
       console.log('═'.repeat(50))
@@ -80,31 +80,21 @@ export class GitApprovalManager {
     }
   }
 
-  amendCommit(newMessage: string): Promise<void> {
-    return Promise.resolve().then(() => {
-      try {
-        execSync(`git commit --amend -m "${newMessage}"`, {
-          encoding: 'utf8',
-          stdio: 'inherit',
-        })
-        console.log('✅ Commit amended successfully')
-      } catch (error) {
-        throw new Error('Failed to amend commit')
-      }
-    })
+  async amendCommit(newMessage: string): Promise<void> {
+    try {
+      await this.runner.run('git', ['commit', '--amend', '--file=-'], { input: newMessage })
+      console.log('✅ Commit amended successfully')
+    } catch (error) {
+      throw new Error('Failed to amend commit')
+    }
   }
 
-  rollbackCommit(): Promise<void> {
-    return Promise.resolve().then(() => {
-      try {
-        execSync('git reset --soft HEAD~1', {
-          encoding: 'utf8',
-          stdio: 'inherit',
-        })
-        console.log('🔄 Commit rolled back successfully')
-      } catch (error) {
-        throw new Error('Failed to rollback commit')
-      }
-    })
+  async rollbackCommit(): Promise<void> {
+    try {
+      await this.runner.run('git', ['reset', '--soft', 'HEAD~1'])
+      console.log('🔄 Commit rolled back successfully')
+    } catch (error) {
+      throw new Error('Failed to rollback commit')
+    }
   }
 }
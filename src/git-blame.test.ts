@@ -0,0 +1,151 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  BlameLine,
+  GitBlameManager,
+  blameResource,
+  formatAge,
+  formatBlameLine,
+  parseBlamePorcelain,
+} from './git-blame.js'
+
+const HASH_A = 'a'.repeat(40)
+const HASH_B = 'b'.repeat(40)
+const UNCOMMITTED = '0'.repeat(40)
+
+const PORCELAIN = [
+  `${HASH_A} 1 1 2`,
+  'author Alice',
+  'author-mail <alice@example.com>',
+  'author-time 1700000000',
+  'author-tz +0000',
+  'summary Add parser',
+  'filename src/parser.ts',
+  '\texport function parse() {',
+  `${HASH_A} 2 2`,
+  '\t  return tokens  ',
+  `${HASH_B} 3 3 1`,
+  'author Bob',
+  'author-time 1710000000',
+  'summary Fix token order',
+  'previous ' + HASH_A + ' src/parser.ts',
+  'filename src/parser.ts',
+  '\t}',
+  `${UNCOMMITTED} 4 4 1`,
+  'author Not Committed Yet',
+  'author-time 1720000000',
+  'summary Version of src/parser.ts from src/parser.ts',
+  'filename src/parser.ts',
+  '\t// TODO',
+  '',
+].join('\n')
+
+describe('parseBlamePorcelain', () => {
+  it('should give every line the details of its commit', () => {
+    const lines = parseBlamePorcelain(PORCELAIN)
+
+    expect(lines).toHaveLength(4)
+    expect(lines[1]).toEqual({
+      line: 2,
+      hash: HASH_A,
+      author: 'Alice',
+      authorTime: 1700000000,
+      summary: 'Add parser',
+      uncommitted: false,
+      text: '  return tokens  ',
+    })
+    expect(lines[2]).toMatchObject({ author: 'Bob', summary: 'Fix token order', text: '}' })
+    expect(lines[3]).toMatchObject({ line: 4, uncommitted: true })
+  })
+})
+
+describe('formatAge', () => {
+  const now = 1700000000
+
+  it('should use the largest unit that fits', () => {
+    expect(formatAge(now - 5 * 60, now)).toBe('5m')
+    expect(formatAge(now - 3 * 3600, now)).toBe('3h')
+    expect(formatAge(now - 12 * 86400, now)).toBe('12d')
+    expect(formatAge(now - 90 * 86400, now)).toBe('3mo')
+    expect(formatAge(now - 800 * 86400, now)).toBe('2y')
+  })
+})
+
+describe('formatBlameLine', () => {
+  it('should start with the line number like the plain picker', () => {
+    const [first, , , uncommitted] = parseBlamePorcelain(PORCELAIN)
+
+    expect(formatBlameLine(first, 1700000000 + 2 * 86400)).toBe(
+      '   1: aaaaaaa Alice            2d │ export function parse() {',
+    )
+    expect(formatBlameLine(uncommitted)).toMatch(/^ {3}4: ------- Not committed +│ \/\/ TODO$/)
+  })
+})
+
+describe('blameResource', () => {
+  it('should annotate the lines and list their commits newest first', () => {
+    const resource = blameResource('src/parser.ts', parseBlamePorcelain(PORCELAIN))
+
+    expect(resource).toMatchObject({
+      uri: 'git-blame://src/parser.ts#L1-4',
+      name: 'Blame src/parser.ts:1-4',
+      mimeType: 'text/plain',
+    })
+    expect(resource.text).toContain('Blame of src/parser.ts, lines 1-4')
+    expect(resource.text).toContain('   1 aaaaaaa Alice 2023-11-14 export function parse() {')
+    expect(resource.text).toContain('   4 (not committed) // TODO')
+    expect(resource.text).toContain(
+      'Commits (newest first):\nbbbbbbb Bob, 2024-03-09: Fix token order\naaaaaaa Alice, 2023-11-14: Add parser',
+    )
+  })
+
+  it('should describe a single uncommitted line', () => {
+    const line: BlameLine = parseBlamePorcelain(PORCELAIN)[3]
+
+    const resource = blameResource('src/parser.ts', [line])
+
+    expect(resource.uri).toBe('git-blame://src/parser.ts#L4')
+    expect(resource.text).toContain('None of these lines are committed yet')
+  })
+})
+
+describe('GitBlameManager', () => {
+  let repo: string
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: repo, stdio: ['ignore', 'pipe', 'ignore'] })
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-blame-'))
+    git('init -q')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'one\ntwo\n')
+    git('add a.txt')
+    git('commit -q -m "Add a"')
+  })
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should blame the working tree version of a file', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'one\ntwo\nthree\n')
+
+    const lines = await new GitBlameManager(repo).blame(path.join(repo, 'a.txt'))
+
+    expect(lines?.map(({ text, summary, uncommitted }) => [text, summary, uncommitted])).toEqual([
+      ['one', 'Add a', false],
+      ['two', 'Add a', false],
+      ['three', expect.any(String), true],
+    ])
+  })
+
+  it('should return null for files git cannot blame', async () => {
+    fs.writeFileSync(path.join(repo, 'new.txt'), 'new\n')
+
+    await expect(new GitBlameManager(repo).blame(path.join(repo, 'new.txt'))).resolves.toBeNull()
+  })
+})
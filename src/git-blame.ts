@@ -0,0 +1,171 @@
+// git-blame.ts - Line-by-line blame for /blame: who changed each line, when and in which commit
+
+import { GitService } from './git-service.js'
+import { ProcessError } from './process-runner.js'
+import { GitResource, blameUri } from './git-resources.js'
+
+export interface BlameLine {
+  /** 1-based line number in the working tree file */
+  line: number
+  hash: string
+  author: string
+  /** Author time, seconds since the epoch */
+  authorTime: number
+  /** First line of the commit message */
+  summary: string
+  /** The line only exists in the working tree */
+  uncommitted: boolean
+  text: string
+}
+
+// git blame marks lines that are not committed yet with an all-zero hash
+const UNCOMMITTED_HASH = /^0+$/
+
+/**
+ * Parse `git blame --porcelain` output. Commit details are only printed the first time a commit
+ * shows up, so later lines of the same commit take them from the earlier entry.
+ */
+export function parseBlamePorcelain(output: string): BlameLine[] {
+  const commits = new Map<string, { author: string; authorTime: number; summary: string }>()
+  const lines: BlameLine[] = []
+  let current: { hash: string; line: number } | null = null
+
+  for (const row of output.split('\n')) {
+    if (row.startsWith('\t')) {
+      if (current) {
+        const commit = commits.get(current.hash) ?? { author: '', authorTime: 0, summary: '' }
+        lines.push({
+          ...current,
+          ...commit,
+          uncommitted: UNCOMMITTED_HASH.test(current.hash),
+          text: row.slice(1),
+        })
+      }
+      current = null
+      continue
+    }
+
+    const header = row.match(/^([0-9a-f]{40}) \d+ (\d+)/)
+    if (header) {
+      current = { hash: header[1], line: parseInt(header[2], 10) }
+      if (!commits.has(current.hash)) {
+        commits.set(current.hash, { author: '', authorTime: 0, summary: '' })
+      }
+      continue
+    }
+
+    const commit = current && commits.get(current.hash)
+    const [key, ...value] = row.split(' ')
+    if (commit && key === 'author') {
+      commit.author = value.join(' ')
+    } else if (commit && key === 'author-time') {
+      commit.authorTime = parseInt(value[0], 10)
+    } else if (commit && key === 'summary') {
+      commit.summary = value.join(' ')
+    }
+  }
+
+  return lines
+}
+
+/**
+ * How long ago something happened, in the short form blame columns use: 45m, 3h, 12d, 5mo, 2y
+ * @param time - Seconds since the epoch
+ * @param now - Seconds since the epoch (default: the current time)
+ */
+export function formatAge(time: number, now = Date.now() / 1000): string {
+  const minutes = Math.max(0, Math.floor((now - time) / 60))
+  if (minutes < 60) {
+    return `${minutes}m`
+  }
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) {
+    return `${hours}h`
+  }
+  const days = Math.floor(hours / 24)
+  if (days < 30) {
+    return `${days}d`
+  }
+  return days < 365 ? `${Math.floor(days / 30)}mo` : `${Math.floor(days / 365)}y`
+}
+
+/**
+ * One line of the /blame picker: line number, short hash, author and age, then the code.
+ * Starts with "<line>:" like the plain /cat picker, so selections are read the same way.
+ */
+export function formatBlameLine(blame: BlameLine, now?: number): string {
+  const hash = blame.uncommitted ? '-------' : blame.hash.slice(0, 7)
+  const author = blame.uncommitted ? 'Not committed' : blame.author
+  const age = blame.uncommitted ? '' : formatAge(blame.authorTime, now)
+  return `${String(blame.line).padStart(4, ' ')}: ${hash} ${author.slice(0, 14).padEnd(14)} ${age.padStart(4)} │ ${blame.text}`
+}
+
+/**
+ * The selected lines with their blame and the subjects of the commits they come from, shared
+ * with Claude next to the selection
+ * @param displayPath - File path relative to the workspace
+ * @param lines - Blame of the selected lines, in file order
+ */
+export function blameResource(displayPath: string, lines: BlameLine[]): GitResource {
+  const first = lines[0].line
+  const last = lines[lines.length - 1].line
+  const range = first === last ? `line ${first}` : `lines ${first}-${last}`
+  const date = (blame: BlameLine) => new Date(blame.authorTime * 1000).toISOString().slice(0, 10)
+
+  const annotated = lines.map((blame) =>
+    blame.uncommitted
+      ? `${String(blame.line).padStart(4, ' ')} (not committed) ${blame.text}`
+      : `${String(blame.line).padStart(4, ' ')} ${blame.hash.slice(0, 7)} ${blame.author} ${date(blame)} ${blame.text}`,
+  )
+  const commits = Array.from(
+    new Map(
+      lines.filter((blame) => !blame.uncommitted).map((blame) => [blame.hash, blame]),
+    ).values(),
+  )
+    .sort((a, b) => b.authorTime - a.authorTime)
+    .map((blame) => `${blame.hash.slice(0, 7)} ${blame.author}, ${date(blame)}: ${blame.summary}`)
+
+  const text = [
+    `Blame of ${displayPath}, ${range}`,
+    '',
+    ...annotated,
+    '',
+    commits.length > 0 ? 'Commits (newest first):' : 'None of these lines are committed yet',
+    ...commits,
+  ].join('\n')
+
+  return {
+    uri: blameUri(displayPath, first, last),
+    name: `Blame ${displayPath}:${first === last ? first : `${first}-${last}`}`,
+    description: `git blame of ${displayPath}, ${range}`,
+    mimeType: 'text/plain',
+    text: `${text}\n`,
+  }
+}
+
+export class GitBlameManager {
+  private service: GitService
+
+  constructor(workspaceFolder?: string) {
+    this.service = new GitService(workspaceFolder)
+  }
+
+  /**
+   * Blame the working tree version of a file
+   * @returns The blame of every line, or null when git can't blame the file (e.g. untracked)
+   */
+  async blame(filePath: string): Promise<BlameLine[] | null> {
+    try {
+      // Not git(): its trimming would eat trailing whitespace of the last line
+      const { stdout } = await this.service.run(['blame', '--porcelain', '--', filePath], {
+        supersede: 'blame',
+      })
+      return parseBlamePorcelain(stdout)
+    } catch (error) {
+      if (error instanceof ProcessError && error.reason === 'exit_code') {
+        return null
+      }
+      throw error
+    }
+  }
+}
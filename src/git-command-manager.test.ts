@@ -1,4 +1,9 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import { GitCommandManager, GitCommit } from './git-command-manager.js'
+import { ProcessRunner } from './process-runner.js'
 
 describe('GitCommandManager', () => {
   let gitCommandManager: GitCommandManager
@@ -46,6 +51,17 @@ describe('GitCommandManager', () => {
     })
   })
 
+  describe('getStatusDetails', () => {
+    it('should return the branch, HEAD commit and status entries', async () => {
+      const details = await gitCommandManager.getStatusDetails()
+
+      expect(details.branch).toBe((await gitCommandManager.getStatus()).branch)
+      expect(details.head).toMatch(/^[0-9a-f]{40}$/)
+      expect(typeof details.ahead).toBe('number')
+      details.staged.forEach((entry) => expect(entry.status).toMatch(/^[MADRCTU]$/))
+    })
+  })
+
   describe('getDiff', () => {
     it('should return diff for unstaged changes', async () => {
       const diff = await gitCommandManager.getDiff()
@@ -165,6 +181,34 @@ describe('GitCommandManager', () => {
       }
     })
 
+    it('should pass quotes and shell syntax in the message to git unchanged', async () => {
+      const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-commit-'))
+      try {
+        execSync(
+          'git init -q && git config user.email test@example.com && git config user.name Test',
+          {
+            cwd: repo,
+          },
+        )
+        fs.writeFileSync(path.join(repo, 'a.txt'), 'a\n')
+        execSync('git add a.txt', { cwd: repo })
+        const message = 'fix: don\'t "break" on $(touch pwned) or `id`\n\nBody line'
+
+        const result = await new GitCommandManager(repo).createCommit(message)
+
+        expect(result.success).toBe(true)
+        expect(result.hash).toBe(
+          execSync('git rev-parse --short HEAD', { cwd: repo, encoding: 'utf8' }).trim(),
+        )
+        expect(execSync('git log -1 --format=%B', { cwd: repo, encoding: 'utf8' }).trim()).toBe(
+          message,
+        )
+        expect(fs.existsSync(path.join(repo, 'pwned'))).toBe(false)
+      } finally {
+        fs.rmSync(repo, { recursive: true, force: true })
+      }
+    })
+
     it('should handle empty staging area', async () => {
       // This test assumes clean staging area
       const result = await gitCommandManager.createCommit('empty commit')
@@ -175,6 +219,150 @@ describe('GitCommandManager', () => {
     })
   })
 
+  describe('branches, stashes and restore', () => {
+    let repo: string
+    let manager: GitCommandManager
+    const git = (command: string) => execSync(command, { cwd: repo, encoding: 'utf8' }).trim()
+
+    beforeEach(() => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-branches-'))
+      git(
+        'git init -q -b main && git config user.email test@example.com && git config user.name Test',
+      )
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'a\n')
+      git('git add a.txt && git commit -q -m initial && git branch feature')
+      manager = new GitCommandManager(repo)
+    })
+
+    afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true })
+    })
+
+    it('should refuse to switch branches with uncommitted changes unless forced', async () => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'changed\n')
+
+      const refused = await manager.switchBranch('feature')
+      expect(refused.success).toBe(false)
+      expect(refused.message).toBe('You have uncommitted changes in 1 file(s): a.txt')
+      expect(git('git branch --show-current')).toBe('main')
+
+      const forced = await manager.switchBranch('feature', true)
+      expect(forced.success).toBe(true)
+      expect(git('git branch --show-current')).toBe('feature')
+      expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toBe('changed\n')
+    })
+
+    it('should create, switch and delete branches', async () => {
+      expect((await manager.createBranch('topic')).success).toBe(true)
+      expect(git('git branch --show-current')).toBe('topic')
+
+      expect((await manager.switchBranch('main')).success).toBe(true)
+      expect((await manager.deleteBranch('topic')).success).toBe(true)
+      expect((await manager.getBranches()).local).toEqual(['feature', 'main'])
+    })
+
+    it('should list and print the branches of every remote with their remote', async () => {
+      const remote = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-remote-'))
+      try {
+        execSync('git init -q --bare -b main', { cwd: remote })
+        git(`git remote add origin ${remote} && git remote add fork ${remote}`)
+        git(
+          'git push -q origin main feature && git fetch -q fork && git remote set-head origin main',
+        )
+        git('git branch fix-HEAD-detach && git push -q fork fix-HEAD-detach')
+
+        const branches = await manager.getBranches()
+        expect(branches.remote).toEqual([
+          { remote: 'fork', name: 'feature' },
+          { remote: 'fork', name: 'fix-HEAD-detach' },
+          { remote: 'fork', name: 'main' },
+          { remote: 'origin', name: 'feature' },
+          { remote: 'origin', name: 'main' },
+        ])
+        expect(manager.formatWithColors('branches', branches)).toContain(
+          '🌐 Remote branches (5):\n    fork/feature\n    fork/fix-HEAD-detach\n    fork/main\n    origin/feature\n    origin/main\n',
+        )
+      } finally {
+        fs.rmSync(remote, { recursive: true, force: true })
+      }
+    })
+
+    it('should stash changes, list and pop them', async () => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'changed\n')
+
+      expect(await manager.stashPush('wip parser')).toEqual({
+        success: true,
+        message: 'Saved the changes to stash@{0}',
+      })
+      expect(await manager.getStashes()).toEqual([
+        { ref: 'stash@{0}', message: 'On main: wip parser' },
+      ])
+      expect(await manager.showStash()).toContain('+changed')
+      expect((await manager.stashPush()).message).toBe('No local changes to save')
+
+      expect((await manager.stashPop('stash@{0}')).success).toBe(true)
+      expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toBe('changed\n')
+      expect(await manager.getStashes()).toEqual([])
+    })
+
+    it('should run overlapping identical reads once and give both callers the output', async () => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'changed\n')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+
+      try {
+        const [first, second] = await Promise.all([
+          manager.getDiff('a.txt'),
+          manager.getDiff('a.txt'),
+        ])
+
+        expect(first).toContain('+changed')
+        expect(second).toBe(first)
+        expect(runSpy).toHaveBeenCalledTimes(1)
+        await expect(manager.getDiff('a.txt')).resolves.toBe(first)
+        expect(runSpy).toHaveBeenCalledTimes(2)
+      } finally {
+        runSpy.mockRestore()
+      }
+    })
+
+    it('should not hand a read that started before a change to reads issued after it', async () => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'changed\n')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      let release = () => {}
+      const held = new Promise<void>((resolve) => (release = resolve))
+      // Keep the first diff waiting until the file has been staged, then run it as usual
+      runSpy.mockImplementationOnce(async function (
+        this: ProcessRunner,
+        ...args: Parameters<ProcessRunner['run']>
+      ) {
+        await held
+        return ProcessRunner.prototype.run.apply(this, args)
+      })
+
+      try {
+        const stale = manager.getDiff('a.txt')
+        expect((await manager.addFiles(['a.txt'])).success).toBe(true)
+
+        await expect(manager.getDiff('a.txt')).resolves.toBe('')
+        release()
+        await stale
+      } finally {
+        runSpy.mockRestore()
+      }
+    })
+
+    it('should unstage files and restore them', async () => {
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'changed\n')
+      git('git add a.txt')
+
+      expect((await manager.restoreFiles(['a.txt'], true)).success).toBe(true)
+      expect(await manager.getStatus()).toMatchObject({ staged: [], unstaged: ['a.txt'] })
+
+      expect((await manager.restoreFiles(['a.txt'])).success).toBe(true)
+      expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toBe('a\n')
+    })
+  })
+
   describe('formatWithColors', () => {
     it('should format git status with colors and emojis', async () => {
       const status = await gitCommandManager.getStatus()
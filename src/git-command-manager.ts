@@ -1,6 +1,7 @@
-import { execSync } from 'child_process'
 import fs from 'fs'
 import path from 'path'
+import { GitStatusDetails, parsePorcelainV2 } from './git-status.js'
+import { GitRunOptions, GitService } from './git-service.js'
 
 export interface GitStatus {
   branch: string
@@ -17,12 +18,26 @@ export interface GitCommit {
   oneline?: string
 }
 
+export interface GitRemoteBranch {
+  remote: string
+  /** Branch name on the remote, e.g. main for origin/main */
+  name: string
+}
+
 export interface GitBranches {
   local: string[]
-  remote: string[]
+  /** Branches of every remote, in remote and then name order */
+  remote: GitRemoteBranch[]
   current: string
 }
 
+export interface GitStash {
+  /** e.g. stash@{0} */
+  ref: string
+  /** What git describes the stash as, e.g. "On main: wip parser" */
+  message: string
+}
+
 export interface GitOperationResult {
   success: boolean
   message: string
@@ -30,7 +45,13 @@ export interface GitOperationResult {
 }
 
 export class GitCommandManager {
-  constructor(private workspaceFolder?: string) {}
+  private service: GitService
+  /** Reads still running, keyed by their arguments */
+  private inFlightReads = new Map<string, Promise<string>>()
+
+  constructor(private workspaceFolder?: string) {
+    this.service = new GitService(workspaceFolder)
+  }
 
   /**
    * Check if the current workspace is a git repository
@@ -46,253 +67,479 @@ export class GitCommandManager {
   }
 
   async getStatus(): Promise<GitStatus> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
-      }
-      
-      try {
-        // Get current branch
-        const branch = execSync('git branch --show-current', { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        }).trim()
-
-        // Get status with porcelain format for easy parsing
-        const statusOutput = execSync('git status --porcelain', { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        }).trim()
-
-        const staged: string[] = []
-        const unstaged: string[] = []
-        const untracked: string[] = []
-
-        if (statusOutput) {
-          statusOutput.split('\n').forEach((line) => {
-            if (!line) return
-
-            const status = line.substring(0, 2)
-            const file = line.substring(3)
-
-            // First character is staged status, second is unstaged
-            if (status[0] !== ' ' && status[0] !== '?') {
-              staged.push(file)
-            }
-            if (status[1] !== ' ') {
-              if (status[1] === '?') {
-                untracked.push(file)
-              } else {
-                unstaged.push(file)
-              }
-            }
-          })
-        }
+    const details = await this.getStatusDetails()
 
-        return {
-          branch,
-          staged,
-          unstaged,
-          untracked,
-        }
-      } catch (error) {
-        throw new Error('Failed to get git status')
-      }
-    })
+    return {
+      branch: details.branch ?? '',
+      staged: details.staged.map((entry) => entry.path),
+      unstaged: [...details.conflicted, ...details.unstaged].map((entry) => entry.path),
+      untracked: details.untracked.map((entry) => entry.path),
+    }
+  }
+
+  /**
+   * Get the full status: branch, upstream tracking and per-file status codes
+   * @param untrackedFiles - 'all' lists the files inside untracked directories
+   *   instead of the directories themselves
+   * @returns Parsed `git status --porcelain=v2 --branch` output
+   */
+  async getStatusDetails(untrackedFiles: 'normal' | 'all' = 'normal'): Promise<GitStatusDetails> {
+    this.assertRepository()
+
+    // -z keeps paths with spaces or non-ASCII characters unquoted
+    const stdout = await this.read(
+      ['status', '--porcelain=v2', '--branch', '-z', `--untracked-files=${untrackedFiles}`],
+      'Failed to get git status',
+    )
+    return parsePorcelainV2(stdout)
   }
 
   async getDiff(file?: string, staged = false): Promise<string> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
-      }
-      
-      try {
-        let command = 'git diff'
-        if (staged) {
-          command += ' --cached'
-        }
-        if (file) {
-          command += ` -- "${file}"`
-        }
+    this.assertRepository()
 
-        const diff = execSync(command, { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        })
-        return diff
-      } catch (error) {
-        throw new Error('Failed to get git diff')
-      }
-    })
+    const args = ['diff']
+    if (staged) {
+      args.push('--cached')
+    }
+    if (file) {
+      args.push('--', file)
+    }
+
+    return this.read(args, 'Failed to get git diff')
   }
 
-  async getLog(count = 10, oneline = false): Promise<GitCommit[]> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
-      }
-      
-      try {
-        let command: string
-        if (oneline) {
-          command = `git log --oneline -${count}`
-          const output = execSync(command, { 
-            encoding: 'utf8',
-            cwd: this.workspaceFolder 
-          }).trim()
-          return output
-            .split('\n')
-            .filter((line) => line.trim())
-            .map((line) => ({
-              hash: line.split(' ')[0],
-              author: '',
-              date: '',
-              subject: line.substring(line.indexOf(' ') + 1),
-              oneline: line,
-            }))
+  /**
+   * Diff between commits, e.g. `HEAD~3..HEAD`, `main...` or `abc123^!` (one commit)
+   * @param file - Only this file or directory
+   */
+  async getRangeDiff(range: string, file?: string): Promise<string> {
+    this.assertRepository()
+
+    return this.read(file ? ['diff', range, '--', file] : ['diff', range], 'Failed to get git diff')
+  }
+
+  /**
+   * Resolve a revision to the full hash of its commit
+   * @returns null when the revision names no commit
+   */
+  async resolveCommit(revision: string): Promise<string | null> {
+    this.assertRepository()
+
+    return this.service.tryGit(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`])
+  }
+
+  /**
+   * Diff of an untracked file against nothing, as `git diff` would show it once added
+   */
+  async getUntrackedDiff(file: string): Promise<string> {
+    try {
+      // --no-index exits with 1 when the files differ
+      const { stdout } = await this.service.run(['diff', '--no-index', '--', '/dev/null', file], {
+        okExitCodes: [1],
+      })
+      return stdout
+    } catch {
+      throw new Error('Failed to get git diff')
+    }
+  }
+
+  /**
+   * Throw away every change to a file, staged or not. Untracked files are deleted.
+   * @param originalPath - Previous path of a staged rename, restored as well
+   */
+  async discardChanges(file: string, originalPath?: string): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    const succeeds = (args: string[]) =>
+      this.service.run(args).then(
+        () => true,
+        () => false,
+      )
+
+    try {
+      for (const target of originalPath ? [file, originalPath] : [file]) {
+        if (await succeeds(['cat-file', '-e', `HEAD:${target}`])) {
+          await this.mutate(['restore', '--source=HEAD', '--staged', '--worktree', '--', target])
+        } else if (await succeeds(['ls-files', '--error-unmatch', '--', target])) {
+          // Added since HEAD: drop it from the index and the working tree
+          await this.mutate(['rm', '-f', '--quiet', '--', target])
         } else {
-          command = `git log --format="%H|%an|%ad|%s" -${count}`
-          const output = execSync(command, { 
-            encoding: 'utf8',
-            cwd: this.workspaceFolder 
-          }).trim()
-          return output
-            .split('\n')
-            .filter((line) => line.trim())
-            .map((line) => {
-              const [hash, author, date, subject] = line.split('|')
-              return {
-                hash: hash || '',
-                author: author || '',
-                date: date || '',
-                subject: subject || '',
-              }
-            })
+          await this.mutate(['clean', '-f', '--quiet', '--', target])
         }
-      } catch (error) {
-        throw new Error('Failed to get git log')
       }
-    })
-  }
 
-  async getBranches(): Promise<GitBranches> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
+      return { success: true, message: `Discarded changes to ${file}` }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to discard changes: ${error instanceof Error ? error.message : String(error)}`,
       }
-      
-      try {
-        // Get current branch
-        const current = execSync('git branch --show-current', { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        }).trim()
-
-        // Get local branches
-        const localOutput = execSync('git branch', { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        }).trim()
-        const local = localOutput
-          .split('\n')
-          .map((line) => line.replace(/^\*?\s*/, ''))
-          .filter((branch) => branch.trim())
-
-        // Get remote branches
-        let remote: string[] = []
-        try {
-          const remoteOutput = execSync('git branch -r', { 
-            encoding: 'utf8',
-            cwd: this.workspaceFolder 
-          }).trim()
-          remote = remoteOutput
-            .split('\n')
-            .map((line) => line.replace(/^\s*origin\//, '').trim())
-            .filter((branch) => branch && !branch.includes('HEAD'))
-        } catch (error) {
-          // No remote branches, which is fine
-        }
+    }
+  }
+
+  async getLog(count = 10, oneline = false): Promise<GitCommit[]> {
+    this.assertRepository()
+
+    if (oneline) {
+      const output = await this.read(
+        ['log', '--oneline', '-n', String(count)],
+        'Failed to get git log',
+      )
+      return output
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => ({
+          hash: line.split(' ')[0],
+          author: '',
+          date: '',
+          subject: line.substring(line.indexOf(' ') + 1),
+          oneline: line,
+        }))
+    }
 
+    const output = await this.read(
+      ['log', '--format=%H|%an|%ad|%s', '-n', String(count)],
+      'Failed to get git log',
+    )
+    return output
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [hash, author, date, subject] = line.split('|')
         return {
-          local,
-          remote,
-          current,
+          hash: hash || '',
+          author: author || '',
+          date: date || '',
+          subject: subject || '',
         }
-      } catch (error) {
-        throw new Error('Failed to get git branches')
+      })
+  }
+
+  async getBranches(): Promise<GitBranches> {
+    this.assertRepository()
+
+    try {
+      const current = await this.service.git(['branch', '--show-current'])
+
+      const local = (await this.service.git(['branch']))
+        .split('\n')
+        .map((line) => line.replace(/^\*?\s*/, ''))
+        .filter((branch) => branch.trim())
+
+      // Remote names may contain slashes, so match each ref against the configured remotes
+      const remotes = (await this.service.git(['remote']))
+        .split('\n')
+        .filter((name) => name)
+        .sort((a, b) => b.length - a.length)
+      const remote = (
+        await this.service.git(['for-each-ref', '--format=%(refname)', 'refs/remotes'])
+      )
+        .split('\n')
+        .map((ref) => {
+          const owner = remotes.find((name) => ref.startsWith(`refs/remotes/${name}/`))
+          return owner ? { remote: owner, name: ref.slice(`refs/remotes/${owner}/`.length) } : null
+        })
+        // <remote>/HEAD only points at one of the other branches
+        .filter((branch): branch is GitRemoteBranch => !!branch && branch.name !== 'HEAD')
+
+      return {
+        local,
+        remote,
+        current,
       }
-    })
+    } catch (error) {
+      throw new Error('Failed to get git branches')
+    }
   }
 
   async addFiles(files: string[]): Promise<GitOperationResult> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
+    this.assertRepository()
+
+    try {
+      await this.mutate(['add', '--', ...files])
+
+      return {
+        success: true,
+        message: `Successfully staged ${files.length} file(s)`,
       }
-      
-      try {
-        const fileArgs = files.map((f) => `"${f}"`).join(' ')
-        const command = `git add ${fileArgs}`
-        execSync(command, { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        })
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to stage files: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
 
-        return {
-          success: true,
-          message: `Successfully staged ${files.length} file(s)`,
-        }
-      } catch (error) {
+  /**
+   * Stage a patch without touching the working tree (`git apply --cached`)
+   * @param patch - Unified diff against the index, e.g. some hunks of `git diff`
+   */
+  async stagePatch(patch: string): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      // git still finds hunks whose line numbers moved because earlier hunks were left out
+      await this.mutate(['apply', '--cached', '-'], { input: patch })
+
+      return { success: true, message: 'Successfully staged the patch' }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to stage hunks: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  async createCommit(message: string): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      // Check if there's anything to commit by using git diff --cached
+      const staged = await this.service.git(['diff', '--cached', '--name-only'])
+      if (!staged) {
         return {
           success: false,
-          message: `Failed to stage files: ${error instanceof Error ? error.message : String(error)}`,
+          message: 'Nothing staged to commit',
         }
       }
-    })
-  }
 
-  async createCommit(message: string): Promise<GitOperationResult> {
-    return Promise.resolve().then(() => {
-      if (!this.isGitRepository()) {
-        throw new Error('Not a git repository')
+      // The message goes through stdin, so quotes and $(...) in it reach git untouched
+      await this.mutate(['commit', '--file=-'], { input: message })
+      const hash = await this.service.git(['rev-parse', '--short', 'HEAD'])
+
+      return {
+        success: true,
+        message: 'Commit created successfully',
+        hash,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to create commit: ${error instanceof Error ? error.message : String(error)}`,
       }
-      
-      try {
-        // Check if there's anything to commit by using git diff --cached
-        const statusOutput = execSync('git diff --cached --name-only', { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        }).trim()
-        if (!statusOutput) {
+    }
+  }
+
+  /**
+   * Switch to a branch. A branch that only exists on origin is checked out as a new tracking
+   * branch. Refuses while there are staged or unstaged changes, since they would follow the
+   * switch to the other branch; untracked files stay where they are.
+   * @param force - Switch anyway and take the changes along
+   */
+  async switchBranch(branch: string, force = false): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      if (!force) {
+        const details = await this.getStatusDetails()
+        const changed = new Set(
+          [...details.conflicted, ...details.staged, ...details.unstaged].map(
+            (entry) => entry.path,
+          ),
+        )
+        if (changed.size > 0) {
           return {
             success: false,
-            message: 'Nothing staged to commit',
+            message: `You have uncommitted changes in ${changed.size} file(s): ${[...changed].join(', ')}`,
           }
         }
+      }
 
-        const command = `git commit -m "${message}"`
-        const output = execSync(command, { 
-          encoding: 'utf8',
-          cwd: this.workspaceFolder 
-        })
+      await this.mutate(['switch', '--', branch])
 
-        // Extract commit hash from output
-        const hashMatch = output.match(/\[[\w\s]+ ([a-f0-9]+)\]/)
-        const hash = hashMatch ? hashMatch[1] : ''
+      return { success: true, message: `Switched to branch '${branch}'` }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to switch branch: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
 
-        return {
-          success: true,
-          message: 'Commit created successfully',
-          hash,
-        }
-      } catch (error) {
-        return {
-          success: false,
-          message: `Failed to create commit: ${error instanceof Error ? error.message : String(error)}`,
-        }
+  /**
+   * Create a branch at HEAD and switch to it. Uncommitted changes come along to the new branch.
+   */
+  async createBranch(name: string): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      await this.mutate(['switch', '-c', name])
+
+      return { success: true, message: `Created and switched to branch '${name}'` }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to create branch: ${error instanceof Error ? error.message : String(error)}`,
       }
-    })
+    }
+  }
+
+  /**
+   * Delete a local branch
+   * @param force - Delete it even if it is not merged (`git branch -D`)
+   */
+  async deleteBranch(name: string, force = false): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      await this.mutate(['branch', force ? '-D' : '-d', '--', name])
+
+      return { success: true, message: `Deleted branch '${name}'` }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to delete branch: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  async getStashes(): Promise<GitStash[]> {
+    this.assertRepository()
+
+    const output = await this.read(
+      ['stash', 'list', '--format=%gd%x09%s'],
+      'Failed to list stashes',
+    )
+    return output
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [ref, ...message] = line.split('\t')
+        return { ref, message: message.join('\t') }
+      })
+  }
+
+  /**
+   * Stash the staged and unstaged changes
+   * @param message - Describes the stash in `git stash list`
+   * @param includeUntracked - Stash untracked files as well
+   */
+  async stashPush(message?: string, includeUntracked = false): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      const args = ['stash', 'push']
+      if (includeUntracked) {
+        args.push('--include-untracked')
+      }
+      if (message) {
+        args.push('-m', message)
+      }
+
+      // git exits with 0 when there is nothing to stash
+      if ((await this.mutate(args)).startsWith('No local changes to save')) {
+        return { success: false, message: 'No local changes to save' }
+      }
+
+      return { success: true, message: 'Saved the changes to stash@{0}' }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to stash changes: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  /**
+   * Apply a stash and drop it. A stash that does not apply cleanly is kept.
+   * @param stash - e.g. stash@{1} (default: the latest)
+   */
+  async stashPop(stash?: string): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      await this.mutate(stash ? ['stash', 'pop', stash] : ['stash', 'pop'])
+
+      return { success: true, message: `Applied and dropped ${stash ?? 'stash@{0}'}` }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to pop stash: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  /**
+   * Diff of a stash against the commit it was made on
+   * @param stash - e.g. stash@{1} (default: the latest)
+   */
+  async showStash(stash?: string): Promise<string> {
+    this.assertRepository()
+
+    return this.read(
+      stash ? ['stash', 'show', '-p', stash] : ['stash', 'show', '-p'],
+      'Failed to show stash',
+    )
+  }
+
+  /**
+   * Throw away the unstaged changes to files, or unstage them and keep the changes
+   * @param staged - Unstage instead (`git restore --staged`)
+   */
+  async restoreFiles(files: string[], staged = false): Promise<GitOperationResult> {
+    this.assertRepository()
+
+    try {
+      await this.mutate(['restore', ...(staged ? ['--staged'] : []), '--', ...files])
+
+      return {
+        success: true,
+        message: `Successfully ${staged ? 'unstaged' : 'restored'} ${files.length} file(s)`,
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to ${staged ? 'unstage' : 'restore'} files: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+  }
+
+  private assertRepository(): void {
+    if (!this.isGitRepository()) {
+      throw new Error('Not a git repository')
+    }
+  }
+
+  /**
+   * Run a read-only git command. Identical reads that overlap (e.g. two clients asking for the
+   * status at once) share one git process and get the same output.
+   * @param failure - Message thrown when git fails
+   */
+  private read(args: string[], failure: string): Promise<string> {
+    const key = args.join('\0')
+    let pending = this.inFlightReads.get(key)
+    if (!pending) {
+      const read: Promise<string> = this.service
+        .run(args)
+        .then(
+          ({ stdout }) => stdout,
+          () => {
+            throw new Error(failure)
+          },
+        )
+        .finally(() => {
+          // A mutation may have dropped it already, and a newer read taken its place
+          if (this.inFlightReads.get(key) === read) {
+            this.inFlightReads.delete(key)
+          }
+        })
+      pending = read
+      this.inFlightReads.set(key, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Run a git command that changes the repository. Reads still running when it starts or
+   * while it runs may miss the change, so later identical reads start a new git process.
+   */
+  private async mutate(args: string[], options: GitRunOptions = {}): Promise<string> {
+    this.inFlightReads.clear()
+    try {
+      return await this.service.git(args, options)
+    } finally {
+      this.inFlightReads.clear()
+    }
   }
 
   formatWithColors(type: string, data: unknown): string {
@@ -305,6 +552,8 @@ export class GitCommandManager {
         return this.formatLog(data as GitCommit[])
       case 'branches':
         return this.formatBranches(data as GitBranches)
+      case 'stashes':
+        return this.formatStashes(data as GitStash[])
       default:
         return String(data)
     }
@@ -392,10 +641,23 @@ export class GitCommandManager {
     if (branches.remote.length > 0) {
       output += `🌐 Remote branches (${branches.remote.length}):\n`
       branches.remote.forEach((branch) => {
-        output += `    origin/${branch}\n`
+        output += `    ${branch.remote}/${branch.name}\n`
       })
     }
 
     return output
   }
+
+  private formatStashes(stashes: GitStash[]): string {
+    if (stashes.length === 0) {
+      return '📦 No stashes\n'
+    }
+
+    let output = `📦 Stashes (${stashes.length}):\n`
+    stashes.forEach((stash) => {
+      output += `  ${stash.ref} - ${stash.message}\n`
+    })
+
+    return output
+  }
 }
@@ -23,15 +23,18 @@ describe('GitCommandMapping', () => {
     it('should register all git commands with correct mapping', () => {
       const commands = commandMapper.getAllCommands()
       
-      // Should have all 6 git commands
+      // Should have all 9 git commands
       expect(commands).toHaveProperty('/gs')
       expect(commands).toHaveProperty('/gd')  
       expect(commands).toHaveProperty('/gl')
       expect(commands).toHaveProperty('/gb')
       expect(commands).toHaveProperty('/ga')
       expect(commands).toHaveProperty('/gc')
+      expect(commands).toHaveProperty('/gco')
+      expect(commands).toHaveProperty('/gst')
+      expect(commands).toHaveProperty('/grs')
       
-      expect(Object.keys(commands)).toHaveLength(6)
+      expect(Object.keys(commands)).toHaveLength(9)
     })
 
     it('should map /gs to git status command', () => {
@@ -60,7 +63,9 @@ describe('GitCommandMapping', () => {
 
       expect(glCommand).toBeDefined()
       expect(glCommand.description).toBe('Show git log')
-      expect(glCommand.usage).toBe('/gl [<count>] [--oneline]')
+      expect(glCommand.usage).toBe(
+        '/gl [<count>] [--oneline] | /gl -i [<count>] [--author=<name>] [--grep=<text>] [<path>]',
+      )
       expect(glCommand.requiresArgs).toBe(false)
     })
 
@@ -69,29 +74,37 @@ describe('GitCommandMapping', () => {
       const gbCommand = commands['/gb']
 
       expect(gbCommand).toBeDefined()
-      expect(gbCommand.description).toBe('Show git branches')
-      expect(gbCommand.usage).toBe('/gb')
+      expect(gbCommand.description).toBe('Show, create or delete branches')
+      expect(gbCommand.usage).toBe('/gb [-c <name> | -d <name> | -D <name>]')
       expect(gbCommand.requiresArgs).toBe(false)
     })
 
+    it('should map /gco to git switch with a required branch', () => {
+      const gcoCommand = commandMapper.getAllCommands()['/gco']
+
+      expect(gcoCommand.description).toBe('Switch branches')
+      expect(gcoCommand.usage).toBe('/gco [-f] <branch>')
+      expect(gcoCommand.requiresArgs).toBe(true)
+    })
+
     it('should map /ga to git add command with required path argument', () => {
       const commands = commandMapper.getAllCommands()
       const gaCommand = commands['/ga']
 
       expect(gaCommand).toBeDefined()
       expect(gaCommand.description).toBe('Add files to staging')
-      expect(gaCommand.usage).toBe('/ga <path...>')
+      expect(gaCommand.usage).toBe('/ga <path...> | /ga -p [<path...>]')
       expect(gaCommand.requiresArgs).toBe(true)
     })
 
-    it('should map /gc to git commit command with required message', () => {
+    it('should map /gc to git commit command with optional message', () => {
       const commands = commandMapper.getAllCommands()
       const gcCommand = commands['/gc']
 
       expect(gcCommand).toBeDefined()
       expect(gcCommand.description).toBe('Create commit')
-      expect(gcCommand.usage).toBe('/gc "<message>"')
-      expect(gcCommand.requiresArgs).toBe(true)
+      expect(gcCommand.usage).toBe('/gc ["<message>"]')
+      expect(gcCommand.requiresArgs).toBe(false)
     })
   })
 
@@ -191,14 +204,16 @@ describe('GitCommandMapping', () => {
       const result = await commandMapper.executeCommand('/ga', [])
 
       expect(result.success).toBe(false)
-      expect(result.error).toBe('Command /ga requires arguments: /ga <path...>')
+      expect(result.error).toBe(
+        'Command /ga requires arguments: /ga <path...> | /ga -p [<path...>]',
+      )
     })
 
-    it('should validate /gc command requires arguments', async () => {
+    it('should require a /gc message when no editor is available', async () => {
       const result = await commandMapper.executeCommand('/gc', [])
 
       expect(result.success).toBe(false)
-      expect(result.error).toBe('Command /gc requires arguments: /gc "<message>"')
+      expect(result.error).toBe('Command /gc requires a message: /gc ["<message>"]')
     })
 
     it('should reject unknown commands', async () => {
@@ -219,6 +234,9 @@ describe('GitCommandMapping', () => {
       expect(completions).toContain('/gb')
       expect(completions).toContain('/ga')
       expect(completions).toContain('/gc')
+      expect(completions).toContain('/gco')
+      expect(completions).toContain('/gst')
+      expect(completions).toContain('/grs')
     })
 
     it('should provide exact match completion', () => {
@@ -243,7 +261,7 @@ describe('GitCommandMapping', () => {
       expect(help).toContain('/gs - Show git status')
       expect(help).toContain('/gd - Show git diff')
       expect(help).toContain('/gl - Show git log')
-      expect(help).toContain('/gb - Show git branches')
+      expect(help).toContain('/gb - Show, create or delete branches')
       expect(help).toContain('/ga - Add files to staging')
       expect(help).toContain('/gc - Create commit')
     })
@@ -338,6 +356,82 @@ describe('ArgValidator', () => {
     })
   })
 
+  describe('parseGitBranchArgs', () => {
+    it('should parse list, create and delete', () => {
+      expect(ArgValidator.parseGitBranchArgs([])).toEqual({ action: 'list' })
+      expect(ArgValidator.parseGitBranchArgs(['-c', 'feature'])).toEqual({
+        action: 'create',
+        name: 'feature',
+      })
+      expect(ArgValidator.parseGitBranchArgs(['-D', 'old'])).toEqual({
+        action: 'delete',
+        name: 'old',
+        force: true,
+      })
+    })
+
+    it('should reject missing names, options as names and unknown flags', () => {
+      expect(ArgValidator.parseGitBranchArgs(['-c'])).toBeNull()
+      expect(ArgValidator.parseGitBranchArgs(['-d', '--force'])).toBeNull()
+      expect(ArgValidator.parseGitBranchArgs(['-m', 'new'])).toBeNull()
+    })
+  })
+
+  describe('parseGitStashArgs', () => {
+    it('should push by default', () => {
+      expect(ArgValidator.parseGitStashArgs([])).toEqual({
+        action: 'push',
+        includeUntracked: false,
+        message: undefined,
+      })
+    })
+
+    it('should parse the push message and -u', () => {
+      expect(ArgValidator.parseGitStashArgs(['push', '-u', '"wip', 'parser"'])).toEqual({
+        action: 'push',
+        includeUntracked: true,
+        message: 'wip parser',
+      })
+    })
+
+    it('should parse the stash to pop or show', () => {
+      expect(ArgValidator.parseGitStashArgs(['pop', 'stash@{1}'])).toMatchObject({
+        action: 'pop',
+        stash: 'stash@{1}',
+      })
+      expect(ArgValidator.parseGitStashArgs(['show'])).toMatchObject({ action: 'show' })
+    })
+
+    it('should reject unknown subcommands and extra arguments', () => {
+      expect(ArgValidator.parseGitStashArgs(['drop'])).toBeNull()
+      expect(ArgValidator.parseGitStashArgs(['list', 'all'])).toBeNull()
+      expect(ArgValidator.parseGitStashArgs(['pop', '--index'])).toBeNull()
+    })
+  })
+
+  describe('parseGitLogBrowserArgs', () => {
+    it('should list the default number of commits without arguments', () => {
+      expect(ArgValidator.parseGitLogBrowserArgs([])).toEqual({ count: 500 })
+    })
+
+    it('should parse the count, filters and path', () => {
+      expect(
+        ArgValidator.parseGitLogBrowserArgs(['50', '--author=alice', '--grep=fix', 'src/']),
+      ).toEqual({ count: 50, author: 'alice', grep: 'fix', path: 'src/' })
+    })
+
+    it('should join quoted filter values that were split on whitespace', () => {
+      expect(ArgValidator.parseGitLogBrowserArgs(['--grep="race', 'condition"'])).toMatchObject({
+        grep: 'race condition',
+      })
+    })
+
+    it('should reject unknown flags and a second path', () => {
+      expect(ArgValidator.parseGitLogBrowserArgs(['--oneline'])).toBeNull()
+      expect(ArgValidator.parseGitLogBrowserArgs(['src/a.ts', 'src/b.ts'])).toBeNull()
+    })
+  })
+
   describe('parseCommitMessage', () => {
     it('should parse quoted message correctly', () => {
       const message = ArgValidator.parseCommitMessage(['"test commit message"'])
@@ -363,4 +457,273 @@ describe('ArgValidator', () => {
       expect(message).toBe('')
     })
   })
-})
\ No newline at end of file
+})
+describe('GitCommandMapper /gc', () => {
+  let git: {
+    getStatus: jest.Mock
+    createCommit: jest.Mock
+  }
+
+  const mapperWith = (options: ConstructorParameters<typeof GitCommandMapper>[1]) =>
+    new GitCommandMapper(git as unknown as GitCommandManager, options)
+
+  beforeEach(() => {
+    git = {
+      getStatus: jest.fn().mockResolvedValue({
+        branch: 'main',
+        staged: ['src/a.ts', 'README.md'],
+        unstaged: [],
+        untracked: [],
+      }),
+      createCommit: jest.fn().mockResolvedValue({
+        success: true,
+        message: 'Commit created successfully',
+        hash: 'abc1234',
+      }),
+    }
+  })
+
+  it('should open the editor on a template listing the staged files', async () => {
+    const editCommitMessage = jest.fn((template: string) =>
+      Promise.resolve(`feat: add a\n\n${template}`),
+    )
+
+    const result = await mapperWith({ editCommitMessage }).executeCommand('/gc', [])
+
+    const [template] = editCommitMessage.mock.calls[0]
+    expect(template).toContain('# On branch main')
+    expect(template).toContain('#\tsrc/a.ts\n#\tREADME.md')
+    expect(git.createCommit).toHaveBeenCalledWith('feat: add a')
+    expect(result).toMatchObject({ success: true, output: 'Commit created successfully (abc1234)' })
+  })
+
+  it('should abort when the edited message is empty', async () => {
+    const result = await mapperWith({
+      editCommitMessage: (template) => Promise.resolve(template),
+    }).executeCommand('/gc', [])
+
+    expect(result.error).toBe('Aborting commit due to empty commit message')
+    expect(git.createCommit).not.toHaveBeenCalled()
+  })
+
+  it('should reject messages that are not Conventional Commits when linting', async () => {
+    const mapper = mapperWith({ commitLint: { scopes: ['cli'] } })
+
+    const invalid = await mapper.executeCommand('/gc', ['"feat(server): add a"'])
+    const valid = await mapper.executeCommand('/gc', ['"feat(cli): add a"'])
+
+    expect(invalid.success).toBe(false)
+    expect(invalid.error).toContain('Unknown scope "server"')
+    expect(valid.success).toBe(true)
+    expect(git.createCommit).toHaveBeenCalledTimes(1)
+    expect(git.createCommit).toHaveBeenCalledWith('feat(cli): add a')
+  })
+
+  it('should commit any message when linting is off', async () => {
+    const result = await mapperWith({}).executeCommand('/gc', ['Fix', "it's", 'broken'])
+
+    expect(result.success).toBe(true)
+    expect(git.createCommit).toHaveBeenCalledWith("Fix it's broken")
+  })
+})
+
+describe('GitCommandMapper branches, stashes and restore', () => {
+  let git: {
+    getBranches: jest.Mock
+    getStashes: jest.Mock
+    switchBranch: jest.Mock
+    createBranch: jest.Mock
+    deleteBranch: jest.Mock
+    stashPush: jest.Mock
+    stashPop: jest.Mock
+    restoreFiles: jest.Mock
+    formatWithColors: jest.Mock
+  }
+  let mapper: GitCommandMapper
+
+  const ok = { success: true, message: 'done' }
+
+  beforeEach(() => {
+    git = {
+      getBranches: jest.fn().mockResolvedValue({
+        local: ['main', 'feature/parser', 'fix-typo'],
+        remote: [
+          { remote: 'origin', name: 'main' },
+          { remote: 'fork', name: 'release' },
+        ],
+        current: 'main',
+      }),
+      getStashes: jest.fn().mockResolvedValue([
+        { ref: 'stash@{0}', message: 'On main: wip' },
+        { ref: 'stash@{1}', message: 'WIP on main: 1a2b3c4 parser' },
+      ]),
+      switchBranch: jest.fn().mockResolvedValue(ok),
+      createBranch: jest.fn().mockResolvedValue(ok),
+      deleteBranch: jest.fn().mockResolvedValue(ok),
+      stashPush: jest.fn().mockResolvedValue(ok),
+      stashPop: jest.fn().mockResolvedValue(ok),
+      restoreFiles: jest.fn().mockResolvedValue(ok),
+      formatWithColors: jest.fn((_type: string, data: unknown) => JSON.stringify(data)),
+    }
+    mapper = new GitCommandMapper(git as unknown as GitCommandManager)
+  })
+
+  it('should switch branches and pass -f through', async () => {
+    await mapper.executeCommand('/gco', ['feature/parser'])
+    await mapper.executeCommand('/gco', ['-f', 'main'])
+
+    expect(git.switchBranch).toHaveBeenNthCalledWith(1, 'feature/parser', false)
+    expect(git.switchBranch).toHaveBeenNthCalledWith(2, 'main', true)
+  })
+
+  it('should report a refused switch as an error', async () => {
+    git.switchBranch.mockResolvedValue({
+      success: false,
+      message: 'You have uncommitted changes in 1 file(s): src/a.ts',
+    })
+
+    const result = await mapper.executeCommand('/gco', ['feature/parser'])
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('You have uncommitted changes in 1 file(s): src/a.ts')
+  })
+
+  it('should create and delete branches with /gb', async () => {
+    await mapper.executeCommand('/gb', ['-c', 'feature/x'])
+    await mapper.executeCommand('/gb', ['-d', 'fix-typo'])
+
+    expect(git.createBranch).toHaveBeenCalledWith('feature/x')
+    expect(git.deleteBranch).toHaveBeenCalledWith('fix-typo', false)
+  })
+
+  it('should show the usage for arguments that do not parse', async () => {
+    const gb = await mapper.executeCommand('/gb', ['-c'])
+    const gco = await mapper.executeCommand('/gco', ['main', 'release'])
+
+    expect(gb.error).toBe('Usage: /gb [-c <name> | -d <name> | -D <name>]')
+    expect(gco.error).toBe('Usage: /gco [-f] <branch>')
+    expect(git.createBranch).not.toHaveBeenCalled()
+    expect(git.switchBranch).not.toHaveBeenCalled()
+  })
+
+  it('should run the stash subcommands', async () => {
+    await mapper.executeCommand('/gst', [])
+    await mapper.executeCommand('/gst', ['pop', 'stash@{1}'])
+    const list = await mapper.executeCommand('/gst', ['list'])
+
+    expect(git.stashPush).toHaveBeenCalledWith(undefined, false)
+    expect(git.stashPop).toHaveBeenCalledWith('stash@{1}')
+    expect(list.output).toContain('On main: wip')
+  })
+
+  it('should hand /ga -p to the hunk picker', async () => {
+    const stageHunks = jest
+      .fn()
+      .mockResolvedValue({ success: true, message: 'Staged 1 of 2 hunk(s)' })
+    const withPicker = new GitCommandMapper(git as unknown as GitCommandManager, { stageHunks })
+
+    const result = await withPicker.executeCommand('/ga', ['-p', 'src/a.ts'])
+    const withoutPicker = await mapper.executeCommand('/ga', ['-p'])
+
+    expect(stageHunks).toHaveBeenCalledWith(['src/a.ts'])
+    expect(result.output).toBe('Staged 1 of 2 hunk(s)')
+    expect(withoutPicker.error).toBe('Hunk staging (/ga -p) needs an interactive terminal')
+  })
+
+  it('should hand /gl -i to the log browser', async () => {
+    const browseLog = jest
+      .fn()
+      .mockResolvedValue({ success: true, message: 'Shared 1 resource(s) with Claude' })
+    const withBrowser = new GitCommandMapper(git as unknown as GitCommandManager, { browseLog })
+
+    const result = await withBrowser.executeCommand('/gl', ['-i', '--author=bob', 'README.md'])
+    const badArgs = await withBrowser.executeCommand('/gl', ['-i', '--oneline'])
+    const withoutBrowser = await mapper.executeCommand('/gl', ['-i'])
+
+    expect(browseLog).toHaveBeenCalledWith({ count: 500, author: 'bob', path: 'README.md' })
+    expect(result.output).toBe('Shared 1 resource(s) with Claude')
+    expect(badArgs.error).toContain('Usage: /gl')
+    expect(withoutBrowser.error).toBe('The log browser (/gl -i) needs an interactive terminal')
+  })
+
+  it('should restore or unstage files with /grs', async () => {
+    const confirm = jest.fn().mockResolvedValue(true)
+    mapper = new GitCommandMapper(git as unknown as GitCommandManager, { confirm })
+
+    await mapper.executeCommand('/grs', ['src/a.ts'])
+    await mapper.executeCommand('/grs', ['--staged', 'src/a.ts', 'src/b.ts'])
+
+    expect(confirm).toHaveBeenCalledTimes(1)
+    expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Discard all changes to src/a.ts'))
+    expect(git.restoreFiles).toHaveBeenNthCalledWith(1, ['src/a.ts'], false)
+    expect(git.restoreFiles).toHaveBeenNthCalledWith(2, ['src/a.ts', 'src/b.ts'], true)
+  })
+
+  it('should only discard changes with /grs after the user confirms', async () => {
+    const confirm = jest.fn().mockResolvedValue(false)
+    const declined = await new GitCommandMapper(git as unknown as GitCommandManager, {
+      confirm,
+    }).executeCommand('/grs', ['src/a.ts'])
+    const withoutTerminal = await mapper.executeCommand('/grs', ['src/a.ts'])
+
+    expect(declined).toEqual({
+      success: true,
+      output: 'Restore cancelled - nothing was discarded',
+    })
+    expect(withoutTerminal.error).toBe(
+      'Discarding changes (/grs without --staged) needs an interactive terminal',
+    )
+    expect(git.restoreFiles).not.toHaveBeenCalled()
+  })
+
+  describe('getCompletions', () => {
+    beforeEach(async () => {
+      await mapper.refreshCompletions()
+    })
+
+    it('should complete branch names for /gco, leaving out the current branch', () => {
+      expect(mapper.getCompletions('/gco ')).toEqual([
+        '/gco feature/parser',
+        '/gco fix-typo',
+        '/gco release',
+      ])
+      expect(mapper.getCompletions('/gco -f fe')).toEqual(['/gco -f feature/parser'])
+    })
+
+    it('should complete local branches to delete', () => {
+      expect(mapper.getCompletions('/gb -d f')).toEqual([
+        '/gb -d feature/parser',
+        '/gb -d fix-typo',
+      ])
+      expect(mapper.getCompletions('/gb -c f')).toEqual([])
+    })
+
+    it('should complete stash subcommands and stash names', () => {
+      expect(mapper.getCompletions('/gst p')).toEqual(['/gst push', '/gst pop'])
+      expect(mapper.getCompletions('/gst pop ')).toEqual([
+        '/gst pop stash@{0}',
+        '/gst pop stash@{1}',
+      ])
+    })
+
+    it('should pick up new branches after creating one', async () => {
+      git.getBranches.mockResolvedValue({
+        local: ['main', 'feature/x'],
+        remote: [],
+        current: 'feature/x',
+      })
+
+      await mapper.executeCommand('/gb', ['-c', 'feature/x'])
+
+      expect(mapper.getCompletions('/gco ')).toEqual(['/gco main'])
+    })
+
+    it('should keep the previous names when git fails', async () => {
+      git.getBranches.mockRejectedValue(new Error('Failed to get git branches'))
+
+      await mapper.refreshCompletions()
+
+      expect(mapper.getCompletions('/gco fi')).toEqual(['/gco fix-typo'])
+    })
+  })
+})
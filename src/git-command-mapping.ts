@@ -1,4 +1,11 @@
-import { GitCommandManager } from './git-command-manager.js'
+import { GitBranches, GitCommandManager, GitOperationResult } from './git-command-manager.js'
+import { DEFAULT_BROWSER_COUNT, LogBrowserFilter } from './git-log-browser.js'
+import {
+  CommitLintOptions,
+  buildCommitTemplate,
+  cleanCommitMessage,
+  lintCommitMessage,
+} from './commit-message.js'
 
 /**
  * Information about a git command mapping
@@ -34,6 +41,32 @@ export interface CommandExecutionContext {
   debug?: boolean
 }
 
+/**
+ * Options for GitCommandMapper
+ */
+export interface GitCommandMapperOptions {
+  /** Validate /gc messages as Conventional Commits; no validation when unset */
+  commitLint?: CommitLintOptions
+  /**
+   * Open the commit template in the user's editor for /gc without a message
+   * @returns The edited text, or null if the editor failed
+   */
+  editCommitMessage?: (template: string) => Promise<string | null>
+  /**
+   * Let the user pick hunks of the given paths (all changes when empty) and stage them, for /ga -p
+   */
+  stageHunks?: (paths: string[]) => Promise<GitOperationResult>
+  /**
+   * Browse the commits that match the filter and share the chosen ones with Claude, for /gl -i
+   */
+  browseLog?: (filter: LogBrowserFilter) => Promise<GitOperationResult>
+  /**
+   * Ask the user to confirm a destructive command, for /grs without --staged
+   * @returns Whether the user said yes
+   */
+  confirm?: (question: string) => Promise<boolean>
+}
+
 /**
  * Registry mapping command strings to their configuration
  */
@@ -44,7 +77,16 @@ export type GitCommandRegistry = {
 /**
  * Valid git command names
  */
-export type GitCommandName = '/gs' | '/gd' | '/gl' | '/gb' | '/ga' | '/gc'
+export type GitCommandName =
+  | '/gs'
+  | '/gd'
+  | '/gl'
+  | '/gb'
+  | '/ga'
+  | '/gc'
+  | '/gco'
+  | '/gst'
+  | '/grs'
 
 /**
  * Git diff command arguments
@@ -62,6 +104,30 @@ export interface GitLogArgs {
   oneline: boolean
 }
 
+/**
+ * Git branch command arguments: list, create and switch, or delete
+ */
+export type GitBranchArgs =
+  | { action: 'list' }
+  | { action: 'create'; name: string }
+  | { action: 'delete'; name: string; force: boolean }
+
+/**
+ * Git stash command arguments
+ */
+export interface GitStashArgs {
+  action: 'push' | 'pop' | 'list' | 'show'
+  /** Stash to pop or show, e.g. stash@{1} */
+  stash?: string
+  /** Message for push */
+  message?: string
+  /** Stash untracked files too (push -u) */
+  includeUntracked: boolean
+}
+
+/** /gst subcommands, the first one is the default */
+const STASH_ACTIONS: GitStashArgs['action'][] = ['push', 'pop', 'list', 'show']
+
 /**
  * Utilities for parsing and validating command arguments
  */
@@ -122,13 +188,108 @@ export class ArgValidator {
     return message.replace(/^["']|["']$/g, '')
   }
 
+  /**
+   * Parse arguments of the interactive log browser (after -i)
+   * @param args - Array of command line arguments, e.g. ['50', '--author=ana', 'src/']
+   * @returns Parsed filter, or null if an argument is not understood
+   */
+  static parseGitLogBrowserArgs(args: string[]): LogBrowserFilter | null {
+    const result: LogBrowserFilter = { count: DEFAULT_BROWSER_COUNT }
+
+    for (let i = 0; i < args.length; i++) {
+      let arg = args[i]
+      // A quoted value was split on whitespace: --grep="fix race" arrives as two arguments
+      while (/^--\w+="[^"]*$/.test(arg) && i + 1 < args.length) {
+        arg += ` ${args[++i]}`
+      }
+
+      const option = arg.match(/^--(author|grep)=(.+)$/)
+      if (option) {
+        result[option[1] as 'author' | 'grep'] = option[2].replace(/^"|"$/g, '')
+      } else if (/^\d+$/.test(arg)) {
+        result.count = parseInt(arg, 10)
+      } else if (!arg.startsWith('-') && !result.path) {
+        result.path = arg
+      } else {
+        return null
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Parse git branch command arguments
+   * @param args - Array of command line arguments
+   * @returns Parsed branch arguments, or null if they don't match the usage
+   */
+  static parseGitBranchArgs(args: string[]): GitBranchArgs | null {
+    if (args.length === 0) {
+      return { action: 'list' }
+    }
+
+    const [flag, name, ...rest] = args
+    if (!name || name.startsWith('-') || rest.length > 0) {
+      return null
+    }
+    if (flag === '-c') {
+      return { action: 'create', name }
+    }
+    if (flag === '-d' || flag === '-D') {
+      return { action: 'delete', name, force: flag === '-D' }
+    }
+    return null
+  }
+
+  /**
+   * Parse git stash command arguments
+   * @param args - Array of command line arguments
+   * @returns Parsed stash arguments, or null if they don't match the usage
+   */
+  static parseGitStashArgs(args: string[]): GitStashArgs | null {
+    const [action = 'push', ...rest] = args
+    if (!STASH_ACTIONS.includes(action as GitStashArgs['action'])) {
+      return null
+    }
+
+    const result: GitStashArgs = {
+      action: action as GitStashArgs['action'],
+      includeUntracked: false,
+    }
+
+    if (result.action === 'push') {
+      const messageArgs = rest.filter((arg) => arg !== '-u' && arg !== '--include-untracked')
+      result.includeUntracked = messageArgs.length < rest.length
+      result.message = ArgValidator.parseCommitMessage(messageArgs) || undefined
+    } else if (result.action === 'pop' || result.action === 'show') {
+      if (rest.length > 1 || rest[0]?.startsWith('-')) {
+        return null
+      }
+      result.stash = rest[0]
+    } else if (rest.length > 0) {
+      return null
+    }
+
+    return result
+  }
+
   /**
    * Validate that a command is a known git command
    * @param command - Command string to validate
    * @returns True if the command is a valid git command
    */
   static isValidGitCommand(command: string): command is GitCommandName {
-    const validCommands: GitCommandName[] = ['/gs', '/gd', '/gl', '/gb', '/ga', '/gc']
+    const validCommands: GitCommandName[] = [
+      '/gs',
+      '/gd',
+      '/gl',
+      '/gb',
+      '/ga',
+      '/gc',
+      '/gco',
+      '/gst',
+      '/grs',
+    ]
     return validCommands.includes(command as GitCommandName)
   }
 }
@@ -147,13 +308,21 @@ export class ArgValidator {
 export class GitCommandMapper {
   private readonly commands: GitCommandRegistry
   private readonly gitManager: GitCommandManager
+  private readonly options: GitCommandMapperOptions
+  /** Names offered by getCompletions, cached because tab completion answers synchronously */
+  private completionNames: { branches: GitBranches; stashes: string[] } = {
+    branches: { local: [], remote: [], current: '' },
+    stashes: [],
+  }
 
   /**
    * Create a new GitCommandMapper
    * @param gitManager - GitCommandManager instance for executing git operations
+   * @param options - Commit message validation and editor settings
    */
-  constructor(gitManager: GitCommandManager) {
+  constructor(gitManager: GitCommandManager, options: GitCommandMapperOptions = {}) {
     this.gitManager = gitManager
+    this.options = options
     this.commands = this.initializeCommands()
   }
 
@@ -171,22 +340,38 @@ export class GitCommandMapper {
       },
       '/gl': {
         description: 'Show git log',
-        usage: '/gl [<count>] [--oneline]',
+        usage:
+          '/gl [<count>] [--oneline] | /gl -i [<count>] [--author=<name>] [--grep=<text>] [<path>]',
         requiresArgs: false,
       },
       '/gb': {
-        description: 'Show git branches',
-        usage: '/gb',
+        description: 'Show, create or delete branches',
+        usage: '/gb [-c <name> | -d <name> | -D <name>]',
         requiresArgs: false,
       },
       '/ga': {
         description: 'Add files to staging',
-        usage: '/ga <path...>',
+        usage: '/ga <path...> | /ga -p [<path...>]',
         requiresArgs: true,
       },
       '/gc': {
         description: 'Create commit',
-        usage: '/gc "<message>"',
+        usage: '/gc ["<message>"]',
+        requiresArgs: false,
+      },
+      '/gco': {
+        description: 'Switch branches',
+        usage: '/gco [-f] <branch>',
+        requiresArgs: true,
+      },
+      '/gst': {
+        description: 'Stash changes',
+        usage: '/gst [push [-u] ["<message>"] | pop [<stash>] | list | show [<stash>]]',
+        requiresArgs: false,
+      },
+      '/grs': {
+        description: 'Restore or unstage files',
+        usage: '/grs [--staged] <path...>',
         requiresArgs: true,
       },
     }
@@ -238,13 +423,22 @@ export class GitCommandMapper {
           return await this.executeGitLog(args)
         
         case '/gb':
-          return await this.executeGitBranches()
+          return await this.executeGitBranches(args)
         
         case '/ga':
           return await this.executeGitAdd(args)
         
         case '/gc':
           return await this.executeGitCommit(args)
+
+        case '/gco':
+          return await this.executeGitCheckout(args)
+
+        case '/gst':
+          return await this.executeGitStash(args)
+
+        case '/grs':
+          return await this.executeGitRestore(args)
         
         default:
           return {
@@ -284,6 +478,21 @@ export class GitCommandMapper {
   }
 
   private async executeGitLog(args: string[]): Promise<GitCommandResult> {
+    if (args[0] === '-i') {
+      const filter = ArgValidator.parseGitLogBrowserArgs(args.slice(1))
+      if (!filter) {
+        return this.usageError('/gl')
+      }
+      if (!this.options.browseLog) {
+        return {
+          success: false,
+          output: '',
+          error: 'The log browser (/gl -i) needs an interactive terminal',
+        }
+      }
+      return this.operationResult(await this.options.browseLog(filter))
+    }
+
     const { count, oneline } = ArgValidator.parseGitLogArgs(args)
     const log = await this.gitManager.getLog(count, oneline)
     const output = this.gitManager.formatWithColors('log', log)
@@ -294,17 +503,126 @@ export class GitCommandMapper {
     }
   }
 
-  private async executeGitBranches(): Promise<GitCommandResult> {
-    const branches = await this.gitManager.getBranches()
-    const output = this.gitManager.formatWithColors('branches', branches)
-    
+  private async executeGitBranches(args: string[]): Promise<GitCommandResult> {
+    const parsed = ArgValidator.parseGitBranchArgs(args)
+    if (!parsed) {
+      return this.usageError('/gb')
+    }
+
+    if (parsed.action === 'list') {
+      const branches = await this.gitManager.getBranches()
+      const output = this.gitManager.formatWithColors('branches', branches)
+
+      return {
+        success: true,
+        output,
+      }
+    }
+
+    const result =
+      parsed.action === 'create'
+        ? await this.gitManager.createBranch(parsed.name)
+        : await this.gitManager.deleteBranch(parsed.name, parsed.force)
+    await this.refreshCompletions()
+
+    return this.operationResult(result)
+  }
+
+  private async executeGitCheckout(args: string[]): Promise<GitCommandResult> {
+    const force = args.includes('-f') || args.includes('--force')
+    const branches = args.filter((arg) => arg !== '-f' && arg !== '--force')
+    if (branches.length !== 1 || branches[0].startsWith('-')) {
+      return this.usageError('/gco')
+    }
+
+    const result = await this.gitManager.switchBranch(branches[0], force)
+    await this.refreshCompletions()
+
+    return this.operationResult(result)
+  }
+
+  private async executeGitStash(args: string[]): Promise<GitCommandResult> {
+    const parsed = ArgValidator.parseGitStashArgs(args)
+    if (!parsed) {
+      return this.usageError('/gst')
+    }
+
+    switch (parsed.action) {
+      case 'list': {
+        const stashes = await this.gitManager.getStashes()
+        return { success: true, output: this.gitManager.formatWithColors('stashes', stashes) }
+      }
+
+      case 'show': {
+        const diff = await this.gitManager.showStash(parsed.stash)
+        return { success: true, output: this.gitManager.formatWithColors('diff', diff) }
+      }
+
+      case 'push': {
+        const result = await this.gitManager.stashPush(parsed.message, parsed.includeUntracked)
+        await this.refreshCompletions()
+        return this.operationResult(result)
+      }
+
+      case 'pop': {
+        const result = await this.gitManager.stashPop(parsed.stash)
+        await this.refreshCompletions()
+        return this.operationResult(result)
+      }
+    }
+  }
+
+  private async executeGitRestore(args: string[]): Promise<GitCommandResult> {
+    const staged = args.includes('--staged')
+    const files = args.filter((arg) => arg !== '--staged')
+    if (files.length === 0) {
+      return this.usageError('/grs')
+    }
+
+    if (!staged) {
+      // Restoring throws the working-tree changes away
+      if (!this.options.confirm) {
+        return {
+          success: false,
+          output: '',
+          error: 'Discarding changes (/grs without --staged) needs an interactive terminal',
+        }
+      }
+      const confirmed = await this.options.confirm(
+        `⚠️  Discard all changes to ${files.join(', ')}? This cannot be undone (y/n): `,
+      )
+      if (!confirmed) {
+        return { success: true, output: 'Restore cancelled - nothing was discarded' }
+      }
+    }
+
+    return this.operationResult(await this.gitManager.restoreFiles(files, staged))
+  }
+
+  private operationResult(result: GitOperationResult): GitCommandResult {
     return {
-      success: true,
-      output
+      success: result.success,
+      output: result.message,
+      error: result.success ? undefined : result.message,
     }
   }
 
+  private usageError(command: GitCommandName): GitCommandResult {
+    return { success: false, output: '', error: `Usage: ${this.commands[command].usage}` }
+  }
+
   private async executeGitAdd(args: string[]): Promise<GitCommandResult> {
+    if (args[0] === '-p' || args[0] === '--patch') {
+      if (!this.options.stageHunks) {
+        return {
+          success: false,
+          output: '',
+          error: 'Hunk staging (/ga -p) needs an interactive terminal',
+        }
+      }
+      return this.operationResult(await this.options.stageHunks(args.slice(1)))
+    }
+
     const result = await this.gitManager.addFiles(args)
     
     return {
@@ -315,7 +633,29 @@ export class GitCommandMapper {
   }
 
   private async executeGitCommit(args: string[]): Promise<GitCommandResult> {
-    const message = ArgValidator.parseCommitMessage(args)
+    let message = ArgValidator.parseCommitMessage(args)
+
+    if (!message) {
+      const edited = await this.editCommitMessage()
+      if ('error' in edited) {
+        return { success: false, output: '', error: edited.error }
+      }
+      message = edited.message
+    }
+
+    if (this.options.commitLint) {
+      const lint = lintCommitMessage(message, this.options.commitLint)
+      if (!lint.valid) {
+        return {
+          success: false,
+          output: '',
+          error: `Commit message does not follow Conventional Commits:\n${lint.errors
+            .map((error) => `  • ${error}`)
+            .join('\n')}`,
+        }
+      }
+    }
+
     const result = await this.gitManager.createCommit(message)
     
     return {
@@ -325,16 +665,105 @@ export class GitCommandMapper {
     }
   }
 
+  /**
+   * Ask for a commit message in the editor, prefilled with the staged files
+   */
+  private async editCommitMessage(): Promise<{ message: string } | { error: string }> {
+    if (!this.options.editCommitMessage) {
+      return { error: `Command /gc requires a message: ${this.commands['/gc'].usage}` }
+    }
+
+    const status = await this.gitManager.getStatus()
+    if (status.staged.length === 0) {
+      return { error: 'Nothing staged to commit' }
+    }
+
+    const edited = await this.options.editCommitMessage(
+      buildCommitTemplate(status.staged, {
+        branch: status.branch,
+        lint: this.options.commitLint,
+      }),
+    )
+    if (edited === null) {
+      return { error: 'Editor exited with an error - commit aborted' }
+    }
+
+    const message = cleanCommitMessage(edited)
+    return message ? { message } : { error: 'Aborting commit due to empty commit message' }
+  }
+
   /**
    * Get command completions for tab completion
-   * @param prefix - Command prefix to match against
-   * @returns Array of matching command names
+   * @param prefix - Command prefix to match against; after a command and a space, its
+   *   branch or stash argument is completed instead (see refreshCompletions)
+   * @returns Array of matching command names, or of complete command lines for arguments
    */
   getCompletions(prefix: string): string[] {
+    if (prefix.includes(' ')) {
+      const [command, ...args] = prefix.split(' ')
+      const partial = args.pop() ?? ''
+      const head = [command, ...args].join(' ')
+      return this.getArgumentCandidates(command, args)
+        .filter((candidate) => candidate.startsWith(partial))
+        .map((candidate) => `${head} ${candidate}`)
+    }
+
     const commandNames = Object.keys(this.commands)
     return commandNames.filter(cmd => cmd.startsWith(prefix))
   }
 
+  /**
+   * Reload the branch and stash names that getCompletions offers. Commands that change them
+   * refresh the names themselves; a failure keeps the previous names.
+   */
+  async refreshCompletions(): Promise<void> {
+    try {
+      const [branches, stashes] = await Promise.all([
+        this.gitManager.getBranches(),
+        this.gitManager.getStashes(),
+      ])
+      this.completionNames = { branches, stashes: stashes.map((stash) => stash.ref) }
+    } catch {
+      // Completion is best effort
+    }
+  }
+
+  /**
+   * Candidates for the next argument of a command
+   * @param args - Arguments typed before the one being completed
+   */
+  private getArgumentCandidates(command: string, args: string[]): string[] {
+    const { branches, stashes } = this.completionNames
+    const notCurrent = (branch: string) => branch !== branches.current
+
+    switch (command) {
+      case '/gco':
+        // Remote branches are checked out as new tracking branches
+        return args.every((arg) => arg === '-f' || arg === '--force')
+          ? [...new Set([...branches.local, ...branches.remote.map(({ name }) => name)])].filter(
+              notCurrent,
+            )
+          : []
+
+      case '/gb':
+        if (args.length === 0) {
+          return ['-c', '-d', '-D']
+        }
+        return args.length === 1 && (args[0] === '-d' || args[0] === '-D')
+          ? branches.local.filter(notCurrent)
+          : []
+
+      case '/gst':
+        if (args.length === 0) {
+          return STASH_ACTIONS
+        }
+        return args.length === 1 && (args[0] === 'pop' || args[0] === 'show') ? stashes : []
+
+      default:
+        return []
+    }
+  }
+
   /**
    * Get help text for commands
    * @param command - Specific command to get help for, or undefined for all commands
@@ -0,0 +1,147 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { GitLogBrowser, LogEntry } from './git-log-browser.js'
+import { ProcessError, ProcessRunner, RunOptions } from './process-runner.js'
+
+describe('GitLogBrowser', () => {
+  let repo: string
+  let browser: GitLogBrowser
+
+  const git = (command: string, env: Record<string, string> = {}) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const commit = (file: string, message: string, author = 'Alice') => {
+    fs.writeFileSync(path.join(repo, file), `${message}\n`)
+    git(`add ${file}`)
+    git(`commit -q -m "${message}"`, {
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+    })
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-log-'))
+    git('init -q')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    commit('a.txt', 'Add parser')
+    commit('b.txt', 'Fix race in watcher', 'Bob')
+    commit('a.txt', 'Refactor parser')
+    browser = new GitLogBrowser(repo)
+  })
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  describe('listCommits', () => {
+    it('should list commits newest first', async () => {
+      const entries = await browser.listCommits({ count: 2 })
+
+      expect(entries.map(({ subject }) => subject)).toEqual([
+        'Refactor parser',
+        'Fix race in watcher',
+      ])
+      expect(entries[0]).toMatchObject({ author: 'Alice', hash: git('rev-parse HEAD') })
+      expect(entries[0].date).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    })
+
+    it('should filter by author, message and path', async () => {
+      const subjects = async (filter: Parameters<GitLogBrowser['listCommits']>[0]) =>
+        (await browser.listCommits(filter)).map(({ subject }) => subject)
+
+      await expect(subjects({ count: 10, author: 'bob' })).resolves.toEqual(['Fix race in watcher'])
+      await expect(subjects({ count: 10, grep: 'PARSER' })).resolves.toEqual([
+        'Refactor parser',
+        'Add parser',
+      ])
+      await expect(subjects({ count: 10, path: 'b.txt' })).resolves.toEqual(['Fix race in watcher'])
+    })
+  })
+
+  describe('commitResource', () => {
+    it('should snapshot the commit with its patch', async () => {
+      const hash = git('rev-parse HEAD')
+
+      const resource = await browser.commitResource(hash)
+
+      expect(resource).toMatchObject({
+        uri: `git-commit://${hash}`,
+        name: `Commit ${hash.slice(0, 7)} Refactor parser`,
+        mimeType: 'text/x-diff',
+      })
+      expect(resource.text).toContain('Author:     Alice')
+      expect(resource.text).toContain('+Refactor parser')
+    })
+  })
+
+  describe('pick', () => {
+    let runSpy: jest.SpyInstance
+    const entries: LogEntry[] = [
+      {
+        hash: 'a'.repeat(40),
+        shortHash: 'aaaaaaa',
+        author: 'Alice',
+        date: '2024-01-02',
+        subject: 'Two',
+      },
+      {
+        hash: 'b'.repeat(40),
+        shortHash: 'bbbbbbb',
+        author: 'Bob',
+        date: '2024-01-01',
+        subject: 'One',
+      },
+    ]
+
+    beforeEach(() => {
+      runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+    })
+
+    afterEach(() => {
+      runSpy.mockRestore()
+    })
+
+    it('should return the hashes of the chosen lines', async () => {
+      runSpy.mockImplementation((command: string) =>
+        command === 'fzf'
+          ? Promise.resolve({
+              stdout: `${'a'.repeat(40)}\taaaaaaa 2024-01-02 Alice: Two\n${'b'.repeat(40)}\tbbbbbbb 2024-01-01 Bob: One\n`,
+              stderr: '',
+              exitCode: 0,
+            })
+          : Promise.reject(new ProcessError('not found', 'not_found', command, [])),
+      )
+
+      await expect(browser.pick(entries)).resolves.toEqual(['a'.repeat(40), 'b'.repeat(40)])
+      const [, args, options] = runSpy.mock.calls.find(([command]) => command === 'fzf') as [
+        string,
+        string[],
+        RunOptions,
+      ]
+      expect(args).toContain('--multi')
+      expect(args).toContain('--preview=git show --stat --patch --color=always {1}')
+      expect(options.input).toContain('aaaaaaa 2024-01-02 Alice: Two')
+    })
+
+    it('should return null when the picker is cancelled and rethrow a missing fzf', async () => {
+      runSpy.mockImplementation((command: string, args: string[]) =>
+        Promise.reject(
+          command === 'fzf' && runSpy.mock.calls.length < 3
+            ? new ProcessError('cancelled', 'exit_code', command, args, 130)
+            : new ProcessError('not found', 'not_found', command, args),
+        ),
+      )
+
+      await expect(browser.pick(entries)).resolves.toBeNull()
+      await expect(browser.pick(entries)).rejects.toMatchObject({ reason: 'not_found' })
+    })
+  })
+})
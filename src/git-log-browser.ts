@@ -0,0 +1,148 @@
+// git-log-browser.ts - Browse the history in fzf with a `git show` preview (/gl -i)
+
+import { GitService } from './git-service.js'
+import { ProcessError, ProcessRunner } from './process-runner.js'
+import { GitResource, commitUri } from './git-resources.js'
+
+/** Commits listed when no count is given */
+export const DEFAULT_BROWSER_COUNT = 500
+
+export interface LogBrowserFilter {
+  /** Most commits to list */
+  count: number
+  /** Author name or email contains this */
+  author?: string
+  /** Commit message contains this (case-insensitive) */
+  grep?: string
+  /** Only commits that touch this file or directory */
+  path?: string
+}
+
+export interface LogEntry {
+  hash: string
+  shortHash: string
+  author: string
+  /** Author date, YYYY-MM-DD */
+  date: string
+  subject: string
+}
+
+export class GitLogBrowser {
+  private service: GitService
+  private runner: ProcessRunner
+  private availableCommands = new Map<string, boolean>()
+
+  constructor(workspaceFolder?: string) {
+    this.service = new GitService(workspaceFolder)
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+  }
+
+  /**
+   * List the commits that match the filter, newest first
+   */
+  async listCommits(filter: LogBrowserFilter): Promise<LogEntry[]> {
+    const args = ['log', '--format=%H%x09%h%x09%an%x09%ad%x09%s', '--date=short']
+    args.push('-n', String(filter.count))
+    if (filter.author) {
+      args.push(`--author=${filter.author}`)
+    }
+    if (filter.grep) {
+      args.push('--regexp-ignore-case', '--fixed-strings', `--grep=${filter.grep}`)
+    }
+    if (filter.path) {
+      args.push('--', filter.path)
+    }
+
+    const output = await this.service.git(args, { supersede: 'log-browser' })
+    return output
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [hash, shortHash, author, date, ...subject] = line.split('\t')
+        return { hash, shortHash, author, date, subject: subject.join('\t') }
+      })
+  }
+
+  /**
+   * Let the user pick commits in fzf; the preview pane shows `git show` of the highlighted
+   * commit, through delta when installed. fzf's search matches hash, date, author and subject.
+   * @returns Hashes of the chosen commits, newest first, or null if the picker was cancelled
+   * @throws ProcessError with reason `not_found` when fzf is not installed
+   */
+  async pick(entries: LogEntry[]): Promise<string[] | null> {
+    const preview = `git show --stat --patch --color=always {1}${
+      (await this.isInstalled('delta')) ? ' | delta' : ''
+    }`
+    const list = entries
+      .map(
+        (entry) =>
+          `${entry.hash}\t${entry.shortHash} ${entry.date} ${entry.author}: ${entry.subject}`,
+      )
+      .join('\n')
+
+    try {
+      const { stdout } = await this.runner.run(
+        'fzf',
+        [
+          '--multi',
+          '--reverse',
+          '--height=90%',
+          '--border',
+          '--no-sort',
+          '--delimiter=\t',
+          '--with-nth=2..',
+          `--preview=${preview}`,
+          '--preview-window=right:60%',
+          '--header=Select commits with Tab, press Enter to send them to Claude',
+          '--prompt=Commits> ',
+        ],
+        { input: list, stderr: 'inherit', timeout: 0 },
+      )
+      return stdout
+        .split('\n')
+        .map((line) => line.split('\t')[0])
+        .filter((hash) => hash)
+    } catch (error) {
+      // 1: no match, 130: cancelled with Esc or Ctrl-C
+      if (error instanceof ProcessError && error.reason === 'exit_code') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * The commit as a resource for Claude: header, full message, stat and patch
+   */
+  async commitResource(hash: string): Promise<GitResource> {
+    const [summary, text] = await Promise.all([
+      this.service.git(['show', '--no-patch', '--format=%h %s', hash]),
+      this.service.git(['show', '--format=fuller', '--stat', '--patch', hash]),
+    ])
+
+    return {
+      uri: commitUri(hash),
+      name: `Commit ${summary}`,
+      description: `git show ${hash}`,
+      mimeType: 'text/x-diff',
+      text,
+    }
+  }
+
+  /**
+   * Check (once) whether an optional external tool is installed
+   */
+  private async isInstalled(command: string): Promise<boolean> {
+    let available = this.availableCommands.get(command)
+    if (available === undefined) {
+      try {
+        await this.runner.run(command, ['--version'])
+        available = true
+      } catch {
+        available = false
+      }
+      this.availableCommands.set(command, available)
+    }
+    return available
+  }
+}
@@ -1,4 +1,33 @@
 import { GitPushManager } from './git-push.js'
+import { PushPlan, PushPlanner } from './push-planner.js'
+import { ProcessRunner, RunResult } from './process-runner.js'
+
+const createPlan = (overrides: Partial<PushPlan> = {}): PushPlan => {
+  const plan: PushPlan = {
+    branch: 'feature',
+    remote: 'origin',
+    state: 'ahead',
+    ahead: 1,
+    behind: 1,
+    needsUpstream: false,
+    protected: false,
+    remoteHash: 'remote1',
+    outgoing: [{ hash: 'local1', subject: 'Local work' }],
+    incoming: [{ hash: 'remote1', subject: 'Remote work' }],
+    actions: [],
+    ...overrides,
+  }
+  const actions: Record<PushPlan['state'], PushPlan['actions']> = {
+    'up-to-date': [],
+    ahead: ['push', 'abort'],
+    behind: ['rebase', 'merge', 'abort'],
+    diverged: ['rebase', 'merge', 'force', 'abort'],
+    'no-upstream': ['set-upstream', 'abort'],
+  }
+  return { ...plan, actions: overrides.actions || actions[plan.state] }
+}
+
+const runResult = (stdout = ''): RunResult => ({ stdout, stderr: '', exitCode: 0 })
 
 describe('GitPushManager', () => {
   let gitPush: GitPushManager
@@ -9,79 +38,45 @@ describe('GitPushManager', () => {
 
   describe('validateRemoteBranch', () => {
     it('should validate existing remote branch', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('origin/main')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult('abc123\trefs/heads/main\n'))
 
       const result = await gitPush.validateRemoteBranch('main')
 
       expect(result).toBe(true)
-      expect(execSyncSpy).toHaveBeenCalledWith(
-        'git ls-remote --heads origin main',
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['ls-remote', '--heads', 'origin', 'main'],
         expect.any(Object),
       )
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
 
     it('should return false for non-existent remote branch', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult())
 
       const result = await gitPush.validateRemoteBranch('non-existent')
 
       expect(result).toBe(false)
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
 
     it('should handle validation errors', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockImplementation(() => {
-        throw new Error('Network error')
-      })
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockRejectedValue(new Error('Network error'))
 
       await expect(gitPush.validateRemoteBranch('main')).rejects.toThrow(
         'Failed to validate remote branch',
       )
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
   })
 
-  describe('checkForForcePush', () => {
-    it('should detect force push requirement', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('main origin/main\n[behind 2]')
-
-      const result = await gitPush.checkForForcePush()
-
-      expect(result).toBe(true)
-      execSyncSpy.mockRestore()
-    })
-
-    it('should detect normal push scenario', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('main origin/main\n[ahead 1]')
-
-      const result = await gitPush.checkForForcePush()
-
-      expect(result).toBe(false)
-      execSyncSpy.mockRestore()
-    })
-
-    it('should handle check errors', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockImplementation(() => {
-        throw new Error('Git error')
-      })
-
-      await expect(gitPush.checkForForcePush()).rejects.toThrow('Failed to check push status')
-
-      execSyncSpy.mockRestore()
-    })
-  })
-
-  describe('promptForPushConfirmation', () => {
-    it('should prompt for normal push confirmation', async () => {
+  describe('confirmations', () => {
+    it('should ask on a temporary readline', async () => {
       const mockReadline = {
         question: jest.fn((_prompt, callback) => {
           callback('y')
@@ -91,131 +86,433 @@ describe('GitPushManager', () => {
 
       jest.spyOn(require('readline'), 'createInterface').mockReturnValue(mockReadline)
 
-      const result = await gitPush.promptForPushConfirmation('main', false)
+      const result = await gitPush.askQuestion('❓ Push to origin/main? (y/n): ')
 
-      expect(result).toBe(true)
+      expect(result).toBe('y')
       expect(mockReadline.question).toHaveBeenCalledWith(
-        expect.stringContaining('push to origin/main'),
+        expect.stringContaining('Push to origin/main'),
         expect.any(Function),
       )
 
       mockReadline.close.mockRestore()
     })
 
-    it('should prompt for force push with warning', async () => {
-      const mockReadline = {
-        question: jest.fn((_prompt, callback) => {
-          callback('n')
-        }),
-        close: jest.fn(),
-      }
-
-      jest.spyOn(require('readline'), 'createInterface').mockReturnValue(mockReadline)
+    it('should accept a typed confirmation for a force push', async () => {
       const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const ask = jest.fn().mockResolvedValue('force')
 
-      const result = await gitPush.promptForPushConfirmation('main', true)
+      const result = await gitPush.confirmForcePush(createPlan({ state: 'diverged' }), ask)
 
-      expect(result).toBe(false)
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('⚠️  WARNING: Force push detected'),
+      expect(result).toBe(true)
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('⚠️  WARNING: Force push'))
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('remote1 Remote work'))
+
+      consoleSpy.mockRestore()
+    })
+
+    it('should not force push on a plain yes', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      const result = await gitPush.confirmForcePush(
+        createPlan({ state: 'diverged' }),
+        jest.fn().mockResolvedValue('y'),
       )
 
-      mockReadline.close.mockRestore()
+      expect(result).toBe(false)
       consoleSpy.mockRestore()
     })
   })
 
+  describe('chooseRemote', () => {
+    let logSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      logSpy = jest.spyOn(console, 'log').mockImplementation()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should use the remote configured for the branch without asking', async () => {
+      jest.spyOn(PushPlanner.prototype, 'configuredRemote').mockResolvedValue('fork')
+      const ask = jest.fn()
+
+      await expect(gitPush.chooseRemote('feature', ask)).resolves.toBe('fork')
+      expect(ask).not.toHaveBeenCalled()
+    })
+
+    it('should use the only remote', async () => {
+      jest.spyOn(PushPlanner.prototype, 'configuredRemote').mockResolvedValue(null)
+      jest.spyOn(PushPlanner.prototype, 'listRemotes').mockResolvedValue(['upstream'])
+
+      await expect(gitPush.chooseRemote('feature', jest.fn())).resolves.toBe('upstream')
+    })
+
+    it('should let the user pick among several remotes, origin first', async () => {
+      jest.spyOn(PushPlanner.prototype, 'configuredRemote').mockResolvedValue(null)
+      jest.spyOn(PushPlanner.prototype, 'listRemotes').mockResolvedValue(['fork', 'origin'])
+      const ask = jest.fn().mockResolvedValueOnce('').mockResolvedValueOnce('2')
+
+      await expect(gitPush.chooseRemote('feature', ask)).resolves.toBe('origin')
+      await expect(gitPush.chooseRemote('feature', ask)).resolves.toBe('fork')
+      expect(logSpy).toHaveBeenCalledWith('  1. origin')
+    })
+
+    it('should fail when the repository has no remote', async () => {
+      jest.spyOn(PushPlanner.prototype, 'configuredRemote').mockResolvedValue(null)
+      jest.spyOn(PushPlanner.prototype, 'listRemotes').mockResolvedValue([])
+
+      await expect(gitPush.chooseRemote('feature', jest.fn())).rejects.toThrow('No git remote')
+    })
+  })
+
   describe('executePush', () => {
     it('should execute normal push', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('Push successful')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult())
+
+      await gitPush.executePush('main')
+
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--progress', 'origin', 'main'],
+        expect.any(Object),
+      )
+
+      runSpy.mockRestore()
+    })
+
+    it('should force push with a lease on the planned remote commit', async () => {
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult())
+
+      await gitPush.executePush('main', { forceWithLease: 'abc123' })
 
-      await gitPush.executePush('main', false)
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--progress', '--force-with-lease=main:abc123', 'origin', 'main'],
+        expect.any(Object),
+      )
+
+      runSpy.mockRestore()
+    })
+
+    it('should set the upstream when asked', async () => {
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult())
 
-      expect(execSyncSpy).toHaveBeenCalledWith('git push origin main', expect.any(Object))
+      await gitPush.executePush('feature', { setUpstream: true })
 
-      execSyncSpy.mockRestore()
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--progress', '--set-upstream', 'origin', 'feature'],
+        expect.any(Object),
+      )
+
+      runSpy.mockRestore()
     })
 
-    it('should execute force push when required', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockReturnValue('Force push successful')
+    it('should push a single commit and track the branch afterwards', async () => {
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockResolvedValue(runResult())
 
-      await gitPush.executePush('main', true)
+      await gitPush.executePush('feature', { setUpstream: true, revision: 'abc123' })
 
-      expect(execSyncSpy).toHaveBeenCalledWith(
-        'git push --force-with-lease origin main',
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--progress', 'origin', 'abc123:refs/heads/feature'],
+        expect.any(Object),
+      )
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['branch', '--set-upstream-to=origin/feature', 'feature'],
         expect.any(Object),
       )
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
     })
 
     it('should handle push errors', async () => {
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockImplementation(() => {
-        throw new Error('Push failed')
+      const runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+      runSpy.mockRejectedValue(new Error('Push failed'))
+
+      await expect(gitPush.executePush('main')).rejects.toThrow('Push failed')
+
+      runSpy.mockRestore()
+    })
+  })
+
+  describe('integrateRemote', () => {
+    let runSpy: jest.SpyInstance
+
+    const pullFails = (unmerged: string) =>
+      runSpy.mockImplementation((_command: string, args: string[]) => {
+        if (args[0] === 'pull') {
+          return Promise.reject(new Error('pull failed'))
+        }
+        return Promise.resolve(runResult(args[0] === 'diff' ? unmerged : ''))
       })
 
-      await expect(gitPush.executePush('main', false)).rejects.toThrow('Push failed')
+    beforeEach(() => {
+      runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+    })
 
-      execSyncSpy.mockRestore()
+    afterEach(() => {
+      runSpy.mockRestore()
+    })
+
+    it('should report conflicts when the pull leaves unmerged paths', async () => {
+      pullFails('a.ts\n')
+
+      await expect(gitPush.integrateRemote(createPlan(), 'rebase')).resolves.toEqual({
+        success: false,
+        conflicts: true,
+        message: 'pull failed',
+      })
+      expect(runSpy).toHaveBeenCalledWith('git', ['rebase', '--abort'], expect.any(Object))
+    })
+
+    it("should report git's error when the pull fails without unmerged paths", async () => {
+      pullFails('')
+
+      await expect(gitPush.integrateRemote(createPlan(), 'merge')).resolves.toEqual({
+        success: false,
+        conflicts: false,
+        message: 'pull failed',
+      })
     })
   })
 
   describe('autoPushFlow', () => {
+    let consoleSpy: jest.SpyInstance
+    let warnSpy: jest.SpyInstance
+    let chooseRemoteSpy: jest.SpyInstance
+
+    beforeEach(() => {
+      consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+      warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      chooseRemoteSpy = jest.spyOn(gitPush, 'chooseRemote').mockResolvedValue('origin')
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should push a new branch to the chosen remote with --set-upstream', async () => {
+      chooseRemoteSpy.mockResolvedValue('upstream')
+      const mockPlanPush = jest.spyOn(gitPush, 'planPush').mockResolvedValue(
+        createPlan({
+          remote: 'upstream',
+          state: 'no-upstream',
+          needsUpstream: true,
+          remoteHash: null,
+          incoming: [],
+        }),
+      )
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn())
+
+      expect(mockPlanPush).toHaveBeenCalledWith('feature', 'upstream', undefined, undefined)
+      expect(mockExecutePush).toHaveBeenCalledWith('feature', {
+        remote: 'upstream',
+        setUpstream: true,
+      })
+      expect(result).toMatchObject({ pushed: true, action: 'set-upstream' })
+    })
+
+    it('should push only the given revision of a reviewed series', async () => {
+      const mockPlanPush = jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan())
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn(), 'abc123')
+
+      expect(mockPlanPush).toHaveBeenCalledWith('feature', 'origin', 'abc123', undefined)
+      expect(mockExecutePush).toHaveBeenCalledWith('feature', {
+        remote: 'origin',
+        setUpstream: false,
+        revision: 'abc123',
+      })
+      expect(result.pushed).toBe(true)
+    })
+
+    it('should not integrate the remote when pushing part of a reviewed series', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan({ state: 'behind', ahead: 0 }))
+      const ask = jest.fn()
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush')
+
+      const result = await gitPush.autoPushFlow('feature', true, ask, 'abc123')
+
+      expect(ask).not.toHaveBeenCalled()
+      expect(mockExecutePush).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ success: false, pushed: false, action: 'abort' })
+    })
+
+    it('should stop when no remote is chosen', async () => {
+      chooseRemoteSpy.mockResolvedValue(null)
+      const mockPlanPush = jest.spyOn(gitPush, 'planPush')
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn())
+
+      expect(mockPlanPush).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ pushed: false, action: 'abort' })
+    })
+
     it('should execute complete auto-push workflow', async () => {
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation()
-
-      // Mock all dependencies
-      const mockValidateRemoteBranch = jest
-        .spyOn(gitPush, 'validateRemoteBranch')
-        .mockResolvedValue(true)
-      const mockCheckForForcePush = jest
-        .spyOn(gitPush, 'checkForForcePush')
-        .mockResolvedValue(false)
-      const mockPromptForPushConfirmation = jest
-        .spyOn(gitPush, 'promptForPushConfirmation')
-        .mockResolvedValue(true)
+      const mockPlanPush = jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan())
+      const mockAskQuestion = jest.spyOn(gitPush, 'askQuestion').mockResolvedValue('y')
       const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
 
       const result = await gitPush.autoPushFlow('main')
 
       expect(result.success).toBe(true)
       expect(result.pushed).toBe(true)
-      expect(mockValidateRemoteBranch).toHaveBeenCalledWith('main')
-      expect(mockCheckForForcePush).toHaveBeenCalled()
-      expect(mockPromptForPushConfirmation).toHaveBeenCalledWith('main', false)
-      expect(mockExecutePush).toHaveBeenCalledWith('main', false)
-
-      // Restore mocks
-      consoleSpy.mockRestore()
-      mockValidateRemoteBranch.mockRestore()
-      mockCheckForForcePush.mockRestore()
-      mockPromptForPushConfirmation.mockRestore()
-      mockExecutePush.mockRestore()
+      expect(mockPlanPush).toHaveBeenCalledWith('main', 'origin', undefined, undefined)
+      expect(mockAskQuestion).toHaveBeenCalledWith(
+        expect.stringContaining('Push to origin/feature'),
+      )
+      expect(mockExecutePush).toHaveBeenCalledWith('main', {
+        remote: 'origin',
+        setUpstream: false,
+      })
     })
 
     it('should handle user declining push', async () => {
-      const mockValidateRemoteBranch = jest
-        .spyOn(gitPush, 'validateRemoteBranch')
-        .mockResolvedValue(true)
-      const mockCheckForForcePush = jest
-        .spyOn(gitPush, 'checkForForcePush')
-        .mockResolvedValue(false)
-      const mockPromptForPushConfirmation = jest
-        .spyOn(gitPush, 'promptForPushConfirmation')
-        .mockResolvedValue(false)
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan())
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush')
 
-      const result = await gitPush.autoPushFlow('main')
+      const result = await gitPush.autoPushFlow('main', false, jest.fn().mockResolvedValue('n'))
 
       expect(result.success).toBe(true)
       expect(result.pushed).toBe(false)
       expect(result.message).toContain('declined')
+      expect(mockExecutePush).not.toHaveBeenCalled()
+    })
+
+    it('should push without asking again after the review approval', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan())
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+      const ask = jest.fn()
 
-      mockValidateRemoteBranch.mockRestore()
-      mockCheckForForcePush.mockRestore()
-      mockPromptForPushConfirmation.mockRestore()
+      const result = await gitPush.autoPushFlow('main', true, ask)
+
+      expect(ask).not.toHaveBeenCalled()
+      expect(result.pushed).toBe(true)
+      expect(mockExecutePush).toHaveBeenCalled()
+    })
+
+    it('should never force push when the branch is behind', async () => {
+      jest
+        .spyOn(gitPush, 'planPush')
+        .mockResolvedValue(createPlan({ state: 'behind', ahead: 0, behind: 1 }))
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush')
+      const ask = jest.fn().mockResolvedValue('a')
+
+      const result = await gitPush.autoPushFlow('main', true, ask)
+
+      expect(ask).toHaveBeenCalledWith(expect.stringContaining('(r) fetch + rebase'))
+      expect(ask).not.toHaveBeenCalledWith(expect.stringContaining('force'))
+      expect(result.pushed).toBe(false)
+      expect(mockExecutePush).not.toHaveBeenCalled()
+    })
+
+    it('should rebase onto the remote before pushing a diverged branch', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan({ state: 'diverged' }))
+      const mockIntegrate = jest
+        .spyOn(gitPush, 'integrateRemote')
+        .mockResolvedValue({ success: true })
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn().mockResolvedValue('r'))
+
+      expect(mockIntegrate).toHaveBeenCalledWith(expect.anything(), 'rebase', undefined)
+      expect(mockExecutePush).toHaveBeenCalledWith('feature', {
+        remote: 'origin',
+        setUpstream: false,
+      })
+      expect(result).toMatchObject({ pushed: true, action: 'rebase' })
+    })
+
+    it('should pass the progress listener to the fetch, the pull and the push', async () => {
+      const onProgress = jest.fn()
+      const mockPlanPush = jest
+        .spyOn(gitPush, 'planPush')
+        .mockResolvedValue(createPlan({ state: 'diverged' }))
+      const mockIntegrate = jest
+        .spyOn(gitPush, 'integrateRemote')
+        .mockResolvedValue({ success: true })
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+      const ask = jest.fn().mockResolvedValue('m')
+
+      await gitPush.autoPushFlow('feature', true, ask, undefined, onProgress)
+
+      expect(mockPlanPush).toHaveBeenCalledWith('feature', 'origin', undefined, onProgress)
+      expect(mockIntegrate).toHaveBeenCalledWith(expect.anything(), 'merge', onProgress)
+      expect(mockExecutePush).toHaveBeenCalledWith(
+        'feature',
+        expect.objectContaining({ onProgress }),
+      )
+    })
+
+    it('should report conflicts without pushing', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan({ state: 'diverged' }))
+      jest.spyOn(gitPush, 'integrateRemote').mockResolvedValue({
+        success: false,
+        conflicts: true,
+        message: 'CONFLICT (content): Merge conflict in a.ts',
+      })
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush')
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn().mockResolvedValue('m'))
+
+      expect(result.success).toBe(false)
+      expect(result.message).toContain('conflicts')
+      expect(mockExecutePush).not.toHaveBeenCalled()
+    })
+
+    it("should report git's error when the pull fails without conflicts", async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan({ state: 'diverged' }))
+      jest.spyOn(gitPush, 'integrateRemote').mockResolvedValue({
+        success: false,
+        conflicts: false,
+        message: 'fatal: could not read from remote repository',
+      })
+
+      const result = await gitPush.autoPushFlow('feature', true, jest.fn().mockResolvedValue('r'))
+
+      expect(result).toMatchObject({
+        success: false,
+        pushed: false,
+        message:
+          'Rebase of origin/feature failed - nothing was pushed: fatal: could not read from remote repository',
+      })
+    })
+
+    it('should report a failed push once', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan())
+      jest.spyOn(ProcessRunner.prototype, 'run').mockRejectedValue(new Error('rejected'))
+
+      const result = await gitPush.autoPushFlow('feature', true)
+
+      expect(result).toMatchObject({ success: false, message: 'Push failed: rejected' })
+    })
+
+    it('should require the second confirmation before force pushing', async () => {
+      jest.spyOn(gitPush, 'planPush').mockResolvedValue(createPlan({ state: 'diverged' }))
+      const mockExecutePush = jest.spyOn(gitPush, 'executePush').mockResolvedValue(undefined)
+      const ask = jest.fn().mockResolvedValueOnce('f').mockResolvedValueOnce('force')
+
+      const result = await gitPush.autoPushFlow('feature', true, ask)
+
+      expect(ask).toHaveBeenCalledTimes(2)
+      expect(mockExecutePush).toHaveBeenCalledWith('feature', {
+        remote: 'origin',
+        forceWithLease: 'remote1',
+      })
+      expect(result).toMatchObject({ pushed: true, action: 'force' })
+      expect(warnSpy).toHaveBeenCalled()
+      expect(consoleSpy).toHaveBeenCalled()
     })
   })
 })
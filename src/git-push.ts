@@ -1,140 +1,423 @@
-import { execSync } from 'child_process'
 import * as readline from 'readline'
+import {
+  PushAction,
+  PushPlan,
+  PushPlanner,
+  PushPlannerOptions,
+  describePushPlan,
+} from './push-planner.js'
+import { NETWORK_TIMEOUT_MS } from './process-runner.js'
+import { GitProgressListener, GitService } from './git-service.js'
 
 export interface PushResult {
   success: boolean
   pushed: boolean
   message: string
   branch?: string
+  /** What was done about the remote state */
+  action?: PushAction
 }
 
-export class GitPushManager {
-  validateRemoteBranch(branchName: string): Promise<boolean> {
-    return Promise.resolve().then(() => {
-      try {
-        const output = execSync(`git ls-remote --heads origin ${branchName}`, {
-          encoding: 'utf8',
-        })
-        return output.trim().length > 0
-      } catch (error) {
-        throw new Error('Failed to validate remote branch')
-      }
-    })
+export interface PushOptions {
+  remote?: string
+  setUpstream?: boolean
+  /** Force push, but only if the remote branch is still at this commit */
+  forceWithLease?: string
+  /** Push this commit to the branch instead of the branch head (the local branch is left alone) */
+  revision?: string
+  /** Receives the push progress */
+  onProgress?: GitProgressListener
+}
+
+/**
+ * What came of pulling the remote commits into the local branch. A failed pull either stopped
+ * on conflicts (the rebase/merge is aborted again) or failed with git's error in `message`.
+ */
+export type IntegrateResult =
+  | { success: true }
+  | { success: false; conflicts: boolean; message: string }
+
+/** A `git push` that failed; the message says so already */
+export class PushError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PushError'
   }
+}
 
-  checkForForcePush(): Promise<boolean> {
-    return Promise.resolve().then(() => {
-      try {
-        const output = execSync('git status -sb', {
-          encoding: 'utf8',
-        })
+/** Asks a question in the terminal; resolves null when the prompt is cancelled */
+export type AskFunction = (question: string) => Promise<string | null>
 
-        // Check if local branch is behind remote (would require force push)
-        return output.includes('[behind') || output.includes('[diverged')
-      } catch (error) {
-        throw new Error('Failed to check push status')
-      }
-    })
+const ACTION_LABELS: Record<PushAction, string> = {
+  push: 'Push to',
+  'set-upstream': 'Push and set upstream to',
+  rebase: 'fetch + rebase',
+  merge: 'fetch + merge',
+  force: 'force push',
+  abort: 'abort',
+}
+
+const ACTION_KEYS: Record<PushAction, string> = {
+  push: 'p',
+  'set-upstream': 'u',
+  rebase: 'r',
+  merge: 'm',
+  force: 'f',
+  abort: 'a',
+}
+
+export class GitPushManager {
+  private planner: PushPlanner
+  private service: GitService
+
+  constructor(options: PushPlannerOptions = {}) {
+    this.planner = new PushPlanner(options)
+    this.service = new GitService(options.cwd)
   }
 
-  promptForPushConfirmation(branchName: string, forcePush: boolean): Promise<boolean> {
-    return new Promise((resolve) => {
-      if (forcePush) {
-        console.warn('\n⚠️  WARNING: Force push detected! This will overwrite remote history.')
-        console.warn('💀 This action cannot be undone!')
-      }
+  async validateRemoteBranch(branchName: string, remote = 'origin'): Promise<boolean> {
+    try {
+      const { stdout } = await this.service.run(['ls-remote', '--heads', remote, branchName], {
+        timeout: NETWORK_TIMEOUT_MS,
+      })
+      return stdout.trim().length > 0
+    } catch (error) {
+      throw new Error('Failed to validate remote branch')
+    }
+  }
 
+  /**
+   * Ask on a temporary readline (used when the caller doesn't provide its own prompt)
+   */
+  askQuestion(question: string): Promise<string | null> {
+    return new Promise((resolve) => {
       const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout,
       })
 
-      const pushType = forcePush ? 'FORCE PUSH' : 'push'
-      const prompt = `\n❓ ${pushType} to origin/${branchName}? (y/n): `
-
-      rl.question(prompt, (answer) => {
+      rl.question(question, (answer) => {
         rl.close()
-        const response = answer.toLowerCase().trim()
 
         // Small delay to ensure readline cleanup
         setImmediate(() => {
-          resolve(response === 'y' || response === 'yes')
+          resolve(answer.trim())
         })
       })
     })
   }
 
-  executePush(branchName: string, forcePush: boolean): Promise<void> {
-    return Promise.resolve().then(() => {
-      const command = forcePush
-        ? `git push --force-with-lease origin ${branchName}`
-        : `git push origin ${branchName}`
+  /**
+   * Compare the branch with its remote (fetches the remote branch)
+   */
+  planPush(
+    branchName: string,
+    remote = 'origin',
+    revision?: string,
+    onProgress?: GitProgressListener,
+  ): Promise<PushPlan> {
+    return this.planner.plan(branchName, remote, revision, onProgress)
+  }
 
-      try {
-        execSync(command, {
-          encoding: 'utf8',
-          stdio: 'inherit',
-        })
-        console.log(`✅ Successfully pushed to origin/${branchName}`)
+  /**
+   * Pick the remote to push to: the one configured for the branch, the only remote,
+   * or the user's choice when there are several
+   * @returns null when the user aborts
+   */
+  async chooseRemote(branchName: string, ask: AskFunction): Promise<string | null> {
+    const configured = await this.planner.configuredRemote(branchName)
+    if (configured) {
+      return configured
+    }
 
-        // Ensure stdout/stdin are properly flushed and reset
-        if (process.stdout.isTTY) {
-          process.stdout.write('')
-        }
-      } catch (error) {
-        throw new Error(`Push failed: ${error}`)
+    const remotes = await this.planner.listRemotes()
+    if (remotes.length === 0) {
+      throw new Error('No git remote configured - add one with "git remote add"')
+    }
+    if (remotes.length === 1) {
+      return remotes[0]
+    }
+
+    // Offer origin first so Enter keeps the usual default
+    const ordered = remotes.includes('origin')
+      ? ['origin', ...remotes.filter((remote) => remote !== 'origin')]
+      : remotes
+    console.log(`\n🌐 ${branchName} has no push remote configured. Available remotes:`)
+    ordered.forEach((remote, index) => console.log(`  ${index + 1}. ${remote}`))
+
+    for (;;) {
+      const answer = await ask(
+        `❓ Push to which remote? (1-${ordered.length}, Enter for ${ordered[0]}, a to abort): `,
+      )
+      if (answer === null || answer.toLowerCase() === 'a') {
+        return null
       }
-    })
+      if (answer === '') {
+        return ordered[0]
+      }
+
+      const remote = ordered.includes(answer) ? answer : ordered[parseInt(answer, 10) - 1]
+      if (remote) {
+        return remote
+      }
+      console.log(`❌ Invalid choice. Please enter 1-${ordered.length} or a remote name.`)
+    }
+  }
+
+  /**
+   * Let the user pick one of the plan's actions
+   * @returns The chosen action ('abort' when declined or cancelled)
+   */
+  async chooseAction(plan: PushPlan, ask: AskFunction): Promise<PushAction> {
+    const options = plan.actions.filter((action) => action !== 'abort')
+    if (options.length === 1) {
+      const answer = (
+        await ask(`\n❓ ${ACTION_LABELS[options[0]]} ${plan.remote}/${plan.branch}? (y/n): `)
+      )?.toLowerCase()
+      return answer === 'y' || answer === 'yes' ? options[0] : 'abort'
+    }
+
+    const menu = plan.actions
+      .map((action) => `(${ACTION_KEYS[action]}) ${ACTION_LABELS[action]}`)
+      .join(' / ')
+    for (;;) {
+      const answer = await ask(`\n❓ ${menu}: `)
+      if (answer === null) {
+        return 'abort'
+      }
+      const choice = plan.actions.find(
+        (action) => answer.toLowerCase() === ACTION_KEYS[action] || answer.toLowerCase() === action,
+      )
+      if (choice) {
+        return choice
+      }
+      console.log(
+        `❌ Invalid choice. Please enter ${plan.actions.map((action) => ACTION_KEYS[action]).join(', ')}.`,
+      )
+    }
   }
 
-  async autoPushFlow(branchName: string, skipConfirmation = false): Promise<PushResult> {
+  /**
+   * Second confirmation before a force push, naming every remote commit that would be lost
+   */
+  async confirmForcePush(plan: PushPlan, ask: AskFunction): Promise<boolean> {
+    const target = `${plan.remote}/${plan.branch}`
+    console.warn(
+      `\n⚠️  WARNING: Force push will overwrite ${plan.incoming.length} commit(s) on ${target}:`,
+    )
+    plan.incoming.forEach((commit) =>
+      console.warn(`   💀 ${commit.hash.substring(0, 8)} ${commit.subject}`),
+    )
+    console.warn('💀 This action cannot be undone!')
+
+    const answer = await ask(`❓ Type "force" to overwrite ${target}: `)
+    return answer === 'force'
+  }
+
+  async executePush(branchName: string, options: PushOptions = {}): Promise<void> {
+    const remote = options.remote || 'origin'
+    const refspec = options.revision ? `${options.revision}:refs/heads/${branchName}` : branchName
+    const args: string[] = []
+    if (options.forceWithLease) {
+      args.push(`--force-with-lease=${branchName}:${options.forceWithLease}`)
+    } else if (options.setUpstream && !options.revision) {
+      args.push('--set-upstream')
+    }
+    args.push(remote, refspec)
+
     try {
-      console.log('\n🔍 Validating push prerequisites...')
+      // Credential prompts go to the terminal and may take a while, so there is no time limit
+      await this.service.runWithProgress('push', args, options.onProgress, { timeout: 0 })
+      if (options.setUpstream && options.revision) {
+        // --set-upstream only applies to pushed branches, not commits
+        await this.service.run(['branch', `--set-upstream-to=${remote}/${branchName}`, branchName])
+      }
+      console.log(`✅ Successfully pushed to ${remote}/${branchName}`)
+
+      // Ensure stdout/stdin are properly flushed and reset
+      if (process.stdout.isTTY) {
+        process.stdout.write('')
+      }
+    } catch (error) {
+      throw new PushError(`Push failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Bring the remote commits into the local branch
+   * @param onProgress - Receives the progress of the fetch
+   */
+  async integrateRemote(
+    plan: PushPlan,
+    strategy: 'rebase' | 'merge',
+    onProgress?: GitProgressListener,
+  ): Promise<IntegrateResult> {
+    const args =
+      strategy === 'rebase'
+        ? ['--rebase', plan.remote, plan.branch]
+        : ['--no-rebase', '--no-edit', plan.remote, plan.branch]
 
-      // 1. Validate remote branch exists
-      const remoteExists = await this.validateRemoteBranch(branchName)
-      if (!remoteExists) {
+    try {
+      await this.service.runWithProgress('pull', args, onProgress, { timeout: 0 })
+      return { success: true }
+    } catch (error) {
+      // Only a pull that stopped on conflicts leaves unmerged paths behind
+      const unmerged = await this.service.tryGit(['diff', '--name-only', '--diff-filter=U'])
+      // Fails when nothing is in progress (e.g. the fetch failed)
+      await this.service.tryGit([strategy, '--abort'])
+      return {
+        success: false,
+        conflicts: !!unmerged,
+        message: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  /**
+   * Plan the push, let the user pick how to handle the remote state and carry it out
+   * @param branchName - Branch to push
+   * @param skipConfirmation - Push right away when a plain push is all that's needed
+   *   (the user already approved it in the review flow)
+   * @param ask - Terminal prompt to use (defaults to a temporary readline)
+   * @param revision - Push only up to this commit (e.g. the approved part of a reviewed series)
+   * @param onProgress - Receives fetch, pull and push progress (it is shown in the terminal either way)
+   */
+  async autoPushFlow(
+    branchName: string,
+    skipConfirmation = false,
+    ask: AskFunction = (question) => this.askQuestion(question),
+    revision?: string,
+    onProgress?: GitProgressListener,
+  ): Promise<PushResult> {
+    try {
+      const remote = await this.chooseRemote(branchName, ask)
+      if (!remote) {
+        return {
+          success: true,
+          pushed: false,
+          message: 'Push declined by user',
+          branch: branchName,
+          action: 'abort',
+        }
+      }
+
+      console.log(`\n🔍 Checking ${remote}/${branchName}...`)
+      const plan = await this.planPush(branchName, remote, revision, onProgress)
+      describePushPlan(plan).forEach((line) => console.log(line))
+
+      if (revision && (plan.state === 'behind' || plan.state === 'diverged')) {
+        // Integrating the remote would change the commits that were just reviewed
         return {
           success: false,
           pushed: false,
-          message: `Remote branch origin/${branchName} does not exist`,
+          message: `${plan.remote}/${branchName} has commits you don't have - update ${branchName} and review again`,
           branch: branchName,
+          action: 'abort',
         }
       }
 
-      // 2. Check if force push is required
-      const requiresForcePush = await this.checkForForcePush()
+      if (plan.state === 'up-to-date') {
+        return {
+          success: true,
+          pushed: false,
+          message: `Already up to date with ${plan.remote}/${branchName}`,
+          branch: branchName,
+        }
+      }
 
-      // 3. Get user confirmation (skip if already confirmed in review flow)
-      if (!skipConfirmation) {
-        const userConfirmed = await this.promptForPushConfirmation(branchName, requiresForcePush)
+      const simplePush = plan.state === 'ahead' || plan.state === 'no-upstream'
+      const action =
+        simplePush && skipConfirmation ? plan.actions[0] : await this.chooseAction(plan, ask)
 
-        if (!userConfirmed) {
+      switch (action) {
+        case 'abort':
           return {
             success: true,
             pushed: false,
             message: 'Push declined by user',
             branch: branchName,
+            action,
           }
-        }
-      }
 
-      // 4. Execute push
-      await this.executePush(branchName, requiresForcePush)
+        case 'push':
+        case 'set-upstream':
+          await this.executePush(branchName, {
+            remote: plan.remote,
+            setUpstream: action === 'set-upstream',
+            revision,
+            onProgress,
+          })
+          return this.pushedResult(plan, action)
 
-      return {
-        success: true,
-        pushed: true,
-        message: `Successfully pushed to origin/${branchName}`,
-        branch: branchName,
+        case 'rebase':
+        case 'merge': {
+          const integration = await this.integrateRemote(plan, action, onProgress)
+          if (!integration.success) {
+            const integrating = `${action === 'rebase' ? 'Rebase' : 'Merge'} of ${plan.remote}/${branchName}`
+            return {
+              success: false,
+              pushed: false,
+              message: integration.conflicts
+                ? `${integrating} stopped on conflicts and was aborted - nothing was pushed`
+                : `${integrating} failed - nothing was pushed: ${integration.message}`,
+              branch: branchName,
+              action,
+            }
+          }
+          if (plan.ahead === 0) {
+            return {
+              success: true,
+              pushed: false,
+              message: `Updated ${branchName} from ${plan.remote}/${branchName} - nothing to push`,
+              branch: branchName,
+              action,
+            }
+          }
+          await this.executePush(branchName, {
+            remote: plan.remote,
+            setUpstream: plan.needsUpstream,
+            onProgress,
+          })
+          return this.pushedResult(plan, action)
+        }
+
+        case 'force':
+          if (!(await this.confirmForcePush(plan, ask))) {
+            return {
+              success: true,
+              pushed: false,
+              message: 'Force push not confirmed - nothing was pushed',
+              branch: branchName,
+              action: 'abort',
+            }
+          }
+          await this.executePush(branchName, {
+            remote: plan.remote,
+            forceWithLease: plan.remoteHash || undefined,
+            onProgress,
+          })
+          return this.pushedResult(plan, action)
       }
     } catch (error) {
       return {
         success: false,
         pushed: false,
-        message: `Push failed: ${error instanceof Error ? error.message : error}`,
+        message:
+          error instanceof PushError
+            ? error.message
+            : `Push failed: ${error instanceof Error ? error.message : String(error)}`,
         branch: branchName,
       }
     }
   }
+
+  private pushedResult(plan: PushPlan, action: PushAction): PushResult {
+    return {
+      success: true,
+      pushed: true,
+      message: `Successfully pushed to ${plan.remote}/${plan.branch}`,
+      branch: plan.branch,
+      action,
+    }
+  }
 }
@@ -0,0 +1,148 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { GitRejectManager, describeRejectStrategies, parseRejectStrategy } from './git-reject.js'
+
+describe('parseRejectStrategy', () => {
+  it('should accept keys and full names', () => {
+    expect(parseRejectStrategy('b')).toBe('backup-branch')
+    expect(parseRejectStrategy(' Soft-Reset ')).toBe('soft-reset')
+    expect(parseRejectStrategy('x')).toBeNull()
+    expect(describeRejectStrategies()).toContain('(r) revert')
+  })
+})
+
+describe('GitRejectManager', () => {
+  let repo: string
+  let manager: GitRejectManager
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const commit = (file: string, subject: string) => {
+    fs.writeFileSync(path.join(repo, file), `${subject}\n`)
+    git(`add ${file}`)
+    git(`commit -q -m "${subject}"`)
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-reject-'))
+    git('init -q -b main')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    commit('a.txt', 'Initial')
+    commit('b.txt', 'First change')
+    commit('c.txt', 'Second change')
+    manager = new GitRejectManager(repo)
+  })
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should leave the commits alone when keeping them', async () => {
+    const head = git('rev-parse HEAD')
+
+    const result = await manager.reject('keep', ['HEAD~2..HEAD'])
+
+    expect(result.success).toBe(true)
+    expect(result.record).toBeUndefined()
+    expect(git('rev-parse HEAD')).toBe(head)
+    expect(await manager.readLog()).toEqual([])
+  })
+
+  it('should move the commits to a backup branch and restore them on undo', async () => {
+    const head = git('rev-parse HEAD')
+
+    const result = await manager.reject('backup-branch', ['HEAD~2..HEAD'])
+
+    expect(result.success).toBe(true)
+    const backupBranch = result.record?.backupBranch as string
+    expect(backupBranch).toMatch(/^claude-term\/rejected-main-\d{4}-\d{2}-\d{2}$/)
+    expect(git(`rev-parse ${backupBranch}`)).toBe(head)
+    expect(git('log --format=%s')).toBe('Initial')
+    expect(git('status --porcelain')).toBe('')
+
+    const undo = await manager.undoLastReject()
+
+    expect(undo.success).toBe(true)
+    expect(git('rev-parse HEAD')).toBe(head)
+    expect(git(`branch --list ${backupBranch}`)).toBe('')
+    expect(await manager.readLog()).toEqual([])
+  })
+
+  it('should keep the changes staged after a soft reset', async () => {
+    const result = await manager.reject('soft-reset', ['HEAD~1..HEAD'])
+
+    expect(result.record?.commits.map((c) => c.subject)).toEqual(['Second change'])
+    expect(git('log -1 --format=%s')).toBe('First change')
+    expect(git('diff --cached --name-only')).toBe('c.txt')
+
+    await manager.undoLastReject()
+
+    expect(git('log -1 --format=%s')).toBe('Second change')
+    expect(git('status --porcelain')).toBe('')
+  })
+
+  it('should revert the commits newest first', async () => {
+    const result = await manager.reject('revert', ['HEAD~2..HEAD'])
+
+    expect(result.success).toBe(true)
+    expect(git('log --format=%s -n 2')).toBe('Revert "First change"\nRevert "Second change"')
+    expect(fs.existsSync(path.join(repo, 'b.txt'))).toBe(false)
+  })
+
+  it('should rewind to the pushed commit when the unpushed commits include a merge', async () => {
+    git('tag pushed')
+    git('checkout -q -b side')
+    commit('d.txt', 'Side work')
+    git('checkout -q main')
+    commit('e.txt', 'Main work')
+    git('merge -q --no-ff side -m "Merge side"')
+    const head = git('rev-parse HEAD')
+
+    const result = await manager.reject('backup-branch', ['pushed..HEAD'])
+
+    expect(result.record?.commits).toHaveLength(3)
+    expect(git('rev-parse HEAD')).toBe(git('rev-parse pushed'))
+    expect(git(`rev-parse ${result.record?.backupBranch as string}`)).toBe(head)
+  })
+
+  it('should refuse to revert merge commits', async () => {
+    git('tag pushed')
+    git('checkout -q -b side')
+    commit('d.txt', 'Side work')
+    git('checkout -q main')
+    git('merge -q --no-ff side -m "Merge side"')
+    const head = git('rev-parse HEAD')
+
+    const result = await manager.reject('revert', ['pushed..HEAD'])
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('Cannot revert merge commits')
+    expect(git('rev-parse HEAD')).toBe(head)
+  })
+
+  it('should refuse to rewind past the first commit', async () => {
+    const result = await manager.reject('soft-reset', ['HEAD', '--not', '--remotes'])
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('first commit')
+  })
+
+  it('should refuse to undo once HEAD moved on', async () => {
+    await manager.reject('backup-branch', ['HEAD~1..HEAD'])
+    commit('d.txt', 'Later work')
+
+    const undo = await manager.undoLastReject()
+
+    expect(undo.success).toBe(false)
+    expect(undo.message).toContain('HEAD moved')
+    expect(await manager.readLog()).toHaveLength(1)
+  })
+})
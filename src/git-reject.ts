@@ -0,0 +1,276 @@
+// git-reject.ts - What to do with unpushed commits when a review is rejected, and how to undo it
+
+import fs from 'fs'
+import path from 'path'
+import { ProcessRunner } from './process-runner.js'
+
+/**
+ * - `keep`: leave the commits in place (nothing is pushed)
+ * - `backup-branch`: move the commits to a new branch and rewind the current one
+ * - `soft-reset`: uncommit, keeping the changes staged
+ * - `revert`: add commits that revert them
+ */
+export type RejectStrategy = 'keep' | 'backup-branch' | 'soft-reset' | 'revert'
+
+export const REJECT_STRATEGIES: RejectStrategy[] = ['keep', 'backup-branch', 'soft-reset', 'revert']
+
+export interface RejectedCommit {
+  hash: string
+  subject: string
+}
+
+export interface RejectRecord {
+  id: string
+  strategy: RejectStrategy
+  branch: string
+  /** HEAD before the rejection, restored by an undo */
+  headBefore: string
+  /** HEAD right after the rejection; undo refuses to run once HEAD moved on */
+  headAfter: string
+  commits: RejectedCommit[]
+  backupBranch?: string
+  createdAt: string
+}
+
+export interface RejectResult {
+  success: boolean
+  message: string
+  record?: RejectRecord
+}
+
+const STRATEGY_KEYS: Record<RejectStrategy, string> = {
+  keep: 'k',
+  'backup-branch': 'b',
+  'soft-reset': 's',
+  revert: 'r',
+}
+
+const STRATEGY_LABELS: Record<RejectStrategy, string> = {
+  keep: 'keep commits',
+  'backup-branch': 'move to backup branch',
+  'soft-reset': 'soft reset',
+  revert: 'revert',
+}
+
+/**
+ * Parse a strategy answer (key or full name)
+ * @returns null if it names no strategy
+ */
+export function parseRejectStrategy(answer: string): RejectStrategy | null {
+  const normalized = answer.trim().toLowerCase()
+  return (
+    REJECT_STRATEGIES.find(
+      (strategy) => normalized === strategy || normalized === STRATEGY_KEYS[strategy],
+    ) || null
+  )
+}
+
+/**
+ * Menu text for the strategy prompt, e.g. "(k) keep commits / (b) move to backup branch"
+ */
+export function describeRejectStrategies(): string {
+  return REJECT_STRATEGIES.map(
+    (strategy) => `(${STRATEGY_KEYS[strategy]}) ${STRATEGY_LABELS[strategy]}`,
+  ).join(' / ')
+}
+
+export class GitRejectManager {
+  private runner: ProcessRunner
+
+  constructor(workspaceFolder?: string) {
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+  }
+
+  /**
+   * Handle the unpushed commits of the current branch with a strategy
+   * @param strategy - What to do with the commits
+   * @param range - Revision range of the unpushed commits, e.g. `['origin/main..HEAD']`
+   */
+  async reject(strategy: RejectStrategy, range: string[]): Promise<RejectResult> {
+    if (strategy === 'keep') {
+      return { success: true, message: 'Commits kept - nothing was pushed' }
+    }
+
+    const commits = await this.listCommits(range)
+    if (commits.length === 0) {
+      return { success: false, message: 'No unpushed commits to reject' }
+    }
+
+    const branch = await this.runner.git(['branch', '--show-current'])
+    const headBefore = await this.runner.git(['rev-parse', 'HEAD'])
+    // HEAD~<count> would walk past pushed commits when a merge brought in more than one parent
+    // line, so rewind to the parent of the oldest unpushed commit HEAD's first parents lead to
+    const firstParents = (await this.runner.git(['rev-list', '--first-parent', ...range])).split(
+      '\n',
+    )
+    const base = await this.runner.tryGit([
+      'rev-parse',
+      '--verify',
+      '--quiet',
+      `${firstParents[firstParents.length - 1]}^`,
+    ])
+    if (!base && strategy !== 'revert') {
+      return {
+        success: false,
+        message: `Cannot rewind past the first commit of ${branch} - use revert or keep instead`,
+      }
+    }
+    const merges = commits.filter((commit) => commit.merge)
+    if (merges.length > 0 && strategy === 'revert') {
+      return {
+        success: false,
+        message: `Cannot revert merge commits (${merges.map((commit) => commit.hash.substring(0, 8)).join(', ')}) - use a backup branch or soft reset instead`,
+      }
+    }
+
+    let backupBranch: string | undefined
+    try {
+      switch (strategy) {
+        case 'backup-branch':
+          backupBranch = await this.uniqueBranchName(`claude-term/rejected-${branch || 'detached'}`)
+          await this.runner.git(['branch', backupBranch, 'HEAD'])
+          // --keep refuses to touch uncommitted changes in the files it would rewind
+          await this.runner.git(['reset', '--keep', base as string])
+          break
+        case 'soft-reset':
+          await this.runner.git(['reset', '--soft', base as string])
+          break
+        case 'revert':
+          // Newest first, so each revert applies cleanly on top of the previous one
+          await this.runner.git(['revert', '--no-edit', ...commits.map((commit) => commit.hash)])
+          break
+      }
+    } catch (error) {
+      if (strategy === 'revert') {
+        await this.runner.tryGit(['revert', '--abort'])
+      }
+      if (backupBranch && (await this.runner.git(['rev-parse', 'HEAD'])) === headBefore) {
+        await this.runner.tryGit(['branch', '-D', backupBranch])
+      }
+      return {
+        success: false,
+        message: `Failed to ${STRATEGY_LABELS[strategy]}: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+
+    const record: RejectRecord = {
+      id: `${Date.now()}`,
+      strategy,
+      branch,
+      headBefore,
+      headAfter: await this.runner.git(['rev-parse', 'HEAD']),
+      commits: commits.map(({ hash, subject }) => ({ hash, subject })),
+      backupBranch,
+      createdAt: new Date().toISOString(),
+    }
+    await this.writeLog([...(await this.readLog()), record])
+
+    return { success: true, message: describeRejection(record), record }
+  }
+
+  /**
+   * Reverse the most recent rejection recorded in the undo log
+   */
+  async undoLastReject(): Promise<RejectResult> {
+    const log = await this.readLog()
+    const record = log[log.length - 1]
+    if (!record) {
+      return { success: false, message: 'No rejection to undo' }
+    }
+
+    const branch = await this.runner.git(['branch', '--show-current'])
+    const head = await this.runner.git(['rev-parse', 'HEAD'])
+    if (branch !== record.branch || head !== record.headAfter) {
+      return {
+        success: false,
+        message: `HEAD moved since the rejection - restore manually with "git reset --keep ${record.headBefore.substring(0, 8)}" on ${record.branch}`,
+      }
+    }
+
+    try {
+      // soft-reset left the changes staged, so only the ref has to move back
+      const mode = record.strategy === 'soft-reset' ? '--soft' : '--keep'
+      await this.runner.git(['reset', mode, record.headBefore])
+      if (record.backupBranch) {
+        await this.runner.tryGit(['branch', '-D', record.backupBranch])
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to undo rejection: ${error instanceof Error ? error.message : String(error)}`,
+      }
+    }
+
+    await this.writeLog(log.slice(0, -1))
+    return {
+      success: true,
+      message: `Restored ${record.commits.length} commit(s) on ${record.branch}`,
+      record,
+    }
+  }
+
+  /**
+   * Rejections that can still be undone, oldest first
+   */
+  async readLog(): Promise<RejectRecord[]> {
+    try {
+      return JSON.parse(fs.readFileSync(await this.getLogPath(), 'utf8')) as RejectRecord[]
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Undo log location: `.git/claude-term/reject-log.json`
+   */
+  async getLogPath(): Promise<string> {
+    const gitDir = await this.runner.git(['rev-parse', '--absolute-git-dir'])
+    return path.join(gitDir, 'claude-term', 'reject-log.json')
+  }
+
+  private async writeLog(log: RejectRecord[]): Promise<void> {
+    const logPath = await this.getLogPath()
+    fs.mkdirSync(path.dirname(logPath), { recursive: true })
+    fs.writeFileSync(logPath, JSON.stringify(log, null, 2))
+  }
+
+  /**
+   * Commits of the range, newest first
+   */
+  private async listCommits(range: string[]): Promise<Array<RejectedCommit & { merge: boolean }>> {
+    return (await this.runner.git(['log', '--format=%H%x09%P%x09%s', ...range]))
+      .split('\n')
+      .filter((line) => line)
+      .map((line) => {
+        const [hash, parents, ...subject] = line.split('\t')
+        return { hash, subject: subject.join('\t'), merge: parents.includes(' ') }
+      })
+  }
+
+  private async uniqueBranchName(prefix: string): Promise<string> {
+    const date = new Date().toISOString().slice(0, 10)
+    let name = `${prefix}-${date}`
+    for (
+      let i = 2;
+      await this.runner.tryGit(['rev-parse', '--verify', '--quiet', `refs/heads/${name}`]);
+      i++
+    ) {
+      name = `${prefix}-${date}-${i}`
+    }
+    return name
+  }
+}
+
+function describeRejection(record: RejectRecord): string {
+  const count = `${record.commits.length} commit${record.commits.length > 1 ? 's' : ''}`
+  switch (record.strategy) {
+    case 'backup-branch':
+      return `Moved ${count} to ${record.backupBranch} - ${record.branch} no longer has them`
+    case 'soft-reset':
+      return `Uncommitted ${count} - the changes remain staged`
+    case 'revert':
+      return `Reverted ${count} with new commits`
+    case 'keep':
+      return 'Commits kept - nothing was pushed'
+  }
+}
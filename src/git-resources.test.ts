@@ -0,0 +1,49 @@
+import {
+  GitResource,
+  GitResourceRegistry,
+  blameUri,
+  commitUri,
+  diffUri,
+  isGitResourceUri,
+} from './git-resources.js'
+
+describe('git resources', () => {
+  const resource = (hash: string, text = `commit ${hash}`): GitResource => ({
+    uri: commitUri(hash),
+    name: `Commit ${hash}`,
+    description: `git show ${hash}`,
+    mimeType: 'text/x-diff',
+    text,
+  })
+
+  it('should tell git resource URIs from file URIs', () => {
+    expect(commitUri('1a2b3c')).toBe('git-commit://1a2b3c')
+    expect(isGitResourceUri('git-commit://1a2b3c')).toBe(true)
+    expect(isGitResourceUri('git-blame://src/a.ts#L3')).toBe(true)
+    expect(isGitResourceUri('file:///repo/src/a.ts')).toBe(false)
+  })
+
+  it('should name one line or a range of lines in blame URIs', () => {
+    expect(blameUri('src/a.ts', 3, 3)).toBe('git-blame://src/a.ts#L3')
+    expect(blameUri('src/a.ts', 3, 9)).toBe('git-blame://src/a.ts#L3-9')
+  })
+
+  it('should name what was diffed in diff URIs', () => {
+    expect(diffUri('staged')).toBe('git-diff://staged')
+    expect(diffUri('working', 'src/a.ts')).toBe('git-diff://working/src/a.ts')
+    expect(isGitResourceUri(diffUri('HEAD~3..HEAD'))).toBe(true)
+  })
+
+  it('should list shared resources in the order they were last shared', () => {
+    const registry = new GitResourceRegistry()
+
+    registry.add(resource('aaa'))
+    registry.add(resource('bbb'))
+    registry.add(resource('aaa', 'updated'))
+
+    expect(registry.size).toBe(2)
+    expect(registry.list().map(({ uri }) => uri)).toEqual(['git-commit://bbb', 'git-commit://aaa'])
+    expect(registry.get('git-commit://aaa')?.text).toBe('updated')
+    expect(registry.get('git-commit://ccc')).toBeUndefined()
+  })
+})
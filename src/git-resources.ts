@@ -0,0 +1,81 @@
+// git-resources.ts - Git content shared with Claude as MCP resources (git-commit://, git-blame://, git-diff://)
+
+export const GIT_COMMIT_SCHEME = 'git-commit'
+export const GIT_BLAME_SCHEME = 'git-blame'
+export const GIT_DIFF_SCHEME = 'git-diff'
+
+const GIT_SCHEMES = [GIT_COMMIT_SCHEME, GIT_BLAME_SCHEME, GIT_DIFF_SCHEME]
+
+export interface GitResource {
+  /** e.g. git-commit://1a2b3c4d... */
+  uri: string
+  name: string
+  description: string
+  mimeType: string
+  /** Snapshot taken when the resource was shared */
+  text: string
+}
+
+/**
+ * URI of a shared commit
+ * @param hash - Full commit hash
+ */
+export function commitUri(hash: string): string {
+  return `${GIT_COMMIT_SCHEME}://${hash}`
+}
+
+/**
+ * URI of the blame of some lines, e.g. git-blame://src/app.ts#L10-24
+ * @param file - Path relative to the workspace
+ * @param start - First line (1-based)
+ * @param end - Last line (1-based)
+ */
+export function blameUri(file: string, start: number, end: number): string {
+  return `${GIT_BLAME_SCHEME}://${file}#L${start === end ? start : `${start}-${end}`}`
+}
+
+/**
+ * URI of a shared diff, e.g. git-diff://staged, git-diff://working/src/app.ts or
+ * git-diff://HEAD~3..HEAD
+ * @param source - What was diffed: `working`, `staged` or a commit range
+ * @param file - The file or directory the diff is limited to
+ */
+export function diffUri(source: string, file?: string): string {
+  return `${GIT_DIFF_SCHEME}://${source}${file ? `/${file}` : ''}`
+}
+
+/**
+ * Whether a URI names a git resource rather than a file
+ */
+export function isGitResourceUri(uri: string): boolean {
+  return GIT_SCHEMES.some((scheme) => uri.startsWith(`${scheme}://`))
+}
+
+/**
+ * Git content the user shared with Claude during the session. Resources keep the text they were
+ * shared with, so reading one later returns what the user looked at.
+ */
+export class GitResourceRegistry {
+  private resources = new Map<string, GitResource>()
+
+  /**
+   * Share a resource, replacing an earlier one with the same URI
+   */
+  add(resource: GitResource): void {
+    // Re-adding moves the resource to the end of the list
+    this.resources.delete(resource.uri)
+    this.resources.set(resource.uri, resource)
+  }
+
+  get(uri: string): GitResource | undefined {
+    return this.resources.get(uri)
+  }
+
+  list(): GitResource[] {
+    return Array.from(this.resources.values())
+  }
+
+  get size(): number {
+    return this.resources.size
+  }
+}
@@ -1,4 +1,9 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import { GitReviewManager } from './git-review.js'
+import { ProcessError, ProcessRunner } from './process-runner.js'
 
 describe('GitReviewManager', () => {
   let gitReview: GitReviewManager
@@ -67,11 +72,10 @@ index 123..456 100644
 -old content
 +new content`
 
-      // Mock execSync to simulate Delta failure
-      const execSyncSpy = jest.spyOn(require('child_process'), 'execSync')
-      execSyncSpy.mockImplementation(() => {
-        throw new Error('Delta not found')
-      })
+      // Simulate Delta not being installed
+      const runSpy = jest
+        .spyOn(ProcessRunner.prototype, 'run')
+        .mockRejectedValue(new ProcessError('delta is not installed', 'not_found', 'delta', []))
 
       const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
 
@@ -80,7 +84,7 @@ index 123..456 100644
       expect(formattedDiff).toBe(mockDiffContent)
       expect(consoleSpy).toHaveBeenCalledWith('⚠️  Delta not available, using plain diff format')
 
-      execSyncSpy.mockRestore()
+      runSpy.mockRestore()
       consoleSpy.mockRestore()
     })
   })
@@ -177,6 +181,43 @@ index 123..456 100644
       expect(count).toBeDefined()
     })
   })
+
+  describe('getUnpushedCommits', () => {
+    it('should list as many commits as it counts, with hashes', async () => {
+      const commits = await gitReview.getUnpushedCommits()
+      const count = await gitReview.getUnpushedCommitCount()
+
+      expect(commits).toHaveLength(count)
+      commits.forEach((commit) => expect(commit.hash).toMatch(/^[a-f0-9]{40}$/))
+    })
+
+    it('should read the workspace repository rather than the current directory', async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-review-'))
+      const repo = path.join(root, 'repo')
+      const git = (command: string) => execSync(`git ${command}`, { cwd: repo, stdio: 'ignore' })
+      try {
+        execSync('git init -q --bare -b main remote.git && git clone -q remote.git repo', {
+          cwd: root,
+          stdio: 'ignore',
+        })
+        git('config user.email test@example.com')
+        git('config user.name Test')
+        git('commit -q --allow-empty -m Pushed')
+        git('push -q origin main')
+        git('commit -q --allow-empty -m "Not pushed"')
+
+        const workspaceReview = new GitReviewManager(repo)
+
+        expect(process.cwd()).not.toBe(repo)
+        expect(await workspaceReview.getUnpushedCommitCount()).toBe(1)
+        expect((await workspaceReview.getUnpushedCommits()).map((c) => c.subject)).toEqual([
+          'Not pushed',
+        ])
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+  })
 })
 
 describe('CLI Integration - /review command', () => {
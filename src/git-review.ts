@@ -1,4 +1,5 @@
-import { execSync } from 'child_process'
+import { ProcessRunner } from './process-runner.js'
+import { PushPlanner } from './push-planner.js'
 
 export interface CommitDiff {
   commitHash: string
@@ -18,157 +19,210 @@ export interface CommitMetadata {
 }
 
 export class GitReviewManager {
-  getCommitDiff(commitRange?: string): Promise<CommitDiff> {
-    return Promise.resolve().then(() => {
-      try {
-        const range = commitRange || 'HEAD'
-
-        // Get commit metadata
-        const metadataCmd = `git show --format="%H|%an|%ad|%s" --no-patch ${range}`
-        const metadataOutput = execSync(metadataCmd, { encoding: 'utf8' }).trim()
-        const [commitHash, author, date, message] = metadataOutput.split('|')
-
-        // Get diff content
-        const diffCmd = `git show --format="" ${range}`
-        const diffContent = execSync(diffCmd, { encoding: 'utf8' })
-
-        return {
-          commitHash: commitHash || '',
-          author: author || '',
-          date: date || '',
-          message: message || '',
-          diffContent: diffContent || '',
-        }
-      } catch (error) {
-        throw new Error('Invalid commit range')
-      }
-    })
+  private runner: ProcessRunner
+  private pushPlanner: PushPlanner
+
+  constructor(workspaceFolder?: string) {
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+    this.pushPlanner = new PushPlanner({ cwd: workspaceFolder })
   }
 
-  formatDiffWithDelta(diffContent: string): Promise<string> {
-    return Promise.resolve().then(() => {
-      if (!diffContent) {
-        return ''
+  async getCommitDiff(commitRange?: string): Promise<CommitDiff> {
+    try {
+      const range = commitRange || 'HEAD'
+
+      // Get commit metadata
+      const metadataOutput = await this.runner.git([
+        'show',
+        '--format=%H|%an|%ad|%s',
+        '--no-patch',
+        range,
+      ])
+      const [commitHash, author, date, message] = metadataOutput.split('|')
+
+      // Get diff content
+      const { stdout: diffContent } = await this.runner.run('git', ['show', '--format=', range])
+
+      return {
+        commitHash: commitHash || '',
+        author: author || '',
+        date: date || '',
+        message: message || '',
+        diffContent: diffContent || '',
       }
+    } catch (error) {
+      throw new Error('Invalid commit range')
+    }
+  }
 
-      try {
-        // Use delta to format diff with same configuration as diff preview
-        const deltaOutput = execSync(
-          'echo "$DIFF" | delta --pager=never --syntax-theme=Dracula --no-gitconfig --file-style=omit --hunk-header-style=omit --keep-plus-minus-markers',
-          {
-            encoding: 'utf8',
-            env: { ...process.env, DIFF: diffContent },
-          },
-        )
-        return deltaOutput
-      } catch (error) {
-        // Fallback to original diff if delta is not available
-        console.warn('⚠️  Delta not available, using plain diff format')
-        return diffContent
-      }
-    })
+  async formatDiffWithDelta(diffContent: string): Promise<string> {
+    if (!diffContent) {
+      return ''
+    }
+
+    try {
+      // Use delta to format diff with same configuration as diff preview
+      const { stdout } = await this.runner.run(
+        'delta',
+        [
+          '--pager=never',
+          '--syntax-theme=Dracula',
+          '--no-gitconfig',
+          '--file-style=omit',
+          '--hunk-header-style=omit',
+          '--keep-plus-minus-markers',
+        ],
+        { input: diffContent },
+      )
+      return stdout
+    } catch (error) {
+      // Fallback to original diff if delta is not available
+      console.warn('⚠️  Delta not available, using plain diff format')
+      return diffContent
+    }
   }
 
-  getCommitMetadata(commitRef = 'HEAD'): Promise<CommitMetadata> {
-    return Promise.resolve().then(() => {
-      try {
-        const cmd = `git show --format="%H|%an|%ae|%ad|%s|%b" --no-patch ${commitRef}`
-        const output = execSync(cmd, { encoding: 'utf8' }).trim()
-        const [hash, author, authorEmail, date, subject, body] = output.split('|')
-
-        return {
-          hash: hash || '',
-          author: author || '',
-          authorEmail: authorEmail || '',
-          date: date || '',
-          subject: subject || '',
-          body: body || '',
-        }
-      } catch (error) {
-        throw new Error(`Failed to get commit metadata for ${commitRef}`)
+  async getCommitMetadata(commitRef = 'HEAD'): Promise<CommitMetadata> {
+    try {
+      const output = await this.runner.git([
+        'show',
+        '--format=%H|%an|%ae|%ad|%s|%b',
+        '--no-patch',
+        commitRef,
+      ])
+      const [hash, author, authorEmail, date, subject, body] = output.split('|')
+
+      return {
+        hash: hash || '',
+        author: author || '',
+        authorEmail: authorEmail || '',
+        date: date || '',
+        subject: subject || '',
+        body: body || '',
       }
-    })
+    } catch (error) {
+      throw new Error(`Failed to get commit metadata for ${commitRef}`)
+    }
   }
 
-  getChangedFiles(commitRange?: string): Promise<string[]> {
-    return Promise.resolve().then(() => {
+  async getChangedFiles(commitRange?: string): Promise<string[]> {
+    try {
+      const range = commitRange || 'HEAD'
+      const output = await this.runner.git(['show', '--name-only', '--format=', range])
+      return output ? output.split('\n').filter((line) => line.trim()) : []
+    } catch (error) {
+      throw new Error('Failed to get changed files')
+    }
+  }
+
+  async getFileDiffs(commitRange?: string): Promise<Array<{ file: string; diff: string }>> {
+    const range = commitRange || 'HEAD'
+    // A range like origin/branch..HEAD is diffed as a whole, a single commit against its parent
+    const diffRange = range.includes('..') ? range : `${range}~1..${range}`
+
+    let changedFiles: string[]
+    try {
+      const output = range.includes('..')
+        ? await this.runner.git(['diff', '--name-only', range])
+        : await this.runner.git(['show', '--name-only', '--format=', range])
+      changedFiles = output.split('\n').filter((line) => line.trim())
+    } catch (error) {
+      throw new Error('Failed to get file diffs')
+    }
+
+    const fileDiffs: Array<{ file: string; diff: string }> = []
+    for (const file of changedFiles) {
       try {
-        const range = commitRange || 'HEAD'
-        const cmd = `git show --name-only --format="" ${range}`
-        const output = execSync(cmd, { encoding: 'utf8' }).trim()
-        return output ? output.split('\n').filter((line) => line.trim()) : []
+        const { stdout } = await this.runner.run('git', ['diff', diffRange, '--', file])
+        fileDiffs.push({ file, diff: stdout })
       } catch (error) {
-        throw new Error('Failed to get changed files')
+        fileDiffs.push({ file, diff: '' })
       }
-    })
+    }
+    return fileDiffs
   }
 
-  getFileDiffs(commitRange?: string): Promise<Array<{ file: string; diff: string }>> {
-    return Promise.resolve().then(() => {
-      try {
-        const range = commitRange || 'HEAD'
-        let changedFilesCommand: string
-        if (range.includes('..')) {
-          // Range like origin/branch..HEAD
-          changedFilesCommand = `git diff --name-only ${range}`
-        } else {
-          // Single commit like HEAD
-          changedFilesCommand = `git show --name-only --format="" ${range}`
-        }
-        const changedFiles = execSync(changedFilesCommand, { encoding: 'utf8' })
-          .trim()
-          .split('\n')
-          .filter((line) => line.trim())
-
-        const fileDiffs = changedFiles.map((file) => {
-          try {
-            // Get diff content for the range
-            let diffCommand: string
-            if (range.includes('..')) {
-              // Range like origin/branch..HEAD
-              diffCommand = `git diff ${range} -- ${file}`
-            } else {
-              // Single commit like HEAD
-              diffCommand = `git diff ${range}~1..${range} -- ${file}`
-            }
-            const fileDiff = execSync(diffCommand, { encoding: 'utf8' })
-            return { file, diff: fileDiff }
-          } catch (error) {
-            return { file, diff: '' }
-          }
-        })
+  async getUnpushedCommitCount(): Promise<number> {
+    try {
+      const range = await this.getUnpushedRange()
+      const count = await this.runner.git(['rev-list', '--count', ...range])
+      return parseInt(count) || 0
+    } catch (error) {
+      throw new Error('Failed to get unpushed commit count')
+    }
+  }
 
-        return fileDiffs
-      } catch (error) {
-        throw new Error('Failed to get file diffs')
-      }
-    })
+  /**
+   * Unpushed commits of the current branch, oldest first
+   */
+  async getUnpushedCommits(): Promise<Array<{ hash: string; subject: string }>> {
+    try {
+      const range = await this.getUnpushedRange()
+      const output = await this.runner.git(['log', '--reverse', '--format=%H%x09%s', ...range])
+      return output
+        ? output.split('\n').map((line) => {
+            const [hash, ...subject] = line.split('\t')
+            return { hash, subject: subject.join('\t') }
+          })
+        : []
+    } catch (error) {
+      throw new Error('Failed to list unpushed commits')
+    }
   }
 
-  getUnpushedCommitCount(): Promise<number> {
-    return Promise.resolve().then(() => {
-      try {
-        // Get current branch
-        const currentBranch = execSync('git branch --show-current', { encoding: 'utf8' }).trim()
-
-        // Check if remote tracking branch exists
-        try {
-          execSync(`git rev-parse --verify origin/${currentBranch}`, { encoding: 'utf8' })
-        } catch (error) {
-          // No remote tracking branch, count all commits
-          const totalCommits = execSync('git rev-list --count HEAD', { encoding: 'utf8' }).trim()
-          return parseInt(totalCommits) || 0
-        }
+  /**
+   * Revision range of the unpushed commits; without the branch on its push remote, the commits
+   * that are on no remote at all
+   */
+  async getUnpushedRange(): Promise<string[]> {
+    return (await this.upstreamRange()) || ['HEAD', '--not', '--remotes']
+  }
 
-        // Count commits ahead of origin
-        const aheadCount = execSync(`git rev-list --count origin/${currentBranch}..HEAD`, {
-          encoding: 'utf8',
-        }).trim()
-        return parseInt(aheadCount) || 0
-      } catch (error) {
-        throw new Error('Failed to get unpushed commit count')
+  /**
+   * `<remote>/<branch>..HEAD` when the current branch exists on the remote it pushes to,
+   * otherwise null
+   */
+  private async upstreamRange(): Promise<string[] | null> {
+    const currentBranch = await this.runner.git(['branch', '--show-current'])
+    const upstream = currentBranch ? await this.pushPlanner.remoteTrackingRef(currentBranch) : null
+    return upstream ? [`${upstream}..HEAD`] : null
+  }
+
+  /**
+   * Review content for a single commit: its message and the diff of each file it changes
+   * @param position - 1-based position in the series, shown in the header
+   */
+  async generateSingleCommitReviewContent(
+    commitHash: string,
+    position: number,
+    total: number,
+  ): Promise<string> {
+    const metadata = await this.getCommitMetadata(commitHash)
+    const fileDiffs = await this.getFileDiffs(commitHash)
+
+    let content = ''
+    content += `🔍 Commit ${position} of ${total}\n`
+    content += `${'═'.repeat(50)}\n\n`
+    content += `📝 ${metadata.hash.substring(0, 8)} ${metadata.subject}\n`
+    content += `👤 ${metadata.author} <${metadata.authorEmail}>\n`
+    content += `📅 ${metadata.date}\n`
+    if (metadata.body) {
+      content += `\n${metadata.body}\n`
+    }
+
+    content += `\n📊 Changes:\n\n`
+
+    for (const fileDiff of fileDiffs) {
+      content += `📁 ${fileDiff.file}\n`
+      content += `${'─'.repeat(50)}\n`
+      if (fileDiff.diff) {
+        const formattedDiff = await this.formatDiffWithDelta(fileDiff.diff)
+        content += `${formattedDiff}\n`
       }
-    })
+      content += `${'─'.repeat(50)}\n\n`
+    }
+
+    return content
   }
 
   async generateCommitReviewContent(): Promise<string> {
@@ -178,18 +232,8 @@ export class GitReviewManager {
       return '✅ No unpushed commits to review.'
     }
 
-    // Get range for all unpushed commits
-    const currentBranch = execSync('git branch --show-current', { encoding: 'utf8' }).trim()
-    let commitRange: string
-
-    try {
-      // Try to use origin tracking branch
-      execSync(`git rev-parse --verify origin/${currentBranch}`, { encoding: 'utf8' })
-      commitRange = `origin/${currentBranch}..HEAD`
-    } catch (error) {
-      // No remote tracking, show all commits
-      commitRange = 'HEAD'
-    }
+    // Get range for all unpushed commits (without remote tracking, show all commits)
+    const commitRange = (await this.upstreamRange())?.[0] || 'HEAD'
 
     const fileDiffs = await this.getFileDiffs(commitRange)
 
@@ -199,7 +243,7 @@ export class GitReviewManager {
     content += `📝 Commit Review (${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''})\n\n`
 
     // Show commit list
-    const commitList = execSync(`git log --oneline ${commitRange}`, { encoding: 'utf8' }).trim()
+    const commitList = await this.runner.git(['log', '--oneline', commitRange])
     if (commitList) {
       content += `📋 Commits to push:\n`
       commitList.split('\n').forEach((commit) => {
@@ -225,63 +269,87 @@ export class GitReviewManager {
   async displayCommitReview(): Promise<void> {
     try {
       const content = await this.generateCommitReviewContent()
+      await this.displayInPager(content, '🔍 COMMIT REVIEW')
+    } catch (error) {
+      console.error('❌ Failed to display commit review:', error)
+      throw error
+    }
+  }
 
-      // Try to use less with proper terminal handling
-      try {
-        const { spawn } = await import('child_process')
+  /**
+   * Show one commit of the series in the pager
+   */
+  async displaySingleCommitReview(
+    commitHash: string,
+    position: number,
+    total: number,
+  ): Promise<void> {
+    try {
+      const content = await this.generateSingleCommitReviewContent(commitHash, position, total)
+      await this.displayInPager(content, `🔍 COMMIT ${position}/${total}`)
+    } catch (error) {
+      console.error('❌ Failed to display commit review:', error)
+      throw error
+    }
+  }
 
-        // Create less process with stdin instead of file to avoid showing path
-        const less = spawn('less', ['-R', '-X'], {
-          stdio: ['pipe', 'inherit', 'inherit'],
-          detached: false,
-        })
+  /**
+   * Show content in less, or print it when less is not available
+   * @param title - Heading for the printed fallback
+   */
+  async displayInPager(content: string, title: string): Promise<void> {
+    // Try to use less with proper terminal handling
+    try {
+      const { spawn } = await import('child_process')
 
-        // Handle EPIPE errors when less is closed early
-        less.stdin.on('error', (error) => {
-          // Ignore EPIPE errors when user closes less with :q
-          if ((error as any).code !== 'EPIPE') {
-            console.error('❌ Error writing to less:', error)
-          }
-        })
+      // Create less process with stdin instead of file to avoid showing path
+      const less = spawn('less', ['-R', '-X'], {
+        stdio: ['pipe', 'inherit', 'inherit'],
+        detached: false,
+      })
 
-        // Write content to less stdin
-        try {
-          less.stdin.write(content)
-          less.stdin.end()
-        } catch (error) {
-          // Ignore EPIPE errors
-          if ((error as any).code !== 'EPIPE') {
-            throw error
-          }
+      // Handle EPIPE errors when less is closed early
+      less.stdin.on('error', (error) => {
+        // Ignore EPIPE errors when user closes less with :q
+        if ((error as any).code !== 'EPIPE') {
+          console.error('❌ Error writing to less:', error)
         }
+      })
 
-        // Return a promise that resolves when less exits
-        return new Promise((resolve, reject) => {
-          less.on('close', () => {
-            // Accept any exit code as success since user might exit with :q
-            resolve()
-          })
-
-          less.on('error', (error) => {
-            // Only reject for non-EPIPE errors
-            if ((error as any).code !== 'EPIPE') {
-              reject(error)
-            } else {
-              resolve()
-            }
-          })
-        })
+      // Write content to less stdin
+      try {
+        less.stdin.write(content)
+        less.stdin.end()
       } catch (error) {
-        // Fallback to console output
-        console.log('\n' + '═'.repeat(80))
-        console.log('🔍 COMMIT REVIEW')
-        console.log('═'.repeat(80))
-        console.log(content)
-        console.log('═'.repeat(80))
+        // Ignore EPIPE errors
+        if ((error as any).code !== 'EPIPE') {
+          throw error
+        }
       }
+
+      // Return a promise that resolves when less exits
+      return new Promise((resolve, reject) => {
+        less.on('close', () => {
+          // Accept any exit code as success since user might exit with :q
+          resolve()
+        })
+
+        less.on('error', (error) => {
+          // Only reject for non-EPIPE errors
+          if ((error as any).code !== 'EPIPE') {
+            reject(error)
+          } else {
+            resolve()
+          }
+        })
+      })
     } catch (error) {
-      console.error('❌ Failed to display commit review:', error)
-      throw error
+      // Fallback to console output
+      console.log('\n' + '═'.repeat(80))
+      console.log(title)
+      console.log('═'.repeat(80))
+      console.log(content)
+      console.log('═'.repeat(80))
     }
   }
 }
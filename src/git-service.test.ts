@@ -0,0 +1,177 @@
+import { GitProgress, GitService, formatGitProgress, parseGitProgress } from './git-service.js'
+import { ProcessError, ProcessRunner, RunOptions } from './process-runner.js'
+
+describe('parseGitProgress', () => {
+  it('should parse a percentage update', () => {
+    expect(parseGitProgress('push', 'Writing objects:  45% (9/20), 1.20 MiB | 1.10 MiB/s')).toEqual(
+      {
+        operation: 'push',
+        phase: 'Writing objects',
+        remote: false,
+        percent: 45,
+        current: 9,
+        total: 20,
+        done: false,
+      },
+    )
+  })
+
+  it('should parse counting phases and remote updates', () => {
+    expect(parseGitProgress('fetch', 'remote: Enumerating objects: 12, done.')).toMatchObject({
+      phase: 'Enumerating objects',
+      remote: true,
+      percent: null,
+      current: 12,
+      total: null,
+      done: true,
+    })
+    expect(
+      parseGitProgress(
+        'push',
+        'remote: Resolving deltas: 100% (1/1), completed with 1 local object.',
+      ),
+    ).toMatchObject({ phase: 'Resolving deltas', percent: 100, done: true })
+  })
+
+  it('should ignore lines that are not progress updates', () => {
+    expect(parseGitProgress('push', 'To github.com:owner/repo.git')).toBeNull()
+    expect(parseGitProgress('push', '   1a2b3c4..5d6e7f8  main -> main')).toBeNull()
+    expect(
+      parseGitProgress('push', "remote: Create a pull request for 'feature' on GitHub"),
+    ).toBeNull()
+    expect(parseGitProgress('push', 'error: failed to push some refs to 2 remotes')).toBeNull()
+  })
+})
+
+describe('formatGitProgress', () => {
+  it('should describe updates the way git prints them', () => {
+    const progress = parseGitProgress('fetch', 'remote: Counting objects: 100% (5/5), done.')
+
+    expect(formatGitProgress(progress as GitProgress)).toBe(
+      'remote: Counting objects: 100% (5/5), done',
+    )
+  })
+})
+
+describe('GitService', () => {
+  let runSpy: jest.SpyInstance
+  let stderrSpy: jest.SpyInstance
+
+  // Resolves with the args once released, rejects like ProcessRunner when the signal aborts
+  const pendingRun = (_command: string, args: string[], options: RunOptions = {}) =>
+    new Promise((resolve, reject) => {
+      options.signal?.addEventListener('abort', () =>
+        reject(new ProcessError('cancelled', 'cancelled', 'git', args)),
+      )
+      setTimeout(() => resolve({ stdout: args.join(' '), stderr: '', exitCode: 0 }), 20)
+    })
+
+  beforeEach(() => {
+    runSpy = jest.spyOn(ProcessRunner.prototype, 'run')
+    stderrSpy = jest.spyOn(process.stderr, 'write').mockImplementation(() => true)
+  })
+
+  afterEach(() => {
+    runSpy.mockRestore()
+    stderrSpy.mockRestore()
+  })
+
+  describe('run', () => {
+    it('should cancel a running command when a newer one supersedes it', async () => {
+      runSpy.mockImplementation(pendingRun)
+      const service = new GitService()
+
+      const first = service.run(['diff'], { supersede: 'diff' })
+      const second = service.run(['diff'], { supersede: 'diff' })
+
+      await expect(first).rejects.toMatchObject({
+        reason: 'cancelled',
+        message: 'git diff was superseded by a newer request',
+      })
+      await expect(second).resolves.toMatchObject({ stdout: 'diff' })
+    })
+
+    it('should leave commands with other keys running', async () => {
+      runSpy.mockImplementation(pendingRun)
+      const service = new GitService()
+
+      const diff = service.run(['diff'], { supersede: 'diff' })
+      const log = service.run(['log'], { supersede: 'log' })
+
+      await expect(diff).resolves.toMatchObject({ stdout: 'diff' })
+      await expect(log).resolves.toMatchObject({ stdout: 'log' })
+    })
+
+    it("should still cancel through the caller's signal", async () => {
+      runSpy.mockImplementation(pendingRun)
+      const controller = new AbortController()
+
+      const run = new GitService().run(['diff'], { supersede: 'diff', signal: controller.signal })
+      controller.abort()
+
+      await expect(run).rejects.toMatchObject({ reason: 'cancelled', message: 'cancelled' })
+    })
+  })
+
+  describe('tryGit', () => {
+    it('should return null when git fails but rethrow cancellations', async () => {
+      const service = new GitService()
+
+      runSpy.mockRejectedValueOnce(new ProcessError('bad revision', 'exit_code', 'git', []))
+      await expect(service.tryGit(['rev-parse', 'nope'])).resolves.toBeNull()
+
+      runSpy.mockRejectedValueOnce(new ProcessError('cancelled', 'cancelled', 'git', []))
+      await expect(service.tryGit(['rev-parse', 'HEAD'])).rejects.toThrow('cancelled')
+    })
+  })
+
+  describe('runWithProgress', () => {
+    const emit = (chunks: string[], exitCode = 0) =>
+      runSpy.mockImplementation((_command: string, args: string[], options: RunOptions) => {
+        chunks.forEach((chunk) => options.onStderr?.(chunk))
+        if (exitCode !== 0) {
+          return Promise.reject(
+            new ProcessError('failed', 'exit_code', 'git', args, exitCode, '', chunks.join('')),
+          )
+        }
+        return Promise.resolve({ stdout: '', stderr: chunks.join(''), exitCode })
+      })
+
+    it('should report progress split across chunks and print other lines', async () => {
+      emit([
+        'Writing objects:  50% (1/2)\rWriting obj',
+        'ects: 100% (2/2), done.\n',
+        'To /tmp/remote.git\n',
+      ])
+      const onProgress = jest.fn<void, [GitProgress]>()
+
+      await new GitService().runWithProgress('push', ['origin', 'main'], onProgress)
+
+      expect(runSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--progress', 'origin', 'main'],
+        expect.any(Object),
+      )
+      expect(onProgress.mock.calls.map(([progress]) => [progress.percent, progress.done])).toEqual([
+        [50, false],
+        [100, true],
+      ])
+      expect(stderrSpy).toHaveBeenCalledWith('To /tmp/remote.git\n')
+    })
+
+    it('should leave the progress out of the error message', async () => {
+      emit(
+        [
+          'Counting objects: 100% (3/3), done.\n',
+          ' ! [rejected]        main -> main (fetch first)\n',
+          "error: failed to push some refs to 'origin'\n",
+        ],
+        1,
+      )
+
+      await expect(new GitService().runWithProgress('push', ['origin', 'main'])).rejects.toThrow(
+        "git push --progress origin main failed with exit code 1: ! [rejected]        main -> main (fetch first)\nerror: failed to push some refs to 'origin'",
+      )
+    })
+  })
+})
@@ -0,0 +1,274 @@
+// git-service.ts - Async git commands that can be superseded and report progress for network operations
+
+import {
+  ProcessError,
+  ProcessRunner,
+  RunOptions,
+  RunResult,
+  describeCommand,
+} from './process-runner.js'
+
+/** Git commands that talk to a remote and print progress with --progress */
+export type GitNetworkOperation = 'push' | 'fetch' | 'pull'
+
+export interface GitProgress {
+  operation: GitNetworkOperation
+  /** What git is doing, e.g. "Writing objects" */
+  phase: string
+  /** Whether the remote reported the phase (`remote: ` lines) */
+  remote: boolean
+  /** null for phases that only count, like "Enumerating objects: 5" */
+  percent: number | null
+  current: number
+  total: number | null
+  /** The phase finished (git printed ", done.") */
+  done: boolean
+}
+
+export type GitProgressListener = (progress: GitProgress) => void
+
+export interface GitRunOptions extends RunOptions {
+  /**
+   * Commands started with the same key supersede each other: a newer command cancels
+   * the one still running, which rejects with a `cancelled` ProcessError
+   */
+  supersede?: string
+}
+
+// "Writing objects:  45% (9/20), 1.2 MiB | 1.1 MiB/s" or "remote: Counting objects: 12, done."
+const PROGRESS_PATTERN = /^(remote: )?([A-Z][A-Za-z ]*?):\s+(?:(\d+)% \((\d+)\/(\d+)\)|(\d+))(.*)$/
+
+/**
+ * Parse one line of git's --progress output
+ * @returns null for lines that are not progress updates (errors, ref updates, remote messages)
+ */
+export function parseGitProgress(operation: GitNetworkOperation, line: string): GitProgress | null {
+  const match = PROGRESS_PATTERN.exec(line.trim())
+  if (!match) {
+    return null
+  }
+
+  const [, remote, phase, percent, current, total, count, rest] = match
+  if (rest && !rest.startsWith(',')) {
+    return null
+  }
+  return {
+    operation,
+    phase,
+    remote: remote !== undefined,
+    percent: percent !== undefined ? parseInt(percent, 10) : null,
+    current: parseInt(current ?? count, 10),
+    total: total !== undefined ? parseInt(total, 10) : null,
+    done: /\b(done|completed)\b/.test(rest),
+  }
+}
+
+/**
+ * Describe a progress update the way git prints it, e.g. "Writing objects: 45% (9/20)"
+ */
+export function formatGitProgress(progress: GitProgress): string {
+  const amount =
+    progress.percent !== null
+      ? `${progress.percent}% (${progress.current}/${progress.total})`
+      : String(progress.current)
+  return `${progress.remote ? 'remote: ' : ''}${progress.phase}: ${amount}${progress.done ? ', done' : ''}`
+}
+
+/**
+ * Runs git for the managers. Every command is asynchronous, so a slow `git diff` never holds up
+ * the WebSocket; commands that answer the same question can supersede each other, and push,
+ * fetch and pull report their progress.
+ */
+export class GitService {
+  private runner: ProcessRunner
+  private inFlight = new Map<string, AbortController>()
+
+  constructor(workspaceFolder?: string) {
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+  }
+
+  async run(args: string[], options: GitRunOptions = {}): Promise<RunResult> {
+    const { supersede, ...runOptions } = options
+    if (!supersede) {
+      return this.runner.run('git', args, runOptions)
+    }
+
+    this.inFlight.get(supersede)?.abort()
+    const controller = new AbortController()
+    this.inFlight.set(supersede, controller)
+
+    // The caller's own signal still cancels the command
+    const callerSignal = runOptions.signal
+    const forwardAbort = () => controller.abort()
+    if (callerSignal?.aborted) {
+      controller.abort()
+    }
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true })
+
+    try {
+      return await this.runner.run('git', args, { ...runOptions, signal: controller.signal })
+    } catch (error) {
+      const superseded = this.inFlight.get(supersede) !== controller
+      if (superseded && error instanceof ProcessError && error.reason === 'cancelled') {
+        throw new ProcessError(
+          `${describeCommand('git', args)} was superseded by a newer request`,
+          'cancelled',
+          'git',
+          args,
+        )
+      }
+      throw error
+    } finally {
+      callerSignal?.removeEventListener('abort', forwardAbort)
+      if (this.inFlight.get(supersede) === controller) {
+        this.inFlight.delete(supersede)
+      }
+    }
+  }
+
+  /**
+   * Run git and return its trimmed stdout
+   * @throws ProcessError when git fails or the command is cancelled
+   */
+  async git(args: string[], options: GitRunOptions = {}): Promise<string> {
+    const { stdout } = await this.run(args, options)
+    return stdout.trim()
+  }
+
+  /**
+   * Run git and return its trimmed stdout, or null when it fails (e.g. `rev-parse --verify`).
+   * Cancelled commands still throw, since their answer is unknown.
+   */
+  async tryGit(args: string[], options: GitRunOptions = {}): Promise<string | null> {
+    try {
+      return await this.git(args, options)
+    } catch (error) {
+      if (isCancelled(error)) {
+        throw error
+      }
+      return null
+    }
+  }
+
+  /**
+   * Run push, fetch or pull with --progress. Progress is drawn on the terminal and passed to
+   * the listener; git's other messages (ref updates, hints from the remote) are printed as they are.
+   * @param operation - Subcommand to run
+   * @param args - Arguments after the subcommand
+   * @param onProgress - Also receives every update, e.g. to notify an MCP client
+   */
+  async runWithProgress(
+    operation: GitNetworkOperation,
+    args: string[],
+    onProgress?: GitProgressListener,
+    options: GitRunOptions = {},
+  ): Promise<RunResult> {
+    const terminal = new TerminalProgress()
+    const messages: string[] = []
+    let pending = ''
+    const handleLine = (line: string) => {
+      const progress = parseGitProgress(operation, line)
+      if (progress) {
+        terminal.update(progress)
+        onProgress?.(progress)
+      } else if (line.trim()) {
+        terminal.message(line)
+        messages.push(line.trim())
+      }
+    }
+    const flush = () => {
+      if (pending) {
+        handleLine(pending)
+        pending = ''
+      }
+      terminal.finish()
+    }
+
+    const fullArgs = [operation, '--progress', ...args]
+    try {
+      const result = await this.run(fullArgs, {
+        ...options,
+        onStderr: (chunk) => {
+          // Progress lines are redrawn with \r, everything else ends with \n
+          const lines = (pending + chunk).split(/[\r\n]/)
+          pending = lines.pop() ?? ''
+          lines.forEach(handleLine)
+        },
+      })
+      flush()
+      return result
+    } catch (error) {
+      flush()
+      if (error instanceof ProcessError && error.reason === 'exit_code') {
+        // Leave the progress lines out of the error, keep what git had to say
+        const detail = messages.join('\n')
+        throw new ProcessError(
+          `${describeCommand('git', fullArgs)} failed with exit code ${error.exitCode}${detail ? `: ${detail}` : ''}`,
+          'exit_code',
+          'git',
+          fullArgs,
+          error.exitCode,
+          error.stdout,
+          error.stderr,
+        )
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Whether an error is a command that was cancelled or superseded
+ */
+export function isCancelled(error: unknown): error is ProcessError {
+  return error instanceof ProcessError && error.reason === 'cancelled'
+}
+
+/**
+ * Draws git progress on stderr, redrawing the current phase in place on a TTY
+ */
+class TerminalProgress {
+  private openPhase: string | null = null
+  private lastLength = 0
+
+  constructor(private output: NodeJS.WriteStream = process.stderr) {}
+
+  update(progress: GitProgress): void {
+    const text = `   ${formatGitProgress(progress)}`
+    const phase = `${progress.remote}:${progress.phase}`
+
+    if (!this.output.isTTY) {
+      // Without a TTY only finished phases are worth a line
+      if (progress.done) {
+        this.output.write(`${text}\n`)
+      }
+      return
+    }
+
+    if (this.openPhase !== null && this.openPhase !== phase) {
+      this.output.write('\n')
+    } else if (this.openPhase !== null) {
+      this.output.write('\r')
+    }
+    this.output.write(text.padEnd(this.openPhase === phase ? this.lastLength : 0))
+    this.lastLength = text.length
+    this.openPhase = phase
+
+    if (progress.done) {
+      this.output.write('\n')
+      this.openPhase = null
+    }
+  }
+
+  message(line: string): void {
+    this.finish()
+    this.output.write(`${line}\n`)
+  }
+
+  finish(): void {
+    if (this.openPhase !== null) {
+      this.output.write('\n')
+      this.openPhase = null
+    }
+  }
+}
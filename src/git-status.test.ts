@@ -0,0 +1,107 @@
+import { formatStatusDetails, parsePorcelainV2 } from './git-status.js'
+
+const HASH = 'a'.repeat(40)
+
+describe('parsePorcelainV2', () => {
+  it('should parse branch, upstream and ahead/behind counts', () => {
+    const output = [
+      `# branch.oid ${HASH}`,
+      '# branch.head feature/x',
+      '# branch.upstream origin/feature/x',
+      '# branch.ab +2 -1',
+      '',
+    ].join('\0')
+
+    expect(parsePorcelainV2(output)).toMatchObject({
+      branch: 'feature/x',
+      head: HASH,
+      upstream: 'origin/feature/x',
+      ahead: 2,
+      behind: 1,
+    })
+  })
+
+  it('should report detached HEAD and missing commits as null', () => {
+    const details = parsePorcelainV2('# branch.oid (initial)\0# branch.head (detached)\0')
+
+    expect(details.branch).toBeNull()
+    expect(details.head).toBeNull()
+    expect(details.upstream).toBeNull()
+  })
+
+  it('should split staged and unstaged changes with their status codes', () => {
+    const output = [
+      `1 M. N... 100644 100644 100644 ${HASH} ${HASH} src/staged.ts`,
+      `1 .M N... 100644 100644 100644 ${HASH} ${HASH} src/with space.ts`,
+      `1 AD N... 000000 100644 000000 ${HASH} ${HASH} both.ts`,
+      '? new file.txt',
+      '',
+    ].join('\0')
+
+    const details = parsePorcelainV2(output)
+
+    expect(details.staged).toEqual([
+      { path: 'src/staged.ts', status: 'M' },
+      { path: 'both.ts', status: 'A' },
+    ])
+    expect(details.unstaged).toEqual([
+      { path: 'src/with space.ts', status: 'M' },
+      { path: 'both.ts', status: 'D' },
+    ])
+    expect(details.untracked).toEqual([{ path: 'new file.txt', status: '?' }])
+  })
+
+  it('should detect renames with the original path', () => {
+    const output = [
+      `2 R. N... 100644 100644 100644 ${HASH} ${HASH} R100 new name.ts`,
+      'old name.ts',
+      `1 .M N... 100644 100644 100644 ${HASH} ${HASH} other.ts`,
+      '',
+    ].join('\0')
+
+    const details = parsePorcelainV2(output)
+
+    expect(details.staged).toEqual([
+      { path: 'new name.ts', status: 'R', originalPath: 'old name.ts' },
+    ])
+    expect(details.unstaged).toEqual([{ path: 'other.ts', status: 'M' }])
+  })
+
+  it('should list unmerged paths as conflicts', () => {
+    const output = `u UU N... 100644 100644 100644 100644 ${HASH} ${HASH} ${HASH} conflict.ts\0`
+
+    const details = parsePorcelainV2(output)
+
+    expect(details.conflicted).toEqual([{ path: 'conflict.ts', status: 'UU' }])
+    expect(details.staged).toEqual([])
+  })
+})
+
+describe('formatStatusDetails', () => {
+  it('should describe tracking and each change on its own line', () => {
+    const details = parsePorcelainV2(
+      [
+        '# branch.head main',
+        '# branch.upstream origin/main',
+        '# branch.ab +1 -0',
+        `2 R. N... 100644 100644 100644 ${HASH} ${HASH} R90 b.ts`,
+        'a.ts',
+        '? c.ts',
+        '',
+      ].join('\0'),
+    )
+
+    const text = formatStatusDetails(details, 1)
+
+    expect(text).toContain('Current branch: main (tracking origin/main, ahead 1, behind 0)')
+    expect(text).toContain('  R a.ts -> b.ts')
+    expect(text).toContain('Untracked files:\n  ? c.ts')
+  })
+
+  it('should report a clean working directory', () => {
+    const text = formatStatusDetails(parsePorcelainV2('# branch.head main\0'), 0)
+
+    expect(text).toContain('(no upstream)')
+    expect(text).toContain('Working directory clean')
+  })
+})
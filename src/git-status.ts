@@ -0,0 +1,179 @@
+// git-status.ts - Parse `git status --porcelain=v2 --branch -z` output
+
+export interface GitStatusEntry {
+  path: string
+  /** Status code for this side of the change (M, A, D, R, C, T, U or ? for untracked) */
+  status: string
+  /** Previous path of a renamed or copied file */
+  originalPath?: string
+}
+
+export interface GitConflictEntry {
+  path: string
+  /** Both sides of the unmerged status, e.g. UU or AA */
+  status: string
+}
+
+export interface GitStatusDetails {
+  /** Current branch, or null when HEAD is detached */
+  branch: string | null
+  /** HEAD commit, or null before the first commit */
+  head: string | null
+  upstream: string | null
+  /** Only meaningful when an upstream is set (and it exists) */
+  ahead: number
+  behind: number
+  staged: GitStatusEntry[]
+  unstaged: GitStatusEntry[]
+  untracked: GitStatusEntry[]
+  conflicted: GitConflictEntry[]
+}
+
+/**
+ * Parse the NUL separated output of `git status --porcelain=v2 --branch -z`
+ */
+export function parsePorcelainV2(output: string): GitStatusDetails {
+  const details: GitStatusDetails = {
+    branch: null,
+    head: null,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+  }
+
+  const records = output.split('\0')
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]
+    if (!record) continue
+
+    if (record.startsWith('# ')) {
+      parseHeader(record.substring(2), details)
+      continue
+    }
+
+    switch (record[0]) {
+      case '1': {
+        // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+        const [, xy, path] = splitFields(record, 8)
+        addChange(details, xy, path)
+        break
+      }
+      case '2': {
+        // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>, then the original path
+        const [, xy, path] = splitFields(record, 9)
+        addChange(details, xy, path, records[++i])
+        break
+      }
+      case 'u': {
+        // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+        const [, xy, path] = splitFields(record, 10)
+        details.conflicted.push({ path, status: xy })
+        break
+      }
+      case '?':
+        details.untracked.push({ path: record.substring(2), status: '?' })
+        break
+      default:
+        // Ignored files ('!') are only listed with --ignored
+        break
+    }
+  }
+
+  return details
+}
+
+function parseHeader(header: string, details: GitStatusDetails): void {
+  const separator = header.indexOf(' ')
+  const key = header.substring(0, separator)
+  const value = header.substring(separator + 1)
+
+  switch (key) {
+    case 'branch.oid':
+      details.head = value === '(initial)' ? null : value
+      break
+    case 'branch.head':
+      details.branch = value === '(detached)' ? null : value
+      break
+    case 'branch.upstream':
+      details.upstream = value
+      break
+    case 'branch.ab': {
+      const match = value.match(/^\+(\d+) -(\d+)$/)
+      if (match) {
+        details.ahead = parseInt(match[1], 10)
+        details.behind = parseInt(match[2], 10)
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Split a record into its type, XY code and path, skipping the fields in between.
+ * The path is the rest of the record, as it may contain spaces.
+ */
+function splitFields(record: string, pathIndex: number): [string, string, string] {
+  const fields = record.split(' ')
+  return [fields[0], fields[1], fields.slice(pathIndex).join(' ')]
+}
+
+function addChange(details: GitStatusDetails, xy: string, path: string, originalPath?: string) {
+  const [index, worktree] = xy
+  // The rename score only applies to the side that detected the rename
+  if (index !== '.') {
+    details.staged.push(
+      index === 'R' || index === 'C'
+        ? { path, status: index, originalPath }
+        : { path, status: index },
+    )
+  }
+  if (worktree !== '.') {
+    details.unstaged.push(
+      worktree === 'R' || worktree === 'C'
+        ? { path, status: worktree, originalPath }
+        : { path, status: worktree },
+    )
+  }
+}
+
+/**
+ * Describe the status for Claude, one entry per line
+ * @param unpushedCount - Commits not on the remote yet (shown even without an upstream)
+ */
+export function formatStatusDetails(details: GitStatusDetails, unpushedCount: number): string {
+  const lines: string[] = []
+
+  let branchLine = `Current branch: ${details.branch ?? `(detached at ${details.head?.substring(0, 7) ?? 'unknown'})`}`
+  if (details.upstream) {
+    branchLine += ` (tracking ${details.upstream}, ahead ${details.ahead}, behind ${details.behind})`
+  } else if (details.branch) {
+    branchLine += ' (no upstream)'
+  }
+  lines.push(branchLine)
+  lines.push(`Unpushed commits: ${unpushedCount}`)
+
+  const formatEntry = (entry: GitStatusEntry | GitConflictEntry) => {
+    const originalPath = 'originalPath' in entry ? entry.originalPath : undefined
+    return `  ${entry.status} ${originalPath ? `${originalPath} -> ` : ''}${entry.path}`
+  }
+  const sections: Array<[string, Array<GitStatusEntry | GitConflictEntry>]> = [
+    ['Conflicts', details.conflicted],
+    ['Staged changes', details.staged],
+    ['Unstaged changes', details.unstaged],
+    ['Untracked files', details.untracked],
+  ]
+
+  const changes = sections.filter(([, entries]) => entries.length > 0)
+  if (changes.length === 0) {
+    lines.push('', 'Working directory clean')
+  }
+  changes.forEach(([title, entries]) => {
+    lines.push('', `${title}:`, ...entries.map(formatEntry))
+  })
+
+  return lines.join('\n')
+}
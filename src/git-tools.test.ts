@@ -0,0 +1,168 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { GitCommandManager } from './git-command-manager.js'
+import { GitToolContext, parseDiffFiles, registerGitToolHandlers } from './git-tools.js'
+
+describe('git MCP tools', () => {
+  let git: jest.Mocked<
+    Pick<GitCommandManager, 'getDiff' | 'getLog' | 'getBranches' | 'addFiles' | 'createCommit'>
+  > & { getStatus: jest.Mock }
+  let confirm: jest.Mock
+  let client: Client
+
+  beforeEach(async () => {
+    git = {
+      getStatus: jest.fn().mockResolvedValue({
+        branch: 'main',
+        staged: ['src/a.ts'],
+        unstaged: [],
+        untracked: [],
+      }),
+      getDiff: jest.fn().mockResolvedValue('diff --git a/src/a.ts b/src/a.ts\n+x\n'),
+      getLog: jest
+        .fn()
+        .mockResolvedValue([
+          { hash: 'abcdef1234', author: 'Dev', date: '2024-01-01', subject: 'Initial' },
+        ]),
+      getBranches: jest.fn().mockResolvedValue({ current: 'main', local: ['main'], remote: [] }),
+      addFiles: jest.fn().mockResolvedValue({ success: true, message: 'Added 1 file(s)' }),
+      createCommit: jest
+        .fn()
+        .mockResolvedValue({ success: true, message: 'Commit created', hash: 'abc1234' }),
+    }
+    confirm = jest.fn().mockResolvedValue(true)
+
+    const context: GitToolContext = {
+      git: git as unknown as GitCommandManager,
+      confirm,
+      checkPath: (file) => {
+        if (file.startsWith('..')) {
+          throw new Error(`Access denied: ${file} is outside the workspace`)
+        }
+        return file
+      },
+      commitLint: { types: ['feat', 'fix'] },
+    }
+
+    const server = new McpServer({ name: 'test', version: '0.0.1' })
+    registerGitToolHandlers(server, context)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: 'test-client', version: '0.0.1' })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should publish every tool with input and output schemas', async () => {
+    const { tools } = await client.listTools()
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'git_diff',
+      'git_log',
+      'git_branches',
+      'git_stage',
+      'git_commit',
+    ])
+    tools.forEach((tool) => expect(tool.outputSchema).toBeDefined())
+    expect(tools[0].annotations).toMatchObject({ readOnlyHint: true })
+  })
+
+  it('should return structured output alongside the text', async () => {
+    const result = await client.callTool({ name: 'git_diff', arguments: { staged: true } })
+
+    expect(git.getDiff).toHaveBeenCalledWith(undefined, true)
+    expect(result.structuredContent).toEqual({
+      diff: 'diff --git a/src/a.ts b/src/a.ts\n+x\n',
+      files: ['src/a.ts'],
+      staged: true,
+    })
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('+x')
+  })
+
+  it('should reject invalid input', async () => {
+    await expect(client.callTool({ name: 'git_log', arguments: { count: 0 } })).rejects.toThrow(
+      /Invalid arguments/,
+    )
+    expect(git.getLog).not.toHaveBeenCalled()
+  })
+
+  it('should stage files after the user confirms', async () => {
+    const result = await client.callTool({ name: 'git_stage', arguments: { files: ['src/a.ts'] } })
+
+    expect(confirm).toHaveBeenCalledTimes(1)
+    expect(git.addFiles).toHaveBeenCalledWith(['src/a.ts'])
+    expect(result.structuredContent).toEqual({
+      success: true,
+      message: 'Added 1 file(s)',
+      files: ['src/a.ts'],
+    })
+  })
+
+  it('should not stage anything when the user declines', async () => {
+    confirm.mockResolvedValue(false)
+
+    const result = await client.callTool({ name: 'git_stage', arguments: { files: ['src/a.ts'] } })
+
+    expect(git.addFiles).not.toHaveBeenCalled()
+    expect(result.isError).toBeFalsy()
+    expect(result.structuredContent).toMatchObject({ success: false })
+  })
+
+  it('should refuse paths outside the workspace before asking', async () => {
+    const result = await client.callTool({
+      name: 'git_stage',
+      arguments: { files: ['../secret'] },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(confirm).not.toHaveBeenCalled()
+  })
+
+  it('should show the message and staged files before committing', async () => {
+    const result = await client.callTool({
+      name: 'git_commit',
+      arguments: { message: 'feat: add a' },
+    })
+
+    const [summary] = confirm.mock.calls[0] as [string[]]
+    expect(summary).toEqual(expect.arrayContaining(['  feat: add a', '  • src/a.ts']))
+    expect(git.createCommit).toHaveBeenCalledWith('feat: add a')
+    expect(result.structuredContent).toMatchObject({ success: true, hash: 'abc1234' })
+  })
+
+  it('should refuse a commit message that is not a Conventional Commit before asking', async () => {
+    const result = await client.callTool({ name: 'git_commit', arguments: { message: 'Add a' } })
+
+    expect(confirm).not.toHaveBeenCalled()
+    expect(git.createCommit).not.toHaveBeenCalled()
+    expect(result.structuredContent).toMatchObject({ success: false })
+    expect((result.structuredContent as { message: string }).message).toContain('Header must')
+  })
+
+  it('should not ask to commit when nothing is staged', async () => {
+    git.getStatus.mockResolvedValue({ branch: 'main', staged: [], unstaged: [], untracked: [] })
+
+    const result = await client.callTool({ name: 'git_commit', arguments: { message: 'x' } })
+
+    expect(confirm).not.toHaveBeenCalled()
+    expect(git.createCommit).not.toHaveBeenCalled()
+    expect(result.structuredContent).toMatchObject({ success: false })
+  })
+})
+
+describe('parseDiffFiles', () => {
+  it('should list the new path of every file in the diff', () => {
+    const diff = [
+      'diff --git a/old.ts b/new.ts',
+      'rename from old.ts',
+      'diff --git a/src/b.ts b/src/b.ts',
+      '@@ -1 +1 @@',
+    ].join('\n')
+
+    expect(parseDiffFiles(diff)).toEqual(['new.ts', 'src/b.ts'])
+  })
+})
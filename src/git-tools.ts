@@ -0,0 +1,374 @@
+// git-tools.ts - Git MCP tools shared by the stdio MCP server and the IDE server
+
+import { z, ZodRawShape } from 'zod'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import { GitCommandManager, GitCommit } from './git-command-manager.js'
+import { ToolRequestExtra } from './internal-mcp.js'
+import { CommitLintOptions, lintCommitMessage } from './commit-message.js'
+
+const operationResult = {
+  success: z.boolean(),
+  message: z.string(),
+}
+
+interface GitToolDefinition {
+  title: string
+  description: string
+  inputSchema: ZodRawShape
+  outputSchema: ZodRawShape
+  annotations: ToolAnnotations
+}
+
+/**
+ * Git tools published to Claude. The stdio MCP server registers them as forwarders,
+ * the IDE server registers the implementations (with terminal confirmation for mutating tools).
+ */
+export const GIT_TOOL_DEFINITIONS = {
+  git_diff: {
+    title: 'Git diff',
+    description:
+      'Show unstaged changes in the workspace (or staged changes), optionally for one file',
+    inputSchema: {
+      file: z.string().min(1).optional().describe('Limit the diff to this file'),
+      staged: z.boolean().optional().describe('Show staged changes instead of unstaged ones'),
+    },
+    outputSchema: {
+      diff: z.string(),
+      files: z.array(z.string()),
+      staged: z.boolean(),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  git_log: {
+    title: 'Git log',
+    description: 'List recent commits on the current branch',
+    inputSchema: {
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe('Number of commits to return (default: 10)'),
+    },
+    outputSchema: {
+      commits: z.array(
+        z.object({ hash: z.string(), author: z.string(), date: z.string(), subject: z.string() }),
+      ),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  git_branches: {
+    title: 'Git branches',
+    description: 'List local and remote branches and the current branch',
+    inputSchema: {},
+    outputSchema: {
+      current: z.string(),
+      local: z.array(z.string()),
+      remote: z.array(
+        z.object({
+          remote: z.string(),
+          name: z.string().describe('Branch name on the remote, without the remote'),
+        }),
+      ),
+    },
+    annotations: { readOnlyHint: true },
+  },
+  git_stage: {
+    title: 'Git stage',
+    description: 'Stage files for commit. The user must approve in the claude-term terminal.',
+    inputSchema: {
+      files: z.array(z.string().min(1)).min(1).describe('Workspace paths to stage'),
+    },
+    outputSchema: {
+      ...operationResult,
+      files: z.array(z.string()),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  git_commit: {
+    title: 'Git commit',
+    description: 'Commit the staged changes. The user must approve in the claude-term terminal.',
+    inputSchema: {
+      message: z.string().trim().min(1).describe('Commit message'),
+    },
+    outputSchema: {
+      ...operationResult,
+      hash: z.string().optional(),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+}
+
+/**
+ * `review_push` runs the interactive review in the IDE terminal (`review_push_internal`)
+ */
+export const REVIEW_PUSH_TOOL_DEFINITION = {
+  description: 'Review unpushed commits and push to remote repository after approval',
+  inputSchema: {
+    branch: z
+      .string()
+      .optional()
+      .describe('Target branch to push to (optional, defaults to current branch)'),
+    export: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Also write a self-contained review report (commits, diffs, stats and the decision) to this workspace path: .html for HTML, anything else for Markdown',
+      ),
+  },
+}
+
+export type ReviewPushArgs = z.objectOutputType<
+  typeof REVIEW_PUSH_TOOL_DEFINITION.inputSchema,
+  z.ZodTypeAny
+>
+
+const statusEntry = z.object({
+  path: z.string(),
+  status: z.string(),
+  originalPath: z.string().optional(),
+})
+
+/**
+ * `git_status` is served by the IDE server's review workflow (`git_status_internal`),
+ * so it is registered separately from the git tools below.
+ */
+export const GIT_STATUS_TOOL_DEFINITION = {
+  description: 'Get current git status and unpushed commits',
+  inputSchema: {},
+  outputSchema: {
+    branch: z.string().nullable().describe('Current branch, null when HEAD is detached'),
+    head: z.string().nullable(),
+    upstream: z.string().nullable(),
+    ahead: z.number().int(),
+    behind: z.number().int(),
+    unpushedCommits: z.number().int(),
+    staged: z.array(statusEntry),
+    unstaged: z.array(statusEntry),
+    untracked: z.array(statusEntry),
+    conflicted: z.array(z.object({ path: z.string(), status: z.string() })),
+    clean: z.boolean(),
+  },
+  annotations: { readOnlyHint: true },
+}
+
+/**
+ * `review_working_tree` runs the interactive `/review` flow in the IDE terminal
+ * (`review_working_tree_internal`), so like `git_status` it is registered separately.
+ */
+export const WORKING_TREE_REVIEW_TOOL_DEFINITION = {
+  title: 'Review working tree',
+  description:
+    'Ask the user to review the uncommitted changes in the claude-term terminal. For each file they choose to stage, discard or keep it, then they may commit what is staged.',
+  inputSchema: {
+    message: z
+      .string()
+      .optional()
+      .describe('Commit message to suggest; the user can use it, replace it or skip committing'),
+  },
+  outputSchema: {
+    ...operationResult,
+    cancelled: z.boolean(),
+    staged: z.array(z.string()),
+    discarded: z.array(z.string()),
+    kept: z.array(z.string()),
+    conflicted: z.array(z.string()),
+    commitHash: z.string().optional(),
+  },
+  annotations: { readOnlyHint: false, destructiveHint: true },
+}
+
+export type GitToolName = keyof typeof GIT_TOOL_DEFINITIONS
+
+export const GIT_TOOL_NAMES = Object.keys(GIT_TOOL_DEFINITIONS) as GitToolName[]
+
+type GitToolArgs = {
+  [Name in GitToolName]: z.objectOutputType<
+    (typeof GIT_TOOL_DEFINITIONS)[Name]['inputSchema'],
+    z.ZodTypeAny
+  >
+}
+
+type GitToolOutput = {
+  [Name in GitToolName]: z.objectOutputType<
+    (typeof GIT_TOOL_DEFINITIONS)[Name]['outputSchema'],
+    z.ZodTypeAny
+  >
+}
+
+export interface GitToolContext {
+  git: GitCommandManager
+  /**
+   * Ask the user to approve a mutating tool call in the terminal
+   * @returns false when the user declines or Claude cancels the request
+   */
+  confirm(summary: string[], question: string, extra: ToolRequestExtra): Promise<boolean>
+  /**
+   * Check a path Claude passed against the workspace file policy
+   * @returns Path relative to the workspace
+   */
+  checkPath(file: string): string
+  /** Conventional Commits settings for git_commit; messages are not checked when unset */
+  commitLint?: CommitLintOptions
+}
+
+/**
+ * Register the git tools on the stdio MCP server, forwarding calls to the IDE server
+ */
+export function registerGitToolForwarders(
+  server: McpServer,
+  forward: (
+    name: GitToolName,
+    args: Record<string, unknown>,
+    extra: ToolRequestExtra,
+  ) => Promise<CallToolResult>,
+): void {
+  GIT_TOOL_NAMES.forEach((name) => {
+    const definition: GitToolDefinition = GIT_TOOL_DEFINITIONS[name]
+    server.registerTool(name, definition, (args: Record<string, unknown>, extra) =>
+      forward(name, args, extra),
+    )
+  })
+}
+
+/**
+ * Register the git tool implementations on the IDE server's internal MCP server
+ */
+export function registerGitToolHandlers(server: McpServer, context: GitToolContext): void {
+  const handlers: {
+    [Name in GitToolName]: (
+      args: GitToolArgs[Name],
+      extra: ToolRequestExtra,
+    ) => Promise<{ text: string; output: GitToolOutput[Name] }>
+  } = {
+    git_diff: async ({ file, staged = false }) => {
+      const diff = await context.git.getDiff(file ? context.checkPath(file) : undefined, staged)
+      return {
+        text: diff || `No ${staged ? 'staged' : 'unstaged'} changes`,
+        output: { diff, files: parseDiffFiles(diff), staged },
+      }
+    },
+
+    git_log: async ({ count = 10 }) => {
+      const commits = (await context.git.getLog(count)).map(({ hash, author, date, subject }) => ({
+        hash,
+        author,
+        date,
+        subject,
+      }))
+      return { text: formatCommits(commits), output: { commits } }
+    },
+
+    git_branches: async () => {
+      const branches = await context.git.getBranches()
+      const text = [
+        `Current: ${branches.current}`,
+        `Local: ${branches.local.join(', ') || '(none)'}`,
+        `Remote: ${branches.remote.map(({ remote, name }) => `${remote}/${name}`).join(', ') || '(none)'}`,
+      ].join('\n')
+      return { text, output: branches }
+    },
+
+    git_stage: async ({ files }, extra) => {
+      const relativeFiles = files.map((file) => context.checkPath(file))
+      const approved = await context.confirm(
+        ['📦 Claude wants to stage:', ...relativeFiles.map((file) => `  • ${file}`)],
+        `Stage ${relativeFiles.length} file(s)?`,
+        extra,
+      )
+      if (!approved) {
+        return declined({ files: relativeFiles })
+      }
+
+      const result = await context.git.addFiles(relativeFiles)
+      return { text: result.message, output: { ...result, files: relativeFiles } }
+    },
+
+    git_commit: async ({ message }, extra) => {
+      const status = await context.git.getStatus()
+      if (status.staged.length === 0) {
+        return {
+          text: 'Nothing staged to commit',
+          output: { success: false, message: 'Nothing staged to commit' },
+        }
+      }
+
+      const lint = context.commitLint ? lintCommitMessage(message, context.commitLint) : null
+      if (lint && !lint.valid) {
+        const text = `Commit message does not follow Conventional Commits: ${lint.errors.join('; ')}`
+        return { text, output: { success: false, message: text } }
+      }
+
+      const approved = await context.confirm(
+        [
+          '📝 Claude wants to commit:',
+          ...message.split('\n').map((line) => `  ${line}`),
+          `📦 Staged files (${status.staged.length}):`,
+          ...status.staged.map((file) => `  • ${file}`),
+        ],
+        'Create this commit?',
+        extra,
+      )
+      if (!approved) {
+        return declined({})
+      }
+
+      const result = await context.git.createCommit(message)
+      const text = result.hash ? `${result.message} (${result.hash})` : result.message
+      return { text, output: result }
+    },
+  }
+
+  GIT_TOOL_NAMES.forEach((name) => {
+    const handler = handlers[name] as (
+      args: Record<string, unknown>,
+      extra: ToolRequestExtra,
+    ) => Promise<{ text: string; output: Record<string, unknown> }>
+
+    const definition: GitToolDefinition = GIT_TOOL_DEFINITIONS[name]
+    server.registerTool(
+      name,
+      definition,
+      async (args: Record<string, unknown>, extra): Promise<CallToolResult> => {
+        const { text, output } = await handler(args, extra)
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: output,
+        }
+      },
+    )
+  })
+}
+
+function declined<T extends object>(
+  extra: T,
+): { text: string; output: T & { success: boolean; message: string } } {
+  const message = 'Declined in the claude-term terminal'
+  return { text: `🚫 ${message}`, output: { ...extra, success: false, message } }
+}
+
+/**
+ * List the files touched by a unified diff (new path for renames)
+ */
+export function parseDiffFiles(diff: string): string[] {
+  const files: string[] = []
+  for (const match of diff.matchAll(/^diff --git a\/.+ b\/(.+)$/gm)) {
+    files.push(match[1])
+  }
+  return files
+}
+
+function formatCommits(commits: GitCommit[]): string {
+  if (commits.length === 0) {
+    return 'No commits'
+  }
+  return commits
+    .map(
+      (commit) =>
+        `${commit.hash.substring(0, 7)} ${commit.subject} (${commit.author}, ${commit.date})`,
+    )
+    .join('\n')
+}
@@ -0,0 +1,117 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { DiffProposalManager } from './diff-proposal.js'
+import { GitCommandManager } from './git-command-manager.js'
+import { GitReviewManager } from './git-review.js'
+import { HunkStagingManager } from './hunk-staging.js'
+
+describe('HunkStagingManager', () => {
+  let repo: string
+  let manager: HunkStagingManager
+  let consoleSpy: jest.SpyInstance
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const lines = (...changed: Array<[number, string]>) => {
+    const content = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+    changed.forEach(([index, text]) => (content[index] = text))
+    return `${content.join('\n')}\n`
+  }
+
+  const answers = (...values: Array<string | null>) => {
+    const queue = [...values]
+    return jest.fn(() => Promise.resolve(queue.length > 0 ? (queue.shift() as string | null) : ''))
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-hunks-'))
+    git('init -q')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines())
+    fs.writeFileSync(path.join(repo, 'b.txt'), lines())
+    git('add .')
+    git('commit -q -m initial')
+
+    const picker = new DiffProposalManager(new GitReviewManager())
+    // Exercise the built-in selector regardless of what is installed
+    jest
+      .spyOn(picker as unknown as { isInstalled(command: string): Promise<boolean> }, 'isInstalled')
+      .mockResolvedValue(false)
+    manager = new HunkStagingManager(new GitCommandManager(repo), picker)
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should stage only the chosen hunks and leave the working tree alone', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines([1, 'first change'], [17, 'second change']))
+
+    const result = await manager.stageHunks([], answers('n', 'y'))
+
+    expect(result).toMatchObject({
+      success: true,
+      message: 'Staged 1 of 2 hunk(s) in 1 file(s)',
+      files: ['a.txt'],
+    })
+    expect(result.stagedDiff).toContain('+second change')
+    expect(result.stagedDiff).not.toContain('+first change')
+    expect(git('diff')).toContain('+first change')
+    expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toContain('first change')
+  })
+
+  it('should pick hunks across files and stage the later hunk of a file on its own', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines([1, 'a1'], [17, 'a2']))
+    fs.writeFileSync(path.join(repo, 'b.txt'), lines([9, 'b1']))
+    const ask = answers('n', 'y', 'y')
+
+    const result = await manager.stageHunks([], ask)
+
+    expect(ask).toHaveBeenCalledWith(expect.stringContaining('Stage hunk 1/3?'))
+    expect(result.files).toEqual(['a.txt', 'b.txt'])
+    expect(git('diff --cached --stat')).toContain(
+      '2 files changed, 2 insertions(+), 2 deletions(-)',
+    )
+    expect(git('diff --cached')).not.toContain('+a1')
+  })
+
+  it('should only offer hunks of the given paths', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines([1, 'a1']))
+    fs.writeFileSync(path.join(repo, 'b.txt'), lines([1, 'b1']))
+
+    const result = await manager.stageHunks(['b.txt'], answers('a'))
+
+    expect(result.files).toEqual(['b.txt'])
+    expect(git('diff --cached --name-only')).toBe('b.txt')
+  })
+
+  it('should stage nothing when the selection is cancelled or empty', async () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines([1, 'a1']))
+
+    await expect(manager.stageHunks([], answers(null))).resolves.toMatchObject({
+      success: false,
+      cancelled: true,
+    })
+    await expect(manager.stageHunks([], answers('d'))).resolves.toMatchObject({
+      success: false,
+      message: 'No hunks selected',
+    })
+    expect(git('diff --cached')).toBe('')
+  })
+
+  it('should report when there is nothing to stage', async () => {
+    const result = await manager.stageHunks([], answers())
+
+    expect(result).toMatchObject({ success: false, message: 'No unstaged changes to stage' })
+  })
+})
@@ -0,0 +1,79 @@
+// hunk-staging.ts - Stage some hunks of the unstaged changes, picked in fzf (/ga -p)
+
+import { GitCommandManager } from './git-command-manager.js'
+import { DiffProposalManager } from './diff-proposal.js'
+import { AskFunction } from './git-push.js'
+import { buildPatch, diffFilePath, parseMultiFileDiff } from './diff-hunks.js'
+
+export interface HunkStagingResult {
+  success: boolean
+  message: string
+  /** The hunk selection was cancelled, nothing was staged */
+  cancelled: boolean
+  /** Files that had hunks staged */
+  files: string[]
+  /** Staged diff of those files afterwards */
+  stagedDiff: string
+}
+
+export class HunkStagingManager {
+  constructor(
+    private git: GitCommandManager,
+    /** Shows the hunk picker (fzf with a delta preview when installed) */
+    private picker: DiffProposalManager,
+  ) {}
+
+  /**
+   * Pick hunks of the unstaged changes and stage just those
+   * @param paths - Files or directories to pick from (default: all changes)
+   * @param ask - Prompts the user when fzf is not installed (resolves null when cancelled)
+   */
+  async stageHunks(paths: string[], ask: AskFunction): Promise<HunkStagingResult> {
+    const diffs = await Promise.all(
+      paths.length > 0 ? paths.map((file) => this.git.getDiff(file)) : [this.git.getDiff()],
+    )
+    // Binary changes have no hunks to pick from
+    const files = parseMultiFileDiff(diffs.join('')).filter((parsed) => parsed.hunks.length > 0)
+    if (files.length === 0) {
+      return this.result(false, 'No unstaged changes to stage')
+    }
+
+    const selection = await this.picker.pickFileHunks(files, ask, 'stage')
+    if (selection === null) {
+      return { ...this.result(false, 'Hunk selection cancelled'), cancelled: true }
+    }
+
+    const chosen = files
+      .map((parsed, index) => ({ parsed, hunks: selection[index] }))
+      .filter(({ hunks }) => hunks.length > 0)
+    if (chosen.length === 0) {
+      return this.result(false, 'No hunks selected')
+    }
+
+    const staged = await this.git.stagePatch(
+      chosen.map(({ parsed, hunks }) => `${buildPatch(parsed, hunks)}\n`).join(''),
+    )
+    if (!staged.success) {
+      return this.result(false, staged.message)
+    }
+
+    const stagedFiles = chosen.map(({ parsed }) => diffFilePath(parsed))
+    const stagedDiff = (
+      await Promise.all(stagedFiles.map((file) => this.git.getDiff(file, true)))
+    ).join('')
+    const hunkCount = chosen.reduce((count, { hunks }) => count + hunks.length, 0)
+    const totalHunks = files.reduce((count, parsed) => count + parsed.hunks.length, 0)
+
+    return {
+      success: true,
+      message: `Staged ${hunkCount} of ${totalHunks} hunk(s) in ${stagedFiles.length} file(s)`,
+      cancelled: false,
+      files: stagedFiles,
+      stagedDiff,
+    }
+  }
+
+  private result(success: boolean, message: string): HunkStagingResult {
+    return { success, message, cancelled: false, files: [], stagedDiff: '' }
+  }
+}
@@ -0,0 +1,119 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  CLAUDE_TERM_LOCK_SUFFIX,
+  ClaudeTermLock,
+  findIdeServerForWorkspace,
+  listClaudeTermLocks,
+  writeClaudeTermLock,
+  writeLockFile,
+} from './ide-discovery.js'
+
+describe('ide-discovery', () => {
+  let lockDir: string
+  let root: string
+
+  const lock = (overrides: Partial<ClaudeTermLock>): ClaudeTermLock => ({
+    pid: process.pid,
+    port: 40000,
+    internalMcpPort: 50000,
+    authToken: 'token',
+    workspaceFolders: [root],
+    ideName: 'claude-term-test',
+    startedAt: 1,
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    lockDir = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-locks-'))
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-ws-')))
+    fs.mkdirSync(path.join(root, 'project', 'src'), { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(lockDir, { recursive: true, force: true })
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should write the lock next to the Claude Code lock file', () => {
+    const lockPath = writeClaudeTermLock(lock({ port: 41234 }), lockDir)
+
+    expect(lockPath).toBe(path.join(lockDir, `41234${CLAUDE_TERM_LOCK_SUFFIX}`))
+    expect(JSON.parse(fs.readFileSync(lockPath, 'utf8'))).toMatchObject({ internalMcpPort: 50000 })
+  })
+
+  it('should write lock files and their directory readable by the current user only', () => {
+    const dir = path.join(lockDir, 'ide')
+    const lockPath = path.join(dir, '41234.lock')
+    fs.mkdirSync(dir)
+    fs.writeFileSync(lockPath, 'stale', { mode: 0o644 })
+
+    writeLockFile(lockPath, '{"authToken":"secret"}')
+    writeClaudeTermLock(lock({ port: 41234 }), path.join(lockDir, 'new'))
+
+    expect(fs.statSync(lockPath).mode & 0o777).toBe(0o600)
+    expect(fs.readFileSync(lockPath, 'utf8')).toBe('{"authToken":"secret"}')
+    expect(fs.statSync(path.join(lockDir, 'new')).mode & 0o777).toBe(0o700)
+    expect(
+      fs.statSync(path.join(lockDir, 'new', `41234${CLAUDE_TERM_LOCK_SUFFIX}`)).mode & 0o777,
+    ).toBe(0o600)
+  })
+
+  it('should ignore locks of processes that are no longer running', async () => {
+    writeClaudeTermLock(lock({ port: 1 }), lockDir)
+    writeClaudeTermLock(lock({ port: 2, pid: 2 ** 22 + 12345 }), lockDir)
+    fs.writeFileSync(path.join(lockDir, `3${CLAUDE_TERM_LOCK_SUFFIX}`), 'not json')
+    fs.writeFileSync(path.join(lockDir, '4.lock'), '{}')
+
+    const locks = await listClaudeTermLocks(lockDir)
+
+    expect(locks.map((l) => l.port)).toEqual([1])
+  })
+
+  it('should find the server whose workspace contains the directory', async () => {
+    writeClaudeTermLock(
+      lock({ port: 1, internalMcpPort: 51000, workspaceFolders: [os.tmpdir() + '/elsewhere'] }),
+      lockDir,
+    )
+    writeClaudeTermLock(
+      lock({ port: 2, internalMcpPort: 52000, workspaceFolders: [path.join(root, 'project')] }),
+      lockDir,
+    )
+
+    const found = await findIdeServerForWorkspace(path.join(root, 'project', 'src'), lockDir)
+
+    expect(found?.internalMcpPort).toBe(52000)
+  })
+
+  it('should prefer the deepest matching workspace', async () => {
+    writeClaudeTermLock(lock({ port: 1, internalMcpPort: 51000, startedAt: 5 }), lockDir)
+    writeClaudeTermLock(
+      lock({ port: 2, internalMcpPort: 52000, workspaceFolders: [path.join(root, 'project')] }),
+      lockDir,
+    )
+
+    const found = await findIdeServerForWorkspace(path.join(root, 'project'), lockDir)
+
+    expect(found?.internalMcpPort).toBe(52000)
+  })
+
+  it('should prefer the newest server for the same workspace', async () => {
+    writeClaudeTermLock(lock({ port: 1, internalMcpPort: 51000, startedAt: 10 }), lockDir)
+    writeClaudeTermLock(lock({ port: 2, internalMcpPort: 52000, startedAt: 20 }), lockDir)
+
+    const found = await findIdeServerForWorkspace(root, lockDir)
+
+    expect(found?.internalMcpPort).toBe(52000)
+  })
+
+  it('should not match sibling directories with a common prefix', async () => {
+    writeClaudeTermLock(lock({ workspaceFolders: [path.join(root, 'proj')] }), lockDir)
+
+    await expect(findIdeServerForWorkspace(path.join(root, 'project'), lockDir)).resolves.toBeNull()
+  })
+
+  it('should return null when no lock directory exists', async () => {
+    await expect(findIdeServerForWorkspace(root, path.join(lockDir, 'missing'))).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,137 @@
+// ide-discovery.ts - Find the claude-term IDE server that belongs to a workspace
+
+import fs from 'fs'
+import { readdir, readFile, realpath } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { debugLog } from './debug.js'
+
+/** Suffix of the claude-term lock written next to Claude Code's `<port>.lock` */
+export const CLAUDE_TERM_LOCK_SUFFIX = '.claude-term.json'
+
+/**
+ * claude-term specific data about a running IDE server.
+ *
+ * Kept out of `<port>.lock`, which belongs to the format Claude Code reads.
+ */
+export interface ClaudeTermLock {
+  pid: number
+  /** IDE WebSocket port (same as the `<port>.lock` name) */
+  port: number
+  /** Port of the internal MCP endpoint used by the stdio MCP server */
+  internalMcpPort: number
+  /** Token the internal MCP endpoint requires (the auth token of `<port>.lock`) */
+  authToken: string
+  workspaceFolders: string[]
+  ideName: string
+  startedAt: number
+}
+
+/**
+ * Directory where Claude Code looks for IDE lock files
+ */
+export function getIdeLockDir(): string {
+  return path.join(os.homedir(), '.claude', 'ide')
+}
+
+/**
+ * Write a lock file that only the current user can read, creating a private lock directory
+ * if needed. `<port>.lock` holds the IDE auth token.
+ */
+export function writeLockFile(lockPath: string, contents: string): void {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true, mode: 0o700 })
+  fs.writeFileSync(lockPath, contents, { mode: 0o600 })
+  // The mode only applies to new files, and a crashed server may have left this one behind
+  fs.chmodSync(lockPath, 0o600)
+}
+
+/**
+ * Write the claude-term lock for an IDE server
+ * @returns Path of the written lock file
+ */
+export function writeClaudeTermLock(lock: ClaudeTermLock, lockDir = getIdeLockDir()): string {
+  const lockPath = path.join(lockDir, `${lock.port}${CLAUDE_TERM_LOCK_SUFFIX}`)
+  writeLockFile(lockPath, JSON.stringify(lock))
+  return lockPath
+}
+
+/**
+ * Read every claude-term lock whose IDE server process is still running
+ */
+export async function listClaudeTermLocks(lockDir = getIdeLockDir()): Promise<ClaudeTermLock[]> {
+  let files: string[]
+  try {
+    files = await readdir(lockDir)
+  } catch {
+    return []
+  }
+
+  const locks: ClaudeTermLock[] = []
+  for (const file of files.filter((name) => name.endsWith(CLAUDE_TERM_LOCK_SUFFIX))) {
+    try {
+      const lock = JSON.parse(await readFile(path.join(lockDir, file), 'utf-8')) as ClaudeTermLock
+      if (isProcessAlive(lock.pid)) {
+        locks.push(lock)
+      } else {
+        debugLog('SESSION', `Ignoring stale claude-term lock ${file}`, { pid: lock.pid })
+      }
+    } catch (error) {
+      debugLog('SESSION', `Failed to parse claude-term lock ${file}`, error)
+    }
+  }
+  return locks
+}
+
+/**
+ * Find the IDE server whose workspace contains a directory
+ *
+ * When several match (nested workspaces), the deepest workspace wins, then the newest server.
+ * @param directory - Directory the MCP server runs in (usually its cwd)
+ * @returns Lock of the matching IDE server, or null if none is running
+ */
+export async function findIdeServerForWorkspace(
+  directory: string,
+  lockDir = getIdeLockDir(),
+): Promise<ClaudeTermLock | null> {
+  const target = await realpathOrSelf(directory)
+  let best: { lock: ClaudeTermLock; depth: number } | null = null
+
+  for (const lock of await listClaudeTermLocks(lockDir)) {
+    for (const folder of lock.workspaceFolders) {
+      const workspace = await realpathOrSelf(folder)
+      const relative = path.relative(workspace, target)
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        continue
+      }
+
+      const depth = workspace.split(path.sep).length
+      if (
+        !best ||
+        depth > best.depth ||
+        (depth === best.depth && lock.startedAt > best.lock.startedAt)
+      ) {
+        best = { lock, depth }
+      }
+    }
+  }
+
+  return best?.lock ?? null
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+async function realpathOrSelf(target: string): Promise<string> {
+  try {
+    return await realpath(target)
+  } catch {
+    return path.resolve(target)
+  }
+}
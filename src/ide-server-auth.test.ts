@@ -0,0 +1,107 @@
+import { AuthPolicy } from './ide-server.js'
+import { IDEServerInternals, createTestServer } from './ide-server.test-utils.js'
+
+describe('ClaudeTermIDEServer authentication', () => {
+  let consoleSpy: jest.SpyInstance
+
+  const createServer = (authPolicy?: AuthPolicy) =>
+    createTestServer({
+      workspaceFolder: process.cwd(),
+      ideName: 'test-server',
+      authPolicy,
+    })
+
+  const verify = (server: IDEServerInternals, headers: Record<string, string>) => {
+    const callback = jest.fn()
+    server.verifyClient(
+      {
+        origin: '',
+        secure: false,
+        req: { headers, socket: { remoteAddress: '127.0.0.1' } },
+      },
+      callback,
+    )
+    return callback
+  }
+
+  const tokenOf = (server: IDEServerInternals) => server.authToken
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+  })
+
+  describe('strict policy', () => {
+    it('should be the default policy', () => {
+      const server = createServer()
+      const callback = verify(server, {})
+
+      expect(callback).toHaveBeenCalledWith(false, 401, 'Unauthorized')
+    })
+
+    it('should accept connections with the lock-file token', () => {
+      const server = createServer('strict')
+      const callback = verify(server, { 'x-claude-code-ide-authorization': tokenOf(server) })
+
+      expect(callback).toHaveBeenCalledWith(true)
+    })
+
+    it('should reject connections without a token', () => {
+      const server = createServer('strict')
+      const callback = verify(server, {})
+
+      expect(callback).toHaveBeenCalledWith(false, 401, 'Unauthorized')
+      expect(consoleSpy).toHaveBeenCalledWith('🚫 Rejected IDE connection: missing auth token')
+    })
+
+    it('should reject connections with a mismatched token', () => {
+      const server = createServer('strict')
+      const callback = verify(server, { 'x-claude-code-ide-authorization': 'wrong-token' })
+
+      expect(callback).toHaveBeenCalledWith(false, 401, 'Unauthorized')
+      expect(consoleSpy).toHaveBeenCalledWith('🚫 Rejected IDE connection: auth token mismatch')
+    })
+
+    it('should report rejected attempts in the debug log', () => {
+      process.env.CLAUDE_TERM_DEBUG = 'true'
+      try {
+        const server = createServer('strict')
+        verify(server, {})
+
+        const output = consoleSpy.mock.calls.map((call: unknown[]) => String(call[0])).join('\n')
+        expect(output).toContain('CLIENT_REJECTED')
+      } finally {
+        delete process.env.CLAUDE_TERM_DEBUG
+      }
+    })
+  })
+
+  describe('warn policy', () => {
+    it('should accept connections without a token', () => {
+      const server = createServer('warn')
+      const callback = verify(server, {})
+
+      expect(callback).toHaveBeenCalledWith(true)
+    })
+
+    it('should accept connections with a mismatched token', () => {
+      const server = createServer('warn')
+      const callback = verify(server, { 'x-claude-code-ide-authorization': 'wrong-token' })
+
+      expect(callback).toHaveBeenCalledWith(true)
+    })
+  })
+
+  describe('off policy', () => {
+    it('should skip the token check', () => {
+      const server = createServer('off')
+      const callback = verify(server, { 'x-claude-code-ide-authorization': 'wrong-token' })
+
+      expect(callback).toHaveBeenCalledWith(true)
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+  })
+})
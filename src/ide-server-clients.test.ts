@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events'
+import { IncomingMessage } from 'http'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { WebSocket } from 'ws'
+import { IDEServerInternals, createTestServer } from './ide-server.test-utils.js'
+
+class FakeSocket extends EventEmitter {
+  readyState = WebSocket.OPEN
+  sent: Array<{ method?: string }> = []
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as { method?: string })
+  }
+}
+
+describe('ClaudeTermIDEServer with multiple clients', () => {
+  let workspace: string
+  let server: IDEServerInternals
+  let sessionSpy: jest.SpyInstance
+  let consoleSpy: jest.SpyInstance
+
+  const connect = (): FakeSocket => {
+    const ws = new FakeSocket()
+    const request = { headers: {}, socket: { remoteAddress: '127.0.0.1' } }
+    server.handleConnection(ws as unknown as WebSocket, request as unknown as IncomingMessage)
+    return ws
+  }
+
+  const initialize = (ws: FakeSocket) =>
+    ws
+      .listeners('message')
+      .forEach((listener) =>
+        (listener as (data: Buffer) => void)(
+          Buffer.from(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })),
+        ),
+      )
+
+  const mentioned = (ws: FakeSocket) => ws.sent.filter((m) => m.method === 'at_mentioned')
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-clients-')))
+    fs.writeFileSync(path.join(workspace, 'app.ts'), 'export {}\n')
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+
+    server = createTestServer({ workspaceFolder: workspace, authPolicy: 'off' })
+    sessionSpy = jest.spyOn(server, 'startInteractiveSession').mockImplementation()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+    fs.rmSync(workspace, { recursive: true, force: true })
+  })
+
+  it('should start a single REPL for all connections', () => {
+    connect()
+    connect()
+
+    expect(sessionSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should send files to the latest client by default', async () => {
+    const first = connect()
+    const second = connect()
+
+    await server.processCommand('/send app.ts')
+
+    expect(mentioned(first)).toHaveLength(0)
+    expect(mentioned(second)).toHaveLength(1)
+  })
+
+  it('should send files to a specific client or all clients', async () => {
+    const first = connect()
+    const second = connect()
+
+    await server.processCommand('/send @1 app.ts')
+    expect(mentioned(first)).toHaveLength(1)
+    expect(mentioned(second)).toHaveLength(0)
+
+    await server.processCommand('/send @all app.ts')
+    expect(mentioned(first)).toHaveLength(2)
+    expect(mentioned(second)).toHaveLength(1)
+  })
+
+  it('should keep serving remaining clients after one disconnects', async () => {
+    const first = connect()
+    const second = connect()
+    await server.processCommand('/clients 2')
+
+    second.emit('close')
+    await server.processCommand('/send app.ts')
+
+    expect(mentioned(first)).toHaveLength(1)
+    expect(sessionSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should drop the diff proposals of a client that disconnects', async () => {
+    const first = connect()
+    const second = connect()
+    const questions: string[] = []
+    jest.spyOn(server, 'promptUser').mockImplementation(
+      (question, signal) =>
+        new Promise((resolve) => {
+          questions.push(question)
+          signal?.addEventListener('abort', () => resolve(null))
+        }),
+    )
+    const openDiff = (ws: FakeSocket) =>
+      ws.listeners('message').forEach((listener) =>
+        (listener as (data: Buffer) => void)(
+          Buffer.from(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id: 1,
+              method: 'tools/call',
+              params: {
+                name: 'open_diff',
+                arguments: {
+                  new_file_path: path.join(workspace, 'app.ts'),
+                  new_file_contents: 'export const a = 1\n',
+                  tab_name: `tab-${ws === first ? 1 : 2}`,
+                },
+              },
+            }),
+          ),
+        ),
+      )
+    const answered = (ws: FakeSocket) =>
+      ws.sent.some((message) => 'result' in message && (message as { id?: number }).id === 1)
+    const waitFor = async (condition: () => boolean) => {
+      while (!condition()) {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+      }
+    }
+
+    openDiff(first)
+    openDiff(second)
+    await waitFor(() => questions.length === 1)
+
+    first.emit('close')
+    await waitFor(() => answered(first) && questions.length === 2)
+    expect(consoleSpy).toHaveBeenCalledWith('🗂️  Dropped 1 diff proposal(s) of client #1')
+
+    second.emit('close')
+    await waitFor(() => answered(second))
+    expect(questions).toHaveLength(2)
+  })
+
+  it('should list connected clients', async () => {
+    connect()
+    connect()
+
+    await server.processCommand('/clients')
+
+    expect(consoleSpy).toHaveBeenCalledWith('\n🔌 Connected clients (2):')
+    expect(consoleSpy).toHaveBeenCalledWith(
+      '\n🎯 Target: latest client (change with /clients <id|all|latest>)',
+    )
+  })
+
+  describe('while disconnected', () => {
+    it('should show the connection state in the prompt', () => {
+      expect(server.getPromptText()).toBe('🔴 > ')
+
+      const ws = connect()
+      expect(server.getPromptText()).toBe('🟡 > ')
+
+      initialize(ws)
+      expect(server.getPromptText()).toBe('🟢 > ')
+    })
+
+    it('should queue events and deliver them when Claude reconnects', async () => {
+      connect().emit('close')
+
+      await server.processCommand('/send app.ts')
+      expect(server.getPromptText()).toBe('🔴 (1 queued) > ')
+
+      const reconnected = connect()
+      expect(mentioned(reconnected)).toHaveLength(0)
+
+      initialize(reconnected)
+      expect(mentioned(reconnected)).toHaveLength(1)
+      expect(server.getPromptText()).toBe('🟢 > ')
+    })
+
+    it('should drop queued events when Claude reconnects too late', async () => {
+      jest.useFakeTimers()
+      try {
+        connect().emit('close')
+        await server.processCommand('/send app.ts')
+
+        jest.advanceTimersByTime(61_000)
+        const reconnected = connect()
+        initialize(reconnected)
+
+        expect(mentioned(reconnected)).toHaveLength(0)
+        expect(consoleSpy).toHaveBeenCalledWith(
+          '⌛ Dropped 1 queued event(s): Claude did not reconnect within 60s',
+        )
+      } finally {
+        jest.useRealTimers()
+      }
+    })
+
+    it('should not queue events before any client connected', async () => {
+      await server.processCommand('/send app.ts')
+
+      expect(consoleSpy).toHaveBeenCalledWith('No Claude Code client connected')
+      expect(server.getPromptText()).toBe('🔴 > ')
+    })
+  })
+})
@@ -0,0 +1,188 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { WebSocket } from 'ws'
+import { IDEServerInternals, createTestServer } from './ide-server.test-utils.js'
+
+describe('ClaudeTermIDEServer open_diff', () => {
+  let workspace: string
+  let server: IDEServerInternals
+  let consoleSpy: jest.SpyInstance
+
+  const answer = (...answers: Array<string | null>) =>
+    jest
+      .spyOn(server, 'promptUser')
+      .mockImplementation(() => Promise.resolve(answers.shift() ?? null))
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-diff-test-')))
+    fs.writeFileSync(path.join(workspace, 'app.ts'), 'const a = 1\n')
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+
+    server = createTestServer({ workspaceFolder: workspace })
+    jest.spyOn(server.diffProposals, 'isInstalled').mockResolvedValue(false)
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+    fs.rmSync(workspace, { recursive: true, force: true })
+  })
+
+  const openDiff = (contents: string, file = 'app.ts') =>
+    server.handleOpenDiff({
+      old_file_path: path.join(workspace, file),
+      new_file_path: path.join(workspace, file),
+      new_file_contents: contents,
+      tab_name: `tab-${file}`,
+    })
+
+  it('should save the proposal and report FILE_SAVED when accepted', async () => {
+    answer('y')
+
+    const result = await openDiff('const a = 2\n')
+
+    expect(result).toEqual([
+      { type: 'text', text: 'FILE_SAVED' },
+      { type: 'text', text: 'const a = 2\n' },
+    ])
+    expect(fs.readFileSync(path.join(workspace, 'app.ts'), 'utf8')).toBe('const a = 2\n')
+  })
+
+  it('should leave the file untouched and report DIFF_REJECTED when rejected', async () => {
+    answer('n')
+
+    const result = await openDiff('const a = 2\n')
+
+    expect(result).toEqual([
+      { type: 'text', text: 'DIFF_REJECTED' },
+      { type: 'text', text: 'tab-app.ts' },
+    ])
+    expect(fs.readFileSync(path.join(workspace, 'app.ts'), 'utf8')).toBe('const a = 1\n')
+  })
+
+  it('should ask again after an invalid answer', async () => {
+    const promptSpy = answer('maybe', 'y')
+
+    await openDiff('const a = 2\n')
+
+    expect(promptSpy).toHaveBeenCalledTimes(2)
+    expect(consoleSpy).toHaveBeenCalledWith('❌ Invalid choice. Please enter y, n, e or p.')
+  })
+
+  it('should create new files when accepted', async () => {
+    answer('y')
+
+    await openDiff('export {}\n', 'lib/new.ts')
+
+    expect(fs.readFileSync(path.join(workspace, 'lib', 'new.ts'), 'utf8')).toBe('export {}\n')
+  })
+
+  it('should save only the picked hunks', async () => {
+    const original = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n'
+    fs.writeFileSync(path.join(workspace, 'app.ts'), original)
+    answer('p', 'n', 'y')
+
+    const result = await openDiff(
+      original.replace('line 1\n', 'first\n').replace('line 12', 'last'),
+    )
+
+    const expected = original.replace('line 12', 'last')
+    expect(result).toEqual([
+      { type: 'text', text: 'FILE_SAVED' },
+      { type: 'text', text: expected },
+    ])
+    expect(fs.readFileSync(path.join(workspace, 'app.ts'), 'utf8')).toBe(expected)
+  })
+
+  it('should close the REPL readline while hunks are picked and restore it afterwards', async () => {
+    const repl = { close: jest.fn() }
+    server.rl = repl
+    const restore = jest
+      .spyOn(server, 'createReadlineInterface')
+      .mockImplementation((onReady) => onReady?.())
+    // Apply the change by picking its only hunk, noting the readline when asked about the hunk
+    const readlineWhenAsked: unknown[] = []
+    const answers = ['p', 'y']
+    jest.spyOn(server, 'promptUser').mockImplementation(() => {
+      readlineWhenAsked.push(server.rl)
+      return Promise.resolve(answers.shift() ?? null)
+    })
+
+    await openDiff('const a = 2\n')
+
+    expect(repl.close).toHaveBeenCalled()
+    expect(readlineWhenAsked).toEqual([repl, null])
+    expect(restore).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return to the prompt when no hunks are picked', async () => {
+    answer('p', 'd', 'n')
+
+    const result = await openDiff('const a = 2\n')
+
+    expect(consoleSpy).toHaveBeenCalledWith('❌ No hunks selected')
+    expect(result[0].text).toBe('DIFF_REJECTED')
+  })
+
+  it('should read the file when the review of a queued proposal starts', async () => {
+    answer('y', 'n')
+
+    const first = openDiff('const a = 2\n')
+    const second = server.handleOpenDiff({
+      new_file_path: path.join(workspace, 'app.ts'),
+      new_file_contents: 'const a = 2\n',
+      tab_name: 'second',
+    })
+    await Promise.all([first, second])
+
+    expect(consoleSpy).toHaveBeenCalledWith('(no changes)')
+  })
+
+  it('should reject pending proposals when Claude closes all diff tabs', async () => {
+    let asked: () => void = () => {}
+    const prompted = new Promise<void>((resolve) => (asked = resolve))
+    jest.spyOn(server, 'promptUser').mockImplementation(
+      (_question, signal) =>
+        new Promise((resolve) => {
+          signal?.addEventListener('abort', () => resolve(null))
+          asked()
+        }),
+    )
+
+    const pending = openDiff('const a = 2\n')
+    await prompted
+
+    expect(server.handleCloseAllDiffTabs()).toBe('CLOSED_1_DIFF_TABS')
+    await expect(pending).resolves.toEqual([
+      { type: 'text', text: 'DIFF_REJECTED' },
+      { type: 'text', text: 'tab-app.ts' },
+    ])
+    expect(fs.readFileSync(path.join(workspace, 'app.ts'), 'utf8')).toBe('const a = 1\n')
+  })
+
+  it('should answer invalid open_diff arguments with an invalid params error', async () => {
+    const ws = { send: jest.fn<void, [string]>() }
+
+    await server.handleToolCall(ws as unknown as WebSocket, {
+      id: 7,
+      method: 'tools/call',
+      params: { name: 'open_diff', arguments: { new_file_path: path.join(workspace, 'app.ts') } },
+    })
+
+    expect(JSON.parse(ws.send.mock.calls[0][0])).toEqual({
+      jsonrpc: '2.0',
+      id: 7,
+      error: { code: -32602, message: 'Invalid arguments: new_file_contents: Required' },
+    })
+  })
+
+  it('should refuse proposals outside the workspace', async () => {
+    await expect(
+      server.handleOpenDiff({
+        old_file_path: '/etc/hosts',
+        new_file_path: '/etc/hosts',
+        new_file_contents: '',
+      }),
+    ).rejects.toThrow('outside the workspace')
+  })
+})
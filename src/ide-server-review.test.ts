@@ -0,0 +1,54 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { IDEServerInternals, createTestServer } from './ide-server.test-utils.js'
+
+describe('ClaudeTermIDEServer commit-by-commit review', () => {
+  let root: string
+  let repo: string
+  let server: IDEServerInternals
+  let consoleSpy: jest.SpyInstance
+
+  const git = (cwd: string, command: string) =>
+    execSync(`git ${command}`, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] })
+
+  const answer = (...answers: string[]) =>
+    jest
+      .spyOn(server, 'promptUser')
+      .mockImplementation(() => Promise.resolve(answers.shift() ?? null))
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-review-')))
+    git(root, 'init -q --bare -b main remote.git')
+    git(root, 'clone -q remote.git repo')
+    repo = path.join(root, 'repo')
+    git(repo, 'config user.email test@example.com')
+    git(repo, 'config user.name Test')
+    git(repo, 'commit -q --allow-empty -m Initial')
+    git(repo, 'push -q origin main')
+    git(repo, 'commit -q --allow-empty -m One')
+    git(repo, 'commit -q --allow-empty -m Two')
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation()
+
+    server = createTestServer({ workspaceFolder: repo })
+    jest.spyOn(server.gitReview, 'displaySingleCommitReview').mockResolvedValue()
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should review, rewrite and push the workspace repository, not the current directory', async () => {
+    answer('a', 'r', 'Two reworded')
+
+    const result = await server.reviewCommitByCommit('main')
+
+    expect(process.cwd()).not.toBe(repo)
+    expect(result).toMatchObject({ success: true, pushed: true })
+    expect(git(root, '--git-dir remote.git log --format=%s main')).toBe(
+      'Two reworded\nOne\nInitial\n',
+    )
+  })
+})
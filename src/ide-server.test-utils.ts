@@ -0,0 +1,41 @@
+// ide-server.test-utils.ts - Reach into ClaudeTermIDEServer from the ide-server-*.test.ts files
+
+import { IncomingMessage } from 'http'
+import { WebSocket } from 'ws'
+import { OpenDiffArgs, TextContent } from './diff-proposal.js'
+import { PushResult } from './git-push.js'
+import { ClaudeTermIDEServer, IDEServerOptions } from './ide-server.js'
+
+/**
+ * Private members of the server that the tests drive directly, as the terminal and the
+ * WebSocket server would
+ */
+export interface IDEServerInternals {
+  authToken: string
+  rl: { close(): void } | null
+  diffProposals: { isInstalled(command: string): Promise<boolean> }
+  gitReview: {
+    displaySingleCommitReview(commitHash: string, position: number, total: number): Promise<void>
+  }
+  verifyClient(
+    info: { origin: string; secure: boolean; req: unknown },
+    callback: (res: boolean, code?: number, message?: string) => void,
+  ): void
+  handleConnection(ws: WebSocket, request: IncomingMessage): void
+  handleToolCall(ws: WebSocket, message: unknown): Promise<void>
+  handleOpenDiff(args: OpenDiffArgs, clientId?: string): Promise<TextContent[]>
+  handleCloseAllDiffTabs(): string
+  processCommand(input: string): Promise<void>
+  reviewCommitByCommit(branch: string): Promise<PushResult | null>
+  promptUser(question: string, signal?: AbortSignal): Promise<string | null>
+  startInteractiveSession(): void
+  createReadlineInterface(onReady?: () => void): void
+  getPromptText(): string
+}
+
+/**
+ * Create a server for a test and expose its internals
+ */
+export function createTestServer(options: IDEServerOptions): IDEServerInternals {
+  return new ClaudeTermIDEServer(options) as unknown as IDEServerInternals
+}
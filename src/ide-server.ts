@@ -3,19 +3,104 @@
 import { WebSocketServer, WebSocket } from 'ws'
 import fs from 'fs'
 import path from 'path'
-import os from 'os'
-import { randomUUID } from 'crypto'
-import { execSync } from 'child_process'
+import { randomUUID, timingSafeEqual } from 'crypto'
 import * as readline from 'readline'
+import { ZodError } from 'zod'
 import { GitReviewManager } from './git-review.js'
-import { GitPushManager } from './git-push.js'
-import { GitCommandManager } from './git-command-manager.js'
+import { GitPushManager, PushResult } from './git-push.js'
+import {
+  GitRejectManager,
+  RejectResult,
+  describeRejectStrategies,
+  parseRejectStrategy,
+} from './git-reject.js'
+import {
+  CommitSeriesBuilder,
+  ReviewedCommit,
+  describeCommitDecisions,
+  describeSeriesPlan,
+  parseCommitDecision,
+  planSeries,
+} from './commit-series.js'
+import { GitCommandManager, GitOperationResult } from './git-command-manager.js'
+import { HunkStagingManager } from './hunk-staging.js'
+import { GitLogBrowser, LogBrowserFilter } from './git-log-browser.js'
+import { GitResourceRegistry, isGitResourceUri } from './git-resources.js'
+import { BlameLine, GitBlameManager, blameResource, formatBlameLine } from './git-blame.js'
+import { DiffSharingManager, parseSendDiffArgs } from './diff-sharing.js'
+import { ConflictHunk, ConflictResolutionManager } from './conflict-resolution.js'
+import { formatStatusDetails } from './git-status.js'
 import { GitCommandMapper, ArgValidator } from './git-command-mapping.js'
 import { FileDiscovery, FileInfo } from './file-discovery.js'
+import { PathPolicy, PathPolicyError, DEFAULT_DENIED_PATTERNS } from './path-policy.js'
+import {
+  DiffProposalManager,
+  OPEN_DIFF_ARGS,
+  OpenDiffArgs,
+  TextContent,
+  createUnifiedDiff,
+  diffRejectedResult,
+  fileSavedResult,
+} from './diff-proposal.js'
+import { editText } from './editor.js'
+import { CommitLintOptions } from './commit-message.js'
+import { ProcessError, ProcessRunner } from './process-runner.js'
+import { applyHunks, parseUnifiedDiff } from './diff-hunks.js'
+import {
+  ALL_CLIENTS,
+  ClientRegistry,
+  ConnectedClient,
+  ConnectionState,
+  describeClient,
+  parseTargetPrefix,
+} from './client-registry.js'
+import { PendingEventQueue } from './pending-events.js'
+import {
+  InternalMcpHost,
+  ToolRequestExtra,
+  startProgressHeartbeat,
+  throttledProgress,
+} from './internal-mcp.js'
+import { GitProgressListener, formatGitProgress } from './git-service.js'
+import {
+  GIT_STATUS_TOOL_DEFINITION,
+  REVIEW_PUSH_TOOL_DEFINITION,
+  ReviewPushArgs,
+  WORKING_TREE_REVIEW_TOOL_DEFINITION,
+  registerGitToolHandlers,
+} from './git-tools.js'
+import { WorkingTreeReviewManager, WorkingTreeReviewResult } from './working-tree-review.js'
+import {
+  ReviewDecision,
+  ReviewReport,
+  ReviewReportBuilder,
+  writeReviewReport,
+} from './review-report.js'
+import {
+  CLAUDE_TERM_LOCK_SUFFIX,
+  getIdeLockDir,
+  writeClaudeTermLock,
+  writeLockFile,
+} from './ide-discovery.js'
 import { debugLog, logMCPMessage, logWebSocketEvent } from './debug.js'
-import { Server } from '@modelcontextprotocol/sdk/server/index.js'
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
-import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { IncomingMessage } from 'http'
+import { fileURLToPath } from 'url'
+
+/**
+ * How strictly the lock-file auth token is enforced on incoming IDE connections:
+ * - strict: reject connections without a matching token at the WebSocket upgrade
+ * - warn: accept them, but print a warning
+ * - off: skip the check entirely
+ */
+export type AuthPolicy = 'strict' | 'warn' | 'off'
+
+export const AUTH_POLICIES: AuthPolicy[] = ['strict', 'warn', 'off']
+
+const AUTH_HEADER = 'x-claude-code-ide-authorization'
+
+type AuthCheckResult = 'valid' | 'missing' | 'mismatch'
 
 export interface IDEServerOptions {
   port?: number
@@ -24,37 +109,110 @@ export interface IDEServerOptions {
   debug?: boolean
   noWait?: boolean
   internalMcpPort?: number
+  authPolicy?: AuthPolicy
+  /** Extra directories Claude may access outside the workspace */
+  allowedRoots?: string[]
+  /** Glob patterns Claude may never access, in addition to DEFAULT_DENIED_PATTERNS */
+  deniedPatterns?: string[]
+  /** How long to queue events for Claude Code to reconnect (default: 60s) */
+  reconnectWindowMs?: number
+  /** Validate commit messages as Conventional Commits; no validation when unset */
+  commitLint?: CommitLintOptions
+}
+
+const CONNECTION_INDICATORS: Record<ConnectionState, string> = {
+  disconnected: '🔴',
+  connected: '🟡',
+  initialized: '🟢',
+}
+
+interface JsonRpcError {
+  code: number
+  message: string
+  data?: unknown
 }
 
 export class ClaudeTermIDEServer {
   private server: WebSocketServer | null = null
   private port: number = 0
   private lockFilePath: string = ''
+  private claudeTermLockPath: string = ''
   private authToken: string = ''
-  private connectedWS: WebSocket | null = null
+  private clients = new ClientRegistry()
+  private interactiveSessionStarted = false
+  private pendingEvents: PendingEventQueue
   private rl: readline.Interface | null = null
   private gitReview: GitReviewManager
   private gitPush: GitPushManager
+  private gitReject: GitRejectManager
+  private commitSeries: CommitSeriesBuilder
+  private workingTreeReview: WorkingTreeReviewManager
+  private reviewReports: ReviewReportBuilder
   private gitCommandManager: GitCommandManager
   private gitCommandMapper: GitCommandMapper
+  private logBrowser: GitLogBrowser
+  private gitBlame: GitBlameManager
+  private diffSharing: DiffSharingManager
+  private conflictResolution: ConflictResolutionManager
+  /** Commits, blame and diffs shared with Claude from /gl -i, /blame and /send-diff */
+  private gitResources = new GitResourceRegistry()
+  private runner: ProcessRunner
+  private diffProposals: DiffProposalManager
+  private hunkStaging: HunkStagingManager
   private waitingForApproval: boolean = false
   private fileDiscovery: FileDiscovery
+  private pathPolicy: PathPolicy
   private fileCache: FileInfo[] = []
   private cacheTimestamp: number = 0
   private readonly CACHE_TTL = 30000 // 30 seconds
 
   // Internal MCP Server for communication with standalone MCP
-  private internalMcpServer: Server | null = null
-  private internalHttpServer: any = null
+  private internalMcp: InternalMcpHost | null = null
   private internalMcpPort: number = 0
 
   constructor(private options: IDEServerOptions = {}) {
     this.authToken = randomUUID()
-    this.gitReview = new GitReviewManager()
-    this.gitPush = new GitPushManager()
+    this.gitReview = new GitReviewManager(this.options.workspaceFolder)
+    this.gitPush = new GitPushManager({ cwd: this.options.workspaceFolder })
+    this.gitReject = new GitRejectManager(this.options.workspaceFolder)
+    this.commitSeries = new CommitSeriesBuilder(this.options.workspaceFolder)
+    this.reviewReports = new ReviewReportBuilder(this.options.workspaceFolder)
+    this.logBrowser = new GitLogBrowser(this.options.workspaceFolder)
+    this.gitBlame = new GitBlameManager(this.options.workspaceFolder)
     this.gitCommandManager = new GitCommandManager(this.options.workspaceFolder)
-    this.gitCommandMapper = new GitCommandMapper(this.gitCommandManager)
+    this.runner = new ProcessRunner({ cwd: this.options.workspaceFolder })
+    this.gitCommandMapper = new GitCommandMapper(this.gitCommandManager, {
+      commitLint: this.options.commitLint,
+      editCommitMessage: (template) => this.withTerminal(() => editText(template)),
+      stageHunks: (paths) => this.stageHunks(paths),
+      browseLog: (filter) => this.browseLog(filter),
+      confirm: async (question) => {
+        const answer = (await this.promptUser(question))?.toLowerCase()
+        return answer === 'y' || answer === 'yes'
+      },
+    })
+    this.workingTreeReview = new WorkingTreeReviewManager(
+      this.gitCommandManager,
+      this.gitReview,
+      this.options.commitLint,
+    )
+    this.diffProposals = new DiffProposalManager(this.gitReview)
+    this.hunkStaging = new HunkStagingManager(this.gitCommandManager, this.diffProposals)
+    this.diffSharing = new DiffSharingManager(
+      this.gitCommandManager,
+      this.options.workspaceFolder || process.cwd(),
+    )
+    this.conflictResolution = new ConflictResolutionManager(
+      this.gitCommandManager,
+      this.options.workspaceFolder || process.cwd(),
+    )
+    this.pendingEvents = new PendingEventQueue(this.options.reconnectWindowMs)
     this.fileDiscovery = new FileDiscovery()
+    this.pathPolicy = new PathPolicy({
+      workspaceFolders: [this.options.workspaceFolder || process.cwd()],
+      allowedRoots: this.options.allowedRoots,
+      deniedPatterns: [...DEFAULT_DENIED_PATTERNS, ...(this.options.deniedPatterns || [])],
+    })
   }
 
   async start(): Promise<number> {
@@ -64,6 +222,7 @@ export class ClaudeTermIDEServer {
     // Create WebSocket server
     this.server = new WebSocketServer({
       port: this.options.port || 0, // Use 0 for dynamic port assignment
+      verifyClient: this.verifyClient.bind(this),
     })
 
     return new Promise((resolve, reject) => {
@@ -113,37 +272,94 @@ export class ClaudeTermIDEServer {
       authToken: this.authToken,
     }
 
-    const ideDir = path.join(os.homedir(), '.claude', 'ide')
-    if (!fs.existsSync(ideDir)) {
-      fs.mkdirSync(ideDir, { recursive: true })
+    this.lockFilePath = path.join(getIdeLockDir(), `${this.port}.lock`)
+    writeLockFile(this.lockFilePath, JSON.stringify(lockData))
+    console.log(`Lock file created: ${this.lockFilePath}`)
+
+    // Lets the stdio MCP server find this server's internal MCP endpoint by workspace
+    this.claudeTermLockPath = writeClaudeTermLock({
+      pid: process.pid,
+      port: this.port,
+      internalMcpPort: this.internalMcpPort,
+      authToken: this.authToken,
+      workspaceFolders: lockData.workspaceFolders,
+      ideName: lockData.ideName,
+      startedAt: Date.now(),
+    })
+  }
+
+  private get authPolicy(): AuthPolicy {
+    return this.options.authPolicy || 'strict'
+  }
+
+  private checkAuthHeader(header: string | string[] | undefined): AuthCheckResult {
+    if (!header || Array.isArray(header)) {
+      return 'missing'
+    }
+
+    const provided = Buffer.from(header)
+    const expected = Buffer.from(this.authToken)
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return 'mismatch'
     }
 
-    this.lockFilePath = path.join(ideDir, `${this.port}.lock`)
-    fs.writeFileSync(this.lockFilePath, JSON.stringify(lockData))
-    console.log(`Lock file created: ${this.lockFilePath}`)
+    return 'valid'
   }
 
-  private handleConnection(ws: WebSocket, request: any): void {
-    // Check for authentication header
-    const authHeader = request.headers['x-claude-code-ide-authorization']
-    if (authHeader && authHeader !== this.authToken) {
-      console.log("⚠️  Authentication header provided but doesn't match")
-    } else if (!authHeader) {
-      console.log('ℹ️  No authentication header provided')
-    } else {
+  // Runs during the HTTP upgrade, before the socket is handed to handleConnection
+  private verifyClient(
+    info: { origin: string; secure: boolean; req: IncomingMessage },
+    callback: (res: boolean, code?: number, message?: string) => void,
+  ): void {
+    if (this.authPolicy === 'off') {
+      callback(true)
+      return
+    }
+
+    const authResult = this.checkAuthHeader(info.req.headers[AUTH_HEADER])
+    if (authResult === 'valid' || this.authPolicy === 'warn') {
+      callback(true)
+      return
+    }
+
+    const reason = authResult === 'missing' ? 'missing auth token' : 'auth token mismatch'
+    console.log(`🚫 Rejected IDE connection: ${reason}`)
+    logWebSocketEvent('CLIENT_REJECTED', {
+      reason,
+      policy: this.authPolicy,
+      remoteAddress: info.req.socket.remoteAddress,
+      origin: info.origin,
+    })
+    callback(false, 401, 'Unauthorized')
+  }
+
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+    const authResult = this.checkAuthHeader(request.headers[AUTH_HEADER])
+    if (this.authPolicy === 'off') {
+      console.log('ℹ️  Authentication check disabled')
+    } else if (authResult === 'valid') {
       console.log('✅ Authentication header validated')
+    } else if (authResult === 'mismatch') {
+      console.log('⚠️  Authentication header doesn\'t match (accepted: auth policy is "warn")')
+    } else {
+      console.log('⚠️  No authentication header provided (accepted: auth policy is "warn")')
     }
 
-    console.log('Claude Code connected!')
-    this.connectedWS = ws
+    const client = this.clients.add(ws, request.socket.remoteAddress)
+    console.log(`Claude Code connected! (client #${client.id}, ${this.clients.size} connected)`)
 
     logWebSocketEvent('CLIENT_CONNECTED', {
-      authHeader: !!authHeader,
-      headerMatch: authHeader === this.authToken,
+      clientId: client.id,
+      authPolicy: this.authPolicy,
+      authResult,
     })
+    this.updatePrompt()
 
-    // Start interactive session
-    this.startInteractiveSession()
+    // One REPL serves every client; later connections reuse it
+    if (!this.interactiveSessionStarted) {
+      this.interactiveSessionStarted = true
+      this.startInteractiveSession()
+    }
 
     ws.on('message', async (data: Buffer) => {
       try {
@@ -157,9 +373,12 @@ export class ClaudeTermIDEServer {
         if (message.method === 'initialize') {
           this.handleInitialize(ws, message)
         } else if (message.method === 'notifications/initialized') {
-          // Claude Code initialization complete - show prompt
+          // Claude Code initialization complete - deliver queued events and show prompt
+          client.state = 'initialized'
           console.log('\n✅ Claude Code ready! Type /help for commands')
-          process.stdout.write('> ')
+          this.flushPendingEvents(client)
+          this.updatePrompt()
+          this.rl?.prompt()
         } else if (message.method === 'tools/list') {
           this.handleToolsList(ws, message)
         } else if (message.method?.startsWith('tools/')) {
@@ -181,17 +400,41 @@ export class ClaudeTermIDEServer {
     })
 
     ws.on('close', () => {
-      console.log('👋 Claude Code disconnected')
-      logWebSocketEvent('CLIENT_DISCONNECTED')
+      this.clients.remove(ws)
+      console.log(
+        `\n👋 Claude Code disconnected (client #${client.id}, ${this.clients.size} still connected)`,
+      )
+      logWebSocketEvent('CLIENT_DISCONNECTED', { clientId: client.id })
+
+      // Nobody is left to receive the answers to its proposals
+      const dropped = this.diffProposals.cancelForClient(client.id)
+      if (dropped > 0) {
+        console.log(`🗂️  Dropped ${dropped} diff proposal(s) of client #${client.id}`)
+      }
+
+      if (this.clients.size === 0) {
+        this.pendingEvents.markDisconnected()
+        console.log(
+          `⏳ Events sent in the next ${this.pendingEvents.windowSeconds}s will be queued until Claude reconnects`,
+        )
+      }
+      this.updatePrompt()
+      this.rl?.prompt()
     })
 
     ws.on('error', (error) => {
-      console.error('🔥 WebSocket error:', error)
-      logWebSocketEvent('CLIENT_ERROR', { error: error.message })
+      console.error(`🔥 WebSocket error (client #${client.id}):`, error)
+      logWebSocketEvent('CLIENT_ERROR', { clientId: client.id, error: error.message })
     })
   }
 
   private handleInitialize(ws: WebSocket, message: any): void {
+    const client = this.clients.findBySocket(ws)
+    if (client && message.params?.clientInfo) {
+      client.name = message.params.clientInfo.name
+      client.version = message.params.clientInfo.version
+    }
+
     const response = {
       jsonrpc: '2.0',
       id: message.id,
@@ -303,13 +546,15 @@ export class ClaudeTermIDEServer {
           },
           {
             name: 'open_diff',
-            description: 'Open diff view',
+            description:
+              'Show proposed changes in the terminal and wait for the user to accept, reject or edit them',
             inputSchema: {
               type: 'object',
               properties: {
                 old_file_path: { type: 'string' },
                 new_file_path: { type: 'string' },
                 new_file_contents: { type: 'string' },
+                tab_name: { type: 'string' },
               },
               required: ['old_file_path', 'new_file_path', 'new_file_contents'],
             },
@@ -360,11 +605,16 @@ export class ClaudeTermIDEServer {
     const params = message.params || {}
 
     try {
-      let result: any
+      let result: string | TextContent[]
 
       if (method === 'tools/call' && params.name === 'open_diff') {
-        // Handle Claude Code's open_diff tool call
-        result = this.handleOpenDiff(params.arguments)
+        // Handle Claude Code's open_diff tool call - resolves once the user decides
+        result = await this.handleOpenDiff(
+          OPEN_DIFF_ARGS.parse(params.arguments),
+          this.clients.findBySocket(ws)?.id,
+        )
+      } else if (method === 'tools/call' && params.name === 'close_all_diff_tabs') {
+        result = this.handleCloseAllDiffTabs()
       } else if (method === 'tools/call' && params.name === 'review_push') {
         // Handle Claude Code's review_push tool call
         result = await this.handleReviewPushTool(params.arguments)
@@ -390,7 +640,7 @@ export class ClaudeTermIDEServer {
       const response = {
         jsonrpc: '2.0',
         id: message.id,
-        result: { content: [{ type: 'text', text: result }] },
+        result: { content: typeof result === 'string' ? [{ type: 'text', text: result }] : result },
       }
 
       logMCPMessage('SEND', response)
@@ -399,10 +649,7 @@ export class ClaudeTermIDEServer {
       const errorResponse = {
         jsonrpc: '2.0',
         id: message.id,
-        error: {
-          code: -32000,
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
+        error: this.toJsonRpcError(error),
       }
 
       logMCPMessage('SEND', errorResponse)
@@ -410,6 +657,27 @@ export class ClaudeTermIDEServer {
     }
   }
 
+  private toJsonRpcError(error: unknown): JsonRpcError {
+    if (error instanceof PathPolicyError) {
+      console.log(`🛡️  ${error.message}`)
+      debugLog('POLICY', 'Path access denied', error.data)
+      return { code: error.code, message: error.message, data: error.data }
+    }
+    if (error instanceof ZodError) {
+      return {
+        code: -32602,
+        message: `Invalid arguments: ${error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join(', ')}`,
+      }
+    }
+
+    return {
+      code: -32000,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+
   private handleResourceCall(ws: WebSocket, message: any): void {
     const method = message.method
     const params = message.params || {}
@@ -439,10 +707,7 @@ export class ClaudeTermIDEServer {
       const errorResponse = {
         jsonrpc: '2.0',
         id: message.id,
-        error: {
-          code: -32000,
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
+        error: this.toJsonRpcError(error),
       }
 
       logMCPMessage('SEND', errorResponse)
@@ -459,14 +724,27 @@ export class ClaudeTermIDEServer {
       mimeType: 'text/plain',
       description: `Active file: ${path.relative(this.options.workspaceFolder || process.cwd(), filePath)}`,
     }))
+    const gitResources = this.gitResources
+      .list()
+      .map(({ uri, name, mimeType, description }) => ({ uri, name, mimeType, description }))
 
-    return { resources }
+    return { resources: [...resources, ...gitResources] }
   }
 
   private readResource(uri: string): any {
+    if (isGitResourceUri(uri)) {
+      const resource = this.gitResources.get(uri)
+      if (!resource) {
+        throw new Error(`Unknown resource: ${uri}`)
+      }
+      return { contents: [{ uri, mimeType: resource.mimeType, text: resource.text }] }
+    }
+
+    const filePath = uri.startsWith('file://') ? fileURLToPath(uri) : uri
+    const fullPath = this.pathPolicy.resolve(filePath)
+
     try {
-      const filePath = uri.replace('file://', '')
-      const content = fs.readFileSync(filePath, 'utf8')
+      const content = fs.readFileSync(fullPath, 'utf8')
 
       return {
         contents: [
@@ -483,29 +761,22 @@ export class ClaudeTermIDEServer {
   }
 
   private readFile(filePath: string): string {
-    const fs = require('fs')
-    const path = require('path')
-
-    const fullPath = path.resolve(this.options.workspaceFolder || process.cwd(), filePath)
+    const fullPath = this.pathPolicy.resolve(filePath)
     return fs.readFileSync(fullPath, 'utf8')
   }
 
   // Legacy method - now using writeFileWithDiff
 
   private listFiles(dirPath: string): string {
-    const fs = require('fs')
-    const path = require('path')
-
-    const fullPath = path.resolve(this.options.workspaceFolder || process.cwd(), dirPath)
-    const files = fs.readdirSync(fullPath)
+    const fullPath = this.pathPolicy.resolve(dirPath)
+    const files = fs
+      .readdirSync(fullPath)
+      .filter((file) => this.pathPolicy.isAllowed(path.join(fullPath, file)))
     return files.join('\n')
   }
 
   private writeFileWithDiff(filePath: string, newContent: string): string {
-    const fs = require('fs')
-    const path = require('path')
-
-    const fullPath = path.resolve(this.options.workspaceFolder || process.cwd(), filePath)
+    const fullPath = this.pathPolicy.resolve(filePath)
 
     // Simply write the file without showing diff
     // Diff review is now handled by /review-push command
@@ -529,7 +800,7 @@ export class ClaudeTermIDEServer {
       input: process.stdin,
       output: process.stdout,
       completer: this.completeCommand.bind(this),
-      prompt: '> ',
+      prompt: this.getPromptText(),
     })
 
     this.rl.on('line', async (input) => {
@@ -547,6 +818,11 @@ export class ClaudeTermIDEServer {
       process.exit(0)
     })
 
+    // Branch and stash names for tab completion of /gco, /gb and /gst
+    if (this.isGitRepository()) {
+      void this.gitCommandMapper.refreshCompletions()
+    }
+
     // Show initial prompt
     this.rl.prompt()
   }
@@ -555,40 +831,54 @@ export class ClaudeTermIDEServer {
     const coreCommands = [
       '/help',
       '/send ',
+      '/send-diff',
       '/cat ',
+      '/blame ',
       '/search ',
       '/active',
+      '/clients',
       '/quit',
+      '/review',
       '/review-push',
       '/rp',
+      '/undo-reject',
+      '/conflicts',
     ]
 
+    // Git commands that take an argument get a space, ready for file or branch completion
+    const withArgumentSpace = (cmd: string) =>
+      ['/ga', '/gco', '/grs'].includes(cmd) ? `${cmd} ` : cmd
+
     // Build complete command list with git commands if in git repository
     const commands = [...coreCommands]
     
     if (this.isGitRepository()) {
       const gitCommands = this.gitCommandMapper.getCompletions('')
       gitCommands.forEach(cmd => {
-        if (cmd === '/ga') {
-          commands.push('/ga ')  // Add space for file completion
-        } else {
-          commands.push(cmd)
-        }
+        commands.push(withArgumentSpace(cmd))
       })
     }
 
-    // If we have file path completion for /cat, /send, or /ga
-    if (line.startsWith('/cat ') || line.startsWith('/send ') || line.startsWith('/ga ')) {
+    // If we have file path completion for /cat, /blame, /send, /send-diff, /conflicts, /ga or /grs
+    if (/^\/(cat|blame|send|send-diff|conflicts|ga|grs) /.test(line)) {
       const parts = line.split(' ')
       if (parts.length >= 2) {
-        const pathPrefix = parts.slice(1).join(' ')
+        // /grs --staged <path> and /ga -p <path>: the flag belongs to the command, not the path
+        const flags: Record<string, string | undefined> = {
+          '/grs': '--staged',
+          '/send-diff': '--staged',
+          '/ga': '-p',
+        }
+        const flag = flags[parts[0]]
+        const pathStart = flag && parts[1] === flag && parts.length > 2 ? 2 : 1
+        const pathPrefix = parts.slice(pathStart).join(' ')
         const fileHits = this.getFileCompletionsSync(pathPrefix)
 
         if (fileHits.length === 0) {
           return [[], line]
         }
 
-        const commandPrefix = parts[0] + ' '
+        const commandPrefix = parts.slice(0, pathStart).join(' ') + ' '
 
         // Find common prefix for auto-completion
         if (fileHits.length === 1) {
@@ -611,10 +901,12 @@ export class ClaudeTermIDEServer {
     // Check if this is a git command prefix being typed
     if (line.startsWith('/g') && line.length > 1) {
       const gitHits = this.gitCommandMapper.getCompletions(line)
+      // Branch and stash arguments: complete lines, and nothing else matches
+      if (line.includes(' ')) {
+        return [gitHits, line]
+      }
       if (gitHits.length > 0) {
-        // Add space for /ga command to enable file completion
-        const processedHits = gitHits.map(cmd => cmd === '/ga' ? '/ga ' : cmd)
-        return [processedHits, line]
+        return [gitHits.map(withArgumentSpace), line]
       }
     }
 
@@ -816,32 +1108,61 @@ export class ClaudeTermIDEServer {
       process.exit(0)
     } else if (trimmed === '/active') {
       this.showActiveFiles()
+    } else if (trimmed === '/clients' || trimmed.startsWith('/clients ')) {
+      this.handleClientsCommand(trimmed.substring(8).trim())
     } else if (trimmed.startsWith('/cat ')) {
-      const filePath = trimmed.substring(5).trim()
+      const { target, rest: filePath } = parseTargetPrefix(trimmed.substring(5).trim())
       if (filePath) {
-        await this.displayFileInteractive(path.resolve(workspaceFolder, filePath))
+        await this.displayFileInteractive(path.resolve(workspaceFolder, filePath), target)
       } else {
-        console.log('Usage: /cat <path>')
+        console.log('Usage: /cat [@<client>|@all] <path>')
         console.log('Interactive selection mode enabled - select text to send to Claude')
       }
+    } else if (trimmed.startsWith('/blame ')) {
+      const { target, rest: filePath } = parseTargetPrefix(trimmed.substring(7).trim())
+      if (filePath) {
+        await this.displayFileInteractive(path.resolve(workspaceFolder, filePath), target, true)
+      } else {
+        console.log('Usage: /blame [@<client>|@all] <path>')
+      }
     } else if (trimmed.startsWith('/search ')) {
       const pattern = trimmed.substring(9).trim()
       if (pattern) {
-        this.searchCode(pattern, workspaceFolder)
+        await this.searchCode(pattern, workspaceFolder)
       } else {
         console.log('Usage: /search <pattern>')
       }
+    } else if (trimmed === '/send-diff' || trimmed.startsWith('/send-diff ')) {
+      await this.sendDiff(trimmed.substring(10).trim())
     } else if (trimmed.startsWith('/send ')) {
-      const filePath = trimmed.substring(6).trim()
-      if (filePath && this.connectedWS) {
-        this.sendFileToClient(path.resolve(workspaceFolder, filePath))
-      } else if (!this.connectedWS) {
+      const { target, rest: filePath } = parseTargetPrefix(trimmed.substring(6).trim())
+      const canSend = this.clients.size > 0 || this.pendingEvents.isWaitingForReconnect()
+      if (filePath && canSend) {
+        this.sendFileToClient(path.resolve(workspaceFolder, filePath), target)
+      } else if (!canSend) {
         console.log('No Claude Code client connected')
       } else {
-        console.log('Usage: /send <path>')
+        console.log('Usage: /send [@<client>|@all] <path>')
       }
-    } else if (trimmed === '/review-push' || trimmed === '/rp') {
-      await this.handleReviewPushCommand()
+    } else if (trimmed === '/review') {
+      await this.handleReviewCommand()
+    } else if (/^\/(review-push|rp)(\s|$)/.test(trimmed)) {
+      const args = trimmed.replace(/^\S+\s*/, '')
+      const exportMatch = args.match(/^--export\s+(.+)$/)
+      if (args && !exportMatch) {
+        console.log('Usage: /review-push [--export <report.md|report.html>]')
+      } else {
+        await this.handleReviewPushCommand(exportMatch?.[1])
+      }
+    } else if (trimmed === '/undo-reject') {
+      await this.handleUndoRejectCommand()
+    } else if (trimmed === '/conflicts' || trimmed.startsWith('/conflicts ')) {
+      const files = trimmed
+        .substring(10)
+        .trim()
+        .split(/\s+/)
+        .filter((file) => file)
+      await this.handleConflictsCommand(files)
     } else if (ArgValidator.isValidGitCommand(trimmed.split(' ')[0])) {
       // Handle git commands
       await this.handleGitCommand(trimmed)
@@ -857,9 +1178,16 @@ export class ClaudeTermIDEServer {
     
     console.log('\n🔧 File Operations:')
     console.log('  /send <path>     - Send file to Claude directly')
+    console.log('  /send-diff [--staged] [<path|range>] - Share a diff with Claude as a resource')
     console.log('  /cat <path>      - Display file interactively, select text to send to Claude')
+    console.log("  /blame <path>    - Like /cat, with each line's commit, author and age")
     console.log('  /search <pattern> - Search code with ripgrep')
     console.log('  /active          - Show active files (resources)')
+
+    console.log('\n🔌 Clients:')
+    console.log('  /clients         - List connected Claude Code clients')
+    console.log('  /clients <id|all|latest> - Choose where /send and /cat selections go')
+    console.log('  /send @<id|all> <path> - Target one command at a client or all clients')
     
     console.log('\n🔄 Git Integration:')
     const isGitRepo = this.isGitRepository()
@@ -873,20 +1201,27 @@ export class ClaudeTermIDEServer {
       console.log(gitHelp)
     } else {
       console.log('  ❌ Not a git repository - run "git init" to enable git commands')
-      console.log('  📝 Once initialized, use /gs, /gd, /gl, /gb, /ga, /gc commands')
+      console.log(
+        '  📝 Once initialized, use /gs, /gd, /gl, /gb, /ga, /gc, /gco, /gst, /grs commands',
+      )
     }
     
     console.log('\n🚀 Advanced:')
+    console.log('  /review          - Review uncommitted changes: stage, discard or keep each file')
     console.log('  /review-push (/rp) - Review unpushed commits and approve/reject for push')
+    console.log('    --export <file>  - Also write a Markdown (.md) or HTML (.html) review report')
+    console.log('  /undo-reject      - Restore the commits of the last rejected review')
+    console.log('  /conflicts [<path...>] - Resolve merge conflicts (ours/theirs/both/ask Claude)')
     
     console.log('\n❓ Help & Control:')
     console.log('  /help            - Show this help message')
     console.log('  /quit            - Stop the server and exit')
     
     console.log('\n💡 Tips:')
-    console.log('  • Use Tab completion for file paths and commands')
+    console.log('  • Use Tab completion for file paths, commands, branches and stashes')
     console.log('  • Git commands integrate seamlessly with existing workflow')
     console.log('  • Use /review-push for safe collaborative development')
+    console.log('  • /gl -i shares the commits you pick with Claude; /active lists them')
   }
 
   private async handleGitCommand(input: string): Promise<void> {
@@ -934,6 +1269,120 @@ export class ClaudeTermIDEServer {
     return this.gitCommandManager.isGitRepository()
   }
 
+  /**
+   * /gl -i: browse the history in fzf and share the chosen commits with Claude as
+   * git-commit:// resources
+   */
+  private async browseLog(filter: LogBrowserFilter): Promise<GitOperationResult> {
+    const entries = await this.logBrowser.listCommits(filter)
+    if (entries.length === 0) {
+      return { success: false, message: 'No commits match the filter' }
+    }
+
+    // fzf reads the keyboard from the terminal, so readline must not read it too
+    const wasReadlineActive = !!this.rl
+    if (this.rl) {
+      this.rl.close()
+      this.rl = null
+    }
+
+    let hashes: string[] | null
+    try {
+      hashes = await this.logBrowser.pick(entries)
+    } catch (error) {
+      if (error instanceof ProcessError && error.reason === 'not_found') {
+        return {
+          success: false,
+          message:
+            'fzf not available - install it with brew install fzf (macOS) or apt install fzf (Ubuntu)',
+        }
+      }
+      throw error
+    } finally {
+      if (wasReadlineActive) {
+        this.createReadlineInterface()
+      }
+    }
+
+    if (!hashes || hashes.length === 0) {
+      return { success: true, message: '↩️  No commits selected' }
+    }
+
+    const resources = await Promise.all(hashes.map((hash) => this.logBrowser.commitResource(hash)))
+    resources.forEach((resource) => this.gitResources.add(resource))
+    return { success: true, message: this.announceGitResources(resources.map(({ uri }) => uri)) }
+  }
+
+  /**
+   * /send-diff: share the unstaged or staged changes, or a commit range, as a git-diff:// resource
+   */
+  private async sendDiff(argsText: string): Promise<void> {
+    const args = parseSendDiffArgs(argsText.split(/\s+/).filter((arg) => arg))
+    if (!args) {
+      console.log('Usage: /send-diff [--staged] [<path> | <range> | <commit>]')
+      return
+    }
+    if (!this.isGitRepository()) {
+      console.log('❌ Not a git repository')
+      return
+    }
+
+    try {
+      const resource = await this.diffSharing.buildResource(args)
+      if (!resource) {
+        console.log(
+          `📭 No ${args.staged ? 'staged ' : ''}changes to send${args.target ? ` in ${args.target}` : ''}`,
+        )
+        return
+      }
+
+      this.gitResources.add(resource)
+      console.log(`📝 ${resource.description}`)
+      console.log(this.announceGitResources([resource.uri]))
+    } catch (error) {
+      console.log(`❌ ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Tell the clients that shared git resources were added
+   * @returns What to show the user
+   */
+  private announceGitResources(uris: string[]): string {
+    const notification = {
+      jsonrpc: '2.0',
+      method: 'notifications/resources/list_changed',
+      params: {},
+    }
+
+    const shared = uris.map((uri) => `  ${uri}`).join('\n')
+    if (this.clients.resolve().length > 0) {
+      logMCPMessage('SEND', notification)
+      this.clients.send(notification)
+    } else if (!this.queueWhileDisconnected(notification, `${uris.length} resource(s)`)) {
+      return `📋 Saved ${uris.length} resource(s) - Claude can read them once connected:\n${shared}`
+    }
+
+    return `📤 Shared ${uris.length} resource(s) with Claude:\n${shared}\n💡 Ask Claude about them, e.g. "why did this change?"`
+  }
+
+  /**
+   * /ga -p: pick hunks in fzf (or one by one) and show what ended up staged
+   */
+  private async stageHunks(paths: string[]): Promise<GitOperationResult> {
+    const result = await this.withTerminal(() =>
+      this.hunkStaging.stageHunks(paths, (question) => this.promptUser(question)),
+    )
+    if (!result.success) {
+      return { success: false, message: result.message }
+    }
+
+    return {
+      success: true,
+      message: `✅ ${result.message}\n\n${await this.diffProposals.renderDiff(result.stagedDiff)}`,
+    }
+  }
+
   private provideGitCommandHints(command: string, error: string): void {
     // Provide helpful hints based on common git errors
     if (error.includes('nothing to commit')) {
@@ -944,11 +1393,143 @@ export class ClaudeTermIDEServer {
       console.log('💡 Hint: Check if files exist. Use /search <pattern> to find files')
     } else if (command === '/gc' && error.includes('Nothing staged')) {
       console.log('💡 Hint: Stage files first with /ga <file>, then create commit')
+    } else if (command === '/gc' && error.includes('Conventional Commits')) {
+      console.log('💡 Hint: Use <type>(<scope>): <subject>, or run /gc alone to edit the message')
+    } else if (command === '/gco' && error.includes('uncommitted changes')) {
+      console.log(
+        '💡 Hint: Stash them with /gst or commit them with /gc, or take them along with /gco -f',
+      )
+    } else if (error.includes('CONFLICT') || error.includes('conflict')) {
+      console.log('💡 Hint: Resolve the conflicts with /conflicts')
+    }
+  }
+
+  private async handleReviewCommand(): Promise<void> {
+    // The pager and the per-file prompts need the terminal to themselves
+    const wasReadlineActive = !!this.rl
+    if (this.rl) {
+      this.rl.close()
+      this.rl = null
+    }
+
+    try {
+      const result = await this.workingTreeReview.reviewWorkingTree((question) =>
+        this.promptUser(question),
+      )
+      this.printWorkingTreeReviewResult(result)
+    } catch (error) {
+      console.error('❌ Failed to review changes:', error instanceof Error ? error.message : error)
+    } finally {
+      if (wasReadlineActive) {
+        this.createReadlineInterface()
+      }
+    }
+  }
+
+  /**
+   * /conflicts: pick a side for each conflict, or send it to Claude, and mark files resolved
+   * @param files - Files to resolve (default: every conflicted file)
+   */
+  private async handleConflictsCommand(files: string[]): Promise<void> {
+    if (!this.isGitRepository()) {
+      console.log('❌ Not a git repository')
+      return
+    }
+
+    // The prompts need the terminal to themselves
+    const wasReadlineActive = !!this.rl
+    if (this.rl) {
+      this.rl.close()
+      this.rl = null
+    }
+
+    const workspaceFolder = this.options.workspaceFolder || process.cwd()
+    try {
+      const result = await this.conflictResolution.resolveConflicts(
+        (question) => this.promptUser(question),
+        (file, hunk) => this.sendConflictToClaude(file, hunk),
+        files.length > 0
+          ? files.map((file) => path.relative(workspaceFolder, path.resolve(workspaceFolder, file)))
+          : undefined,
+      )
+      if (result.cancelled) {
+        console.log(`\n📋 ${result.message}`)
+      } else {
+        console.log(`\n✅ ${result.message}`)
+      }
+      if (result.resolved.length > 0 && result.remaining.length === 0) {
+        console.log('💡 Continue with /gc, or git rebase --continue / git merge --continue')
+      }
+    } catch (error) {
+      console.error(
+        '❌ Failed to resolve conflicts:',
+        error instanceof Error ? error.message : error,
+      )
+    } finally {
+      if (wasReadlineActive) {
+        this.createReadlineInterface()
+      }
+    }
+  }
+
+  /**
+   * Select a conflict in Claude Code, so the user can ask Claude how to resolve it
+   * @returns Whether the selection was sent or queued
+   */
+  private async sendConflictToClaude(file: string, hunk: ConflictHunk): Promise<boolean> {
+    const filePath = path.resolve(this.options.workspaceFolder || process.cwd(), file)
+    const content = await fs.promises.readFile(filePath, 'utf8')
+    const lines = content.split('\n')
+    const selectionMessage = {
+      jsonrpc: '2.0',
+      method: 'selection_changed',
+      params: {
+        filePath,
+        selection: {
+          start: { line: hunk.start, character: 0 },
+          end: { line: hunk.end, character: lines[hunk.end]?.length || 0 },
+        },
+        text: content,
+        selectedText: lines.slice(hunk.start, hunk.end + 1).join('\n'),
+      },
+    }
+
+    if (this.clients.resolve().length === 0) {
+      if (this.queueWhileDisconnected(selectionMessage, `${file}:${hunk.start + 1}`)) {
+        return true
+      }
+      console.error('❌ No Claude Code connection available')
+      return false
+    }
+
+    logMCPMessage('SEND', selectionMessage)
+    this.clients.send(selectionMessage)
+    return true
+  }
+
+  private printWorkingTreeReviewResult(result: WorkingTreeReviewResult): void {
+    if (result.cancelled) {
+      console.log(`\n📋 ${result.message}`)
+    } else if (result.success) {
+      console.log(`\n✅ ${result.message}`)
+    } else {
+      console.error(`\n❌ ${result.message}`)
     }
   }
 
-  private async handleReviewPushCommand(): Promise<void> {
+  /**
+   * @param exportPath - Also write a Markdown/HTML review report here (`--export <file>`)
+   */
+  private async handleReviewPushCommand(exportPath?: string): Promise<void> {
+    const reportPath = exportPath ? this.resolveReportPath(exportPath) : undefined
+    if (reportPath === null) {
+      return
+    }
+
     try {
+      // Collect the report before the decision can rewrite or reset the commits
+      const report = reportPath ? await this.reviewReports.collect() : undefined
+
       // Completely close readline during less operation
       const wasReadlineActive = !!this.rl
       if (this.rl) {
@@ -959,7 +1540,7 @@ export class ClaudeTermIDEServer {
       await this.gitReview.displayCommitReview()
 
       // Get current branch for prompt
-      const currentBranch = execSync('git branch --show-current', { encoding: 'utf8' }).trim()
+      const currentBranch = await this.runner.git(['branch', '--show-current'])
 
       // Use a simple question approach without recreating full readline
       this.waitingForApproval = true
@@ -971,12 +1552,16 @@ export class ClaudeTermIDEServer {
       })
 
       questionInterface.question(
-        `\n❓ push to origin/${currentBranch}? (y/n): `,
+        `\n❓ push ${currentBranch}? (y/n, c to review commit by commit): `,
         async (answer) => {
           questionInterface.close()
 
-          // Process the answer
-          await this.handleApprovalChoice(answer.trim())
+          // Process the answer (normalized once, so the report records what was done)
+          const choice = answer.trim().toLowerCase()
+          const outcome = await this.handleApprovalChoice(choice)
+          if (report && reportPath) {
+            await this.exportReviewReport(report, reportPath, reviewDecisionFor(choice), outcome)
+          }
 
           // Recreate the main readline interface after processing
           if (wasReadlineActive) {
@@ -995,7 +1580,43 @@ export class ClaudeTermIDEServer {
     }
   }
 
-  private createReadlineInterface(): void {
+  /**
+   * Run something that reads the keyboard itself (an editor, fzf) with the REPL readline
+   * closed, so typed keys don't also run commands; the REPL comes back afterwards, also on errors
+   */
+  private async withTerminal<T>(run: () => Promise<T>): Promise<T> {
+    const wasReadlineActive = !!this.rl
+    if (this.rl) {
+      this.rl.close()
+      this.rl = null
+    }
+
+    try {
+      return await run()
+    } finally {
+      if (wasReadlineActive) {
+        // Wait for it, so a prompt that follows uses it instead of a second readline
+        await new Promise<void>((resolve) => this.createReadlineInterface(resolve))
+      }
+    }
+  }
+
+  /**
+   * Recreate the REPL readline if a workflow closed it, or show the prompt again if it is open
+   * @param wasReadlineActive - Whether the REPL was running when the workflow started
+   */
+  private restoreReadline(wasReadlineActive: boolean): void {
+    if (wasReadlineActive && !this.rl) {
+      this.createReadlineInterface()
+    } else if (this.rl) {
+      this.rl.prompt()
+    }
+  }
+
+  /**
+   * @param onReady - Called once the interface exists
+   */
+  private createReadlineInterface(onReady?: () => void): void {
     // Properly drain any pending input before creating new readline
     if (process.stdin.readable && !process.stdin.readableEnded) {
       // Read and discard any buffered input
@@ -1016,7 +1637,7 @@ export class ClaudeTermIDEServer {
         input: process.stdin,
         output: process.stdout,
         completer: this.completeCommand.bind(this),
-        prompt: '> ',
+        prompt: this.getPromptText(),
       })
 
       this.rl.on('line', async (input) => {
@@ -1040,10 +1661,14 @@ export class ClaudeTermIDEServer {
       if (!this.waitingForApproval) {
         this.rl.prompt()
       }
+      onReady?.()
     }, 100)
   }
 
-  private async handleApprovalChoice(choice: string): Promise<void> {
+  /**
+   * @returns What came of the choice (e.g. the push result), for the review report
+   */
+  private async handleApprovalChoice(choice: string): Promise<string | undefined> {
     this.waitingForApproval = false
 
     try {
@@ -1051,11 +1676,11 @@ export class ClaudeTermIDEServer {
         console.log('\n🚀 Initiating push workflow...')
 
         // Get current branch name
-        const currentBranch = execSync('git branch --show-current', {
-          encoding: 'utf8',
-        }).trim()
+        const currentBranch = await this.runner.git(['branch', '--show-current'])
 
-        const pushResult = await this.gitPush.autoPushFlow(currentBranch, true)
+        const pushResult = await this.gitPush.autoPushFlow(currentBranch, true, (question) =>
+          this.promptUser(question),
+        )
 
         if (pushResult.success && pushResult.pushed) {
           console.log(`\n🎉 ${pushResult.message}`)
@@ -1064,86 +1689,121 @@ export class ClaudeTermIDEServer {
         } else {
           console.error(`\n❌ ${pushResult.message}`)
         }
-      } else if (choice === 'n' || choice === 'no') {
-        console.log('\n🔄 Rejecting commit and undoing...')
-
-        try {
-          // Get unpushed commit count to reset
-          const unpushedCount = await this.gitReview.getUnpushedCommitCount()
-
-          if (unpushedCount === 0) {
-            console.log('⚠️  No unpushed commits to undo.')
-            return
-          }
-
-          // Show current commit hash before reset
-          const currentCommit = execSync('git rev-parse HEAD', { encoding: 'utf8' }).trim()
-          console.log(`📍 Current commit: ${currentCommit.substring(0, 8)}`)
-          console.log(
-            `🔄 Undoing ${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''}...`,
-          )
-
-          // Reset to before unpushed commits but keep changes in working directory
-          const resetCommand = `git reset --soft HEAD~${unpushedCount}`
-          console.log(`🔧 Executing: ${resetCommand}`)
-          const resetResult = execSync(resetCommand, {
-            encoding: 'utf8',
-          })
-          console.log(`✅ Reset soft result: ${resetResult || 'Success (no output)'}`)
-
-          // Unstage all changes
-          console.log('🔧 Executing: git reset')
-          const unstageResult = execSync('git reset', {
-            encoding: 'utf8',
-          })
-          console.log(`✅ Unstage result: ${unstageResult || 'Success (no output)'}`)
+        return pushResult.message
+      } else if (choice === 'c') {
+        const currentBranch = await this.runner.git(['branch', '--show-current'])
 
-          // Show final status
-          const finalCommit = execSync('git rev-parse HEAD', { encoding: 'utf8' }).trim()
-          console.log(`📍 Final commit: ${finalCommit.substring(0, 8)}`)
+        const pushResult = await this.reviewCommitByCommit(currentBranch)
 
-          console.log(
-            `✅ ${unpushedCount} commit${unpushedCount > 1 ? 's' : ''} undone successfully`,
-          )
-          console.log('📝 Changes remain in working directory (unstaged)')
-        } catch (error) {
-          console.error('❌ Failed to undo commit:', error instanceof Error ? error.message : error)
+        if (pushResult === null) {
+          console.log('\n📋 Review cancelled - nothing was pushed')
+          return 'Review cancelled - nothing was pushed'
+        } else if (pushResult.success && pushResult.pushed) {
+          console.log(`\n🎉 ${pushResult.message}`)
+        } else if (pushResult.success && !pushResult.pushed) {
+          console.log(`\n📋 ${pushResult.message}`)
+        } else {
+          console.error(`\n❌ ${pushResult.message}`)
         }
+        return pushResult.message
+      } else if (choice === 'n' || choice === 'no') {
+        console.log('\n🔄 Rejecting unpushed commits...')
+        const result = await this.rejectUnpushedCommits()
+        if (result === null) {
+          console.log('📋 Rejection cancelled - commits left unchanged')
+          return 'Rejection cancelled - commits left unchanged'
+        }
+        return result.message
       } else {
-        console.log('❌ Invalid choice. Please enter y or n.')
+        console.log('❌ Invalid choice. Please enter y, n or c.')
         console.log('📋 Approval cancelled. Use "/rp" again to retry.')
       }
     } catch (error) {
       console.error('❌ Approval process failed:', error instanceof Error ? error.message : error)
+      return `Approval process failed: ${error instanceof Error ? error.message : String(error)}`
+    }
+    return undefined
+  }
+
+  /**
+   * Resolve a report path against the workspace file policy
+   * @returns The absolute path, or null (after printing why) when it is not allowed
+   */
+  private resolveReportPath(exportPath: string): string | null {
+    try {
+      return this.pathPolicy.resolve(exportPath)
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+      return null
+    }
+  }
+
+  /**
+   * Record the decision in the review report and write it
+   * @returns A line describing where the report went (or why it failed)
+   */
+  private async exportReviewReport(
+    report: ReviewReport,
+    reportPath: string,
+    decision: ReviewDecision,
+    outcome?: string,
+  ): Promise<string> {
+    try {
+      const reviewer = await this.reviewReports.reviewer()
+      const format = writeReviewReport(
+        {
+          ...report,
+          decision: {
+            decision,
+            decidedAt: new Date().toISOString(),
+            reviewer,
+            outcome,
+          },
+        },
+        reportPath,
+      )
+      const message = `📄 ${format === 'html' ? 'HTML' : 'Markdown'} review report written to ${reportPath}`
+      console.log(message)
+      return message
+    } catch (error) {
+      const message = `❌ Failed to write review report: ${error instanceof Error ? error.message : String(error)}`
+      console.error(message)
+      return message
     }
   }
 
-  private searchCode(pattern: string, workspaceFolder: string): void {
+  private async searchCode(pattern: string, workspaceFolder: string): Promise<void> {
+    console.log(`\n🔍 Searching for: ${pattern}`)
+    const search = (command: string, args: string[]) =>
+      this.runner.run(command, args, { cwd: workspaceFolder, stdio: 'inherit', timeout: 0 })
+
     try {
-      console.log(`\n🔍 Searching for: ${pattern}`)
       try {
-        execSync(`rg --color=always --heading --line-number "${pattern}"`, {
-          stdio: 'inherit',
-          cwd: workspaceFolder,
-        })
-      } catch {
-        try {
-          execSync(
-            `grep -r -n --color=always "${pattern}" . --exclude-dir=node_modules --exclude-dir=.git`,
-            {
-              stdio: 'inherit',
-              cwd: workspaceFolder,
-            },
-          )
-        } catch {
-          console.log('⚠️  No matches found or search tools unavailable')
-          console.log(
-            'Install ripgrep: brew install ripgrep (macOS) or apt install ripgrep (Ubuntu)',
-          )
+        await search('rg', ['--color=always', '--heading', '--line-number', '--', pattern])
+      } catch (error) {
+        if (!(error instanceof ProcessError) || error.reason !== 'not_found') {
+          throw error
         }
+        await search('grep', [
+          '-r',
+          '-n',
+          '--color=always',
+          '--exclude-dir=node_modules',
+          '--exclude-dir=.git',
+          '--',
+          pattern,
+          '.',
+        ])
       }
     } catch (error) {
-      console.error('Error searching code:', error)
+      if (error instanceof ProcessError && error.exitCode === 1) {
+        console.log('⚠️  No matches found')
+      } else if (error instanceof ProcessError && error.reason === 'not_found') {
+        console.log('⚠️  No search tool available')
+        console.log('Install ripgrep: brew install ripgrep (macOS) or apt install ripgrep (Ubuntu)')
+      } else {
+        console.error('Error searching code:', error instanceof Error ? error.message : error)
+      }
     }
   }
 
@@ -1177,33 +1837,127 @@ export class ClaudeTermIDEServer {
       })
     }
     console.log(`\nTotal: ${this.activeFiles.size} file(s)`)
+
+    if (this.gitResources.size > 0) {
+      console.log('\n📜 Shared git resources:')
+      this.gitResources.list().forEach((resource, index) => {
+        console.log(`  ${index + 1}. ${resource.name} (${resource.uri})`)
+      })
+    }
     console.log('Claude Code can access these files via resources API\n')
   }
 
-  private sendFileToClient(filePath: string): void {
-    try {
-      const content = fs.readFileSync(filePath, 'utf8')
-      const relativePath = path.relative(this.options.workspaceFolder || process.cwd(), filePath)
+  /**
+   * Queue an event while no client is connected but Claude may still reconnect
+   * @returns true if the event was queued
+   */
+  private queueWhileDisconnected(message: { method: string }, description: string): boolean {
+    if (this.clients.size > 0 || !this.pendingEvents.enqueue(message)) {
+      return false
+    }
 
-      // Add file to active files list
+    console.log(`📥 Claude Code is disconnected - queued ${message.method} for ${description}`)
+    console.log(
+      `💡 ${this.pendingEvents.size} event(s) will be delivered if Claude reconnects within ${this.pendingEvents.windowSeconds}s`,
+    )
+    this.updatePrompt()
+    return true
+  }
+
+  private flushPendingEvents(client: ConnectedClient): void {
+    const { events, dropped } = this.pendingEvents.drain()
+
+    if (dropped > 0) {
+      console.log(
+        `⌛ Dropped ${dropped} queued event(s): Claude did not reconnect within ${this.pendingEvents.windowSeconds}s`,
+      )
+    }
+    if (events.length === 0) {
+      return
+    }
+
+    events.forEach((event) => {
+      logMCPMessage('SEND', event)
+      client.ws.send(JSON.stringify(event))
+    })
+    console.log(
+      `📤 Delivered ${events.length} queued event(s) to Claude Code ${describeClient(client)}`,
+    )
+  }
+
+  private getPromptText(): string {
+    const indicator = CONNECTION_INDICATORS[this.clients.state]
+    const queued = this.pendingEvents.size > 0 ? ` (${this.pendingEvents.size} queued)` : ''
+    return `${indicator}${queued} > `
+  }
+
+  private updatePrompt(): void {
+    this.rl?.setPrompt(this.getPromptText())
+  }
+
+  private handleClientsCommand(args: string): void {
+    if (args) {
+      const selector = args === 'latest' ? null : args.replace(/^@/, '')
+      const result = this.clients.select(selector)
+      console.log(result.success ? `🎯 ${result.message}` : `❌ ${result.message}`)
+      return
+    }
+
+    const clients = this.clients.list()
+    if (clients.length === 0) {
+      console.log('No Claude Code clients connected')
+      return
+    }
+
+    const targets = new Set(this.clients.resolve().map((client) => client.id))
+    console.log(`\n🔌 Connected clients (${clients.length}):`)
+    clients.forEach((client) => {
+      const marker = targets.has(client.id) ? '→' : ' '
+      const since = client.connectedAt.toLocaleTimeString()
+      const address = client.remoteAddress ? ` from ${client.remoteAddress}` : ''
+      console.log(
+        `  ${marker} ${describeClient(client)} [${client.state}] (connected ${since}${address})`,
+      )
+    })
+
+    const selected = this.clients.selectedTarget
+    const mode =
+      selected === ALL_CLIENTS ? 'all clients' : selected ? `client #${selected}` : 'latest client'
+    console.log(`\n🎯 Target: ${mode} (change with /clients <id|all|latest>)`)
+  }
+
+  private describeRecipients(recipients: ConnectedClient[]): string {
+    if (recipients.length === 1) {
+      return `Claude Code ${describeClient(recipients[0])}`
+    }
+    return `${recipients.length} Claude Code clients`
+  }
+
+  private sendFileToClient(filePath: string, target?: string): void {
+    try {
+      const content = fs.readFileSync(filePath, 'utf8')
+      const relativePath = path.relative(this.options.workspaceFolder || process.cwd(), filePath)
+
+      // Add file to active files list
       this.activeFiles.add(filePath)
 
       // Send at_mentioned event to Claude Code
-      if (this.connectedWS) {
-        const atMentionedEvent = {
-          jsonrpc: '2.0',
-          method: 'at_mentioned',
-          params: {
-            filePath: filePath,
-            // Optional: specify line range if needed
-            // lineStart: 0,
-            // lineEnd: content.split('\n').length - 1
-          },
-        }
+      const atMentionedEvent = {
+        jsonrpc: '2.0',
+        method: 'at_mentioned',
+        params: {
+          filePath: filePath,
+          // Optional: specify line range if needed
+          // lineStart: 0,
+          // lineEnd: content.split('\n').length - 1
+        },
+      }
 
+      const recipients = this.clients.resolve(target)
+      if (recipients.length > 0) {
         debugLog('MCP', 'Sending at_mentioned event', atMentionedEvent)
         logMCPMessage('SEND', atMentionedEvent)
-        this.connectedWS.send(JSON.stringify(atMentionedEvent))
+        this.clients.send(atMentionedEvent, target)
 
         // Also notify that resources have changed
         const notification = {
@@ -1212,14 +1966,23 @@ export class ClaudeTermIDEServer {
           params: {},
         }
         logMCPMessage('SEND', notification)
-        this.connectedWS.send(JSON.stringify(notification))
+        this.clients.send(notification, target)
 
         debugLog('MCP', 'Both at_mentioned event and resource notification sent')
+      } else if (this.queueWhileDisconnected(atMentionedEvent, relativePath)) {
+        return
       } else {
-        console.log('❌ No WebSocket connection available')
+        console.log(
+          target
+            ? `❌ No connected client matches @${target}`
+            : '❌ No WebSocket connection available',
+        )
+        return
       }
 
-      console.log(`📤 File sent to Claude using at_mentioned event: ${relativePath}`)
+      console.log(
+        `📤 File sent to ${this.describeRecipients(recipients)} using at_mentioned event: ${relativePath}`,
+      )
       console.log(`💡 Claude should now be aware of this file`)
       console.log(`📋 Active files: ${this.activeFiles.size}`)
 
@@ -1237,167 +2000,236 @@ export class ClaudeTermIDEServer {
     }
   }
 
-  private handleOpenDiff(args: any): string {
-    try {
-      const { new_file_path } = args
+  /**
+   * @param clientId - Client that proposed the change
+   */
+  private async handleOpenDiff(args: OpenDiffArgs, clientId?: string): Promise<TextContent[]> {
+    const { old_file_path, new_file_path, new_file_contents, tab_name } = args
+    const workspaceFolder = this.options.workspaceFolder || process.cwd()
+    const targetPath = this.pathPolicy.resolve(new_file_path)
+    const oldPath = this.pathPolicy.resolve(old_file_path || new_file_path)
+    const tabName = tab_name || new_file_path
+
+    const displayPath = path.relative(workspaceFolder, targetPath)
+
+    const reviewer = async (signal: AbortSignal): Promise<TextContent[]> => {
+      // Read the file once its turn comes, earlier proposals may have changed it
+      const isNewFile = !fs.existsSync(oldPath)
+      const oldContents = isNewFile ? '' : fs.readFileSync(oldPath, 'utf8')
+      let contents = new_file_contents
+
+      while (!signal.aborted) {
+        const diff = await createUnifiedDiff(displayPath, oldContents, contents, isNewFile)
+
+        console.log(`\n📝 Claude proposes ${isNewFile ? 'creating' : 'changes to'}: ${displayPath}`)
+        console.log('─'.repeat(50))
+        console.log(diff ? await this.diffProposals.renderDiff(diff) : '(no changes)')
+        console.log('─'.repeat(50))
+
+        const answer = await this.promptUser(
+          '❓ Apply this change? (y)es / (n)o / (e)dit / (p)ick hunks: ',
+          signal,
+        )
+        const choice = answer?.toLowerCase()
+
+        if (choice === 'y' || choice === 'yes') {
+          this.saveProposal(targetPath, contents)
+          console.log(`✅ Saved ${displayPath}`)
+          console.log('💡 Use /review-push (/rp) to review all changes before pushing')
+          return fileSavedResult(contents)
+        } else if (choice === 'p' || choice === 'pick') {
+          const parsed = parseUnifiedDiff(diff)
+          const selected = await this.withTerminal(() =>
+            this.diffProposals.pickHunks(parsed, (question) => this.promptUser(question, signal)),
+          )
 
-      // No longer display individual diffs - use /review-push for comprehensive diff review
-      console.log(`📝 File modified: ${new_file_path}`)
-      console.log('💡 Use /review-push (/rp) to review all changes before pushing')
+          if (selected === null || signal.aborted) {
+            console.log('↩️  Hunk selection cancelled')
+          } else if (selected.length === 0) {
+            console.log('❌ No hunks selected')
+          } else {
+            const merged = applyHunks(oldContents, parsed.hunks, selected)
+            this.saveProposal(targetPath, merged)
+            console.log(
+              `✅ Saved ${selected.length} of ${parsed.hunks.length} hunks to ${displayPath}`,
+            )
+            console.log('💡 Use /review-push (/rp) to review all changes before pushing')
+            return fileSavedResult(merged)
+          }
+        } else if (choice === 'n' || choice === 'no') {
+          console.log(`🚫 Rejected changes to ${displayPath}`)
+          return diffRejectedResult(tabName)
+        } else if (choice === 'e' || choice === 'edit') {
+          const edited = await this.withTerminal(() =>
+            editText(contents, { extension: path.extname(targetPath) }),
+          )
+          if (edited === null) {
+            console.log('❌ Editor exited with an error - keeping the previous proposal')
+          } else {
+            contents = edited
+          }
+        } else if (answer !== null) {
+          console.log('❌ Invalid choice. Please enter y, n, e or p.')
+        }
+      }
 
-      return `File modification noted for ${new_file_path}`
-    } catch (error) {
-      console.error('Error handling openDiff:', error)
-      return `Error handling file modification: ${error instanceof Error ? error.message : 'Unknown error'}`
+      console.log(`🗂️  Proposal for ${displayPath} was closed by Claude`)
+      return diffRejectedResult(tabName)
     }
-  }
 
-  // Internal MCP Server methods
-  private async startInternalMcpServer(): Promise<void> {
-    // Create internal MCP server for communication with standalone MCP
-    this.internalMcpServer = new Server(
-      {
-        name: 'claude-term-internal',
-        version: '0.0.1',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      },
-    )
-
-    this.setupInternalMcpTools()
+    return this.diffProposals.review(tabName, reviewer, clientId)
+  }
 
-    // Start HTTP server for MCP communication
-    this.internalHttpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
-      if (req.method === 'POST' && req.url === '/mcp') {
-        await this.handleInternalMcpRequest(req, res)
-      } else {
-        res.writeHead(404)
-        res.end('Not Found')
-      }
-    })
+  private saveProposal(targetPath: string, contents: string): void {
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true })
+    fs.writeFileSync(targetPath, contents)
+  }
 
-    return new Promise((resolve) => {
-      this.internalHttpServer.listen(this.options.internalMcpPort || 0, () => {
-        const address = this.internalHttpServer.address()
-        if (typeof address === 'object' && address) {
-          this.internalMcpPort = address.port
-          resolve()
-        }
-      })
-    })
+  private handleCloseAllDiffTabs(): string {
+    const count = this.diffProposals.cancelAll()
+    return `CLOSED_${count}_DIFF_TABS`
   }
 
-  private setupInternalMcpTools(): void {
-    if (!this.internalMcpServer) return
+  /**
+   * Ask the user a question on the terminal, reusing the REPL readline when active
+   * @param question - Prompt text
+   * @param signal - Aborts the question (resolves null)
+   */
+  private promptUser(question: string, signal?: AbortSignal): Promise<string | null> {
+    return new Promise((resolve) => {
+      const rl =
+        this.rl ||
+        readline.createInterface({
+          input: process.stdin,
+          output: process.stdout,
+        })
+      const isTemporary = rl !== this.rl
 
-    // Handle tools list request
-    this.internalMcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'review_push_internal',
-            description: 'Internal tool for review and push workflow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                branch: {
-                  type: 'string',
-                  description: 'Target branch to push to (optional, defaults to current branch)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'git_status_internal',
-            description: 'Internal tool for git status',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: [],
-            },
-          },
-        ],
+      const finish = (answer: string | null) => {
+        signal?.removeEventListener('abort', onAbort)
+        if (isTemporary) {
+          rl.close()
+        }
+        resolve(answer)
       }
-    })
+      const onAbort = () => finish(null)
 
-    // Handle tool call request
-    this.internalMcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args = {} } = request.params
-
-      switch (name) {
-        case 'review_push_internal':
-          const result = await this.executeReviewPushInternal(args)
-          return {
-            content: [{ type: 'text', text: result }],
-          }
-
-        case 'git_status_internal':
-          const statusResult = await this.executeGitStatusInternal()
-          return {
-            content: [{ type: 'text', text: statusResult }],
-          }
-
-        default:
-          throw new Error(`Unknown internal tool: ${name}`)
+      if (signal?.aborted) {
+        finish(null)
+        return
       }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      rl.question(question, { signal }, (answer) => finish(answer.trim()))
     })
   }
 
-  private async handleInternalMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    let body = ''
-    req.on('data', (chunk) => {
-      body += chunk.toString()
+  // Internal MCP Server methods
+  private async startInternalMcpServer(): Promise<void> {
+    // Internal MCP endpoint for the standalone (stdio) MCP server
+    this.internalMcp = new InternalMcpHost(() => this.createInternalMcpServer(), this.authToken)
+    this.internalMcpPort = await this.internalMcp.start(this.options.internalMcpPort || 0)
+  }
+
+  private createInternalMcpServer(): McpServer {
+    const server = new McpServer({
+      name: 'claude-term-internal',
+      version: '0.0.1',
     })
 
-    req.on('end', async () => {
-      try {
-        const request = JSON.parse(body)
+    server.registerTool(
+      'review_push_internal',
+      { ...REVIEW_PUSH_TOOL_DEFINITION, description: 'Internal tool for review and push workflow' },
+      async (args, extra) => {
+        const result = await this.executeReviewPushInternal(args, extra)
+        return {
+          content: [{ type: 'text', text: result }],
+        }
+      },
+    )
 
-        // Create a mock transport to handle the request
-        const result = await this.processInternalMcpMessage(request)
+    server.registerTool(
+      'git_status_internal',
+      { ...GIT_STATUS_TOOL_DEFINITION, description: 'Internal tool for git status' },
+      () => this.executeGitStatusInternal(),
+    )
 
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify(result))
-      } catch (error) {
-        res.writeHead(500, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }))
-      }
+    server.registerTool(
+      'review_working_tree_internal',
+      {
+        ...WORKING_TREE_REVIEW_TOOL_DEFINITION,
+        description: 'Internal tool for the working tree review',
+      },
+      (args, extra) => this.executeWorkingTreeReviewInternal(args, extra),
+    )
+
+    registerGitToolHandlers(server, {
+      git: this.gitCommandManager,
+      confirm: (summary, question, extra) => this.confirmToolCall(summary, question, extra),
+      checkPath: (file) =>
+        path.relative(
+          fs.realpathSync(this.options.workspaceFolder || process.cwd()),
+          this.pathPolicy.resolve(file),
+        ),
+      commitLint: this.options.commitLint,
     })
+
+    return server
   }
 
-  private async processInternalMcpMessage(message: any): Promise<any> {
-    if (!this.internalMcpServer) {
-      throw new Error('Internal MCP server not initialized')
-    }
+  /**
+   * Ask the user to approve a mutating tool call from Claude
+   * @returns false when declined, or when Claude cancels before the user answers
+   */
+  private async confirmToolCall(
+    summary: string[],
+    question: string,
+    extra: ToolRequestExtra,
+  ): Promise<boolean> {
+    console.log('')
+    summary.forEach((line) => console.log(line))
+
+    const stopHeartbeat = startProgressHeartbeat(
+      extra,
+      'Waiting for approval in the claude-term terminal',
+    )
+    try {
+      for (;;) {
+        const answer = await this.promptUser(`❓ ${question} (y/n): `, extra.signal)
+        const choice = answer?.toLowerCase()
 
-    // Process the MCP message using the internal server
-    // This is a simplified approach - in a real implementation, you'd properly handle the MCP protocol
-    if (message.method === 'tools/list') {
-      const handler = (this.internalMcpServer as any)._requestHandlers?.get('tools/list')
-      if (handler) {
-        const result = await handler(message)
-        return { jsonrpc: '2.0', id: message.id, result }
-      }
-    } else if (message.method === 'tools/call') {
-      const handler = (this.internalMcpServer as any)._requestHandlers?.get('tools/call')
-      if (handler) {
-        const result = await handler(message)
-        return { jsonrpc: '2.0', id: message.id, result }
+        if (answer === null) {
+          console.log('🛑 Request cancelled by Claude')
+          return false
+        } else if (choice === 'y' || choice === 'yes') {
+          return true
+        } else if (choice === 'n' || choice === 'no') {
+          console.log('🚫 Declined')
+          return false
+        }
+        console.log('❌ Invalid choice. Please enter y or n.')
       }
+    } finally {
+      stopHeartbeat()
     }
-
-    throw new Error(`Unsupported method: ${message.method}`)
   }
 
-  private async executeReviewPushInternal(args: any): Promise<string> {
+  private async executeReviewPushInternal(
+    args: ReviewPushArgs,
+    extra?: ToolRequestExtra,
+  ): Promise<string> {
     try {
       const targetBranch = args.branch
       console.log('\n🔍 Internal MCP request: review_push_internal')
 
+      // Collect the report before the decision can rewrite or reset the commits
+      const reportPath = args.export ? this.pathPolicy.resolve(args.export) : undefined
+      const report = reportPath ? await this.reviewReports.collect() : undefined
+      const withReport = async (decision: ReviewDecision, outcome: string) =>
+        report && reportPath
+          ? `${outcome}\n${await this.exportReviewReport(report, reportPath, decision, outcome)}`
+          : outcome
+
       // Execute the same review workflow as /rp command
       // The issue is that we need to handle the readline state properly after less exits
 
@@ -1413,7 +2245,7 @@ export class ClaudeTermIDEServer {
         const unpushedCount = await this.gitReview.getUnpushedCommitCount()
 
         // Get current branch for prompt
-        const currentBranch = execSync('git branch --show-current', { encoding: 'utf8' }).trim()
+        const currentBranch = await this.runner.git(['branch', '--show-current'])
         const branch = targetBranch || currentBranch
 
         if (unpushedCount > 0) {
@@ -1442,12 +2274,19 @@ export class ClaudeTermIDEServer {
           shouldCloseRl = true
         }
 
-        const approved = await new Promise<boolean>((resolve) => {
+        // Keep Claude's request alive while the user decides
+        const stopHeartbeat = extra
+          ? startProgressHeartbeat(extra, 'Waiting for push approval in the claude-term terminal')
+          : () => undefined
+
+        // null when Claude cancels the request before the user answers
+        const response = await new Promise<string | null>((resolve) => {
           // Save current prompt state
           const oldPrompt = this.rl?.getPrompt?.() || '> '
+          const signal = extra?.signal
 
-          rlToUse.question(`\n❓ Push to origin/${branch}? (y/n): `, (answer) => {
-            const response = answer.trim().toLowerCase()
+          const finish = (result: string | null) => {
+            signal?.removeEventListener('abort', onAbort)
 
             // Only close if we created a temporary readline
             if (shouldCloseRl) {
@@ -1457,63 +2296,98 @@ export class ClaudeTermIDEServer {
               rlToUse.setPrompt(oldPrompt)
             }
 
-            resolve(response === 'y' || response === 'yes')
-          })
-        })
+            resolve(result)
+          }
+          const onAbort = () => finish(null)
 
-        if (!approved) {
-          // Handle rejection - undo commits
-          const unpushedCount = await this.gitReview.getUnpushedCommitCount()
+          if (signal?.aborted) {
+            finish(null)
+            return
+          }
+          signal?.addEventListener('abort', onAbort, { once: true })
 
-          if (unpushedCount > 0) {
-            console.log(
-              `\n🔄 Undoing ${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''}...`,
-            )
+          rlToUse.question(
+            `\n❓ Push ${branch}? (y/n, c to review commit by commit): `,
+            { signal },
+            (answer) => finish(answer.trim().toLowerCase()),
+          )
+        }).finally(stopHeartbeat)
+
+        if (response === null) {
+          console.log('\n🛑 Review cancelled by Claude - nothing was pushed or undone')
 
-            // Reset to before unpushed commits but keep changes in working directory
-            const resetCommand = `git reset --soft HEAD~${unpushedCount}`
-            execSync(resetCommand)
+          this.restoreReadline(wasReadlineActive)
+          return withReport('cancelled', '🛑 Review cancelled - nothing was pushed or undone.')
+        }
 
-            // Unstage all changes
-            execSync('git reset')
+        if (response === 'c') {
+          const stopReviewHeartbeat = extra
+            ? startProgressHeartbeat(extra, 'Reviewing commits in the claude-term terminal')
+            : () => undefined
+          const pushResult = await this.reviewCommitByCommit(
+            branch,
+            extra?.signal,
+            this.notifyGitProgress(extra),
+          ).finally(stopReviewHeartbeat)
+
+          this.restoreReadline(wasReadlineActive)
+
+          if (pushResult === null) {
+            return withReport('commit-by-commit', '🛑 Review cancelled - nothing was pushed.')
+          } else if (pushResult.success && pushResult.pushed) {
+            return withReport('commit-by-commit', `✅ Push successful: ${pushResult.message}`)
+          } else if (pushResult.success) {
+            return withReport('commit-by-commit', `📋 Nothing pushed: ${pushResult.message}`)
+          }
+          return withReport('commit-by-commit', `❌ Push failed: ${pushResult.message}`)
+        }
 
-            // Ensure readline is restored if it was closed
-            if (wasReadlineActive && !this.rl) {
-              this.createReadlineInterface()
-            } else if (this.rl) {
-              ;(this.rl as any).prompt()
-            }
+        if (response !== 'y' && response !== 'yes') {
+          const stopRejectHeartbeat = extra
+            ? startProgressHeartbeat(
+                extra,
+                'Waiting for a reject strategy in the claude-term terminal',
+              )
+            : () => undefined
+          const result = await this.rejectUnpushedCommits(extra?.signal).finally(
+            stopRejectHeartbeat,
+          )
 
-            return `✅ ${unpushedCount} commit${unpushedCount > 1 ? 's' : ''} undone successfully. Changes remain in working directory (unstaged).`
-          } else {
-            // Ensure readline is restored if it was closed
-            if (wasReadlineActive && !this.rl) {
-              this.createReadlineInterface()
-            } else if (this.rl) {
-              ;(this.rl as any).prompt()
-            }
-            return '⚠️ No unpushed commits to undo.'
+          this.restoreReadline(wasReadlineActive)
+
+          if (result === null) {
+            return withReport('rejected', '🛑 Review cancelled - nothing was pushed or undone.')
           }
+          return withReport(
+            'rejected',
+            result.success ? `✅ ${result.message}` : `❌ ${result.message}`,
+          )
         }
 
         // User approved, proceed with push
-        console.log(`\n🚀 Pushing to origin/${branch}...`)
-        const pushResult = await this.gitPush.autoPushFlow(branch, true)
+        console.log(`\n🚀 Pushing ${branch}...`)
+        // The push plan may need another decision (e.g. rebase or merge when the remote moved)
+        const stopPushHeartbeat = extra
+          ? startProgressHeartbeat(extra, 'Pushing from the claude-term terminal')
+          : () => undefined
+        const pushResult = await this.gitPush
+          .autoPushFlow(
+            branch,
+            true,
+            (question) => this.promptUser(question, extra?.signal),
+            undefined,
+            this.notifyGitProgress(extra),
+          )
+          .finally(stopPushHeartbeat)
 
-        // Ensure readline is properly restored if it was closed
-        if (wasReadlineActive && !this.rl) {
-          this.createReadlineInterface()
-        } else if (this.rl) {
-          // If readline still exists, just show the prompt again
-          ;(this.rl as any).prompt()
-        }
+        this.restoreReadline(wasReadlineActive)
 
         if (pushResult.success && pushResult.pushed) {
-          return `✅ Push successful: ${pushResult.message}`
+          return withReport('approved', `✅ Push successful: ${pushResult.message}`)
         } else if (pushResult.success && !pushResult.pushed) {
-          return `📋 No push needed: ${pushResult.message}`
+          return withReport('approved', `📋 No push needed: ${pushResult.message}`)
         } else {
-          return `❌ Push failed: ${pushResult.message}`
+          return withReport('approved', `❌ Push failed: ${pushResult.message}`)
         }
       } catch (error) {
         // Ensure readline is restored even on error
@@ -1531,38 +2405,232 @@ export class ClaudeTermIDEServer {
     }
   }
 
-  private async executeGitStatusInternal(): Promise<string> {
-    try {
-      const workspaceFolder = this.options.workspaceFolder || process.cwd()
+  /**
+   * Step through the unpushed commits one at a time, then push the approved part
+   * (rewriting the series first when commits were squashed or reworded)
+   * @returns The push outcome, or null when the review was cancelled
+   */
+  private async reviewCommitByCommit(
+    branch: string,
+    signal?: AbortSignal,
+    onProgress?: GitProgressListener,
+  ): Promise<PushResult | null> {
+    const commits = await this.gitReview.getUnpushedCommits()
+    if (commits.length === 0) {
+      return { success: true, pushed: false, message: 'No unpushed commits to review', branch }
+    }
 
-      // Get git status
-      const status = execSync('git status --porcelain', {
-        cwd: workspaceFolder,
-        encoding: 'utf8',
-      })
+    const reviewed: ReviewedCommit[] = []
+    for (const [index, commit] of commits.entries()) {
+      await this.gitReview.displaySingleCommitReview(commit.hash, index + 1, commits.length)
 
-      // Get unpushed commits
-      const unpushedCount = await this.gitReview.getUnpushedCommitCount()
+      const decision = await this.askCommitDecision(commit, index > 0, signal)
+      if (decision === null) {
+        return null
+      }
+      if (decision.decision === 'skip') {
+        // Later commits build on the skipped one, so they stay local too
+        reviewed.push(
+          ...commits.slice(index).map((rest) => ({ ...rest, decision: 'skip' as const })),
+        )
+        break
+      }
+      reviewed.push(decision)
+    }
 
-      // Get current branch
-      const currentBranch = execSync('git branch --show-current', {
-        cwd: workspaceFolder,
-        encoding: 'utf8',
-      }).trim()
+    const plan = planSeries(reviewed)
+    console.log('')
+    describeSeriesPlan(plan).forEach((line) => console.log(line))
+    if (plan.approved.length === 0) {
+      return { success: true, pushed: false, message: 'No commits approved', branch }
+    }
 
-      let result = `Current branch: ${currentBranch}\n`
-      result += `Unpushed commits: ${unpushedCount}\n\n`
+    const series = await this.commitSeries.rewrite(reviewed)
+    if (!series.success) {
+      return { success: false, pushed: false, message: series.message, branch }
+    }
+    if (series.previousHead) {
+      console.log(`✏️  ${series.message}`)
+      console.log(
+        `💡 To get the original commits back: git reset --keep ${series.previousHead.substring(0, 8)}`,
+      )
+    }
 
-      if (status.trim()) {
-        result += 'Working directory changes:\n'
-        result += status
-      } else {
-        result += 'Working directory clean'
+    return this.gitPush.autoPushFlow(
+      branch,
+      true,
+      (question) => this.promptUser(question, signal),
+      plan.held.length > 0 ? series.pushTip : undefined,
+      onProgress,
+    )
+  }
+
+  /**
+   * Forward git's fetch and push progress to Claude as MCP progress notifications
+   */
+  private notifyGitProgress(extra?: ToolRequestExtra): GitProgressListener | undefined {
+    if (!extra) {
+      return undefined
+    }
+    const notify = throttledProgress(extra)
+    return (progress) => notify(formatGitProgress(progress), progress.done)
+  }
+
+  /**
+   * Ask what to do with one commit of a per-commit review
+   * @param canSquash - Whether an approved commit precedes this one
+   * @returns The decision (with the new subject for reword), or null when cancelled
+   */
+  private async askCommitDecision(
+    commit: { hash: string; subject: string },
+    canSquash: boolean,
+    signal?: AbortSignal,
+  ): Promise<ReviewedCommit | null> {
+    for (;;) {
+      const answer = await this.promptUser(
+        `\n❓ ${commit.hash.substring(0, 8)} ${commit.subject}\n   ${describeCommitDecisions(canSquash)}: `,
+        signal,
+      )
+      if (answer === null) {
+        return null
+      }
+
+      const decision = parseCommitDecision(answer)
+      if (!decision || (decision === 'squash' && !canSquash)) {
+        console.log(`❌ Invalid choice. Please enter ${canSquash ? 'a, s, q or r' : 'a, s or r'}.`)
+        continue
+      }
+      if (decision !== 'reword') {
+        return { ...commit, decision }
+      }
+
+      const subject = await this.promptUser('✏️  New subject: ', signal)
+      if (subject === null) {
+        return null
+      }
+      if (subject) {
+        return { ...commit, decision, subjectOverride: subject }
       }
+      console.log('❌ The subject cannot be empty.')
+    }
+  }
+
+  /**
+   * Ask how to handle the unpushed commits of a rejected review and apply it
+   * @param signal - Cancels the question
+   * @returns The outcome, or null when the question was cancelled
+   */
+  private async rejectUnpushedCommits(signal?: AbortSignal): Promise<RejectResult | null> {
+    const unpushedCount = await this.gitReview.getUnpushedCommitCount()
+    if (unpushedCount === 0) {
+      console.log('⚠️  No unpushed commits to reject.')
+      return { success: true, message: 'No unpushed commits to reject' }
+    }
 
+    for (;;) {
+      const answer = await this.promptUser(
+        `❓ ${unpushedCount} unpushed commit${unpushedCount > 1 ? 's' : ''}: ${describeRejectStrategies()} (Enter keeps them): `,
+        signal,
+      )
+      if (answer === null) {
+        return null
+      }
+
+      const strategy = answer === '' ? 'keep' : parseRejectStrategy(answer)
+      if (!strategy) {
+        console.log('❌ Invalid choice. Please enter k, b, s or r.')
+        continue
+      }
+
+      const range = await this.gitReview.getUnpushedRange()
+      const result = await this.gitReject.reject(strategy, range)
+      if (!result.success) {
+        console.error(`❌ ${result.message}`)
+      } else {
+        console.log(`✅ ${result.message}`)
+        if (result.record) {
+          console.log('💡 Use /undo-reject to restore the commits')
+        }
+      }
       return result
+    }
+  }
+
+  private async handleUndoRejectCommand(): Promise<void> {
+    const result = await this.gitReject.undoLastReject()
+    if (result.success) {
+      console.log(`✅ ${result.message}`)
+    } else {
+      console.error(`❌ ${result.message}`)
+    }
+  }
+
+  private async executeWorkingTreeReviewInternal(
+    args: { message?: string },
+    extra: ToolRequestExtra,
+  ): Promise<CallToolResult> {
+    console.log('\n🔍 Internal MCP request: review_working_tree_internal')
+
+    const wasReadlineActive = !!this.rl
+    if (this.rl) {
+      this.rl.close()
+      this.rl = null
+    }
+    const stopHeartbeat = startProgressHeartbeat(
+      extra,
+      'Waiting for the working tree review in the claude-term terminal',
+    )
+
+    try {
+      const result = await this.workingTreeReview.reviewWorkingTree(
+        (question) => this.promptUser(question, extra.signal),
+        { suggestedMessage: args.message },
+      )
+      this.printWorkingTreeReviewResult(result)
+      return {
+        content: [{ type: 'text', text: result.message }],
+        structuredContent: { ...result },
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to review changes: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      }
+    } finally {
+      stopHeartbeat()
+      if (wasReadlineActive) {
+        this.createReadlineInterface()
+      }
+    }
+  }
+
+  private async executeGitStatusInternal(): Promise<CallToolResult> {
+    try {
+      const details = await this.gitCommandManager.getStatusDetails()
+      const unpushedCount = await this.gitReview.getUnpushedCommitCount()
+      const clean = [details.staged, details.unstaged, details.untracked, details.conflicted].every(
+        (entries) => entries.length === 0,
+      )
+
+      return {
+        content: [{ type: 'text', text: formatStatusDetails(details, unpushedCount) }],
+        structuredContent: { ...details, unpushedCommits: unpushedCount, clean },
+      }
     } catch (error) {
-      return `Error getting git status: ${error instanceof Error ? error.message : error}`
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error getting git status: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      }
     }
   }
 
@@ -1576,8 +2644,9 @@ export class ClaudeTermIDEServer {
       this.server.close()
     }
 
-    if (this.internalHttpServer) {
-      this.internalHttpServer.close()
+    if (this.internalMcp) {
+      await this.internalMcp.stop()
+      this.internalMcp = null
     }
 
     // Clean up lock file
@@ -1585,10 +2654,17 @@ export class ClaudeTermIDEServer {
       fs.unlinkSync(this.lockFilePath)
       console.log(`Lock file removed: ${this.lockFilePath}`)
     }
+    if (this.claudeTermLockPath) {
+      fs.rmSync(this.claudeTermLockPath, { force: true })
+    }
   }
 
   // Interactive file selection methods
-  private async displayFileInteractive(filePath: string): Promise<void> {
+  private async displayFileInteractive(
+    filePath: string,
+    target?: string,
+    withBlame = false,
+  ): Promise<void> {
     try {
       if (!fs.existsSync(filePath)) {
         console.error(`File not found: ${filePath}`)
@@ -1596,6 +2672,15 @@ export class ClaudeTermIDEServer {
       }
 
       const content = fs.readFileSync(filePath, 'utf8')
+      let blame: BlameLine[] | null = null
+      if (withBlame) {
+        blame = await this.gitBlame.blame(filePath)
+        if (!blame) {
+          console.log(
+            `⚠️  git can't blame ${path.basename(filePath)} (not tracked?) - showing plain lines`,
+          )
+        }
+      }
 
       console.log(`\n📄 Interactive File Selector: ${path.basename(filePath)}`)
       console.log('📝 Instructions:')
@@ -1604,56 +2689,74 @@ export class ClaudeTermIDEServer {
       console.log('  • Press Enter to send selected lines to Claude')
       console.log('  • Press Esc to cancel\n')
 
-      await this.selectLinesWithFzf(filePath, content)
+      await this.selectLinesWithFzf(filePath, content, target, blame)
     } catch (error) {
       console.error('Error in interactive file display:', error)
     }
   }
 
-  private async selectLinesWithFzf(filePath: string, content: string): Promise<void> {
+  private async selectLinesWithFzf(
+    filePath: string,
+    content: string,
+    target?: string,
+    blame?: BlameLine[] | null,
+  ): Promise<void> {
     try {
       const lines = content.split('\n')
 
-      // Create temporary file with numbered lines for fzf
-      const tmpDir = os.tmpdir()
-      const tmpFile = path.join(tmpDir, `claude-term-lines-${randomUUID()}.txt`)
-
-      // Format lines with line numbers
+      // Format lines with line numbers, and with commit, author and age for /blame
       const numberedLines = lines
-        .map((line, index) => `${(index + 1).toString().padStart(4, ' ')}: ${line}`)
+        .map((line, index) =>
+          blame?.[index]
+            ? formatBlameLine(blame[index])
+            : `${(index + 1).toString().padStart(4, ' ')}: ${line}`,
+        )
         .join('\n')
 
-      fs.writeFileSync(tmpFile, numberedLines)
-
-      // Use fzf for line selection - simple and reliable
-      const fzfCommand = `cat "${tmpFile}" | fzf \\
-        --multi \\
-        --reverse \\
-        --height=80% \\
-        --border \\
-        --header="Select lines with Tab, press Enter to send to Claude" \\
-        --prompt="Lines> "`
-
       console.log('🔍 Opening fzf line selector...')
       console.log('💡 Select lines with Tab, press Enter to send to Claude')
 
-      const selectedLines = execSync(fzfCommand, {
-        encoding: 'utf8',
-        stdio: ['inherit', 'pipe', 'inherit'],
-      }).trim()
+      // fzf reads the lines from stdin and the keyboard from the terminal, so readline
+      // must not read the same keystrokes while it runs
+      const wasReadlineActive = !!this.rl
+      if (this.rl) {
+        this.rl.close()
+        this.rl = null
+      }
 
-      // Clean up temp files
-      fs.unlinkSync(tmpFile)
+      let selectedLines: string
+      try {
+        const { stdout } = await this.runner.run(
+          'fzf',
+          [
+            '--multi',
+            '--reverse',
+            '--height=80%',
+            '--border',
+            '--header=Select lines with Tab, press Enter to send to Claude',
+            '--prompt=Lines> ',
+          ],
+          { input: numberedLines, stderr: 'inherit', timeout: 0 },
+        )
+        selectedLines = stdout.trim()
+      } finally {
+        if (wasReadlineActive) {
+          this.createReadlineInterface()
+        }
+      }
 
       if (selectedLines) {
-        await this.processFzfSelection(filePath, content, selectedLines)
+        await this.processFzfSelection(filePath, content, selectedLines, target, blame)
       } else {
         console.log('❌ No lines selected')
       }
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Command failed')) {
-        console.log('❌ Selection cancelled or fzf not available')
+      if (error instanceof ProcessError && error.reason === 'not_found') {
+        console.log('❌ fzf not available')
         console.log('💡 Install fzf: brew install fzf (macOS) or apt install fzf (Ubuntu)')
+      } else if (error instanceof ProcessError && error.reason === 'exit_code') {
+        // 1: no match, 130: cancelled with Esc or Ctrl-C
+        console.log('❌ Selection cancelled')
       } else {
         console.error('Error in fzf selection:', error)
       }
@@ -1664,6 +2767,8 @@ export class ClaudeTermIDEServer {
     filePath: string,
     content: string,
     selectedLines: string,
+    target?: string,
+    blame?: BlameLine[] | null,
   ): Promise<void> {
     try {
       const lines = content.split('\n')
@@ -1690,11 +2795,6 @@ export class ClaudeTermIDEServer {
       const startLine = lineNumbers[0]
       const endLine = lineNumbers[lineNumbers.length - 1]
 
-      if (!this.connectedWS) {
-        console.error('❌ No Claude Code connection available')
-        return
-      }
-
       // Send selection_changed event to Claude Code
       const selectionMessage = {
         jsonrpc: '2.0',
@@ -1710,22 +2810,55 @@ export class ClaudeTermIDEServer {
         },
       }
 
-      console.log(`\n📤 Sending selection to Claude Code:`)
-      console.log(
-        `📄 File: ${path.relative(this.options.workspaceFolder || process.cwd(), filePath)}`,
-      )
+      const displayPath = path.relative(this.options.workspaceFolder || process.cwd(), filePath)
+      const recipients = this.clients.resolve(target)
+      if (recipients.length === 0) {
+        if (!this.queueWhileDisconnected(selectionMessage, `${displayPath}:${startLine + 1}`)) {
+          console.error(
+            target
+              ? `❌ No connected client matches @${target}`
+              : '❌ No Claude Code connection available',
+          )
+        } else if (blame) {
+          this.shareBlame(displayPath, lineNumbers, blame)
+        }
+        return
+      }
+
+      console.log(`\n📤 Sending selection to ${this.describeRecipients(recipients)}:`)
+      console.log(`📄 File: ${displayPath}`)
       console.log(`📍 Lines: ${startLine + 1}-${endLine + 1}`)
       console.log(`📝 Selected text (${selectedText.length} chars):`)
       console.log(selectedText.substring(0, 200) + (selectedText.length > 200 ? '...' : ''))
 
       logMCPMessage('SEND', selectionMessage)
-      this.connectedWS.send(JSON.stringify(selectionMessage))
+      this.clients.send(selectionMessage, target)
       console.log(`\n✅ Selection sent to Claude Code!`)
+      if (blame) {
+        this.shareBlame(displayPath, lineNumbers, blame)
+      }
     } catch (error) {
       console.error('Error processing fzf selection:', error)
     }
   }
 
+  /**
+   * /blame: share the blame of the selected lines, with the subjects of their commits, as a
+   * git-blame:// resource next to the selection
+   * @param lineNumbers - Selected lines (0-based, sorted)
+   */
+  private shareBlame(displayPath: string, lineNumbers: number[], blame: BlameLine[]): void {
+    const selected = lineNumbers
+      .map((lineNumber) => blame[lineNumber])
+      .filter((line): line is BlameLine => !!line)
+    if (selected.length === 0) {
+      return
+    }
+
+    const resource = blameResource(displayPath, selected)
+    this.gitResources.add(resource)
+    console.log(this.announceGitResources([resource.uri]))
+  }
 }
 
 // Helper function to check if a process is still running
@@ -1742,7 +2875,7 @@ function isProcessRunning(pid: number): boolean {
 export async function startIDEServer(options: IDEServerOptions): Promise<number> {
   // Check if an IDE with the same name already exists
   const ideName = options.ideName || 'claude-term'
-  const ideDir = path.join(os.homedir(), '.claude', 'ide')
+  const ideDir = getIdeLockDir()
 
   if (fs.existsSync(ideDir)) {
     const lockFiles = fs.readdirSync(ideDir).filter((f) => f.endsWith('.lock'))
@@ -1774,6 +2907,7 @@ export async function startIDEServer(options: IDEServerOptions): Promise<number>
             // Process is dead, remove stale lock file
             console.log(`🧹 Removing stale lock file for dead process (PID: ${lockData.pid})`)
             fs.unlinkSync(lockPath)
+            fs.rmSync(lockPath.replace(/\.lock$/, CLAUDE_TERM_LOCK_SUFFIX), { force: true })
           }
         }
       } catch {
@@ -1837,3 +2971,22 @@ export async function startIDEServer(options: IDEServerOptions): Promise<number>
     process.exit(1)
   }
 }
+
+/**
+ * Map a normalized (trimmed, lowercase) answer to the review prompt (y/n/c) to the decision
+ * recorded in the report
+ */
+function reviewDecisionFor(choice: string): ReviewDecision {
+  switch (choice) {
+    case 'y':
+    case 'yes':
+      return 'approved'
+    case 'n':
+    case 'no':
+      return 'rejected'
+    case 'c':
+      return 'commit-by-commit'
+    default:
+      return 'cancelled'
+  }
+}
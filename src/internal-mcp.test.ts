@@ -0,0 +1,278 @@
+import http from 'http'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import {
+  INTERNAL_MCP_PATH,
+  InternalMcpClient,
+  InternalMcpHost,
+  ToolRequestExtra,
+  reportProgress,
+  startProgressHeartbeat,
+  throttledProgress,
+} from './internal-mcp.js'
+
+describe('internal MCP bridge', () => {
+  let host: InternalMcpHost
+  let client: InternalMcpClient
+  let port: number
+  let cancelled: boolean
+
+  const createServer = () => {
+    const server = new McpServer({ name: 'test-internal', version: '0.0.1' })
+    server.registerTool(
+      'echo',
+      { inputSchema: { branch: z.string().optional(), again: z.boolean().optional() } },
+      (args) => ({ content: [{ type: 'text', text: JSON.stringify(args) }] }),
+    )
+
+    // 'wait' reports progress until it is cancelled
+    server.registerTool('wait', { inputSchema: {} }, async (_args, extra) => {
+      const stop = startProgressHeartbeat(extra, 'waiting', 20)
+      await new Promise<void>((resolve) => extra.signal.addEventListener('abort', () => resolve()))
+      stop()
+      cancelled = true
+      return { content: [{ type: 'text', text: 'cancelled' }] }
+    })
+    return server
+  }
+
+  const createExtra = (signal = new AbortController().signal) => {
+    const notifications: ServerNotification[] = []
+    const extra = {
+      signal,
+      requestId: 1,
+      _meta: { progressToken: 'outer-token' },
+      sendNotification: (notification: ServerNotification) => {
+        notifications.push(notification)
+        return Promise.resolve()
+      },
+      sendRequest: jest.fn(),
+    } as unknown as ToolRequestExtra
+    return { extra, notifications }
+  }
+
+  const post = (
+    headers: Record<string, string>,
+    url = `http://127.0.0.1:${port}${INTERNAL_MCP_PATH}`,
+  ) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer test-token',
+        ...headers,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+
+  beforeEach(async () => {
+    cancelled = false
+    host = new InternalMcpHost(createServer, 'test-token')
+    port = await host.start()
+    client = new InternalMcpClient(() =>
+      Promise.resolve({
+        url: new URL(`http://127.0.0.1:${port}${INTERNAL_MCP_PATH}`),
+        authToken: 'test-token',
+      }),
+    )
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await host.stop()
+  })
+
+  it('should forward tool calls over a real MCP session', async () => {
+    const { extra } = createExtra()
+
+    const result = await client.callTool('echo', { branch: 'main' }, extra)
+
+    expect(result.content).toEqual([{ type: 'text', text: '{"branch":"main"}' }])
+    expect(host.sessionCount).toBe(1)
+  })
+
+  it('should reuse the session across calls', async () => {
+    const { extra } = createExtra()
+
+    await client.callTool('echo', {}, extra)
+    await client.callTool('echo', {}, extra)
+
+    expect(host.sessionCount).toBe(1)
+  })
+
+  it('should pass progress through with the caller progress token and honor cancellation', async () => {
+    const controller = new AbortController()
+    const { extra, notifications } = createExtra(controller.signal)
+
+    const call = client.callTool('wait', {}, extra)
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    controller.abort()
+
+    await expect(call).rejects.toThrow()
+    expect(notifications.length).toBeGreaterThan(0)
+    expect(notifications[0]).toMatchObject({
+      method: 'notifications/progress',
+      params: { progressToken: 'outer-token', message: 'waiting' },
+    })
+
+    // The IDE side sees notifications/cancelled and aborts its handler
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(cancelled).toBe(true)
+  })
+
+  it('should start a new session after the IDE server restarts', async () => {
+    const { extra } = createExtra()
+    await client.callTool('echo', {}, extra)
+
+    await host.stop()
+    host = new InternalMcpHost(createServer, 'test-token')
+    port = await host.start()
+    // Tool calls come much later in practice; by then the client saw its connection close
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const result = await client.callTool('echo', { again: true }, extra)
+    expect(result.content).toEqual([{ type: 'text', text: '{"again":true}' }])
+  })
+
+  it('should not retry a call whose connection broke after it was sent', async () => {
+    const { extra } = createExtra()
+    await client.callTool('echo', {}, extra)
+    const callSpy = jest
+      .spyOn(Client.prototype, 'callTool')
+      .mockRejectedValueOnce(
+        Object.assign(new TypeError('fetch failed'), { cause: new Error('other side closed') }),
+      )
+
+    await expect(client.callTool('echo', {}, extra)).rejects.toThrow('fetch failed')
+    expect(callSpy).toHaveBeenCalledTimes(1)
+    callSpy.mockRestore()
+  })
+
+  it('should reject requests without a session that are not initialize requests', async () => {
+    const response = await post({})
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should answer 404 for other paths', async () => {
+    const response = await post({}, `http://127.0.0.1:${port}/other`)
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should refuse requests without the auth token', async () => {
+    expect((await post({ Authorization: '' })).status).toBe(401)
+    expect((await post({ Authorization: 'Bearer wrong-token' })).status).toBe(401)
+  })
+
+  it('should refuse requests for another host or from another origin', async () => {
+    // fetch doesn't let the Host header be set
+    const hostStatus = await new Promise<number | undefined>((resolve, reject) => {
+      const request = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: INTERNAL_MCP_PATH,
+          method: 'POST',
+          headers: { Host: `attacker.example:${port}`, Authorization: 'Bearer test-token' },
+        },
+        (response) => {
+          response.resume()
+          resolve(response.statusCode)
+        },
+      )
+      request.on('error', reject)
+      request.end()
+    })
+    expect(hostStatus).toBe(403)
+    expect((await post({ Origin: 'http://attacker.example' })).status).toBe(403)
+    expect((await post({ Origin: `http://localhost:${port}` })).status).toBe(400)
+  })
+
+  it('should not connect with the wrong auth token', async () => {
+    const { extra } = createExtra()
+    const stranger = new InternalMcpClient(() =>
+      Promise.resolve({
+        url: new URL(`http://127.0.0.1:${port}${INTERNAL_MCP_PATH}`),
+        authToken: 'wrong-token',
+      }),
+    )
+
+    await expect(stranger.callTool('echo', {}, extra)).rejects.toThrow()
+    expect(host.sessionCount).toBe(0)
+  })
+})
+
+describe('startProgressHeartbeat', () => {
+  it('should do nothing when the caller did not ask for progress', () => {
+    jest.useFakeTimers()
+    try {
+      const sendNotification = jest.fn()
+      const extra = { sendNotification } as unknown as ToolRequestExtra
+
+      const stop = startProgressHeartbeat(extra, 'waiting', 10)
+      jest.advanceTimersByTime(100)
+      stop()
+
+      expect(sendNotification).not.toHaveBeenCalled()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
+
+describe('throttledProgress', () => {
+  const createExtra = () => {
+    const progress: Array<{ progress: number; message?: string }> = []
+    const extra = {
+      _meta: { progressToken: 'token' },
+      sendNotification: (notification: ServerNotification) => {
+        progress.push(notification.params as { progress: number; message?: string })
+        return Promise.resolve()
+      },
+    } as unknown as ToolRequestExtra
+    return { extra, progress }
+  }
+
+  it('should send at most one update per interval unless it is important', () => {
+    jest.useFakeTimers()
+    try {
+      const { extra, progress } = createExtra()
+      const notify = throttledProgress(extra, 100)
+
+      notify('Writing objects: 10%')
+      notify('Writing objects: 20%')
+      notify('Writing objects: 100%, done', true)
+      jest.advanceTimersByTime(100)
+      notify('Resolving deltas: 50%')
+
+      expect(progress.map((update) => update.message)).toEqual([
+        'Writing objects: 10%',
+        'Writing objects: 100%, done',
+        'Resolving deltas: 50%',
+      ])
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('should keep progress increasing across heartbeats and other updates', () => {
+    jest.useFakeTimers()
+    try {
+      const { extra, progress } = createExtra()
+      const stop = startProgressHeartbeat(extra, 'waiting', 10)
+
+      jest.advanceTimersByTime(10)
+      reportProgress(extra, 'Writing objects: 100%, done')
+      jest.advanceTimersByTime(10)
+      stop()
+
+      expect(progress.map((update) => update.progress)).toEqual([1, 2, 3])
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,428 @@
+// internal-mcp.ts - MCP bridge between the stdio MCP server and the IDE server (streamable HTTP)
+
+import { randomUUID, timingSafeEqual } from 'crypto'
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import {
+  CallToolResult,
+  CallToolResultSchema,
+  ServerNotification,
+  ServerRequest,
+  isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js'
+import { debugLog } from './debug.js'
+
+export const INTERNAL_MCP_PATH = '/mcp'
+
+/** Tool calls may wait on the user; progress heartbeats keep them alive past this timeout */
+export const INTERNAL_MCP_TIMEOUT_MS = 60_000
+
+/** How often long-running internal tools report progress */
+export const PROGRESS_HEARTBEAT_MS = 10_000
+
+/** Shortest gap between two notifications for fast-changing progress (git push/fetch) */
+export const PROGRESS_THROTTLE_MS = 500
+
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+/** Where the stdio MCP server reaches an IDE server */
+export interface InternalMcpEndpoint {
+  url: URL
+  /** Auth token of the IDE server, sent as a bearer token */
+  authToken: string
+}
+
+/**
+ * Hosts the IDE server's internal MCP endpoint.
+ *
+ * Each MCP session (one per connected stdio server) gets its own McpServer instance from the
+ * factory, connected to a StreamableHTTPServerTransport.
+ *
+ * Every request needs the IDE server's auth token, and a Host (and Origin, when sent) of the
+ * endpoint itself: web pages can send requests to localhost too, through a DNS name that
+ * resolves to 127.0.0.1 or from their own origin.
+ */
+export class InternalMcpHost {
+  private httpServer: HttpServer | null = null
+  private port = 0
+  private transports = new Map<string, StreamableHTTPServerTransport>()
+
+  /**
+   * @param createMcpServer - Creates the MCP server of a new session
+   * @param authToken - Token clients have to send (the IDE server's lock-file token)
+   */
+  constructor(
+    private createMcpServer: () => McpServer,
+    private authToken: string,
+  ) {}
+
+  /**
+   * Start listening on localhost
+   * @param port - Port to listen on (0 picks a free port)
+   * @returns The port actually used
+   */
+  start(port = 0): Promise<number> {
+    this.httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        debugLog('MCP', 'Internal MCP request failed', { error: String(error) })
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' })
+          res.end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              error: { code: -32603, message: 'Internal server error' },
+              id: null,
+            }),
+          )
+        }
+      })
+    })
+
+    return new Promise((resolve, reject) => {
+      const httpServer = this.httpServer as HttpServer
+      httpServer.once('error', reject)
+      httpServer.listen(port, '127.0.0.1', () => {
+        const address = httpServer.address()
+        if (typeof address === 'object' && address) {
+          this.port = address.port
+          resolve(address.port)
+        } else {
+          reject(new Error('Failed to get internal MCP server address'))
+        }
+      })
+    })
+  }
+
+  get sessionCount(): number {
+    return this.transports.size
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(Array.from(this.transports.values()).map((transport) => transport.close()))
+    this.transports.clear()
+
+    const httpServer = this.httpServer
+    this.httpServer = null
+    if (httpServer) {
+      httpServer.closeAllConnections()
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()))
+    }
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const refusal = this.checkRequest(req)
+    if (refusal) {
+      debugLog('MCP', 'Internal MCP request refused', {
+        reason: refusal.message,
+        host: req.headers.host,
+        origin: req.headers.origin,
+      })
+      res.writeHead(refusal.status, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: refusal.message },
+          id: null,
+        }),
+      )
+      return
+    }
+
+    if (req.url !== INTERNAL_MCP_PATH) {
+      res.writeHead(404)
+      res.end('Not Found')
+      return
+    }
+
+    const sessionId = req.headers['mcp-session-id']
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined
+    const existing = typeof sessionId === 'string' ? this.transports.get(sessionId) : undefined
+
+    if (existing) {
+      await existing.handleRequest(req, res, body)
+      return
+    }
+
+    if (sessionId !== undefined) {
+      // Unknown session, e.g. after the IDE server restarted: the client has to re-initialize
+      res.writeHead(404, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32001, message: 'Session not found' },
+          id: null,
+        }),
+      )
+      return
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: 'Bad Request: No valid session ID provided' },
+          id: null,
+        }),
+      )
+      return
+    }
+
+    // New session
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.transports.set(id, transport)
+        debugLog('MCP', 'Internal MCP session started', { sessionId: id })
+      },
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.transports.delete(transport.sessionId)
+        debugLog('MCP', 'Internal MCP session closed', { sessionId: transport.sessionId })
+      }
+    }
+
+    await this.createMcpServer().connect(transport)
+    await transport.handleRequest(req, res, body)
+  }
+
+  /**
+   * @returns Why the request is refused, or null when it may go through
+   */
+  private checkRequest(req: IncomingMessage): { status: number; message: string } | null {
+    const hosts = [`127.0.0.1:${this.port}`, `localhost:${this.port}`]
+    if (!hosts.includes(req.headers.host ?? '')) {
+      return { status: 403, message: 'Forbidden: invalid Host header' }
+    }
+
+    const origin = req.headers.origin
+    if (origin !== undefined && !hosts.some((host) => origin === `http://${host}`)) {
+      return { status: 403, message: 'Forbidden: invalid Origin header' }
+    }
+
+    const provided = Buffer.from(req.headers.authorization ?? '')
+    const expected = Buffer.from(`Bearer ${this.authToken}`)
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return { status: 401, message: 'Unauthorized' }
+    }
+
+    return null
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString()
+    })
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined)
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+// Progress values have to increase over the whole request, whichever helper reports them
+const progressCounters = new WeakMap<ToolRequestExtra, number>()
+
+/**
+ * Send one progress notification for a tool call (nothing when the caller did not ask for progress)
+ * @param extra - Request context of the tool call
+ * @param message - Progress message shown to the caller
+ */
+export function reportProgress(extra: ToolRequestExtra, message: string): void {
+  const progressToken = extra._meta?.progressToken
+  if (progressToken === undefined) {
+    return
+  }
+
+  const progress = (progressCounters.get(extra) ?? 0) + 1
+  progressCounters.set(extra, progress)
+  extra
+    .sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, message },
+    })
+    .catch(() => undefined)
+}
+
+/**
+ * Like reportProgress, but for sources that update many times a second (e.g. git --progress):
+ * at most one notification per interval unless the update is marked as important
+ * @returns Function taking the message and whether it must be sent right away
+ */
+export function throttledProgress(
+  extra: ToolRequestExtra,
+  intervalMs = PROGRESS_THROTTLE_MS,
+): (message: string, important?: boolean) => void {
+  let lastSent = 0
+  return (message, important = false) => {
+    const now = Date.now()
+    if (!important && now - lastSent < intervalMs) {
+      return
+    }
+    lastSent = now
+    reportProgress(extra, message)
+  }
+}
+
+/**
+ * Report progress periodically while a tool waits on something slow (e.g. the user)
+ * @param extra - Request context of the tool call
+ * @param message - Progress message shown to the caller
+ * @returns Function that stops the heartbeat
+ */
+export function startProgressHeartbeat(
+  extra: ToolRequestExtra,
+  message: string,
+  intervalMs = PROGRESS_HEARTBEAT_MS,
+): () => void {
+  if (extra._meta?.progressToken === undefined) {
+    return () => undefined
+  }
+
+  const timer = setInterval(() => reportProgress(extra, message), intervalMs)
+  return () => clearInterval(timer)
+}
+
+/**
+ * Client side of the bridge, used by the stdio MCP server to call IDE server tools.
+ *
+ * Connects lazily and reconnects after the IDE server restarts. The endpoint is resolved
+ * on every (re)connect, so a restarted IDE server on a new port is picked up.
+ */
+export class InternalMcpClient {
+  private client: Client | null = null
+  private transport: StreamableHTTPClientTransport | null = null
+  private connecting: Promise<Client> | null = null
+
+  /**
+   * @param resolveEndpoint - Finds the IDE server to connect to
+   */
+  constructor(private resolveEndpoint: () => Promise<InternalMcpEndpoint>) {}
+
+  /**
+   * Call a tool on the IDE server, forwarding progress and cancellation of the original request
+   * @param name - Internal tool name
+   * @param args - Tool arguments
+   * @param extra - Request context of the tool call being forwarded
+   * @returns Tool result from the IDE server
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    extra: ToolRequestExtra,
+  ): Promise<CallToolResult> {
+    try {
+      return await this.sendToolCall(name, args, extra)
+    } catch (error) {
+      // After an IDE server restart the session is unknown (404) or nothing listens on the old
+      // port any more: start a new session and retry once. Any other failure may come after the
+      // IDE server ran the tool, and a confirmed commit or push must not run twice.
+      const sessionLost = error instanceof StreamableHTTPError && error.code === 404
+      if (!sessionLost && !isConnectionRefused(error)) {
+        throw error
+      }
+
+      debugLog('MCP', 'Internal MCP session expired, reconnecting')
+      await this.close()
+      return this.sendToolCall(name, args, extra)
+    }
+  }
+
+  private async sendToolCall(
+    name: string,
+    args: Record<string, unknown>,
+    extra: ToolRequestExtra,
+  ): Promise<CallToolResult> {
+    const client = await this.getClient()
+    const progressToken = extra._meta?.progressToken
+
+    const result = await client.callTool({ name, arguments: args }, CallToolResultSchema, {
+      signal: extra.signal,
+      timeout: INTERNAL_MCP_TIMEOUT_MS,
+      resetTimeoutOnProgress: true,
+      onprogress: (progress) => {
+        if (progressToken !== undefined) {
+          extra
+            .sendNotification({
+              method: 'notifications/progress',
+              params: { ...progress, progressToken },
+            })
+            .catch(() => undefined)
+        }
+      },
+    })
+    return result as CallToolResult
+  }
+
+  async close(): Promise<void> {
+    const client = this.client
+    const transport = this.transport
+    this.client = null
+    this.transport = null
+
+    // Let the IDE server drop the session right away (fails harmlessly if it's already gone)
+    await transport?.terminateSession().catch(() => undefined)
+    await client?.close()
+  }
+
+  private getClient(): Promise<Client> {
+    if (this.client) {
+      return Promise.resolve(this.client)
+    }
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private async connect(): Promise<Client> {
+    const client = new Client({ name: 'claude-term-mcp', version: '0.0.1' })
+    client.onclose = () => {
+      if (this.client === client) {
+        this.client = null
+      }
+    }
+    client.onerror = (error) => {
+      debugLog('MCP', 'Internal MCP client error', { error: error.message })
+    }
+
+    const { url, authToken } = await this.resolveEndpoint()
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${authToken}` } },
+    })
+    await client.connect(transport)
+    this.client = client
+    this.transport = transport
+    return client
+  }
+}
+
+/**
+ * Whether fetch failed to connect at all, so the request never reached the IDE server
+ */
+function isConnectionRefused(error: unknown): boolean {
+  type SystemError = { code?: string }
+  const cause = (error as { cause?: SystemError & { errors?: SystemError[] } } | null)?.cause
+  // Node reports one error per address tried (IPv4 and IPv6) in an AggregateError
+  return (
+    cause?.code === 'ECONNREFUSED' ||
+    (cause?.errors ?? []).some((attempt) => attempt.code === 'ECONNREFUSED')
+  )
+}
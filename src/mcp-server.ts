@@ -1,90 +1,65 @@
 // mcp-server.ts - Pure MCP server for custom tools (stdio transport)
-import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import {
+  INTERNAL_MCP_PATH,
+  InternalMcpClient,
+  InternalMcpEndpoint,
+  ToolRequestExtra,
+} from './internal-mcp.js'
+import { findIdeServerForWorkspace, listClaudeTermLocks } from './ide-discovery.js'
+import {
+  GIT_STATUS_TOOL_DEFINITION,
+  REVIEW_PUSH_TOOL_DEFINITION,
+  WORKING_TREE_REVIEW_TOOL_DEFINITION,
+  registerGitToolForwarders,
+} from './git-tools.js'
 
 export interface MCPServerOptions {
   workspaceFolder?: string
   serverName?: string
   debug?: boolean
   noWait?: boolean
-  ideServerPort?: number // Port of IDE server's internal MCP
+  ideServerPort?: number // Port of IDE server's internal MCP (default: discovered by workspace)
 }
 
 export class ClaudeTermMCPServer {
-  private server: Server
+  private server: McpServer
   private transport: StdioServerTransport | null = null
+  private ideClient: InternalMcpClient
 
   constructor(private options: MCPServerOptions = {}) {
+    this.ideClient = new InternalMcpClient(() => this.resolveIdeServer())
+
     // Create MCP server with stdio transport
-    this.server = new Server(
-      {
-        name: options.serverName || 'claude-term-mcp',
-        version: '0.0.1',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      },
-    )
+    this.server = new McpServer({
+      name: options.serverName || 'claude-term-mcp',
+      version: '0.0.1',
+    })
 
     this.setupTools()
   }
 
   private setupTools(): void {
-    // Handle tools list request
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'review_push',
-            description: 'Review unpushed commits and push to remote repository after approval',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                branch: {
-                  type: 'string',
-                  description: 'Target branch to push to (optional, defaults to current branch)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'git_status',
-            description: 'Get current git status and unpushed commits',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: [],
-            },
-          },
-        ],
-      }
-    })
+    this.server.registerTool('review_push', REVIEW_PUSH_TOOL_DEFINITION, (args, extra) =>
+      this.forwardToIdeServer('review_push_internal', args, extra),
+    )
 
-    // Handle tool call request
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args = {} } = request.params
-
-      switch (name) {
-        case 'review_push':
-          const result = await this.forwardToIdeServer('review_push_internal', args)
-          return {
-            content: [{ type: 'text', text: result }],
-          }
-
-        case 'git_status':
-          const statusResult = await this.forwardToIdeServer('git_status_internal', {})
-          return {
-            content: [{ type: 'text', text: statusResult }],
-          }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`)
-      }
-    })
+    this.server.registerTool('git_status', GIT_STATUS_TOOL_DEFINITION, (_args, extra) =>
+      this.forwardToIdeServer('git_status_internal', {}, extra),
+    )
+
+    this.server.registerTool(
+      'review_working_tree',
+      WORKING_TREE_REVIEW_TOOL_DEFINITION,
+      (args, extra) => this.forwardToIdeServer('review_working_tree_internal', args, extra),
+    )
+
+    // Git tools keep their names on both sides; mutating ones are confirmed in the IDE terminal
+    registerGitToolForwarders(this.server, (name, args, extra) =>
+      this.forwardToIdeServer(name, args, extra),
+    )
   }
 
   async start(): Promise<void> {
@@ -102,80 +77,62 @@ export class ClaudeTermMCPServer {
       console.error('\n📋 Available tools:')
       console.error('  • review_push - Review and push commits')
       console.error('  • git_status - Get git status and unpushed commits')
+      console.error('  • review_working_tree - Review uncommitted changes file by file')
+      console.error('  • git_diff / git_log / git_branches - Inspect the repository')
+      console.error('  • git_stage / git_commit - Stage and commit (confirmed in the terminal)')
       console.error('\n💡 Add this server to Claude Code MCP settings:')
       console.error(`   claude mcp add ${serverName} node dist/mcp-server.js`)
       console.error('\nWaiting for connection...')
     }
   }
 
-  // Forward requests to IDE Server's internal MCP
-  private async forwardToIdeServer(toolName: string, args: any): Promise<string> {
+  // Find the internal MCP endpoint (and its auth token) of the IDE server running for this workspace
+  private async resolveIdeServer(): Promise<InternalMcpEndpoint> {
+    const port = this.options.ideServerPort
+    const workspace = this.options.workspaceFolder || process.cwd()
+    const lock = port
+      ? (await listClaudeTermLocks()).find((candidate) => candidate.internalMcpPort === port)
+      : await findIdeServerForWorkspace(workspace)
+    if (!lock) {
+      throw new Error(
+        port
+          ? `No claude-term IDE server found with internal MCP port ${port}.`
+          : `No claude-term IDE server found for ${workspace}. Run "claude-term start" in this workspace first.`,
+      )
+    }
+
+    return {
+      url: new URL(`http://127.0.0.1:${lock.internalMcpPort}${INTERNAL_MCP_PATH}`),
+      authToken: lock.authToken,
+    }
+  }
+
+  // Forward requests to IDE Server's internal MCP (progress and cancellation are passed through)
+  private async forwardToIdeServer(
+    toolName: string,
+    args: Record<string, unknown>,
+    extra: ToolRequestExtra,
+  ): Promise<CallToolResult> {
     try {
-      const idePort = this.options.ideServerPort || 12345 // Default fallback port
-
-      console.error(`\n🔗 Forwarding ${toolName} to IDE Server on port ${idePort}...`)
-
-      const postData = JSON.stringify({
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'tools/call',
-        params: {
-          name: toolName,
-          arguments: args,
-        },
-      })
-
-      return new Promise(async (resolve, reject) => {
-        const options = {
-          hostname: 'localhost',
-          port: idePort,
-          path: '/mcp',
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Content-Length': Buffer.byteLength(postData),
-          },
-        }
-
-        const http = await import('http')
-        const req = http.request(options, (res: any) => {
-          let data = ''
-
-          res.on('data', (chunk: any) => {
-            data += chunk
-          })
-
-          res.on('end', () => {
-            try {
-              const response = JSON.parse(data)
-              if (response.error) {
-                reject(new Error(response.error.message || 'Unknown error'))
-              } else {
-                // Extract text content from MCP response
-                const content = response.result?.content?.[0]?.text || 'No response'
-                resolve(content)
-              }
-            } catch (error) {
-              reject(new Error(`Failed to parse response: ${error}`))
-            }
-          })
-        })
-
-        req.on('error', (error: any) => {
-          reject(new Error(`Request failed: ${error.message}`))
-        })
-
-        req.write(postData)
-        req.end()
-      })
+      console.error(`\n🔗 Forwarding ${toolName} to IDE Server...`)
+      return await this.ideClient.callTool(toolName, args, extra)
     } catch (error) {
+      if (extra.signal.aborted) {
+        throw error
+      }
+
       const errorMsg = `Failed to forward to IDE server: ${error instanceof Error ? error.message : error}`
       console.error('❌', errorMsg)
-      return errorMsg
+      return {
+        content: [{ type: 'text', text: errorMsg }],
+        isError: true,
+      }
     }
   }
 
   async stop(): Promise<void> {
+    await this.ideClient.close()
+
     if (this.transport) {
       await this.transport.close()
     }
@@ -0,0 +1,117 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PathPolicy, PathPolicyError, PATH_POLICY_ERROR_CODE } from './path-policy.js'
+
+describe('PathPolicy', () => {
+  let tmpRoot: string
+  let workspace: string
+  let outside: string
+  let policy: PathPolicy
+
+  const denialOf = (requestedPath: string): PathPolicyError => {
+    try {
+      policy.resolve(requestedPath)
+    } catch (error) {
+      if (error instanceof PathPolicyError) {
+        return error
+      }
+      throw error
+    }
+    throw new Error(`Expected ${requestedPath} to be denied`)
+  }
+
+  beforeEach(() => {
+    tmpRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-policy-')))
+    workspace = path.join(tmpRoot, 'workspace')
+    outside = path.join(tmpRoot, 'outside')
+    fs.mkdirSync(path.join(workspace, 'src'), { recursive: true })
+    fs.mkdirSync(outside)
+    fs.writeFileSync(path.join(workspace, 'src', 'app.ts'), 'export {}')
+    fs.writeFileSync(path.join(workspace, '.env.local'), 'SECRET=1')
+    fs.writeFileSync(path.join(outside, 'id_rsa'), 'private key')
+
+    policy = new PathPolicy({ workspaceFolders: [workspace] })
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpRoot, { recursive: true, force: true })
+  })
+
+  describe('workspace containment', () => {
+    it('should resolve relative paths inside the workspace', () => {
+      expect(policy.resolve('src/app.ts')).toBe(path.join(workspace, 'src', 'app.ts'))
+    })
+
+    it('should allow new files that do not exist yet', () => {
+      expect(policy.resolve('src/new/file.ts')).toBe(path.join(workspace, 'src', 'new', 'file.ts'))
+    })
+
+    it('should refuse parent directory traversal', () => {
+      const error = denialOf('../outside/id_rsa')
+
+      expect(error.reason).toBe('outside_workspace')
+      expect(error.code).toBe(PATH_POLICY_ERROR_CODE)
+      expect(error.data).toEqual({ reason: 'outside_workspace', path: '../outside/id_rsa' })
+    })
+
+    it('should refuse absolute paths outside the workspace', () => {
+      expect(denialOf(path.join(outside, 'id_rsa')).reason).toBe('outside_workspace')
+    })
+
+    it('should refuse sibling directories sharing the workspace prefix', () => {
+      const sibling = `${workspace}-other`
+      fs.mkdirSync(sibling)
+
+      expect(denialOf(path.join(sibling, 'file.txt')).reason).toBe('outside_workspace')
+    })
+
+    it('should refuse symlinks that point outside the workspace', () => {
+      fs.symlinkSync(outside, path.join(workspace, 'link'))
+
+      expect(denialOf('link/id_rsa').reason).toBe('outside_workspace')
+    })
+  })
+
+  describe('allowed roots', () => {
+    it('should allow paths under an extra allowed root', () => {
+      policy = new PathPolicy({ workspaceFolders: [workspace], allowedRoots: [outside] })
+
+      expect(policy.resolve(path.join(outside, 'notes.md'))).toBe(path.join(outside, 'notes.md'))
+    })
+  })
+
+  describe('denied patterns', () => {
+    it('should refuse files matching the default patterns', () => {
+      const error = denialOf('.env.local')
+
+      expect(error.reason).toBe('denied_pattern')
+      expect(error.pattern).toBe('.env*')
+    })
+
+    it('should match patterns without a slash against any path segment', () => {
+      expect(denialOf('config/certs/server.pem').pattern).toBe('*.pem')
+    })
+
+    it('should match patterns with a slash against the workspace-relative path', () => {
+      policy = new PathPolicy({ workspaceFolders: [workspace], deniedPatterns: ['secrets/**'] })
+
+      expect(denialOf('secrets/db/password.txt').pattern).toBe('secrets/**')
+      expect(policy.isAllowed('src/secrets.ts')).toBe(true)
+    })
+
+    it('should refuse symlinks whose target matches a denied pattern', () => {
+      fs.symlinkSync(path.join(workspace, '.env.local'), path.join(workspace, 'config.txt'))
+
+      expect(denialOf('config.txt').reason).toBe('denied_pattern')
+    })
+  })
+
+  describe('isAllowed', () => {
+    it('should report allowed and denied paths without throwing', () => {
+      expect(policy.isAllowed('src/app.ts')).toBe(true)
+      expect(policy.isAllowed('../outside/id_rsa')).toBe(false)
+      expect(policy.isAllowed('.env.local')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import fs from 'fs'
+import path from 'path'
+
+/** Files Claude may never read or write, even inside the workspace */
+export const DEFAULT_DENIED_PATTERNS = ['.env*', '*.pem', '*.key']
+
+/** JSON-RPC error code used when a path is refused by the policy */
+export const PATH_POLICY_ERROR_CODE = -32001
+
+export type PathDenialReason = 'outside_workspace' | 'denied_pattern'
+
+export interface PathPolicyOptions {
+  /** Workspace roots; the first one is the base for relative paths */
+  workspaceFolders: string[]
+  /** Extra directories that may be accessed outside the workspace */
+  allowedRoots?: string[]
+  /** Glob patterns that are always refused (e.g. `.env*`, `secrets/**`) */
+  deniedPatterns?: string[]
+}
+
+export class PathPolicyError extends Error {
+  readonly code = PATH_POLICY_ERROR_CODE
+
+  constructor(
+    message: string,
+    readonly reason: PathDenialReason,
+    readonly requestedPath: string,
+    readonly pattern?: string,
+  ) {
+    super(message)
+    this.name = 'PathPolicyError'
+  }
+
+  /** Payload for the `data` field of a JSON-RPC error */
+  get data(): { reason: PathDenialReason; path: string; pattern?: string } {
+    return { reason: this.reason, path: this.requestedPath, pattern: this.pattern }
+  }
+}
+
+/**
+ * Decides which filesystem paths Claude-initiated operations may touch.
+ *
+ * Paths are resolved through symlinks before the containment check, so a link
+ * inside the workspace that points elsewhere is treated as outside.
+ */
+export class PathPolicy {
+  private readonly roots: string[]
+  private readonly deniedPatterns: Array<{ pattern: string; regex: RegExp }>
+
+  constructor(private readonly options: PathPolicyOptions) {
+    this.roots = [...options.workspaceFolders, ...(options.allowedRoots || [])].map((root) =>
+      realpathOfExistingPrefix(path.resolve(root)),
+    )
+    this.deniedPatterns = (options.deniedPatterns || DEFAULT_DENIED_PATTERNS).map((pattern) => ({
+      pattern,
+      regex: globToRegExp(pattern),
+    }))
+  }
+
+  /**
+   * Resolve a requested path and check it against the policy
+   * @param requestedPath - Absolute path, or path relative to the first workspace folder
+   * @returns The resolved real path
+   * @throws PathPolicyError if the path is outside every allowed root or matches a denied pattern
+   */
+  resolve(requestedPath: string): string {
+    const lexicalPath = path.resolve(this.options.workspaceFolders[0], requestedPath)
+    const realPath = realpathOfExistingPrefix(lexicalPath)
+
+    const root = this.roots.find((candidate) => isWithin(candidate, realPath))
+    if (!root) {
+      throw new PathPolicyError(
+        `Access denied: ${requestedPath} is outside the workspace`,
+        'outside_workspace',
+        requestedPath,
+      )
+    }
+
+    // Check both the path as requested and its symlink target
+    const lexicalRoot = path.resolve(this.options.workspaceFolders[0])
+    const candidates = [path.relative(root, realPath)]
+    if (isWithin(lexicalRoot, lexicalPath)) {
+      candidates.push(path.relative(lexicalRoot, lexicalPath))
+    }
+
+    for (const relativePath of candidates) {
+      const pattern = this.findDeniedPattern(relativePath)
+      if (pattern) {
+        throw new PathPolicyError(
+          `Access denied: ${requestedPath} matches denied pattern "${pattern}"`,
+          'denied_pattern',
+          requestedPath,
+          pattern,
+        )
+      }
+    }
+
+    return realPath
+  }
+
+  /**
+   * Check whether a path is allowed without throwing
+   * @param requestedPath - Absolute path, or path relative to the first workspace folder
+   */
+  isAllowed(requestedPath: string): boolean {
+    try {
+      this.resolve(requestedPath)
+      return true
+    } catch (error) {
+      if (error instanceof PathPolicyError) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private findDeniedPattern(relativePath: string): string | undefined {
+    const normalized = relativePath.split(path.sep).join('/')
+    const segments = normalized.split('/')
+
+    for (const { pattern, regex } of this.deniedPatterns) {
+      // Patterns without a slash match any single path segment, like .gitignore
+      const matched = pattern.includes('/')
+        ? regex.test(normalized)
+        : segments.some((segment) => regex.test(segment))
+      if (matched) {
+        return pattern
+      }
+    }
+
+    return undefined
+  }
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  )
+}
+
+// Resolve symlinks for the part of the path that exists, so new files can be checked too
+function realpathOfExistingPrefix(absolutePath: string): string {
+  const missing: string[] = []
+  let current = absolutePath
+
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse())
+    } catch {
+      const parent = path.dirname(current)
+      if (parent === current) {
+        return absolutePath
+      }
+      missing.push(path.basename(current))
+      current = parent
+    }
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++
+      if (pattern[i + 1] === '/') {
+        regex += '(?:.*/)?'
+        i++
+      } else {
+        regex += '.*'
+      }
+    } else if (char === '*') {
+      regex += '[^/]*'
+    } else if (char === '?') {
+      regex += '[^/]'
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${regex}$`)
+}
@@ -0,0 +1,52 @@
+import { PendingEventQueue } from './pending-events.js'
+
+describe('PendingEventQueue', () => {
+  let queue: PendingEventQueue
+
+  beforeEach(() => {
+    queue = new PendingEventQueue(10_000)
+  })
+
+  it('should not queue events before any client disconnected', () => {
+    expect(queue.enqueue({ method: 'at_mentioned' }, 0)).toBe(false)
+    expect(queue.size).toBe(0)
+  })
+
+  it('should deliver queued events when draining within the window', () => {
+    queue.markDisconnected(1_000)
+    queue.enqueue({ method: 'at_mentioned' }, 2_000)
+    queue.enqueue({ method: 'selection_changed' }, 3_000)
+
+    expect(queue.size).toBe(2)
+    expect(queue.drain(5_000)).toEqual({
+      events: [{ method: 'at_mentioned' }, { method: 'selection_changed' }],
+      dropped: 0,
+    })
+    expect(queue.size).toBe(0)
+  })
+
+  it('should drop queued events when the window expired', () => {
+    queue.markDisconnected(1_000)
+    queue.enqueue({ method: 'at_mentioned' }, 2_000)
+
+    expect(queue.drain(20_000)).toEqual({ events: [], dropped: 1 })
+  })
+
+  it('should stop queueing once the window expired', () => {
+    queue.markDisconnected(1_000)
+
+    expect(queue.isWaitingForReconnect(11_000)).toBe(true)
+    expect(queue.enqueue({}, 11_001)).toBe(false)
+  })
+
+  it('should close the window after draining', () => {
+    queue.markDisconnected(1_000)
+    queue.drain(2_000)
+
+    expect(queue.isWaitingForReconnect(2_000)).toBe(false)
+  })
+
+  it('should report the window in seconds', () => {
+    expect(queue.windowSeconds).toBe(10)
+  })
+})
@@ -0,0 +1,67 @@
+/** Default time Claude Code has to reconnect before queued events are dropped */
+export const DEFAULT_RECONNECT_WINDOW_MS = 60_000
+
+/**
+ * Holds at_mentioned / selection_changed events sent while no Claude Code client is connected.
+ *
+ * Events are only queued within the reconnect window after the last client disconnected,
+ * and are delivered when a client reconnects inside that window.
+ */
+export class PendingEventQueue {
+  private events: unknown[] = []
+  private disconnectedAt: number | null = null
+
+  constructor(private windowMs: number = DEFAULT_RECONNECT_WINDOW_MS) {}
+
+  get size(): number {
+    return this.events.length
+  }
+
+  get windowSeconds(): number {
+    return Math.round(this.windowMs / 1000)
+  }
+
+  /**
+   * Start the reconnect window (the last client went away)
+   */
+  markDisconnected(now = Date.now()): void {
+    this.disconnectedAt = now
+  }
+
+  /**
+   * Whether events can still be queued for a reconnecting client
+   */
+  isWaitingForReconnect(now = Date.now()): boolean {
+    return (
+      this.windowMs > 0 &&
+      this.disconnectedAt !== null &&
+      now - this.disconnectedAt <= this.windowMs
+    )
+  }
+
+  /**
+   * Queue an event for delivery on reconnect
+   * @returns false if the reconnect window is not open (never connected, or expired)
+   */
+  enqueue(message: unknown, now = Date.now()): boolean {
+    if (!this.isWaitingForReconnect(now)) {
+      return false
+    }
+    this.events.push(message)
+    return true
+  }
+
+  /**
+   * Take the queued events when a client (re)connects and close the reconnect window
+   * @returns Events to deliver, and how many were dropped because the window expired
+   */
+  drain(now = Date.now()): { events: unknown[]; dropped: number } {
+    const events = this.events
+    const inWindow = this.isWaitingForReconnect(now)
+
+    this.events = []
+    this.disconnectedAt = null
+
+    return inWindow ? { events, dropped: 0 } : { events: [], dropped: events.length }
+  }
+}
@@ -0,0 +1,146 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ProcessError, ProcessRunner, describeCommand } from './process-runner.js'
+
+describe('ProcessRunner', () => {
+  const runner = new ProcessRunner()
+  const node = process.execPath
+
+  const failure = async (promise: Promise<unknown>): Promise<ProcessError> => {
+    try {
+      await promise
+    } catch (error) {
+      return error as ProcessError
+    }
+    throw new Error('Expected the command to fail')
+  }
+
+  it('should pass arguments to the command without a shell', async () => {
+    const args = ['"quoted"', "it's", '$(echo injected)', '; rm -rf /', '*']
+
+    const { stdout, exitCode } = await runner.run(node, [
+      '-e',
+      'console.log(JSON.stringify(process.argv.slice(1)))',
+      ...args,
+    ])
+
+    expect(exitCode).toBe(0)
+    expect(JSON.parse(stdout)).toEqual(args)
+  })
+
+  it('should write input to stdin', async () => {
+    const { stdout } = await runner.run(node, ['-e', 'process.stdin.pipe(process.stdout)'], {
+      input: 'line one\nline two\n',
+    })
+
+    expect(stdout).toBe('line one\nline two\n')
+  })
+
+  it('should run in the configured working directory', async () => {
+    const cwd = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-runner-')))
+    try {
+      const { stdout } = await new ProcessRunner({ cwd }).run(node, [
+        '-e',
+        'console.log(process.cwd())',
+      ])
+
+      expect(stdout.trim()).toBe(cwd)
+    } finally {
+      fs.rmSync(cwd, { recursive: true, force: true })
+    }
+  })
+
+  it('should accept the exit codes listed in okExitCodes', async () => {
+    const { exitCode } = await runner.run(node, ['-e', 'process.exit(1)'], { okExitCodes: [1] })
+
+    expect(exitCode).toBe(1)
+  })
+
+  it('should reject with the exit code and stderr when the command fails', async () => {
+    const error = await failure(
+      runner.run(node, ['-e', 'console.error("bad revision"); process.exit(128)']),
+    )
+
+    expect(error).toBeInstanceOf(ProcessError)
+    expect(error.reason).toBe('exit_code')
+    expect(error.exitCode).toBe(128)
+    expect(error.stderr).toBe('bad revision\n')
+    expect(error.message).toContain('failed with exit code 128: bad revision')
+  })
+
+  it('should report a missing executable as not_found', async () => {
+    const error = await failure(runner.run('claude-term-no-such-command', []))
+
+    expect(error.reason).toBe('not_found')
+    expect(error.message).toBe('claude-term-no-such-command is not installed or not on PATH')
+  })
+
+  it('should kill commands that run past the timeout', async () => {
+    const error = await failure(
+      runner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 200 }),
+    )
+
+    expect(error.reason).toBe('timeout')
+    expect(error.message).toContain('timed out after 200ms')
+  })
+
+  it('should kill commands that print more than maxBuffer', async () => {
+    const error = await failure(
+      runner.run(node, ['-e', 'process.stdout.write("x".repeat(4096))'], { maxBuffer: 1024 }),
+    )
+
+    expect(error.reason).toBe('max_buffer')
+  })
+
+  it('should stop the command when the signal aborts', async () => {
+    const controller = new AbortController()
+    const run = runner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], {
+      signal: controller.signal,
+    })
+    setTimeout(() => controller.abort(), 50)
+
+    const error = await failure(run)
+
+    expect(error.reason).toBe('cancelled')
+    expect(error.message).toContain('was cancelled')
+  })
+
+  it('should not start a command whose signal already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const error = await failure(runner.run(node, ['--version'], { signal: controller.signal }))
+
+    expect(error.reason).toBe('cancelled')
+  })
+
+  it('should pass stderr to onStderr as it arrives', async () => {
+    const chunks: string[] = []
+
+    const { stderr } = await runner.run(node, ['-e', 'process.stderr.write("50%\\r100%\\n")'], {
+      onStderr: (chunk) => chunks.push(chunk),
+    })
+
+    expect(chunks.join('')).toBe('50%\r100%\n')
+    expect(stderr).toBe('50%\r100%\n')
+  })
+
+  describe('git', () => {
+    it('should return trimmed stdout', async () => {
+      await expect(runner.git(['--version'])).resolves.toMatch(/^git version \S+$/)
+    })
+
+    it('should return null from tryGit when git fails', async () => {
+      await expect(runner.tryGit(['no-such-subcommand'])).resolves.toBeNull()
+    })
+  })
+})
+
+describe('describeCommand', () => {
+  it('should quote arguments that contain whitespace', () => {
+    expect(describeCommand('git', ['commit', '-m', 'fix: a bug'])).toBe(
+      'git commit -m "fix: a bug"',
+    )
+  })
+})
@@ -0,0 +1,239 @@
+// process-runner.ts - Run git and other external tools with argv arrays instead of shell strings
+
+import { spawn } from 'child_process'
+
+/** Default time limit for a command (network commands pass their own) */
+export const DEFAULT_TIMEOUT_MS = 60_000
+
+/** Time limit for commands that talk to a remote (ls-remote, fetch) */
+export const NETWORK_TIMEOUT_MS = 5 * 60_000
+
+/** Default limit for captured stdout + stderr */
+export const DEFAULT_MAX_BUFFER = 64 * 1024 * 1024
+
+/**
+ * - `not_found`: the executable is not installed or not on PATH
+ * - `exit_code`: the command exited with a code that is not accepted
+ * - `signal`: the command was killed by a signal
+ * - `timeout`: the command ran longer than the time limit and was killed
+ * - `max_buffer`: the command printed more than the buffer limit and was killed
+ * - `spawn_failed`: the command could not be started for another reason
+ * - `cancelled`: the command was stopped through its abort signal
+ */
+export type ProcessErrorReason =
+  | 'not_found'
+  | 'exit_code'
+  | 'signal'
+  | 'timeout'
+  | 'max_buffer'
+  | 'spawn_failed'
+  | 'cancelled'
+
+export interface RunOptions {
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+  /** Written to stdin, which is closed afterwards (stdin is ignored when unset) */
+  input?: string
+  /** Time limit in milliseconds, 0 for none (default: DEFAULT_TIMEOUT_MS) */
+  timeout?: number
+  /** Limit for captured output in bytes (default: DEFAULT_MAX_BUFFER) */
+  maxBuffer?: number
+  /** Exit codes besides 0 that count as success, e.g. 1 for `git diff --no-index` */
+  okExitCodes?: number[]
+  /** 'inherit' hands the terminal to the command (for progress output); nothing is captured */
+  stdio?: 'pipe' | 'inherit'
+  /** 'inherit' lets the command draw on the terminal's stderr (e.g. fzf) while stdout is captured */
+  stderr?: 'pipe' | 'inherit'
+  /** Stops the command; the result rejects with a `cancelled` ProcessError */
+  signal?: AbortSignal
+  /** Called with stderr as it arrives (e.g. git's --progress output) */
+  onStderr?: (chunk: string) => void
+}
+
+export interface RunResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ProcessErrorReason,
+    readonly command: string,
+    readonly args: string[],
+    readonly exitCode: number | null = null,
+    readonly stdout = '',
+    readonly stderr = '',
+  ) {
+    super(message)
+    this.name = 'ProcessError'
+  }
+}
+
+/**
+ * Runs commands with `spawn` and an argument array, so arguments reach the command exactly
+ * as given - no shell parses them. Commands run asynchronously and never block the event loop.
+ */
+export class ProcessRunner {
+  /**
+   * @param defaults - Options applied to every command, e.g. the workspace as cwd
+   */
+  constructor(private defaults: RunOptions = {}) {}
+
+  run(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+    const {
+      cwd,
+      env,
+      input,
+      timeout = DEFAULT_TIMEOUT_MS,
+      maxBuffer = DEFAULT_MAX_BUFFER,
+      okExitCodes = [],
+      stdio = 'pipe',
+      stderr: stderrMode = 'pipe',
+      signal,
+      onStderr,
+    } = { ...this.defaults, ...options }
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ProcessError(cancelledMessage(command, args), 'cancelled', command, args))
+        return
+      }
+
+      const child = spawn(command, args, {
+        cwd,
+        env,
+        stdio:
+          stdio === 'inherit'
+            ? 'inherit'
+            : [input === undefined ? 'ignore' : 'pipe', 'pipe', stderrMode],
+      })
+
+      let stdout = ''
+      let stderr = ''
+      let size = 0
+      let killedFor: 'timeout' | 'max_buffer' | 'cancelled' | null = null
+      let settled = false
+
+      const fail = (
+        reason: ProcessErrorReason,
+        message: string,
+        exitCode: number | null = null,
+      ) => {
+        settled = true
+        reject(new ProcessError(message, reason, command, args, exitCode, stdout, stderr))
+      }
+      const kill = (reason: 'timeout' | 'max_buffer' | 'cancelled') => {
+        killedFor = reason
+        child.kill('SIGTERM')
+      }
+
+      const timer = timeout > 0 ? setTimeout(() => kill('timeout'), timeout) : null
+      const onAbort = () => kill('cancelled')
+      signal?.addEventListener('abort', onAbort, { once: true })
+      const cleanup = () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+        signal?.removeEventListener('abort', onAbort)
+      }
+
+      const collect = (append: (chunk: string) => void) => (chunk: string) => {
+        size += Buffer.byteLength(chunk)
+        if (size > maxBuffer) {
+          kill('max_buffer')
+          return
+        }
+        append(chunk)
+      }
+      child.stdout?.setEncoding('utf8').on(
+        'data',
+        collect((chunk) => (stdout += chunk)),
+      )
+      child.stderr?.setEncoding('utf8').on(
+        'data',
+        collect((chunk) => {
+          stderr += chunk
+          onStderr?.(chunk)
+        }),
+      )
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        cleanup()
+        if (settled) {
+          return
+        }
+        if (error.code === 'ENOENT') {
+          fail('not_found', `${command} is not installed or not on PATH`)
+        } else {
+          fail('spawn_failed', `Failed to run ${describeCommand(command, args)}: ${error.message}`)
+        }
+      })
+
+      child.on('close', (code, exitSignal) => {
+        cleanup()
+        if (settled) {
+          return
+        }
+        const commandLine = describeCommand(command, args)
+        if (killedFor === 'cancelled') {
+          fail('cancelled', cancelledMessage(command, args))
+        } else if (killedFor === 'timeout') {
+          fail('timeout', `${commandLine} timed out after ${timeout}ms`)
+        } else if (killedFor === 'max_buffer') {
+          fail('max_buffer', `${commandLine} printed more than ${maxBuffer} bytes`)
+        } else if (code === null) {
+          fail('signal', `${commandLine} was killed by ${exitSignal}`)
+        } else if (code !== 0 && !okExitCodes.includes(code)) {
+          const detail = stderr.trim() || stdout.trim()
+          fail(
+            'exit_code',
+            `${commandLine} failed with exit code ${code}${detail ? `: ${detail}` : ''}`,
+            code,
+          )
+        } else {
+          settled = true
+          resolve({ stdout, stderr, exitCode: code })
+        }
+      })
+
+      if (input !== undefined) {
+        // The command may exit without reading stdin; that is not an error here
+        child.stdin?.on('error', () => {})
+        child.stdin?.end(input)
+      }
+    })
+  }
+
+  /**
+   * Run git and return its trimmed stdout
+   * @throws ProcessError when git fails
+   */
+  async git(args: string[], options: RunOptions = {}): Promise<string> {
+    const { stdout } = await this.run('git', args, options)
+    return stdout.trim()
+  }
+
+  /**
+   * Run git and return its trimmed stdout, or null when it fails (e.g. `rev-parse --verify`)
+   */
+  async tryGit(args: string[], options: RunOptions = {}): Promise<string | null> {
+    try {
+      return await this.git(args, options)
+    } catch {
+      return null
+    }
+  }
+}
+
+function cancelledMessage(command: string, args: string[]): string {
+  return `${describeCommand(command, args)} was cancelled`
+}
+
+/**
+ * Command line for messages, quoting arguments that contain whitespace
+ */
+export function describeCommand(command: string, args: string[]): string {
+  return [command, ...args].map((arg) => (/\s/.test(arg) ? JSON.stringify(arg) : arg)).join(' ')
+}
@@ -0,0 +1,173 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { PushPlanner, describePushPlan } from './push-planner.js'
+
+describe('PushPlanner', () => {
+  let root: string
+  let local: string
+  let other: string
+
+  const git = (cwd: string, command: string) =>
+    execSync(`git ${command}`, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] })
+
+  const commit = (cwd: string, file: string, subject: string) => {
+    fs.writeFileSync(path.join(cwd, file), `${subject}\n`)
+    git(cwd, `add ${file}`)
+    git(cwd, `commit -q -m "${subject}"`)
+  }
+
+  const clone = (name: string) => {
+    const dir = path.join(root, name)
+    git(root, `clone -q remote.git ${name}`)
+    git(dir, 'config user.email test@example.com')
+    git(dir, 'config user.name Test')
+    return dir
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-push-'))
+    git(root, 'init -q --bare -b main remote.git')
+    local = clone('local')
+    commit(local, 'a.txt', 'Initial')
+    git(local, 'push -q origin main')
+    other = clone('other')
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should plan a plain push when only ahead', async () => {
+    commit(local, 'b.txt', 'Local change')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('main')
+
+    expect(plan).toMatchObject({ state: 'ahead', ahead: 1, behind: 0, needsUpstream: false })
+    expect(plan.actions).toEqual(['push', 'abort'])
+  })
+
+  it('should fetch the remote and offer rebase or merge when behind', async () => {
+    commit(other, 'c.txt', 'Remote change')
+    git(other, 'push -q origin main')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('main')
+
+    expect(plan).toMatchObject({ state: 'behind', ahead: 0, behind: 1 })
+    expect(plan.incoming.map((c) => c.subject)).toEqual(['Remote change'])
+    expect(plan.actions).toEqual(['rebase', 'merge', 'abort'])
+  })
+
+  it('should report the progress of the fetch', async () => {
+    commit(other, 'c.txt', 'Remote change')
+    git(other, 'push -q origin main')
+    const onProgress = jest.fn()
+    const stderrSpy = jest.spyOn(process.stderr, 'write').mockImplementation(() => true)
+
+    try {
+      await new PushPlanner({ cwd: local }).plan('main', 'origin', 'HEAD', onProgress)
+    } finally {
+      stderrSpy.mockRestore()
+    }
+
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ operation: 'fetch' }))
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ done: true }))
+  })
+
+  it('should offer force push for diverged branches unless protected', async () => {
+    git(local, 'checkout -q -b feature')
+    commit(local, 'b.txt', 'Local change')
+    git(local, 'push -q -u origin feature')
+    git(other, 'fetch -q origin')
+    git(other, 'checkout -q feature')
+    commit(other, 'c.txt', 'Remote change')
+    git(other, 'push -q origin feature')
+    git(local, 'commit -q --amend -m "Rewritten"')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('feature')
+    const protectedPlan = await new PushPlanner({
+      cwd: local,
+      protectedBranches: ['feature'],
+    }).plan('feature')
+
+    expect(plan.state).toBe('diverged')
+    expect(plan.remoteHash).toBe(git(other, 'rev-parse HEAD').trim())
+    expect(plan.actions).toEqual(['rebase', 'merge', 'force', 'abort'])
+    expect(protectedPlan.actions).not.toContain('force')
+    expect(describePushPlan(protectedPlan).join('\n')).toContain('protected')
+  })
+
+  it('should plan an upstream push for a branch missing on the remote', async () => {
+    git(local, 'checkout -q -b feature')
+    commit(local, 'b.txt', 'New work')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('feature')
+
+    expect(plan).toMatchObject({ state: 'no-upstream', ahead: 1, remoteHash: null })
+    expect(plan.actions).toEqual(['set-upstream', 'abort'])
+  })
+
+  it('should not mistake a remote branch with the same trailing name for the branch', async () => {
+    git(other, 'checkout -q -b team/feature')
+    commit(other, 'c.txt', 'Team work')
+    git(other, 'push -q origin team/feature')
+    git(local, 'checkout -q -b feature')
+    commit(local, 'b.txt', 'New work')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('feature')
+
+    expect(plan).toMatchObject({ state: 'no-upstream', remoteHash: null })
+  })
+
+  it('should ask to set the upstream when the remote branch exists but is not tracked', async () => {
+    git(local, 'checkout -q -b feature')
+    git(local, 'push -q origin feature')
+    commit(local, 'b.txt', 'More work')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('feature')
+
+    expect(plan).toMatchObject({ state: 'ahead', needsUpstream: true })
+    expect(plan.actions).toEqual(['set-upstream', 'abort'])
+  })
+
+  it('should read the push remote from git config in precedence order', async () => {
+    const planner = new PushPlanner({ cwd: local })
+    git(local, 'remote add fork ../remote.git')
+
+    expect(await planner.listRemotes()).toEqual(['fork', 'origin'])
+    expect(await planner.configuredRemote('main')).toBe('origin')
+
+    git(local, 'config remote.pushDefault fork')
+    expect(await planner.configuredRemote('main')).toBe('fork')
+
+    git(local, 'config branch.main.pushRemote origin')
+    expect(await planner.configuredRemote('main')).toBe('origin')
+    expect(await planner.configuredRemote('untracked')).toBe('fork')
+  })
+
+  it('should plan against a remote other than origin', async () => {
+    git(local, 'remote add fork ../remote.git')
+    git(local, 'checkout -q -b feature')
+    commit(local, 'b.txt', 'Work')
+    git(local, 'push -q fork feature')
+    commit(local, 'c.txt', 'More work')
+
+    const plan = await new PushPlanner({ cwd: local }).plan('feature', 'fork')
+
+    expect(plan).toMatchObject({ remote: 'fork', state: 'ahead', ahead: 1, needsUpstream: true })
+  })
+
+  it('should find the remote-tracking ref on the remote the branch pushes to', async () => {
+    const planner = new PushPlanner({ cwd: local })
+    git(local, 'remote add fork ../remote.git')
+    git(local, 'checkout -q -b feature')
+    git(local, 'push -q fork feature')
+
+    expect(await planner.remoteTrackingRef('feature')).toBeNull()
+
+    git(local, 'config remote.pushDefault fork')
+    expect(await planner.remoteTrackingRef('feature')).toBe('fork/feature')
+    expect(await planner.remoteTrackingRef('missing')).toBeNull()
+  })
+})
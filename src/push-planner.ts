@@ -0,0 +1,248 @@
+// push-planner.ts - Work out how a branch relates to its remote before pushing
+
+import { NETWORK_TIMEOUT_MS } from './process-runner.js'
+import { GitProgressListener, GitService } from './git-service.js'
+
+/** Branches that can never be force-pushed from claude-term */
+export const DEFAULT_PROTECTED_BRANCHES = ['main', 'master']
+
+/**
+ * - `no-upstream`: the branch does not exist on the remote yet
+ * - `behind`: the remote has commits the local branch lacks, nothing to push
+ * - `diverged`: both sides have commits the other lacks
+ */
+export type PushState = 'up-to-date' | 'ahead' | 'behind' | 'diverged' | 'no-upstream'
+
+export type PushAction = 'push' | 'set-upstream' | 'rebase' | 'merge' | 'force' | 'abort'
+
+export interface PlannedCommit {
+  hash: string
+  subject: string
+}
+
+export interface PushPlan {
+  branch: string
+  remote: string
+  state: PushState
+  ahead: number
+  behind: number
+  /** Whether `branch.<name>.merge` is missing, so a push has to set the upstream */
+  needsUpstream: boolean
+  protected: boolean
+  /** Remote branch head, used as the lease for a force push */
+  remoteHash: string | null
+  /** Local commits not on the remote */
+  outgoing: PlannedCommit[]
+  /** Remote commits not in the local branch - a force push would overwrite these */
+  incoming: PlannedCommit[]
+  /** What the user may do, in the order they are offered (abort is always last) */
+  actions: PushAction[]
+}
+
+export interface PushPlannerOptions {
+  cwd?: string
+  protectedBranches?: string[]
+}
+
+export class PushPlanner {
+  private service: GitService
+
+  constructor(private options: PushPlannerOptions = {}) {
+    this.service = new GitService(options.cwd)
+  }
+
+  /**
+   * Fetch the remote branch and compare it with the local one
+   * @param branch - Local branch to push (pushed to the same name on the remote)
+   * @param remote - Remote to push to
+   * @param revision - Local commit that would be pushed (the branch head unless only part is)
+   * @param onProgress - Receives the fetch progress
+   */
+  async plan(
+    branch: string,
+    remote = 'origin',
+    revision = 'HEAD',
+    onProgress?: GitProgressListener,
+  ): Promise<PushPlan> {
+    const remoteRef = `${remote}/${branch}`
+    const isProtected = (this.options.protectedBranches || DEFAULT_PROTECTED_BRANCHES).includes(
+      branch,
+    )
+    const needsUpstream = !(await this.service.tryGit([
+      'config',
+      '--get',
+      `branch.${branch}.merge`,
+    ]))
+
+    // A bare branch name would also match refs/heads/<anything>/<branch>
+    const headRef = `refs/heads/${branch}`
+    const remoteHeads = await this.service.git(['ls-remote', '--heads', remote, headRef], {
+      timeout: NETWORK_TIMEOUT_MS,
+    })
+    const remoteHash =
+      remoteHeads
+        .split('\n')
+        .map((line) => line.split('\t'))
+        .find(([, ref]) => ref === headRef)?.[0] ?? null
+
+    if (!remoteHash) {
+      const outgoing = await this.listCommits([revision, '--not', '--remotes'])
+      return {
+        branch,
+        remote,
+        state: 'no-upstream',
+        ahead: outgoing.length,
+        behind: 0,
+        needsUpstream: true,
+        protected: isProtected,
+        remoteHash: null,
+        outgoing,
+        incoming: [],
+        actions: ['set-upstream', 'abort'],
+      }
+    }
+
+    // Update the remote-tracking ref so ahead/behind reflects the remote right now
+    await this.service.runWithProgress('fetch', [remote, branch], onProgress, {
+      timeout: NETWORK_TIMEOUT_MS,
+    })
+
+    const outgoing = await this.listCommits([`${remoteRef}..${revision}`])
+    const incoming = await this.listCommits([`${revision}..${remoteRef}`])
+    const state: PushState =
+      outgoing.length > 0 && incoming.length > 0
+        ? 'diverged'
+        : incoming.length > 0
+          ? 'behind'
+          : outgoing.length > 0
+            ? 'ahead'
+            : 'up-to-date'
+
+    return {
+      branch,
+      remote,
+      state,
+      ahead: outgoing.length,
+      behind: incoming.length,
+      needsUpstream,
+      protected: isProtected,
+      remoteHash,
+      outgoing,
+      incoming,
+      actions: planActions(state, needsUpstream, isProtected),
+    }
+  }
+
+  /**
+   * Remote the branch pushes to according to git config: `branch.<name>.pushRemote`,
+   * then `remote.pushDefault`, then `branch.<name>.remote`
+   * @returns null when none is configured (or the upstream is a local branch)
+   */
+  async configuredRemote(branch: string): Promise<string | null> {
+    const candidates = [
+      `branch.${branch}.pushRemote`,
+      'remote.pushDefault',
+      `branch.${branch}.remote`,
+    ]
+    for (const key of candidates) {
+      const remote = await this.service.tryGit(['config', '--get', key])
+      if (remote && remote !== '.') {
+        return remote
+      }
+    }
+    return null
+  }
+
+  /**
+   * Remote-tracking ref of the branch on the remote it pushes to, e.g. `upstream/feature`.
+   * Without a configured remote this is the only remote, or origin when there are several.
+   * @returns null when the branch has not been pushed there yet
+   */
+  async remoteTrackingRef(branch: string): Promise<string | null> {
+    let remote = await this.configuredRemote(branch)
+    if (!remote) {
+      const remotes = await this.listRemotes()
+      remote = remotes.length === 1 ? remotes[0] : remotes.includes('origin') ? 'origin' : null
+    }
+    if (!remote) {
+      return null
+    }
+    const ref = `${remote}/${branch}`
+    return (await this.service.tryGit(['rev-parse', '--verify', '--quiet', `refs/remotes/${ref}`]))
+      ? ref
+      : null
+  }
+
+  async listRemotes(): Promise<string[]> {
+    return (await this.service.git(['remote'])).split('\n').filter((remote) => remote)
+  }
+
+  private async listCommits(range: string[]): Promise<PlannedCommit[]> {
+    const output = await this.service.git(['log', '--format=%H%x09%s', ...range])
+    return output
+      .split('\n')
+      .filter((line) => line)
+      .map((line) => {
+        const [hash, ...subject] = line.split('\t')
+        return { hash, subject: subject.join('\t') }
+      })
+  }
+}
+
+function planActions(state: PushState, needsUpstream: boolean, isProtected: boolean): PushAction[] {
+  switch (state) {
+    case 'ahead':
+      return [needsUpstream ? 'set-upstream' : 'push', 'abort']
+    case 'behind':
+      return ['rebase', 'merge', 'abort']
+    case 'diverged':
+      return isProtected ? ['rebase', 'merge', 'abort'] : ['rebase', 'merge', 'force', 'abort']
+    case 'no-upstream':
+      return ['set-upstream', 'abort']
+    case 'up-to-date':
+      return []
+  }
+}
+
+/**
+ * Describe a plan for the terminal
+ */
+export function describePushPlan(plan: PushPlan): string[] {
+  const target = `${plan.remote}/${plan.branch}`
+  const lines: string[] = []
+
+  switch (plan.state) {
+    case 'up-to-date':
+      lines.push(`✅ ${plan.branch} is up to date with ${target}`)
+      break
+    case 'ahead':
+      lines.push(`📤 ${plan.ahead} commit(s) to push to ${target}`)
+      break
+    case 'behind':
+      lines.push(`📥 ${target} has ${plan.behind} commit(s) that ${plan.branch} does not have`)
+      break
+    case 'diverged':
+      lines.push(
+        `🔀 ${plan.branch} and ${target} have diverged (${plan.ahead} local, ${plan.behind} remote commit(s))`,
+      )
+      break
+    case 'no-upstream':
+      lines.push(`🆕 ${target} does not exist yet - the push will create it and set the upstream`)
+      break
+  }
+
+  if (plan.needsUpstream && plan.state !== 'no-upstream' && plan.state !== 'up-to-date') {
+    lines.push(`🔗 ${plan.branch} has no upstream - the push will track ${target}`)
+  }
+  if (plan.incoming.length > 0) {
+    lines.push(`📋 Remote commits not in ${plan.branch}:`)
+    plan.incoming.forEach((commit) =>
+      lines.push(`   ${commit.hash.substring(0, 8)} ${commit.subject}`),
+    )
+  }
+  if (plan.protected && plan.state === 'diverged') {
+    lines.push(`🔒 ${plan.branch} is protected - force push is not available`)
+  }
+
+  return lines
+}
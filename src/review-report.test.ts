@@ -0,0 +1,168 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  ReviewReport,
+  ReviewReportBuilder,
+  renderHtmlReport,
+  renderMarkdownReport,
+  reportFormatFor,
+  writeReviewReport,
+} from './review-report.js'
+
+const report: ReviewReport = {
+  branch: 'feature',
+  base: 'origin/feature',
+  generatedAt: '2024-01-01T00:00:00.000Z',
+  commits: [
+    { hash: 'a'.repeat(40), author: 'Ann', date: '2024-01-01T00:00:00Z', subject: 'Fix <b> | c' },
+  ],
+  files: [
+    { file: 'src/a.ts', diff: '@@ -1 +1 @@\n-old\n+new ```', additions: 1, deletions: 1 },
+    { file: 'logo.png', diff: 'Binary files differ', additions: null, deletions: null },
+  ],
+  decision: {
+    decision: 'approved',
+    decidedAt: '2024-01-01T00:05:00.000Z',
+    reviewer: 'Ann',
+    outcome: 'Successfully pushed to origin/feature',
+  },
+}
+
+describe('reportFormatFor', () => {
+  it('should use HTML for .html files and Markdown otherwise', () => {
+    expect(reportFormatFor('review.HTML')).toBe('html')
+    expect(reportFormatFor('review.htm')).toBe('html')
+    expect(reportFormatFor('review.md')).toBe('markdown')
+    expect(reportFormatFor('review')).toBe('markdown')
+  })
+})
+
+describe('renderMarkdownReport', () => {
+  it('should include stats, commits, diffs and the decision', () => {
+    const markdown = renderMarkdownReport(report)
+
+    expect(markdown).toContain('| 1 | 2 | +1 | -1 |')
+    expect(markdown).toContain('| `aaaaaaaa` | Fix <b> \\| c | Ann |')
+    expect(markdown).toContain('### `logo.png` (binary)')
+    expect(markdown).toContain('````diff\n@@ -1 +1 @@\n-old\n+new ```\n````')
+    expect(markdown).toContain(
+      '**Decision:** ✅ Approved by Ann at 2024-01-01T00:05:00.000Z - Successfully pushed',
+    )
+  })
+
+  it('should mark a report without a decision as pending', () => {
+    expect(renderMarkdownReport({ ...report, decision: undefined })).toContain(
+      '**Decision:** Pending',
+    )
+  })
+})
+
+describe('renderHtmlReport', () => {
+  it('should escape content and highlight diff lines', () => {
+    const html = renderHtmlReport(report)
+
+    expect(html).toContain('<td>Fix &lt;b&gt; | c</td>')
+    expect(html).toContain('<span class="hunk">@@ -1 +1 @@</span>')
+    expect(html).toContain('<span class="del">-old</span>')
+    expect(html).toContain(
+      '<span class="add">+<span class="tok-kw">new</span> <span class="tok-str">``</span>`</span>',
+    )
+    expect(html).not.toMatch(/<(script|link)\b/)
+  })
+
+  it('should color the code by the language of the file', () => {
+    const html = renderHtmlReport({
+      ...report,
+      files: [
+        {
+          file: 'tool.py',
+          diff: '@@ -1 +1 @@\n-x = 1\n+return "a # b" # <done>',
+          additions: 1,
+          deletions: 1,
+        },
+        { file: 'notes.txt', diff: '@@ -0,0 +1 @@\n+return "a"', additions: 1, deletions: 0 },
+      ],
+    })
+
+    expect(html).toContain('<span class="del">-x = <span class="tok-num">1</span></span>')
+    expect(html).toContain(
+      '<span class="add">+<span class="tok-kw">return</span> <span class="tok-str">&quot;a # b&quot;</span> <span class="tok-com"># &lt;done&gt;</span></span>',
+    )
+    expect(html).toContain('<span class="add">+return &quot;a&quot;</span>')
+  })
+})
+
+describe('ReviewReportBuilder', () => {
+  let root: string
+  let repo: string
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, { cwd: repo, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] })
+
+  const commit = (file: string, content: string, subject: string) => {
+    fs.writeFileSync(path.join(repo, file), content)
+    git(`add ${file}`)
+    git(`commit -q -m "${subject}"`)
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-report-'))
+    execSync('git init -q --bare -b main remote.git', { cwd: root, stdio: 'ignore' })
+    execSync('git clone -q remote.git repo', { cwd: root, stdio: 'ignore' })
+    repo = path.join(root, 'repo')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    commit('a.txt', 'a\n', 'Initial')
+    git('push -q origin main')
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should collect the unpushed commits and their combined diff', async () => {
+    commit('a.txt', 'a\nb\n', 'Extend a')
+    commit('c.txt', 'c\n', 'Add c')
+
+    const builder = new ReviewReportBuilder(repo)
+    const collected = await builder.collect()
+
+    expect(collected).toMatchObject({ branch: 'main', base: 'origin/main' })
+    expect(collected.commits.map((c) => c.subject)).toEqual(['Extend a', 'Add c'])
+    expect(collected.files.map((f) => [f.file, f.additions, f.deletions])).toEqual([
+      ['a.txt', 1, 0],
+      ['c.txt', 1, 0],
+    ])
+    expect(collected.files[1].diff).toContain('+c')
+    expect(await builder.reviewer()).toBe('Test')
+  })
+
+  it('should review against the remote the branch pushes to', async () => {
+    git('remote rename origin upstream')
+    commit('b.txt', 'b\n', 'Add b')
+
+    const collected = await new ReviewReportBuilder(repo).collect()
+
+    expect(collected.base).toBe('upstream/main')
+    expect(collected.commits.map((c) => c.subject)).toEqual(['Add b'])
+  })
+
+  it('should diff against the parent of the first unpushed commit without an upstream', async () => {
+    git('checkout -q -b feature')
+    commit('d.txt', 'd\n', 'Add d')
+
+    const collected = await new ReviewReportBuilder(repo).collect()
+
+    expect(collected.base).toMatch(/^[a-f0-9]{40}$/)
+    expect(collected.files.map((f) => f.file)).toEqual(['d.txt'])
+  })
+
+  it('should write the report in the format of the file extension', () => {
+    const file = path.join(root, 'reports', 'review.html')
+
+    expect(writeReviewReport(report, file)).toBe('html')
+    expect(fs.readFileSync(file, 'utf8')).toMatch(/^<!DOCTYPE html>/)
+  })
+})
@@ -0,0 +1,425 @@
+// review-report.ts - Export a commit review as a self-contained Markdown or HTML report
+
+import fs from 'fs'
+import path from 'path'
+import { ProcessRunner } from './process-runner.js'
+import { PushPlanner } from './push-planner.js'
+
+/** Git's empty tree, the base for a branch whose every commit is unpushed */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+export type ReviewReportFormat = 'markdown' | 'html'
+
+export type ReviewDecision = 'approved' | 'rejected' | 'commit-by-commit' | 'cancelled'
+
+export interface ReviewReportCommit {
+  hash: string
+  author: string
+  /** ISO 8601 author date */
+  date: string
+  subject: string
+}
+
+export interface ReviewReportFile {
+  file: string
+  diff: string
+  /** null for binary files */
+  additions: number | null
+  deletions: number | null
+}
+
+export interface ReviewReport {
+  branch: string
+  /** What the commits are compared with, e.g. origin/main (null when nothing is unpushed) */
+  base: string | null
+  generatedAt: string
+  commits: ReviewReportCommit[]
+  files: ReviewReportFile[]
+  decision?: {
+    decision: ReviewDecision
+    decidedAt: string
+    reviewer: string
+    /** What happened after the decision, e.g. the push result */
+    outcome?: string
+  }
+}
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: '✅ Approved',
+  rejected: '❌ Rejected',
+  'commit-by-commit': '🔍 Reviewed commit by commit',
+  cancelled: '🛑 Cancelled',
+}
+
+interface SyntaxRules {
+  /** Marker of a comment that runs to the end of the line */
+  comment: '//' | '#' | null
+  keywords: string[]
+}
+
+const LITERALS = ['true', 'false', 'null']
+
+const SCRIPT_SYNTAX: SyntaxRules = {
+  comment: '//',
+  keywords: [
+    ...LITERALS,
+    ...['as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue'],
+    ...['default', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from'],
+    ...['function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let'],
+    ...['new', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static'],
+    ...['switch', 'this', 'throw', 'try', 'type', 'typeof', 'undefined', 'var', 'while'],
+  ],
+}
+
+const C_SYNTAX: SyntaxRules = {
+  comment: '//',
+  keywords: [
+    ...LITERALS,
+    ...['break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do'],
+    ...['double', 'else', 'enum', 'extends', 'final', 'float', 'for', 'if', 'import', 'int'],
+    ...['long', 'namespace', 'new', 'package', 'private', 'protected', 'public', 'return'],
+    ...['static', 'struct', 'switch', 'this', 'throw', 'try', 'using', 'void', 'while'],
+  ],
+}
+
+const PYTHON_SYNTAX: SyntaxRules = {
+  comment: '#',
+  keywords: [
+    ...['None', 'True', 'False', 'and', 'as', 'async', 'await', 'class', 'def', 'elif'],
+    ...['else', 'except', 'finally', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda'],
+    ...['not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'],
+  ],
+}
+
+const SHELL_SYNTAX: SyntaxRules = {
+  comment: '#',
+  keywords: [
+    ...['case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function'],
+    ...['if', 'in', 'local', 'return', 'then', 'while'],
+  ],
+}
+
+const GO_SYNTAX: SyntaxRules = {
+  comment: '//',
+  keywords: [
+    ...['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false'],
+    ...['for', 'func', 'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range'],
+    ...['return', 'struct', 'switch', 'true', 'type', 'var'],
+  ],
+}
+
+const RUST_SYNTAX: SyntaxRules = {
+  comment: '//',
+  keywords: [
+    ...['as', 'async', 'await', 'else', 'enum', 'false', 'fn', 'for', 'if', 'impl', 'let'],
+    ...['loop', 'match', 'mod', 'mut', 'pub', 'return', 'self', 'Self', 'struct', 'trait'],
+    ...['true', 'use', 'where', 'while'],
+  ],
+}
+
+/** Languages the HTML report colors, by file extension; other files only get diff colors */
+const SYNTAX_BY_EXTENSION: Record<string, SyntaxRules> = {
+  ...Object.fromEntries(
+    ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'].map((ext) => [
+      ext,
+      SCRIPT_SYNTAX,
+    ]),
+  ),
+  ...Object.fromEntries(
+    ['.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.java', '.kt'].map((ext) => [ext, C_SYNTAX]),
+  ),
+  '.py': PYTHON_SYNTAX,
+  '.sh': SHELL_SYNTAX,
+  '.bash': SHELL_SYNTAX,
+  '.zsh': SHELL_SYNTAX,
+  '.go': GO_SYNTAX,
+  '.rs': RUST_SYNTAX,
+  '.json': { comment: null, keywords: LITERALS },
+  '.yml': { comment: '#', keywords: LITERALS },
+  '.yaml': { comment: '#', keywords: LITERALS },
+}
+
+/** Quoted strings, escapes included; they end on the same line */
+const STRING_PATTERN = /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`/.source
+const NUMBER_PATTERN = /\b\d+(?:\.\d+)?\b/.source
+
+/**
+ * Pick the report format from the file extension: `.html`/`.htm` is HTML, anything else Markdown
+ */
+export function reportFormatFor(filePath: string): ReviewReportFormat {
+  return /\.html?$/i.test(filePath) ? 'html' : 'markdown'
+}
+
+export class ReviewReportBuilder {
+  private runner: ProcessRunner
+  private pushPlanner: PushPlanner
+
+  constructor(workspaceFolder?: string) {
+    this.runner = new ProcessRunner({ cwd: workspaceFolder })
+    this.pushPlanner = new PushPlanner({ cwd: workspaceFolder })
+  }
+
+  /**
+   * Collect the unpushed commits of the current branch and their combined diff
+   */
+  async collect(): Promise<ReviewReport> {
+    const branch = await this.runner.git(['branch', '--show-current'])
+    const upstream = branch ? await this.pushPlanner.remoteTrackingRef(branch) : null
+    const range = upstream ? [`${upstream}..HEAD`] : ['HEAD', '--not', '--remotes']
+
+    const commits = (
+      await this.runner.git(['log', '--reverse', '--format=%H%x09%an%x09%aI%x09%s', ...range])
+    )
+      .split('\n')
+      .filter((line) => line)
+      .map((line) => {
+        const [hash, author, date, ...subject] = line.split('\t')
+        return { hash, author, date, subject: subject.join('\t') }
+      })
+
+    let base: string | null = upstream
+    if (!base && commits.length > 0) {
+      base =
+        (await this.runner.tryGit(['rev-parse', '--verify', '--quiet', `${commits[0].hash}^`])) ||
+        EMPTY_TREE
+    }
+
+    return {
+      branch,
+      base: base === EMPTY_TREE ? '(root)' : base,
+      generatedAt: new Date().toISOString(),
+      commits,
+      files: base ? await this.collectFiles(base) : [],
+    }
+  }
+
+  /**
+   * Reviewer name for the decision (git `user.name`, falling back to the OS user)
+   */
+  async reviewer(): Promise<string> {
+    return (await this.runner.tryGit(['config', 'user.name'])) || process.env.USER || 'unknown'
+  }
+
+  private async collectFiles(base: string): Promise<ReviewReportFile[]> {
+    // -z keeps unusual paths unquoted: <added>\t<deleted>\t<path>\0
+    const records = (
+      await this.runner.git(['diff', '--no-renames', '--numstat', '-z', base, 'HEAD'])
+    )
+      .split('\0')
+      .filter((record) => record)
+
+    const files: ReviewReportFile[] = []
+    for (const record of records) {
+      const [additions, deletions, ...file] = record.split('\t')
+      const name = file.join('\t')
+      files.push({
+        file: name,
+        diff: await this.runner.git(['diff', '--no-renames', base, 'HEAD', '--', name]),
+        additions: additions === '-' ? null : parseInt(additions, 10),
+        deletions: deletions === '-' ? null : parseInt(deletions, 10),
+      })
+    }
+    return files
+  }
+}
+
+/**
+ * Write the report, creating parent directories as needed
+ * @returns The format that was written
+ */
+export function writeReviewReport(report: ReviewReport, filePath: string): ReviewReportFormat {
+  const format = reportFormatFor(filePath)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(
+    filePath,
+    format === 'html' ? renderHtmlReport(report) : renderMarkdownReport(report),
+  )
+  return format
+}
+
+function totals(report: ReviewReport): { additions: number; deletions: number } {
+  return report.files.reduce(
+    (sum, file) => ({
+      additions: sum.additions + (file.additions ?? 0),
+      deletions: sum.deletions + (file.deletions ?? 0),
+    }),
+    { additions: 0, deletions: 0 },
+  )
+}
+
+function describeDecision(report: ReviewReport): string {
+  if (!report.decision) {
+    return 'Pending'
+  }
+  const { decision, decidedAt, reviewer, outcome } = report.decision
+  return `${DECISION_LABELS[decision]} by ${reviewer} at ${decidedAt}${outcome ? ` - ${outcome}` : ''}`
+}
+
+function describeFileStats(file: ReviewReportFile): string {
+  return file.additions === null ? 'binary' : `+${file.additions} -${file.deletions}`
+}
+
+export function renderMarkdownReport(report: ReviewReport): string {
+  const { additions, deletions } = totals(report)
+  const cell = (text: string) => text.replace(/\|/g, '\\|')
+  const lines = [
+    `# Review: ${report.branch}`,
+    '',
+    `- **Generated:** ${report.generatedAt}`,
+    `- **Base:** ${report.base ?? '-'}`,
+    `- **Decision:** ${describeDecision(report)}`,
+    '',
+    '## Summary',
+    '',
+    '| Commits | Files changed | Additions | Deletions |',
+    '|---------|---------------|-----------|-----------|',
+    `| ${report.commits.length} | ${report.files.length} | +${additions} | -${deletions} |`,
+    '',
+    '## Commits',
+    '',
+  ]
+
+  if (report.commits.length === 0) {
+    lines.push('No unpushed commits.')
+  } else {
+    lines.push('| Hash | Subject | Author | Date |', '|------|---------|--------|------|')
+    report.commits.forEach((commit) =>
+      lines.push(
+        `| \`${commit.hash.substring(0, 8)}\` | ${cell(commit.subject)} | ${cell(commit.author)} | ${commit.date} |`,
+      ),
+    )
+  }
+
+  lines.push('', '## Changes')
+  report.files.forEach((file) => {
+    // The fence has to be longer than any backtick run inside the diff
+    const longestRun = Math.max(0, ...(file.diff.match(/`+/g) || []).map((run) => run.length))
+    const fence = '`'.repeat(Math.max(3, longestRun + 1))
+    lines.push('', `### \`${file.file}\` (${describeFileStats(file)})`, '')
+    lines.push(`${fence}diff`, file.diff, fence)
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+export function renderHtmlReport(report: ReviewReport): string {
+  const { additions, deletions } = totals(report)
+
+  const commitRows = report.commits
+    .map(
+      (commit) =>
+        `<tr><td><code>${escapeHtml(commit.hash.substring(0, 8))}</code></td><td>${escapeHtml(commit.subject)}</td><td>${escapeHtml(commit.author)}</td><td>${escapeHtml(commit.date)}</td></tr>`,
+    )
+    .join('\n')
+
+  const fileSections = report.files
+    .map((file) => {
+      const syntax = SYNTAX_BY_EXTENSION[path.extname(file.file).toLowerCase()]
+      const diffLines = file.diff
+        .split('\n')
+        .map((line) => {
+          const lineClass = diffLineClass(line)
+          // Code lines keep their +/-/space prefix uncolored
+          const content =
+            syntax && ['add', 'del', 'ctx'].includes(lineClass)
+              ? escapeHtml(line.charAt(0)) + highlightCode(line.slice(1), syntax)
+              : escapeHtml(line)
+          return `<span class="${lineClass}">${content}</span>`
+        })
+        .join('\n')
+      return `<section>\n<h3><code>${escapeHtml(file.file)}</code> <small>${describeFileStats(file)}</small></h3>\n<pre class="diff">${diffLines}</pre>\n</section>`
+    })
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Review: ${escapeHtml(report.branch)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2em auto; max-width: 1100px; color: #24292f; }
+table { border-collapse: collapse; margin-bottom: 1em; }
+th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; }
+pre.diff { background: #f6f8fa; padding: 8px; overflow-x: auto; font-size: 12px; }
+pre.diff > span { display: block; white-space: pre; }
+.add { background: #e6ffec; color: #116329; }
+.del { background: #ffebe9; color: #82071e; }
+.hunk { color: #0550ae; }
+.meta { color: #6e7781; }
+.tok-kw { color: #cf222e; }
+.tok-str { color: #0a3069; }
+.tok-num { color: #0550ae; }
+.tok-com { color: #6e7781; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>Review: ${escapeHtml(report.branch)}</h1>
+<ul>
+<li><strong>Generated:</strong> ${escapeHtml(report.generatedAt)}</li>
+<li><strong>Base:</strong> ${escapeHtml(report.base ?? '-')}</li>
+<li><strong>Decision:</strong> ${escapeHtml(describeDecision(report))}</li>
+</ul>
+<h2>Summary</h2>
+<table>
+<tr><th>Commits</th><th>Files changed</th><th>Additions</th><th>Deletions</th></tr>
+<tr><td>${report.commits.length}</td><td>${report.files.length}</td><td>+${additions}</td><td>-${deletions}</td></tr>
+</table>
+<h2>Commits</h2>
+${report.commits.length === 0 ? '<p>No unpushed commits.</p>' : `<table>\n<tr><th>Hash</th><th>Subject</th><th>Author</th><th>Date</th></tr>\n${commitRows}\n</table>`}
+<h2>Changes</h2>
+${fileSections}
+</body>
+</html>
+`
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) {
+    return 'meta'
+  }
+  if (line.startsWith('@@')) {
+    return 'hunk'
+  }
+  if (line.startsWith('+')) {
+    return 'add'
+  }
+  if (line.startsWith('-')) {
+    return 'del'
+  }
+  return /^(index|new file|deleted file|similarity|rename|Binary|\\)/.test(line) ? 'meta' : 'ctx'
+}
+
+/**
+ * Color the comments, strings, numbers and keywords of one line of code. Each line is colored on
+ * its own, so strings and comments spanning lines are only colored on their first line.
+ */
+function highlightCode(code: string, syntax: SyntaxRules): string {
+  const comment = syntax.comment === '//' ? '//.*' : syntax.comment === '#' ? '#.*' : null
+  const tokenClasses: string[] = []
+  const alternatives: string[] = []
+  if (comment) {
+    tokenClasses.push('tok-com')
+    alternatives.push(comment)
+  }
+  tokenClasses.push('tok-str', 'tok-num', 'tok-kw')
+  alternatives.push(STRING_PATTERN, NUMBER_PATTERN, `\\b(?:${syntax.keywords.join('|')})\\b`)
+  const pattern = new RegExp(alternatives.map((alternative) => `(${alternative})`).join('|'), 'g')
+
+  let html = ''
+  let last = 0
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0
+    const group = match.slice(1).findIndex((text) => text !== undefined)
+    html += `${escapeHtml(code.slice(last, index))}<span class="${tokenClasses[group]}">${escapeHtml(match[0])}</span>`
+    last = index + match[0].length
+  }
+  return html + escapeHtml(code.slice(last))
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -1,5 +1,7 @@
 import { ClaudeTermIDEServer } from './ide-server'
 import { FileInfo } from './file-discovery'
+import { GitCommandManager } from './git-command-manager'
+import { GitCommandMapper } from './git-command-mapping'
 
 describe('Tab Completion', () => {
   let server: ClaudeTermIDEServer
@@ -136,6 +138,64 @@ describe('Tab Completion', () => {
     })
   })
 
+  describe('git argument completion', () => {
+    const internals = () =>
+      server as unknown as {
+        gitCommandMapper: GitCommandMapper
+        completeCommand: (line: string) => [string[], string]
+      }
+
+    beforeEach(async () => {
+      jest.spyOn(GitCommandManager.prototype, 'getBranches').mockResolvedValue({
+        local: ['main', 'feature/parser'],
+        remote: [],
+        current: 'main',
+      })
+      jest.spyOn(GitCommandManager.prototype, 'getStashes').mockResolvedValue([])
+      await internals().gitCommandMapper.refreshCompletions()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should complete branch names after /gco', () => {
+      const [completions] = internals().completeCommand('/gco fe')
+
+      expect(completions).toEqual(['/gco feature/parser'])
+    })
+
+    it('should offer nothing when no branch matches', () => {
+      const [completions] = internals().completeCommand('/gco nope')
+
+      expect(completions).toEqual([])
+    })
+
+    it('should complete files after /grs --staged', () => {
+      const [completions] = internals().completeCommand('/grs --staged package')
+
+      expect(completions).toEqual(['/grs --staged package.json'])
+    })
+
+    it('should complete files after /blame', () => {
+      const [completions] = internals().completeCommand('/blame package')
+
+      expect(completions).toEqual(['/blame package.json'])
+    })
+
+    it('should complete files after /send-diff --staged', () => {
+      const [completions] = internals().completeCommand('/send-diff --staged package')
+
+      expect(completions).toEqual(['/send-diff --staged package.json'])
+    })
+
+    it('should complete files after /conflicts', () => {
+      const [completions] = internals().completeCommand('/conflicts package')
+
+      expect(completions).toEqual(['/conflicts package.json'])
+    })
+  })
+
   describe('getFileCompletionsSync', () => {
     it('should return filename prefix matches only', () => {
       const completions = (server as any).getFileCompletionsSync('user')
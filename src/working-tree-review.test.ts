@@ -0,0 +1,144 @@
+import { execSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { GitCommandManager } from './git-command-manager.js'
+import { GitReviewManager } from './git-review.js'
+import { WorkingTreeReviewManager, parseFileDecision } from './working-tree-review.js'
+
+describe('parseFileDecision', () => {
+  it('should accept keys and full names, and keep on Enter', () => {
+    expect(parseFileDecision('s')).toBe('stage')
+    expect(parseFileDecision('Discard')).toBe('discard')
+    expect(parseFileDecision('')).toBe('keep')
+    expect(parseFileDecision('v')).toBe('view')
+    expect(parseFileDecision('x')).toBeNull()
+  })
+})
+
+describe('WorkingTreeReviewManager', () => {
+  let repo: string
+  let review: GitReviewManager
+  let manager: WorkingTreeReviewManager
+
+  const git = (command: string) =>
+    execSync(`git ${command}`, {
+      cwd: repo,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim()
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true })
+    fs.writeFileSync(path.join(repo, file), content)
+  }
+
+  const answers = (...values: Array<string | null>) => {
+    const queue = [...values]
+    return jest.fn(() => Promise.resolve(queue.length > 0 ? (queue.shift() as string | null) : ''))
+  }
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-term-worktree-'))
+    git('init -q -b main')
+    git('config user.email test@example.com')
+    git('config user.name Test')
+    write('a.txt', 'a\n')
+    write('b.txt', 'b\n')
+    git('add .')
+    git('commit -q -m Initial')
+
+    review = new GitReviewManager()
+    jest.spyOn(review, 'displayInPager').mockResolvedValue(undefined)
+    jest.spyOn(review, 'formatDiffWithDelta').mockImplementation((diff) => Promise.resolve(diff))
+    jest.spyOn(console, 'log').mockImplementation()
+    manager = new WorkingTreeReviewManager(new GitCommandManager(repo), review)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  it('should group staged, unstaged and untracked changes per file', async () => {
+    write('a.txt', 'a staged\n')
+    git('add a.txt')
+    write('a.txt', 'a staged and edited\n')
+    write('new/c.txt', 'c\n')
+
+    const { files } = await manager.collectFiles()
+
+    expect(files.map((file) => [file.path, file.stagedStatus, file.unstagedStatus])).toEqual([
+      ['a.txt', 'M', 'M'],
+      ['new/c.txt', undefined, '?'],
+    ])
+    expect(files[0].stagedDiff).toContain('+a staged')
+    expect(files[0].unstagedDiff).toContain('+a staged and edited')
+    expect(files[1].unstagedDiff).toContain('+c')
+
+    const content = await manager.formatReview(files)
+    expect(content).toContain('📁 a.txt (M staged, M unstaged)')
+    expect(content).toContain('🆕 Untracked:')
+  })
+
+  it('should stage, discard and keep files, then commit with the given message', async () => {
+    write('a.txt', 'a changed\n')
+    write('b.txt', 'b changed\n')
+    write('c.txt', 'c\n')
+
+    const result = await manager.reviewWorkingTree(answers('s', 'd', 'y', 'k', 'Update a'))
+
+    expect(result).toMatchObject({
+      success: true,
+      cancelled: false,
+      staged: ['a.txt'],
+      discarded: ['b.txt'],
+      kept: ['c.txt'],
+    })
+    expect(result.commitHash).toBeTruthy()
+    expect(git('log -1 --format=%s')).toBe('Update a')
+    expect(fs.readFileSync(path.join(repo, 'b.txt'), 'utf8')).toBe('b\n')
+    expect(git('status --porcelain')).toBe('?? c.txt')
+  })
+
+  it('should use the suggested commit message on Enter', async () => {
+    write('a.txt', 'a changed\n')
+
+    await manager.reviewWorkingTree(answers('s', ''), { suggestedMessage: 'Suggested' })
+
+    expect(git('log -1 --format=%s')).toBe('Suggested')
+  })
+
+  it('should ask again when the message is not a Conventional Commit', async () => {
+    write('a.txt', 'a changed\n')
+    manager = new WorkingTreeReviewManager(new GitCommandManager(repo), review, { scopes: ['a'] })
+
+    const ask = answers('s', '', 'fix(b): update a', 'fix(a): update a')
+
+    await manager.reviewWorkingTree(ask, { suggestedMessage: 'Update a' })
+
+    expect(ask).toHaveBeenCalledTimes(4)
+    expect(git('log -1 --format=%s')).toBe('fix(a): update a')
+  })
+
+  it('should delete untracked files and drop newly added ones on discard', async () => {
+    write('c.txt', 'c\n')
+    write('d.txt', 'd\n')
+    git('add d.txt')
+
+    const result = await manager.reviewWorkingTree(answers('d', 'y', 'd', 'y'))
+
+    expect(result.discarded).toEqual(['d.txt', 'c.txt'])
+    expect(git('status --porcelain')).toBe('')
+  })
+
+  it('should report the decisions made before a cancelled prompt', async () => {
+    write('a.txt', 'a changed\n')
+    write('b.txt', 'b changed\n')
+
+    const result = await manager.reviewWorkingTree(answers('s', null))
+
+    expect(result).toMatchObject({ success: false, cancelled: true, staged: ['a.txt'] })
+    expect(git('diff --cached --name-only')).toBe('a.txt')
+  })
+})
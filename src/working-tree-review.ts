@@ -0,0 +1,317 @@
+// working-tree-review.ts - Review uncommitted changes file by file before they are committed
+
+import { GitCommandManager } from './git-command-manager.js'
+import { GitReviewManager } from './git-review.js'
+import { AskFunction } from './git-push.js'
+import { CommitLintOptions, lintCommitMessage } from './commit-message.js'
+
+/**
+ * - `stage`: add the file's changes to the index
+ * - `discard`: throw away the file's changes (deletes untracked files)
+ * - `keep`: leave the file as it is
+ */
+export type FileReviewDecision = 'stage' | 'discard' | 'keep'
+
+export interface WorkingTreeFile {
+  path: string
+  /** Previous path of a renamed file */
+  originalPath?: string
+  /** Status code of the staged change (M, A, D, R...) */
+  stagedStatus?: string
+  /** Status code of the unstaged change, '?' for untracked files */
+  unstagedStatus?: string
+  stagedDiff: string
+  unstagedDiff: string
+}
+
+export interface WorkingTreeReviewOptions {
+  /** Commit message Claude suggests; the user can use it, replace it or skip committing */
+  suggestedMessage?: string
+}
+
+export interface WorkingTreeReviewResult {
+  success: boolean
+  message: string
+  /** A prompt was cancelled; decisions made before that stay applied */
+  cancelled: boolean
+  staged: string[]
+  discarded: string[]
+  kept: string[]
+  /** Unmerged files, which are left alone */
+  conflicted: string[]
+  commitHash?: string
+}
+
+const DECISION_KEYS: Record<FileReviewDecision, string> = {
+  stage: 's',
+  discard: 'd',
+  keep: 'k',
+}
+
+/**
+ * Parse a file decision answer (key or full name, Enter keeps the file)
+ * @returns 'view' to show the file's diff again, null if it names no decision
+ */
+export function parseFileDecision(answer: string): FileReviewDecision | 'view' | null {
+  const normalized = answer.trim().toLowerCase()
+  if (normalized === '') {
+    return 'keep'
+  }
+  if (normalized === 'v' || normalized === 'view') {
+    return 'view'
+  }
+  const decisions = Object.keys(DECISION_KEYS) as FileReviewDecision[]
+  return (
+    decisions.find(
+      (decision) => normalized === decision || normalized === DECISION_KEYS[decision],
+    ) || null
+  )
+}
+
+export class WorkingTreeReviewManager {
+  constructor(
+    private git: GitCommandManager,
+    private review: GitReviewManager,
+    /** Conventional Commits settings; commit messages are not checked when unset */
+    private commitLint?: CommitLintOptions,
+  ) {}
+
+  /**
+   * Staged and unstaged changes grouped per file, in status order
+   */
+  async collectFiles(): Promise<{ files: WorkingTreeFile[]; conflicted: string[] }> {
+    const details = await this.git.getStatusDetails('all')
+    const files = new Map<string, WorkingTreeFile>()
+    const fileFor = (path: string) => {
+      let file = files.get(path)
+      if (!file) {
+        file = { path, stagedDiff: '', unstagedDiff: '' }
+        files.set(path, file)
+      }
+      return file
+    }
+
+    for (const entry of details.staged) {
+      const file = fileFor(entry.path)
+      file.stagedStatus = entry.status
+      file.originalPath = entry.originalPath
+      file.stagedDiff = await this.git.getDiff(entry.path, true)
+    }
+    for (const entry of details.unstaged) {
+      const file = fileFor(entry.path)
+      file.unstagedStatus = entry.status
+      file.unstagedDiff = await this.git.getDiff(entry.path)
+    }
+    for (const entry of details.untracked) {
+      const file = fileFor(entry.path)
+      file.unstagedStatus = '?'
+      file.unstagedDiff = await this.git.getUntrackedDiff(entry.path)
+    }
+
+    return {
+      files: [...files.values()],
+      conflicted: details.conflicted.map((entry) => entry.path),
+    }
+  }
+
+  /**
+   * Pager content for the given files: each file with its staged and unstaged diff
+   */
+  async formatReview(files: WorkingTreeFile[]): Promise<string> {
+    let content = ''
+    content += `🔍 Reviewing uncommitted changes...\n`
+    content += `${'═'.repeat(50)}\n\n`
+    content += `📝 ${files.length} changed file${files.length > 1 ? 's' : ''}\n\n`
+
+    for (const file of files) {
+      content += `📁 ${describeFile(file)}\n`
+      content += `${'─'.repeat(50)}\n`
+      if (file.stagedDiff) {
+        content += `📦 Staged:\n${await this.review.formatDiffWithDelta(file.stagedDiff)}\n`
+      }
+      if (file.unstagedDiff) {
+        const label = file.unstagedStatus === '?' ? '🆕 Untracked' : '✏️  Unstaged'
+        content += `${label}:\n${await this.review.formatDiffWithDelta(file.unstagedDiff)}\n`
+      }
+      content += `${'─'.repeat(50)}\n\n`
+    }
+
+    return content
+  }
+
+  /**
+   * Show the changes in the pager, ask what to do with each file, then offer to commit
+   * whatever is staged
+   * @param ask - Terminal prompt to use
+   */
+  async reviewWorkingTree(
+    ask: AskFunction,
+    options: WorkingTreeReviewOptions = {},
+  ): Promise<WorkingTreeReviewResult> {
+    const { files, conflicted } = await this.collectFiles()
+    const result: WorkingTreeReviewResult = {
+      success: true,
+      message: '',
+      cancelled: false,
+      staged: [],
+      discarded: [],
+      kept: [],
+      conflicted,
+    }
+
+    if (conflicted.length > 0) {
+      console.log(`⚠️  Skipping ${conflicted.length} conflicted file(s): ${conflicted.join(', ')}`)
+    }
+    if (files.length === 0) {
+      result.message = 'No uncommitted changes to review'
+      return result
+    }
+
+    await this.review.displayInPager(await this.formatReview(files), '🔍 WORKING TREE REVIEW')
+
+    for (const [index, file] of files.entries()) {
+      const decision = await this.askFileDecision(file, `${index + 1}/${files.length}`, ask)
+      if (decision === null) {
+        return cancelled(result)
+      }
+
+      if (decision === 'keep') {
+        result.kept.push(file.path)
+        continue
+      }
+
+      const outcome =
+        decision === 'stage'
+          ? await this.git.addFiles([file.path])
+          : await this.git.discardChanges(file.path, file.originalPath)
+      if (outcome.success) {
+        console.log(`✅ ${decision === 'stage' ? 'Staged' : 'Discarded'} ${file.path}`)
+        result[decision === 'stage' ? 'staged' : 'discarded'].push(file.path)
+      } else {
+        console.error(`❌ ${outcome.message}`)
+        result.kept.push(file.path)
+      }
+    }
+
+    const status = await this.git.getStatus()
+    if (status.staged.length > 0) {
+      const message = await this.askCommitMessage(status.staged.length, ask, options)
+      if (message === null) {
+        return cancelled(result)
+      }
+      if (message) {
+        const commit = await this.git.createCommit(message)
+        if (!commit.success) {
+          return { ...result, success: false, message: commit.message }
+        }
+        console.log(`✅ ${commit.message}${commit.hash ? ` (${commit.hash})` : ''}`)
+        result.commitHash = commit.hash
+      }
+    }
+
+    result.message = summarizeReview(result)
+    return result
+  }
+
+  private async askFileDecision(
+    file: WorkingTreeFile,
+    position: string,
+    ask: AskFunction,
+  ): Promise<FileReviewDecision | null> {
+    for (;;) {
+      const answer = await ask(
+        `\n❓ [${position}] ${describeFile(file)}: (s) stage / (d) discard / (k) keep / (v) view diff (Enter keeps): `,
+      )
+      if (answer === null) {
+        return null
+      }
+
+      const decision = parseFileDecision(answer)
+      if (decision === 'view') {
+        await this.review.displayInPager(await this.formatReview([file]), `🔍 ${file.path}`)
+        continue
+      }
+      if (!decision) {
+        console.log('❌ Invalid choice. Please enter s, d, k or v.')
+        continue
+      }
+      if (decision !== 'discard') {
+        return decision
+      }
+
+      const confirm = await ask(
+        `⚠️  Discard all changes to ${file.path}? This cannot be undone (y/n): `,
+      )
+      if (confirm === null) {
+        return null
+      }
+      if (confirm.toLowerCase() === 'y' || confirm.toLowerCase() === 'yes') {
+        return decision
+      }
+    }
+  }
+
+  /**
+   * @returns The message, '' to leave the changes staged, or null when cancelled
+   */
+  private async askCommitMessage(
+    stagedCount: number,
+    ask: AskFunction,
+    options: WorkingTreeReviewOptions,
+  ): Promise<string | null> {
+    const suggested = options.suggestedMessage?.trim()
+    if (suggested) {
+      console.log(`\n💡 Suggested commit message:\n  ${suggested.split('\n').join('\n  ')}`)
+    }
+    for (;;) {
+      const answer = await ask(
+        suggested
+          ? `📝 Commit ${stagedCount} staged file(s)? (Enter uses the suggestion, type a new message, or - to skip): `
+          : `📝 Commit message for ${stagedCount} staged file(s) (Enter to skip): `,
+      )
+      if (answer === null) {
+        return null
+      }
+      if (answer === '-') {
+        return ''
+      }
+
+      const message = answer || suggested || ''
+      const lint = message && this.commitLint ? lintCommitMessage(message, this.commitLint) : null
+      if (!lint || lint.valid) {
+        return message
+      }
+      console.log('❌ Commit message does not follow Conventional Commits:')
+      lint.errors.forEach((error) => console.log(`  • ${error}`))
+    }
+  }
+}
+
+function describeFile(file: WorkingTreeFile): string {
+  const codes = [
+    file.stagedStatus ? `${file.stagedStatus} staged` : '',
+    file.unstagedStatus === '?' ? 'untracked' : '',
+    file.unstagedStatus && file.unstagedStatus !== '?' ? `${file.unstagedStatus} unstaged` : '',
+  ].filter((code) => code)
+  const name = file.originalPath ? `${file.originalPath} -> ${file.path}` : file.path
+  return `${name} (${codes.join(', ')})`
+}
+
+function cancelled(result: WorkingTreeReviewResult): WorkingTreeReviewResult {
+  return {
+    ...result,
+    success: false,
+    cancelled: true,
+    message: `Review cancelled - ${summarizeReview(result)}`,
+  }
+}
+
+function summarizeReview(result: WorkingTreeReviewResult): string {
+  const parts = [
+    result.staged.length > 0 ? `staged ${result.staged.length}` : '',
+    result.discarded.length > 0 ? `discarded ${result.discarded.length}` : '',
+    result.kept.length > 0 ? `kept ${result.kept.length}` : '',
+  ].filter((part) => part)
+  const summary = parts.length > 0 ? `Reviewed files: ${parts.join(', ')}` : 'No files changed'
+  return result.commitHash ? `${summary}; committed ${result.commitHash}` : summary
+}